@@ -1,7 +1,16 @@
 'use client';
 
 import React, { useState, useEffect, useCallback } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import {
+  DEFAULT_IMAGE_PRICE,
+  fetchReceivedPhotos,
+  fetchPurchasedImageIds,
+  fetchCurrentImagePrice,
+  fetchTransactionStatus,
+  deleteImage as removeImage,
+} from '@/lib/repositories/images';
+import { displayName, getProfileMap } from '@/lib/repositories/profiles';
 import { 
   X, 
   Check, 
@@ -17,12 +26,6 @@ import {
   Square
 } from 'lucide-react';
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
 // Types
 interface ImageData {
   id: string;
@@ -60,131 +63,34 @@ const imageService = {
   async loadImages(userId: string) {
     this.isLoading = true;
     try {
-      let imagesData: any[] = [];
-      let loaded = false;
-
-      // Try user_images table first
-      const { data: userImagesData, error: userImagesError } = await supabase
-        .from('user_images')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (!userImagesError && userImagesData) {
-        imagesData = userImagesData;
-        loaded = true;
-      }
+      // Only images actually sent to this user as recipient
+      const photos = await fetchReceivedPhotos(userId);
+      const images = photos.flatMap(photo => photo.images.map(image => ({ image, photo })));
 
-      // If not found, try collections table
-      if (!loaded) {
-        const { data: collectionsData, error: collectionsError } = await supabase
-          .from('collections')
-          .select('*')
-          .eq('user_id', userId)
-          .order('created_at', { ascending: false });
-
-        if (!collectionsError && collectionsData) {
-          imagesData = collectionsData;
-          loaded = true;
-        }
-      }
-
-      // If still not found, try marketplace_images table
-      if (!loaded) {
-        const { data: marketplaceData, error: marketplaceError } = await supabase
-          .from('marketplace_images')
-          .select('*')
-          .eq('user_id', userId)
-          .order('created_at', { ascending: false });
-
-        if (!marketplaceError && marketplaceData) {
-          imagesData = marketplaceData;
-          loaded = true;
-        }
-      }
+      const [purchased, senders] = await Promise.all([
+        fetchPurchasedImageIds(userId, images.map(({ image }) => image.id)),
+        getProfileMap(photos.map(photo => photo.sender_id)),
+      ]);
 
-      // If still not found, try to get images from user_purchases or user_collections
-      if (!loaded) {
-        // First try to fetch from photos -> images relationship (per provided schema)
-        try {
-          const { data: photosWithImages, error: photosError } = await supabase
-            .from('photos')
-            .select('*, images(*)')
-            .or(`sender_id.eq.${userId},recipient_id.eq.${userId}`);
-
-          if (!photosError && photosWithImages && photosWithImages.length > 0) {
-            // Flatten images and attach collection metadata
-            const flattened: any[] = [];
-            photosWithImages.forEach((photo: any) => {
-              const imgs = photo.images || [];
-              imgs.forEach((img: any) => {
-                flattened.push({
-                  ...img,
-                  collection_title: photo.title || photo.description || undefined,
-                  sender_id: photo.sender_id,
-                  recipient_id: photo.recipient_id,
-                  status: img.status || 'unpaid'
-                });
-              });
-            });
-
-            if (flattened.length > 0) {
-              imagesData = flattened;
-              loaded = true;
-            }
-          }
-        } catch (err) {
-          console.error('Error fetching photos/images:', err);
-        }
-
-        // If still not found, check if user has purchased images
-        if (!loaded) {
-          const { data: purchasesData, error: purchasesError } = await supabase
-            .from('user_purchases')
-            .select('*, image:image_id(*)')
-            .eq('user_id', userId);
-
-          if (!purchasesError && purchasesData && purchasesData.length > 0) {
-            // Map purchased images
-            imagesData = purchasesData
-              .filter((p: any) => p.image)
-              .map((p: any) => ({ ...p.image, status: 'paid', purchase_id: p.id }));
-            loaded = true;
-          }
-        }
-      }
+      this.unpaidImages = [];
+      this.paidImages = [];
 
-      // If we have images, check payment status from purchases table
-      if (imagesData.length > 0) {
-        const { data: purchases, error: purchasesError } = await supabase
-          .from('user_purchases')
-          .select('image_id, status')
-          .eq('user_id', userId)
-          .in('image_id', imagesData.map(img => img.id));
-
-        if (!purchasesError && purchases) {
-          const purchaseMap = new Map(
-            purchases.map(p => [p.image_id, p.status === 'completed' || p.status === 'paid'])
-          );
-          
-          // Update image status based on purchases
-          imagesData = imagesData.map(img => ({
-            ...img,
-            status: purchaseMap.get(img.id) ? 'paid' : (img.status || 'unpaid')
-          }));
+      images.forEach(({ image, photo }) => {
+        const imageData: ImageData = {
+          id: image.id,
+          image_url: image.image_url,
+          status: image.status === 'paid' || purchased.has(image.id) ? 'paid' : 'unpaid',
+          collection_title: photo.title || photo.description || undefined,
+          sender_name: displayName(senders.get(photo.sender_id), '') || undefined,
+          file_name: image.file_name || undefined
+        };
+
+        if (imageData.status === 'paid') {
+          this.paidImages.push(imageData);
+        } else {
+          this.unpaidImages.push(imageData);
         }
-      }
-
-      // Ensure only images actually sent to this user (as recipient) or images purchased by them
-      imagesData = imagesData.filter(img => {
-        if (img.recipient_id && img.recipient_id === userId) return true;
-        if ((img.recipient && img.recipient === userId) || (img.recipientId && img.recipientId === userId)) return true;
-        if (img.purchase_id) return true; // purchased images should be included
-        return false;
       });
-
-      // Process the loaded images
-      this.processImages(imagesData);
     } catch (err) {
       console.error('Error loading images:', err);
       this.unpaidImages = [];
@@ -192,80 +98,34 @@ const imageService = {
     } finally {
       this.isLoading = false;
     }
-  },
-
-  processImages(images: any[]) {
-    this.unpaidImages = [];
-    this.paidImages = [];
-
-    images.forEach((img) => {
-      const imageData: ImageData = {
-        id: img.id,
-        image_url: img.image_url || img.imageUrl || img.url || '',
-        status: img.status === 'paid' || img.is_paid || img.payment_status === 'completed' ? 'paid' : 'unpaid',
-        collection_title: img.collection_title || img.title || img.name || undefined,
-        sender_name: img.sender_name || img.sender || img.photographer_name || undefined,
-        file_name: img.file_name || img.filename || undefined
-      };
-
-      if (imageData.status === 'paid') {
-        this.paidImages.push(imageData);
-      } else {
-        this.unpaidImages.push(imageData);
-      }
-    });
   }
 };
 
 const adminPricingHelper = {
-  currentPrice: 100,
+  currentPrice: DEFAULT_IMAGE_PRICE,
   
   async loadCurrentPrice() {
     try {
-      // First, try the picture_prices table (single latest price)
-      const { data: picPrice, error: picPriceError } = await supabase
-        .from('picture_prices')
-        .select('price')
-        .order('updated_at', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (!picPriceError && picPrice && typeof picPrice.price !== 'undefined') {
-        this.currentPrice = Number(picPrice.price) || 100;
-        return;
-      }
-
-      // Try to fetch current price from settings
-      const { data: settings, error } = await supabase
-        .from('settings')
-        .select('image_price, current_price')
-        .eq('key', 'image_price')
-        .single();
-
-      if (!error && settings) {
-        this.currentPrice = settings.image_price || settings.current_price || 100;
-        return;
-      }
-
-      // Try pricing table as a final fallback
-      const { data: pricing, error: pricingError } = await supabase
-        .from('pricing')
-        .select('price')
-        .eq('item_type', 'image')
-        .order('created_at', { ascending: false })
-        .limit(1)
-        .single();
-
-      if (!pricingError && pricing) {
-        this.currentPrice = pricing.price || 100;
-      }
+      this.currentPrice = await fetchCurrentImagePrice();
     } catch (error) {
       console.error('Error loading current price:', error);
-      // Keep default price of 100
+      // Keep the last known price
     }
   }
 };
 
+// How long to wait for the M-Pesa callback before giving up on a prompt
+const PAYMENT_TIMEOUT_MS = Number(process.env.NEXT_PUBLIC_MPESA_PAYMENT_TIMEOUT_MS) || 90000;
+// Fallback poll in case the realtime channel drops
+const PAYMENT_POLL_INTERVAL_MS = 5000;
+
+interface TransactionStatusRow {
+  id: string;
+  status: PaymentStatusUpdate['status'];
+  result_desc?: string | null;
+  mpesa_receipt_number?: string | null;
+}
+
 const paymentManager = {
   isValidPhoneNumber(phone: string) {
     return /^(07|01)\d{8}$/.test(phone);
@@ -275,50 +135,130 @@ const paymentManager = {
     return amount > 0 && amount <= 150000;
   },
   
+  // Route handlers need the caller's access token to attribute the transaction
+  async authHeaders(): Promise<Record<string, string>> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return {
+      'Content-Type': 'application/json',
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {})
+    };
+  },
+
   async initiateImagePayment(params: {
     phoneNumber: string;
     imageIds: string[];
     totalAmount: number;
     transactionDescription: string;
-  }) {
-    // TODO: Replace with actual API call
-    return { success: true, transactionId: 'mock-txn-id', error: null };
+  }): Promise<{ success: boolean; transactionId: string | null; error: string | null }> {
+    try {
+      // The server recalculates the amount from the current price; totalAmount is display-only
+      const response = await fetch('/api/mpesa/stkpush', {
+        method: 'POST',
+        headers: await this.authHeaders(),
+        body: JSON.stringify({
+          phoneNumber: params.phoneNumber,
+          imageIds: params.imageIds,
+          transactionDescription: params.transactionDescription
+        })
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok || !data.success) {
+        return { success: false, transactionId: null, error: data.error || 'Failed to initiate payment' };
+      }
+      return { success: true, transactionId: data.transactionId, error: null };
+    } catch (error) {
+      console.error('Error initiating payment:', error);
+      return { success: false, transactionId: null, error: 'Network error. Please try again.' };
+    }
   },
   
-  cancelTransaction(txnId: string) {
-    // TODO: Implement cancellation
+  async cancelTransaction(txnId: string, reason: 'cancelled' | 'timeout' = 'cancelled') {
+    try {
+      await fetch('/api/mpesa/cancel', {
+        method: 'POST',
+        headers: await this.authHeaders(),
+        body: JSON.stringify({ transactionId: txnId, reason })
+      });
+    } catch (error) {
+      console.error('Error cancelling transaction:', error);
+    }
+  },
+
+  toStatusUpdate(row: TransactionStatusRow): PaymentStatusUpdate {
+    const defaultMessages: Record<PaymentStatusUpdate['status'], string> = {
+      pending: 'Waiting for you to confirm on your phone',
+      completed: 'Payment received',
+      failed: 'Payment failed',
+      timeout: 'The M-Pesa prompt expired before it was confirmed'
+    };
+
+    return {
+      transactionId: row.id,
+      status: row.status,
+      isPending: row.status === 'pending',
+      isCompleted: row.status === 'completed',
+      isFailed: row.status === 'failed' || row.status === 'timeout',
+      message: row.result_desc || defaultMessages[row.status],
+      mpesaReceiptNumber: row.mpesa_receipt_number || undefined
+    };
+  },
+
+  // Follows a transaction row until it settles or times out; returns an unsubscribe function
+  watchTransaction(
+    txnId: string,
+    onUpdate: (update: PaymentStatusUpdate) => void,
+    timeoutMs: number = PAYMENT_TIMEOUT_MS
+  ) {
+    let settled = false;
+
+    const stop = () => {
+      settled = true;
+      clearTimeout(timer);
+      clearInterval(poller);
+      supabase.removeChannel(channel);
+    };
+
+    const handleRow = (row: TransactionStatusRow) => {
+      if (settled) return;
+      const update = this.toStatusUpdate(row);
+      if (!update.isPending) stop();
+      onUpdate(update);
+    };
+
+    const fetchRow = async () => {
+      const data = await fetchTransactionStatus(txnId).catch(() => null);
+      if (data) handleRow(data as TransactionStatusRow);
+    };
+
+    const channel = supabase
+      .channel(`mpesa_transaction_${txnId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'mpesa_transactions', filter: `id=eq.${txnId}` },
+        (payload) => handleRow(payload.new as TransactionStatusRow)
+      )
+      .subscribe();
+
+    const poller = setInterval(fetchRow, PAYMENT_POLL_INTERVAL_MS);
+
+    const timer = setTimeout(() => {
+      if (settled) return;
+      handleRow({ id: txnId, status: 'timeout' });
+      this.cancelTransaction(txnId, 'timeout');
+    }, timeoutMs);
+
+    // The callback may already have landed before the channel subscribed
+    fetchRow();
+
+    return stop;
   }
 };
 
 const deleteService = {
   async deleteImage(imageId: string): Promise<DeleteResult> {
     try {
-      // Try to delete from user_images table
-      const { error: userImagesError } = await supabase
-        .from('user_images')
-        .delete()
-        .eq('id', imageId);
-
-      if (userImagesError) {
-        // Try collections table
-        const { error: collectionsError } = await supabase
-          .from('collections')
-          .delete()
-          .eq('id', imageId);
-
-        if (collectionsError) {
-          // Try marketplace_images table
-          const { error: marketplaceError } = await supabase
-            .from('marketplace_images')
-            .delete()
-            .eq('id', imageId);
-
-          if (marketplaceError) {
-            console.error('Error deleting image:', marketplaceError);
-            return { success: false, successCount: 0, failedCount: 1, error: marketplaceError.message };
-          }
-        }
-      }
+      await removeImage(imageId);
 
       return { success: true, successCount: 1, failedCount: 0 };
     } catch (error: any) {
@@ -389,7 +329,6 @@ export default function Market() {
   const [selectedImages, setSelectedImages] = useState<Set<string>>(new Set());
   const [statusFilter, setStatusFilter] = useState<'all' | 'unpaid' | 'paid'>('all');
   const [senderFilter, setSenderFilter] = useState('all');
-  const [isAdmin, setIsAdmin] = useState(false);
   const [currentPrice, setCurrentPrice] = useState(100);
   const [images, setImages] = useState<ImageData[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -397,6 +336,7 @@ export default function Market() {
   const [deletingImages, setDeletingImages] = useState<Set<string>>(new Set());
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [currentTransactionId, setCurrentTransactionId] = useState<string | null>(null);
+  const [paymentStatus, setPaymentStatus] = useState<PaymentStatusUpdate | null>(null);
   
   // Dialog states
   const [showPaymentDialog, setShowPaymentDialog] = useState(false);
@@ -410,6 +350,11 @@ export default function Market() {
     description: string;
   } | null>(null);
 
+  const showSnackBar = (message: string, type: 'success' | 'error' | 'info' = 'info') => {
+    // TODO: Implement toast notification
+    console.log(`${type.toUpperCase()}: ${message}`);
+  };
+
   useEffect(() => {
     loadUserAndImages();
     loadCurrentPrice();
@@ -435,15 +380,7 @@ export default function Market() {
       // Update state with loaded images
       const allImages = [...imageService.unpaidImages, ...imageService.paidImages];
       setImages(allImages);
-      
-      // Check if user is admin
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('is_admin')
-        .eq('id', user.id)
-        .single();
-      
-      setIsAdmin(profile?.is_admin || false);
+
     } catch (error) {
       console.error('Error loading user and images:', error);
       showSnackBar('Failed to load images', 'error');
@@ -576,6 +513,7 @@ export default function Market() {
       });
 
       if (response.success && response.transactionId) {
+        setPaymentStatus(paymentManager.toStatusUpdate({ id: response.transactionId, status: 'pending' }));
         setCurrentTransactionId(response.transactionId);
         showSnackBar('Payment initiated. Check your phone for M-Pesa prompt.', 'success');
       } else {
@@ -588,6 +526,53 @@ export default function Market() {
     }
   };
 
+  const handlePaymentUpdate = (update: PaymentStatusUpdate) => {
+    setPaymentStatus(update);
+    if (update.isPending) return;
+
+    setIsProcessingPayment(false);
+    setCurrentTransactionId(null);
+
+    if (update.isCompleted) {
+      showSnackBar('Payment successful', 'success');
+      setSelectedImages(new Set());
+      setIsSelectionMode(false);
+      loadImages();
+    } else {
+      showSnackBar(update.message || 'Payment failed', 'error');
+    }
+  };
+
+  const cancelPayment = async () => {
+    if (!currentTransactionId) return;
+
+    const txnId = currentTransactionId;
+    // Clearing the id tears down the watcher
+    setCurrentTransactionId(null);
+    setIsProcessingPayment(false);
+    setPaymentStatus({
+      transactionId: txnId,
+      status: 'failed',
+      isPending: false,
+      isCompleted: false,
+      isFailed: true,
+      message: 'Payment cancelled'
+    });
+    await paymentManager.cancelTransaction(txnId);
+  };
+
+  const closePaymentDialog = () => {
+    setShowPaymentDialog(false);
+    setPaymentStatus(null);
+  };
+
+  // Watch the active transaction until it completes, fails or times out
+  useEffect(() => {
+    if (!currentTransactionId) return;
+    return paymentManager.watchTransaction(currentTransactionId, handlePaymentUpdate);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentTransactionId]);
+
   const getFilteredImages = () => {
     let filtered: ImageData[] = [];
 
@@ -618,11 +603,6 @@ export default function Market() {
     return Array.from(senders);
   };
 
-  const showSnackBar = (message: string, type: 'success' | 'error' | 'info' = 'info') => {
-    // TODO: Implement toast notification
-    console.log(`${type.toUpperCase()}: ${message}`);
-  };
-
   const filteredImages = getFilteredImages();
 
   return (
@@ -743,7 +723,7 @@ export default function Market() {
 
       {/* Payment Dialog */}
       {showPaymentDialog && paymentDetails && (
-        <Dialog onClose={() => !isProcessingPayment && setShowPaymentDialog(false)}>
+        <Dialog onClose={() => !isProcessingPayment && closePaymentDialog()}>
           <div className="text-black">
             <h2 className="text-xl font-bold mb-4">Complete Payment</h2>
             <p className="mb-2">{paymentDetails.description}</p>
@@ -751,7 +731,50 @@ export default function Market() {
               Total: KSH {paymentDetails.totalAmount}
             </p>
             
-            {!isProcessingPayment ? (
+            {paymentStatus?.isCompleted ? (
+              <div className="py-2">
+                <div className="flex items-center gap-3 mb-3">
+                  <div className="w-10 h-10 rounded-full bg-green-100 flex items-center justify-center">
+                    <Check size={22} className="text-green-600" />
+                  </div>
+                  <p className="font-semibold text-black">Payment successful</p>
+                </div>
+                {paymentStatus.mpesaReceiptNumber && (
+                  <p className="text-sm text-black mb-4">
+                    M-Pesa receipt: <span className="font-mono font-semibold">{paymentStatus.mpesaReceiptNumber}</span>
+                  </p>
+                )}
+                <div className="flex justify-end">
+                  <button
+                    onClick={closePaymentDialog}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    Done
+                  </button>
+                </div>
+              </div>
+            ) : paymentStatus?.isFailed ? (
+              <div className="py-2">
+                <p className="font-semibold text-red-600 mb-1">
+                  {paymentStatus.status === 'timeout' ? 'Payment timed out' : 'Payment not completed'}
+                </p>
+                <p className="text-sm text-black mb-4">{paymentStatus.message}</p>
+                <div className="flex gap-2 justify-end">
+                  <button
+                    onClick={closePaymentDialog}
+                    className="px-4 py-2 text-black hover:bg-gray-100 rounded"
+                  >
+                    Close
+                  </button>
+                  <button
+                    onClick={() => setPaymentStatus(null)}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    Try Again
+                  </button>
+                </div>
+              </div>
+            ) : !isProcessingPayment ? (
               <>
                 <label className="block mb-2 text-sm font-medium text-black">
                   Enter your M-Pesa phone number:
@@ -764,7 +787,7 @@ export default function Market() {
                 />
                 <div className="flex gap-2 justify-end">
                   <button
-                    onClick={() => setShowPaymentDialog(false)}
+                    onClick={closePaymentDialog}
                     className="px-4 py-2 text-black hover:bg-gray-100 rounded"
                   >
                     Cancel
@@ -778,12 +801,24 @@ export default function Market() {
                 </div>
               </>
             ) : (
-              <div className="flex items-center gap-4 py-4">
-                <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
-                <div>
-                  <p className="font-medium text-black">Processing payment...</p>
-                  <p className="text-sm text-black">Check your phone for M-Pesa prompt</p>
+              <div className="py-4">
+                <div className="flex items-center gap-4">
+                  <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+                  <div>
+                    <p className="font-medium text-black">Processing payment...</p>
+                    <p className="text-sm text-black">Check your phone for M-Pesa prompt</p>
+                  </div>
                 </div>
+                {currentTransactionId && (
+                  <div className="flex justify-end mt-4">
+                    <button
+                      onClick={cancelPayment}
+                      className="px-4 py-2 text-red-600 hover:bg-red-50 rounded"
+                    >
+                      Cancel Payment
+                    </button>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -1,39 +1,28 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import Image from 'next/image';
-
-interface User {
-  id: string;
-  display_name?: string;
-  username?: string;
-  email?: string;
-  user_type?: string;
-  avatar_url?: string;
-  is_verified?: boolean;
-}
+import { ProfileSummary, listProfiles } from '@/lib/repositories/profiles';
 
 interface SelectedImage {
   file: File;
   preview: string;
 }
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+interface SendImagesProps {
+  initialRecipientId?: string | null;
+}
+
+export default function SendImages({ initialRecipientId = null }: SendImagesProps) {
 
-export default function SendImages() {
-  
   const [searchQuery, setSearchQuery] = useState('');
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [users, setUsers] = useState<User[]>([]);
-  const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
-  const [selectedUser, setSelectedUser] = useState<User | null>(null);
+  const [users, setUsers] = useState<ProfileSummary[]>([]);
+  const [filteredUsers, setFilteredUsers] = useState<ProfileSummary[]>([]);
+  const [selectedUser, setSelectedUser] = useState<ProfileSummary | null>(null);
   const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([]);
   const [isSending, setIsSending] = useState(false);
   const [requirePayment, setRequirePayment] = useState(true);
@@ -59,16 +48,14 @@ export default function SendImages() {
     try {
       const { data: { user: currentUser } } = await supabase.auth.getUser();
       
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, display_name, username, email, user_type, avatar_url, is_verified')
-        .neq('id', currentUser?.id || '')
-        .order('display_name', { ascending: true });
+      const data = await listProfiles({ excludeId: currentUser?.id });
 
-      if (error) throw error;
+      setUsers(data);
+      setFilteredUsers(data);
 
-      setUsers(data || []);
-      setFilteredUsers(data || []);
+      // Preselect a recipient passed in from a profile page
+      const recipient = initialRecipientId && data.find(user => user.id === initialRecipientId);
+      if (recipient) setSelectedUser(recipient);
     } catch (error) {
       showSnackBar(`Failed to load users: ${error}`, true);
     } finally {
@@ -0,0 +1,435 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import { X, Send, CornerDownRight, Edit2, Trash2, MessageCircle } from 'lucide-react';
+import { displayName, getProfilesByIds } from '@/lib/repositories/profiles';
+import {
+  CommentRow,
+  addComment,
+  fetchComments,
+  updateComment,
+  deleteComment as removeComment,
+} from '@/lib/repositories/comments';
+import { useCapabilities } from '@/lib/hooks/use_capabilities';
+
+interface Comment {
+  id: string;
+  postId: string;
+  userId: string;
+  parentId: string | null;
+  content: string;
+  createdAt: string;
+  updatedAt?: string | null;
+  userName: string;
+  avatarUrl?: string;
+  isVerified: boolean;
+}
+
+interface CommentAuthor {
+  userName: string;
+  avatarUrl?: string;
+  isVerified: boolean;
+}
+
+interface CommentSheetProps {
+  postId: string;
+  postOwnerId: string;
+  onClose: () => void;
+  onCountChange?: (count: number) => void;
+}
+
+// Replies deeper than this are rendered at the same indentation
+const MAX_DEPTH = 3;
+const MAX_COMMENT_LENGTH = 1000;
+
+const getTimeAgo = (date: string) => {
+  const diff = Date.now() - new Date(date).getTime();
+  const mins = Math.floor(diff / 60000);
+  const hours = Math.floor(diff / 3600000);
+  const days = Math.floor(diff / 86400000);
+
+  if (mins < 1) return 'Just now';
+  if (hours < 1) return `${mins}m`;
+  if (days < 1) return `${hours}h`;
+  if (days < 7) return `${days}d`;
+  return `${Math.floor(days / 7)}w`;
+};
+
+export default function CommentSheet({ postId, postOwnerId, onClose, onCountChange }: CommentSheetProps) {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const { canModerate } = useCapabilities();
+  const [text, setText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Comment | null>(null);
+  const [editing, setEditing] = useState<Comment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const authorsRef = useRef<Record<string, CommentAuthor>>({});
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Fetch (and cache) author details for a set of user ids
+  const loadAuthors = async (userIds: string[]) => {
+    const missing = [...new Set(userIds)].filter(id => !authorsRef.current[id]);
+    if (missing.length === 0) return;
+
+    let profiles;
+    try {
+      profiles = await getProfilesByIds(missing);
+    } catch (error) {
+      console.error('Error loading comment authors:', error);
+      return;
+    }
+
+    profiles.forEach((profile) => {
+      authorsRef.current[profile.id] = {
+        userName: displayName(profile),
+        avatarUrl: profile.avatar_url || undefined,
+        isVerified: profile.is_verified || false,
+      };
+    });
+  };
+
+  const mapComment = (row: CommentRow): Comment => {
+    const author = authorsRef.current[row.user_id];
+    return {
+      id: row.id,
+      postId: row.post_id,
+      userId: row.user_id,
+      parentId: row.parent_id || null,
+      content: row.content || '',
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+      userName: author?.userName || 'Anonymous',
+      avatarUrl: author?.avatarUrl,
+      isVerified: author?.isVerified || false,
+    };
+  };
+
+  // Removing a comment also removes its replies (the FK cascades server-side)
+  const withoutSubtree = (list: Comment[], rootId: string) => {
+    const removed = new Set([rootId]);
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const c of list) {
+        if (c.parentId && removed.has(c.parentId) && !removed.has(c.id)) {
+          removed.add(c.id);
+          changed = true;
+        }
+      }
+    }
+    return list.filter(c => !removed.has(c.id));
+  };
+
+  useEffect(() => {
+    const init = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      setCurrentUser(user);
+    };
+    init();
+  }, []);
+
+  // Load comments
+  useEffect(() => {
+    const loadComments = async () => {
+      setIsLoading(true);
+      try {
+        const rows = await fetchComments(postId);
+        await loadAuthors(rows.map(c => c.user_id));
+        setComments(rows.map(mapComment));
+      } catch (err) {
+        console.error('Error loading comments:', err);
+        setError('Failed to load comments');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadComments();
+  }, [postId]);
+
+  // Realtime updates
+  useEffect(() => {
+    const channel = supabase
+      .channel(`comments_${postId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'comments', filter: `post_id=eq.${postId}` },
+        async (payload) => {
+          await loadAuthors([payload.new.user_id]);
+          const comment = mapComment(payload.new as CommentRow);
+          setComments(prev => prev.some(c => c.id === comment.id) ? prev : [...prev, comment]);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'comments', filter: `post_id=eq.${postId}` },
+        (payload) => {
+          setComments(prev => prev.map(c =>
+            c.id === payload.new.id
+              ? { ...c, content: payload.new.content, updatedAt: payload.new.updated_at }
+              : c
+          ));
+        }
+      )
+      // Realtime can't filter DELETE events, so ignore ids that aren't ours
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'comments' },
+        (payload) => {
+          const deletedId = (payload.old as { id?: string }).id;
+          if (deletedId) {
+            setComments(prev => prev.some(c => c.id === deletedId) ? withoutSubtree(prev, deletedId) : prev);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [postId]);
+
+  useEffect(() => {
+    if (!isLoading) onCountChange?.(comments.length);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [comments.length, isLoading]);
+
+  // Group replies under their parents
+  const childrenByParent = useMemo(() => {
+    const map: Record<string, Comment[]> = {};
+    const ids = new Set(comments.map(c => c.id));
+    for (const c of comments) {
+      // Orphans (parent not loaded) are shown at the top level
+      const key = c.parentId && ids.has(c.parentId) ? c.parentId : 'root';
+      (map[key] ||= []).push(c);
+    }
+    return map;
+  }, [comments]);
+
+  const canEdit = (comment: Comment) => currentUser?.id === comment.userId;
+  const canDelete = (comment: Comment) =>
+    !!currentUser && (currentUser.id === comment.userId || currentUser.id === postOwnerId || canModerate);
+
+  const startReply = (comment: Comment) => {
+    setEditing(null);
+    setReplyingTo(comment);
+    setText('');
+    inputRef.current?.focus();
+  };
+
+  const startEdit = (comment: Comment) => {
+    setReplyingTo(null);
+    setEditing(comment);
+    setText(comment.content);
+    inputRef.current?.focus();
+  };
+
+  const cancelCompose = () => {
+    setReplyingTo(null);
+    setEditing(null);
+    setText('');
+  };
+
+  const submit = async () => {
+    const content = text.trim();
+    if (!content || isSending) return;
+
+    if (!currentUser) {
+      alert('Please sign in to comment');
+      return;
+    }
+
+    setIsSending(true);
+    setError(null);
+
+    try {
+      if (editing) {
+        const data = await updateComment(editing.id, currentUser.id, content);
+        setComments(prev => prev.map(c =>
+          c.id === data.id ? { ...c, content: data.content, updatedAt: data.updated_at } : c
+        ));
+      } else {
+        const data = await addComment({
+          postId,
+          userId: currentUser.id,
+          parentId: replyingTo?.id || null,
+          content,
+        });
+
+        await loadAuthors([currentUser.id]);
+        const comment = mapComment(data);
+        setComments(prev => prev.some(c => c.id === comment.id) ? prev : [...prev, comment]);
+      }
+
+      cancelCompose();
+    } catch (err) {
+      console.error('Error saving comment:', err);
+      setError(editing ? 'Failed to update comment' : 'Failed to post comment');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const deleteComment = async (comment: Comment) => {
+    if (!confirm('Delete this comment?')) return;
+
+    const previous = comments;
+    setComments(prev => withoutSubtree(prev, comment.id));
+    if (editing?.id === comment.id || replyingTo?.id === comment.id) cancelCompose();
+
+    try {
+      await removeComment(comment.id);
+    } catch (err) {
+      console.error('Error deleting comment:', err);
+      setComments(previous);
+      setError('Failed to delete comment');
+    }
+  };
+
+  const renderComment = (comment: Comment, depth: number) => {
+    const replies = childrenByParent[comment.id] || [];
+    const isEdited = comment.updatedAt && comment.updatedAt !== comment.createdAt;
+
+    return (
+      <div key={comment.id} className={depth > 0 && depth <= MAX_DEPTH ? 'ml-8' : ''}>
+        <div className="flex gap-3 py-2">
+          <div className="w-8 h-8 rounded-full bg-blue-500 flex-shrink-0 flex items-center justify-center text-white text-sm font-bold overflow-hidden">
+            {comment.avatarUrl ? (
+              <img src={comment.avatarUrl} alt="" className="w-full h-full object-cover" />
+            ) : (
+              comment.userName[0]?.toUpperCase()
+            )}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="bg-slate-100 rounded-2xl px-3 py-2">
+              <div className="flex items-center gap-1">
+                <span className="font-semibold text-sm text-slate-800">{comment.userName}</span>
+                {comment.isVerified && (
+                  <svg className="w-3.5 h-3.5 text-blue-500" fill="currentColor" viewBox="0 0 20 20">
+                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" />
+                  </svg>
+                )}
+                {comment.userId === postOwnerId && (
+                  <span className="text-[10px] font-bold text-purple-600 bg-purple-100 px-1.5 rounded">Author</span>
+                )}
+              </div>
+              <p className="text-sm text-slate-700 whitespace-pre-wrap break-words">{comment.content}</p>
+            </div>
+            <div className="flex items-center gap-4 px-3 mt-1 text-xs text-slate-500">
+              <span>{getTimeAgo(comment.createdAt)}{isEdited && ' · edited'}</span>
+              {currentUser && (
+                <button onClick={() => startReply(comment)} className="font-semibold hover:text-slate-700">
+                  Reply
+                </button>
+              )}
+              {canEdit(comment) && (
+                <button onClick={() => startEdit(comment)} className="hover:text-slate-700" aria-label="Edit comment">
+                  <Edit2 size={12} />
+                </button>
+              )}
+              {canDelete(comment) && (
+                <button onClick={() => deleteComment(comment)} className="hover:text-red-600" aria-label="Delete comment">
+                  <Trash2 size={12} />
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {replies.map(reply => renderComment(reply, depth + 1))}
+      </div>
+    );
+  };
+
+  const topLevel = childrenByParent.root || [];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-[60]" onClick={onClose}>
+      <div
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-lg h-[80vh] flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="relative px-4 pt-3 pb-3 border-b border-slate-200">
+          <div className="w-10 h-1 bg-slate-300 rounded-full mx-auto mb-3" />
+          <h2 className="text-center font-semibold text-slate-800">
+            Comments{comments.length > 0 && ` (${comments.length})`}
+          </h2>
+          <button onClick={onClose} className="absolute right-3 top-4 p-2 hover:bg-slate-100 rounded-full">
+            <X size={18} className="text-slate-600" />
+          </button>
+        </div>
+
+        {/* Comment list */}
+        <div className="flex-1 overflow-y-auto px-4 py-2">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
+            </div>
+          ) : topLevel.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-16 text-center">
+              <MessageCircle size={40} className="text-slate-300 mb-3" />
+              <p className="text-slate-600 font-medium">No comments yet</p>
+              <p className="text-sm text-slate-400">Start the conversation.</p>
+            </div>
+          ) : (
+            topLevel.map(comment => renderComment(comment, 0))
+          )}
+        </div>
+
+        {error && (
+          <p className="px-4 py-2 text-sm text-red-600 bg-red-50">{error}</p>
+        )}
+
+        {/* Composer */}
+        <div className="border-t border-slate-200 p-3">
+          {(replyingTo || editing) && (
+            <div className="flex items-center justify-between text-xs text-slate-500 mb-2 px-1">
+              <span className="flex items-center gap-1">
+                {editing ? (
+                  <><Edit2 size={12} /> Editing comment</>
+                ) : (
+                  <><CornerDownRight size={12} /> Replying to <span className="font-semibold">@{replyingTo?.userName}</span></>
+                )}
+              </span>
+              <button onClick={cancelCompose} className="hover:text-slate-700">Cancel</button>
+            </div>
+          )}
+          <div className="flex items-end gap-2">
+            <textarea
+              ref={inputRef}
+              value={text}
+              onChange={e => setText(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  submit();
+                }
+              }}
+              maxLength={MAX_COMMENT_LENGTH}
+              rows={1}
+              disabled={!currentUser}
+              placeholder={currentUser ? 'Add a comment...' : 'Sign in to comment'}
+              className="flex-1 resize-none max-h-32 px-4 py-2 rounded-2xl bg-slate-100 focus:bg-white border-2 border-transparent focus:border-blue-500 focus:outline-none text-sm"
+            />
+            <button
+              onClick={submit}
+              disabled={!text.trim() || isSending}
+              className="p-2.5 bg-blue-500 text-white rounded-full disabled:opacity-40 hover:bg-blue-600 transition"
+            >
+              {isSending ? (
+                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              ) : (
+                <Send size={16} />
+              )}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
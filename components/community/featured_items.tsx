@@ -1,76 +1,29 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
 import Image from 'next/image';
-
-interface FeaturedItem {
-  id: string;
-  image_url: string;
-  title: string;
-  author: string;
-  category: string;
-  likes: number;
-  is_active: boolean;
-  created_at: string;
-}
+import { useCapabilities } from '@/lib/hooks/use_capabilities';
+import { FeaturedItem, fetchActiveFeaturedItem } from '@/lib/repositories/featured_items';
 
 interface FeaturedItemsProps {
   onEditClick?: () => void;
 }
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
 export default function FeaturedItems({ onEditClick }: FeaturedItemsProps) {
   
   const [featuredItem, setFeaturedItem] = useState<FeaturedItem | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { canFeature } = useCapabilities();
   const [showFullScreen, setShowFullScreen] = useState(false);
 
   useEffect(() => {
     loadFeaturedItem();
-    checkAdminStatus();
   }, []);
 
-  const checkAdminStatus = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        setIsAdmin(false);
-        return;
-      }
-
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('is_admin')
-        .eq('id', user.id)
-        .single();
-
-      setIsAdmin(profile?.is_admin || false);
-    } catch (error) {
-      console.error('Error checking admin status:', error);
-      setIsAdmin(false);
-    }
-  };
-
   const loadFeaturedItem = async () => {
     setIsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('featured_items')
-        .select('*')
-        .eq('is_active', true)
-        .single();
-
-      if (error) throw error;
-
-      setFeaturedItem(data);
+      setFeaturedItem(await fetchActiveFeaturedItem());
     } catch (error) {
       console.error('Error loading featured item:', error);
       setFeaturedItem(null);
@@ -114,12 +67,12 @@ export default function FeaturedItems({ onEditClick }: FeaturedItemsProps) {
             onImageClick={() => setShowFullScreen(true)}
           />
         ) : (
-          <EmptyState isAdmin={isAdmin} />
+          <EmptyState canEdit={canFeature} />
         )}
       </div>
 
       {/* Admin Edit Button */}
-      {isAdmin && (
+      {canFeature && (
         <button
           onClick={handleEditClick}
           className="absolute top-14 right-4 w-10 h-10 bg-purple-600 hover:bg-purple-700 rounded-full shadow-lg flex items-center justify-center transition-all hover:scale-110 z-10"
@@ -150,7 +103,7 @@ function LoadingState() {
   );
 }
 
-function EmptyState({ isAdmin }: { isAdmin: boolean }) {
+function EmptyState({ canEdit }: { canEdit: boolean }) {
   return (
     <div className="h-64 rounded-2xl border-2 border-gray-300 dark:border-slate-600 bg-gray-50 dark:bg-slate-800 flex flex-col items-center justify-center">
       <svg className="w-12 h-12 text-gray-400 mb-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -159,7 +112,7 @@ function EmptyState({ isAdmin }: { isAdmin: boolean }) {
       <p className="text-gray-600 dark:text-gray-400 font-medium text-base">
         No featured item available
       </p>
-      {isAdmin && (
+      {canEdit && (
         <p className="text-gray-500 dark:text-gray-500 text-xs mt-1">
           Tap the edit button to add one
         </p>
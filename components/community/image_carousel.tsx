@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useRef, TouchEvent } from 'react';
+
+interface ImageCarouselProps {
+  images: string[];
+  alt?: string;
+  className?: string;
+  imageClassName?: string;
+  dotColor?: string;
+  onImageClick?: (url: string, index: number) => void;
+}
+
+// Minimum horizontal travel (px) before a touch counts as a swipe
+const SWIPE_THRESHOLD = 50;
+
+export default function ImageCarousel({
+  images,
+  alt = '',
+  className = '',
+  imageClassName = 'object-cover',
+  dotColor = 'bg-white',
+  onImageClick,
+}: ImageCarouselProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [dragOffset, setDragOffset] = useState(0);
+  const touchStartX = useRef<number | null>(null);
+  const didSwipe = useRef(false);
+
+  const count = images.length;
+  const index = Math.min(currentIndex, Math.max(count - 1, 0));
+
+  const goTo = (next: number) => {
+    setCurrentIndex(Math.max(0, Math.min(count - 1, next)));
+  };
+
+  const handleTouchStart = (e: TouchEvent<HTMLDivElement>) => {
+    touchStartX.current = e.touches[0].clientX;
+    didSwipe.current = false;
+  };
+
+  const handleTouchMove = (e: TouchEvent<HTMLDivElement>) => {
+    if (touchStartX.current === null) return;
+    setDragOffset(e.touches[0].clientX - touchStartX.current);
+  };
+
+  const handleTouchEnd = () => {
+    if (touchStartX.current === null) return;
+
+    if (dragOffset <= -SWIPE_THRESHOLD) {
+      goTo(index + 1);
+      didSwipe.current = true;
+    } else if (dragOffset >= SWIPE_THRESHOLD) {
+      goTo(index - 1);
+      didSwipe.current = true;
+    }
+
+    touchStartX.current = null;
+    setDragOffset(0);
+  };
+
+  const handleClick = () => {
+    // A swipe ends with a click on touch devices; don't treat it as a tap
+    if (didSwipe.current) {
+      didSwipe.current = false;
+      return;
+    }
+    if (count > 0) onImageClick?.(images[index], index);
+  };
+
+  if (count === 0) return null;
+
+  return (
+    <div className={`relative overflow-hidden select-none ${className}`}>
+      <div
+        className={`flex h-full ${dragOffset === 0 ? 'transition-transform duration-300' : ''}`}
+        style={{ transform: `translateX(calc(${-index * 100}% + ${dragOffset}px))` }}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onClick={handleClick}
+      >
+        {images.map((url, i) => (
+          <img
+            key={`${url}-${i}`}
+            src={url}
+            alt={count > 1 ? `${alt} (${i + 1} of ${count})` : alt}
+            className={`w-full h-full flex-shrink-0 ${imageClassName}`}
+            draggable={false}
+            loading={i === 0 ? 'eager' : 'lazy'}
+          />
+        ))}
+      </div>
+
+      {count > 1 && (
+        <>
+          {/* Counter */}
+          <div className="absolute top-3 left-3 bg-black/60 text-white text-xs font-medium px-2 py-1 rounded-full">
+            {index + 1}/{count}
+          </div>
+
+          {/* Arrows (desktop) */}
+          {index > 0 && (
+            <button
+              onClick={(e) => { e.stopPropagation(); goTo(index - 1); }}
+              className="hidden sm:flex absolute left-2 top-1/2 -translate-y-1/2 w-8 h-8 items-center justify-center bg-white/80 hover:bg-white rounded-full shadow"
+              aria-label="Previous image"
+            >
+              <svg className="w-4 h-4 text-slate-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+          )}
+          {index < count - 1 && (
+            <button
+              onClick={(e) => { e.stopPropagation(); goTo(index + 1); }}
+              className="hidden sm:flex absolute right-2 top-1/2 -translate-y-1/2 w-8 h-8 items-center justify-center bg-white/80 hover:bg-white rounded-full shadow"
+              aria-label="Next image"
+            >
+              <svg className="w-4 h-4 text-slate-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          )}
+
+          {/* Index dots */}
+          <div className="absolute bottom-3 left-1/2 -translate-x-1/2 flex items-center gap-1.5">
+            {images.map((_, i) => (
+              <button
+                key={i}
+                onClick={(e) => { e.stopPropagation(); goTo(i); }}
+                className={`rounded-full transition-all ${dotColor} ${
+                  i === index ? 'w-2 h-2 opacity-100' : 'w-1.5 h-1.5 opacity-50'
+                }`}
+                aria-label={`Go to image ${i + 1}`}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,15 @@
 import { usePathname } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import Sidebar from './sidebar';
+import { usePresenceTracking } from '@/lib/hooks/use_presence';
 
 export default function LayoutWrapper({ children }: { children: React.ReactNode }) {
   const pathname = usePathname();
   const [mounted, setMounted] = useState(false);
 
+  // Signed-in users show as online everywhere in the app
+  usePresenceTracking();
+
   useEffect(() => {
     setMounted(true);
   }, []);
@@ -1,15 +1,15 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import { countUnreadMessages, markMessagesDelivered } from '@/lib/repositories/messages';
+import { fetchUnreadCounts, nextNotificationChange } from '@/lib/repositories/notifications';
+import { syncPushSubscription } from '@/lib/hooks/use_push_notifications';
 
-// Supabase client for the client component
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+// setTimeout fires straight away for anything longer than this
+const MAX_TIMER_MS = 2 ** 31 - 1;
 
 interface TopAppBarProps {
   onRefresh: () => void;
@@ -22,15 +22,20 @@ export default function TopAppBar({ onRefresh }: TopAppBarProps) {
   const [unreadNotificationsCount, setUnreadNotificationsCount] = useState(0);
   const [messagesChannel, setMessagesChannel] = useState<RealtimeChannel | null>(null);
   const [notificationsChannel, setNotificationsChannel] = useState<RealtimeChannel | null>(null);
+  // Recounts when a scheduled notification arrives or one expires
+  const notificationTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   useEffect(() => {
     loadUnreadCounts();
     subscribeToMessages();
     subscribeToNotifications();
+    // Realtime only covers the open tab; push covers the rest
+    syncPushSubscription();
 
     return () => {
       messagesChannel?.unsubscribe();
       notificationsChannel?.unsubscribe();
+      if (notificationTimerRef.current) clearTimeout(notificationTimerRef.current);
     };
   }, []);
 
@@ -46,15 +51,9 @@ export default function TopAppBar({ onRefresh }: TopAppBarProps) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await supabase
-        .from('messages')
-        .select('id')
-        .eq('receiver_id', user.id)
-        .eq('is_read', false);
-
-      if (error) throw error;
-
-      setUnreadMessagesCount(data?.length || 0);
+      // Anything counted here has reached this device
+      await markMessagesDelivered().catch((error) => console.error('Error marking messages delivered:', error));
+      setUnreadMessagesCount(await countUnreadMessages());
     } catch (error) {
       console.error('Error loading unread messages count:', error);
     }
@@ -65,37 +64,16 @@ export default function TopAppBar({ onRefresh }: TopAppBarProps) {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Get all notifications
-      const { data: notifications, error: notifError } = await supabase
-        .from('notifications')
-        .select('id');
-
-      if (notifError) throw notifError;
-
-      const notificationIds =
-        notifications?.map((item: { id: string }) => item.id) || [];
-
-      if (notificationIds.length === 0) {
-        setUnreadNotificationsCount(0);
-        return;
-      }
+      const [counts, nextChange] = await Promise.all([
+        fetchUnreadCounts(),
+        nextNotificationChange(),
+      ]);
+      setUnreadNotificationsCount(counts.announcements + counts.activity);
 
-      // Get notifications that user has read
-      const { data: readNotifications, error: readError } = await supabase
-        .from('notification_reads')
-        .select('notification_id')
-        .eq('user_id', user.id)
-        .in('notification_id', notificationIds);
-
-      if (readError) throw readError;
-
-      const readNotificationIds = new Set(
-        readNotifications?.map((item: { notification_id: string }) => item.notification_id) || []
-      );
-
-      // Calculate unread count
-      const unreadCount = notificationIds.length - readNotificationIds.size;
-      setUnreadNotificationsCount(unreadCount);
+      if (notificationTimerRef.current) clearTimeout(notificationTimerRef.current);
+      notificationTimerRef.current = nextChange
+        ? setTimeout(loadUnreadNotificationsCount, Math.min(new Date(nextChange).getTime() - new Date().getTime(), MAX_TIMER_MS))
+        : null;
     } catch (error) {
       console.error('Error loading unread notifications count:', error);
     }
@@ -110,10 +88,10 @@ export default function TopAppBar({ onRefresh }: TopAppBarProps) {
       .on(
         'postgres_changes',
         {
+          // Group messages have no receiver; RLS limits this to the user's conversations
           event: 'INSERT',
           schema: 'public',
           table: 'messages',
-          filter: `receiver_id=eq.${user.id}`,
         },
         () => {
           loadUnreadMessagesCount();
@@ -122,10 +100,11 @@ export default function TopAppBar({ onRefresh }: TopAppBarProps) {
       .on(
         'postgres_changes',
         {
+          // Reading moves the user's participant row
           event: 'UPDATE',
           schema: 'public',
-          table: 'messages',
-          filter: `receiver_id=eq.${user.id}`,
+          table: 'conversation_participants',
+          filter: `user_id=eq.${user.id}`,
         },
         () => {
           loadUnreadMessagesCount();
@@ -167,7 +146,8 @@ export default function TopAppBar({ onRefresh }: TopAppBarProps) {
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          // Read, unread and dismissed
+          event: '*',
           schema: 'public',
           table: 'notification_reads',
           filter: `user_id=eq.${user.id}`,
@@ -176,6 +156,18 @@ export default function TopAppBar({ onRefresh }: TopAppBarProps) {
           loadUnreadNotificationsCount();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'activity_notifications',
+          filter: `recipient_id=eq.${user.id}`,
+        },
+        () => {
+          loadUnreadNotificationsCount();
+        }
+      )
       .subscribe();
 
     setNotificationsChannel(channel);
@@ -1,36 +1,18 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { createClient } from '@supabase/supabase-js';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
-
-// Initialize Supabase client for the Explore page
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface ExplorePost {
-  id: string;
-  userId: string;
-  imageUrl: string;
-  caption: string;
-  userName: string;
-  avatarUrl?: string;
-  location?: string;
-  likes: number;
-  commentCount: number;
-  isVerified: boolean;
-}
+import { Layers } from 'lucide-react';
+import { Post, fetchPosts } from '@/lib/repositories/posts';
 
 interface ExplorePageProps {
   searchQuery?: string;
 }
 
 export default function ExplorePage({ searchQuery = '' }: ExplorePageProps) {
-  const [posts, setPosts] = useState<ExplorePost[]>([]);
-  const [filteredPosts, setFilteredPosts] = useState<ExplorePost[]>([]);
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [hasMore, setHasMore] = useState(true);
@@ -59,22 +41,6 @@ export default function ExplorePage({ searchQuery = '' }: ExplorePageProps) {
     }
   }, [searchQuery, posts]);
 
-  // Get comment count for a specific post
-  const getCommentCount = async (postId: string): Promise<number> => {
-    try {
-      const { data, error } = await supabase
-        .from('comments')
-        .select('id')
-        .eq('post_id', postId);
-      
-      if (error) throw error;
-      return data?.length || 0;
-    } catch (error) {
-      console.error(`Error getting comment count for post ${postId}:`, error);
-      return 0;
-    }
-  };
-
   // Load posts from Supabase
   const loadPosts = useCallback(async () => {
     if (isLoading) return;
@@ -83,85 +49,20 @@ export default function ExplorePage({ searchQuery = '' }: ExplorePageProps) {
     setError(null);
 
     try {
-      // Fetch posts with images
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('id, user_id, caption, images, location, likes_count, created_at')
-        .not('images', 'is', null)
-        .neq('images', '{}')
-        .order('created_at', { ascending: false })
-        .range(currentPage * POSTS_PER_PAGE, (currentPage + 1) * POSTS_PER_PAGE - 1);
-
-      if (postsError) throw postsError;
+      const newPosts = (await fetchPosts({
+        page: currentPage,
+        pageSize: POSTS_PER_PAGE,
+        requireImages: true,
+      })).filter(post => post.imageUrl);
 
-      if (!postsData || postsData.length === 0) {
+      if (newPosts.length === 0) {
         if (currentPage === 0) {
           setPosts([]);
         }
         setHasMore(false);
-        setIsLoading(false);
-        setIsLoadingMore(false);
         return;
       }
 
-      // Get unique user IDs
-      const userIds = [...new Set(postsData.map((post: any) => post.user_id))];
-
-      // Fetch user profiles
-      const userProfiles: Record<string, any> = {};
-      
-      if (userIds.length > 0) {
-        try {
-          const { data: profilesData, error: profilesError } = await supabase
-            .from('profiles')
-            .select('id, display_name, avatar_url, is_verified')
-            .in('id', userIds);
-
-          if (!profilesError && profilesData) {
-            profilesData.forEach((profile: any) => {
-              userProfiles[profile.id] = profile;
-            });
-          }
-        } catch (profileError) {
-          console.warn('Could not fetch user profiles:', profileError);
-        }
-      }
-
-      // Combine posts with user data and fetch comment counts
-      const newPosts: ExplorePost[] = [];
-
-      for (const postData of postsData) {
-        const profile = userProfiles[postData.user_id] || {};
-        
-        // Get actual comment count
-        const commentCount = await getCommentCount(postData.id);
-        
-        // Handle images array - take first image
-        let imageUrl = '';
-        if (postData.images) {
-          if (Array.isArray(postData.images) && postData.images.length > 0) {
-            imageUrl = postData.images[0];
-          } else if (typeof postData.images === 'string') {
-            imageUrl = postData.images;
-          }
-        }
-
-        if (imageUrl) {
-          newPosts.push({
-            id: postData.id,
-            userId: postData.user_id,
-            imageUrl,
-            caption: postData.caption || '',
-            userName: profile.display_name || 'Anonymous',
-            avatarUrl: profile.avatar_url,
-            location: postData.location,
-            likes: postData.likes_count || 0,
-            commentCount,
-            isVerified: profile.is_verified || false,
-          });
-        }
-      }
-
       setPosts((prev) => (currentPage === 0 ? newPosts : [...prev, ...newPosts]));
       setHasMore(newPosts.length >= POSTS_PER_PAGE);
       setCurrentPage((prev) => prev + 1);
@@ -174,7 +75,7 @@ export default function ExplorePage({ searchQuery = '' }: ExplorePageProps) {
       setIsLoading(false);
       setIsLoadingMore(false);
     }
-  }, [currentPage, isLoading, supabase]);
+  }, [currentPage, isLoading]);
 
   // Initial load
   useEffect(() => {
@@ -209,7 +110,7 @@ export default function ExplorePage({ searchQuery = '' }: ExplorePageProps) {
   };
 
   // Navigate to post details
-  const navigateToPost = (post: ExplorePost) => {
+  const navigateToPost = (post: Post) => {
     router.push(`/explore/${post.id}`);
   };
 
@@ -318,6 +219,13 @@ export default function ExplorePage({ searchQuery = '' }: ExplorePageProps) {
               sizes="(max-width: 768px) 33vw, (max-width: 1200px) 25vw, 20vw"
             />
             
+            {/* Multi-image indicator */}
+            {post.images.length > 1 && (
+              <div className="absolute top-1 left-1 bg-black/70 backdrop-blur-sm rounded-lg p-1 text-white">
+                <Layers size={14} />
+              </div>
+            )}
+
             {/* Overlay with stats */}
             <div className="absolute top-1 right-1 bg-black/70 backdrop-blur-sm rounded-lg px-2 py-1 flex items-center gap-2 text-white text-xs">
               <div className="flex items-center gap-1">
@@ -1,25 +1,18 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
 import Image from 'next/image';
 import { useRouter } from 'next/navigation';
+import { Layers } from 'lucide-react';
+import { Post, fetchPosts } from '@/lib/repositories/posts';
 
-interface TagPost {
-  id: string;
-  imageUrl: string;
-  caption: string;
-  userName: string;
-  likes: number;
-  commentCount: number;
-  isVerified: boolean;
-  tags: string[];
-}
+// Recent tagged posts scanned to build the tag list
+const TAGGED_POSTS_LIMIT = 300;
 
 interface TagCategory {
   name: string;
   postCount: number;
-  posts: TagPost[];
+  posts: Post[];
 }
 
 export default function TagsSection() {
@@ -27,10 +20,6 @@ export default function TagsSection() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const supabase = createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  );
   const router = useRouter();
 
   useEffect(() => {
@@ -42,84 +31,25 @@ export default function TagsSection() {
     setError(null);
 
     try {
-      // Fetch posts with tags and user data
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('id, user_id, caption, images, likes_count, comments_count, tags, created_at')
-        .not('images', 'is', null)
-        .neq('images', '{}')
-        .not('tags', 'is', null)
-        .neq('tags', '{}')
-        .order('created_at', { ascending: false })
-        .limit(300);
-
-      if (postsError) throw postsError;
-
-      if (!postsData || postsData.length === 0) {
+      const postsData = await fetchPosts({
+        pageSize: TAGGED_POSTS_LIMIT,
+        requireImages: true,
+        requireTags: true,
+      });
+
+      if (postsData.length === 0) {
         setTagCategories([]);
         setIsLoading(false);
         return;
       }
 
-      // Get unique user IDs
-      const userIds = [...new Set(postsData.map((post: any) => post.user_id))];
-
-      // Fetch user profiles
-      const userProfiles: Record<string, any> = {};
-
-      if (userIds.length > 0) {
-        try {
-          const { data: profilesData, error: profilesError } = await supabase
-            .from('profiles')
-            .select('id, display_name, is_verified')
-            .in('id', userIds);
-
-          if (!profilesError && profilesData) {
-            profilesData.forEach((profile: any) => {
-              userProfiles[profile.id] = profile;
-            });
-          }
-        } catch (profileError) {
-          console.warn('Could not fetch user profiles:', profileError);
-        }
-      }
-
       // Process posts and group by tags
-      const tagPostsMap: Record<string, TagPost[]> = {};
-
-      for (const postData of postsData) {
-        const profile = userProfiles[postData.user_id] || {};
-
-        // Handle images array - take first image
-        let imageUrl = '';
-        if (postData.images) {
-          if (Array.isArray(postData.images) && postData.images.length > 0) {
-            imageUrl = postData.images[0];
-          } else if (typeof postData.images === 'string') {
-            imageUrl = postData.images;
-          }
-        }
-
-        // Handle tags array
-        let tags: string[] = [];
-        if (postData.tags && Array.isArray(postData.tags)) {
-          tags = postData.tags.map((tag: any) => tag.toString());
-        }
-
-        if (imageUrl) {
-          const tagPost: TagPost = {
-            id: postData.id,
-            imageUrl,
-            caption: postData.caption || '',
-            userName: profile.display_name || 'Anonymous',
-            likes: postData.likes_count || 0,
-            commentCount: postData.comments_count || 0,
-            isVerified: profile.is_verified || false,
-            tags,
-          };
+      const tagPostsMap: Record<string, Post[]> = {};
 
+      for (const tagPost of postsData) {
+        if (tagPost.imageUrl) {
           // Add post to each of its tags
-          for (const tag of tags) {
+          for (const tag of tagPost.tags) {
             const cleanTag = tag.trim().toLowerCase();
             if (cleanTag) {
               // Format tag with # if it doesn't have one
@@ -270,6 +200,12 @@ export default function TagsSection() {
                           className="object-cover"
                           sizes="(max-width: 768px) 33vw, 150px"
                         />
+                        {/* Multi-image indicator */}
+                        {category.posts[index].images.length > 1 && (
+                          <div className="absolute top-1 left-1 bg-black/70 backdrop-blur-sm rounded-lg p-1 text-white">
+                            <Layers size={14} />
+                          </div>
+                        )}
                         {/* Stats Overlay */}
                         <div className="absolute top-1 right-1 bg-black/70 backdrop-blur-sm rounded-lg px-2 py-1 flex items-center gap-2 text-white text-xs">
                           <div className="flex items-center gap-1">
@@ -312,14 +248,10 @@ interface TagPostsPageProps {
 }
 
 export function TagPostsPage({ tagName }: TagPostsPageProps) {
-  const [posts, setPosts] = useState<TagPost[]>([]);
+  const [posts, setPosts] = useState<Post[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [postCount, setPostCount] = useState(0);
 
-  const supabase = createClient(
-    process.env.NEXT_PUBLIC_SUPABASE_URL!,
-    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-  );
   const router = useRouter();
 
   useEffect(() => {
@@ -332,67 +264,11 @@ export function TagPostsPage({ tagName }: TagPostsPageProps) {
     try {
       const formattedTag = tagName.startsWith('#') ? tagName : `#${tagName}`;
 
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('id, user_id, caption, images, likes_count, comments_count, tags')
-        .contains('tags', [formattedTag])
-        .not('images', 'is', null)
-        .neq('images', '{}')
-        .order('created_at', { ascending: false });
-
-      if (postsError) throw postsError;
-
-      if (!postsData || postsData.length === 0) {
-        setPosts([]);
-        setPostCount(0);
-        setIsLoading(false);
-        return;
-      }
-
-      // Get user profiles
-      const userIds = [...new Set(postsData.map((post: any) => post.user_id))];
-      const userProfiles: Record<string, any> = {};
-
-      if (userIds.length > 0) {
-        const { data: profilesData } = await supabase
-          .from('profiles')
-          .select('id, display_name, is_verified')
-          .in('id', userIds);
-
-        if (profilesData) {
-          profilesData.forEach((profile: any) => {
-            userProfiles[profile.id] = profile;
-          });
-        }
-      }
-
-      const tagPosts: TagPost[] = [];
-
-      for (const postData of postsData) {
-        const profile = userProfiles[postData.user_id] || {};
-
-        let imageUrl = '';
-        if (postData.images) {
-          if (Array.isArray(postData.images) && postData.images.length > 0) {
-            imageUrl = postData.images[0];
-          } else if (typeof postData.images === 'string') {
-            imageUrl = postData.images;
-          }
-        }
-
-        if (imageUrl) {
-          tagPosts.push({
-            id: postData.id,
-            imageUrl,
-            caption: postData.caption || '',
-            userName: profile.display_name || 'Anonymous',
-            likes: postData.likes_count || 0,
-            commentCount: postData.comments_count || 0,
-            isVerified: profile.is_verified || false,
-            tags: postData.tags || [],
-          });
-        }
-      }
+      const tagPosts = (await fetchPosts({
+        pageSize: TAGGED_POSTS_LIMIT,
+        tag: formattedTag,
+        requireImages: true,
+      })).filter(post => post.imageUrl);
 
       setPosts(tagPosts);
       setPostCount(tagPosts.length);
@@ -403,7 +279,7 @@ export function TagPostsPage({ tagName }: TagPostsPageProps) {
     }
   };
 
-  const openPost = (post: TagPost) => {
+  const openPost = (post: Post) => {
     router.push(`/posts/${post.id}`);
   };
 
@@ -457,6 +333,13 @@ export function TagPostsPage({ tagName }: TagPostsPageProps) {
               sizes="(max-width: 768px) 33vw, 250px"
             />
 
+            {/* Multi-image indicator */}
+            {post.images.length > 1 && (
+              <div className="absolute top-1 left-1 bg-black/70 backdrop-blur-sm rounded-lg p-1 text-white">
+                <Layers size={14} />
+              </div>
+            )}
+
             {/* Stats Overlay */}
             <div className="absolute top-1 right-1 bg-black/70 backdrop-blur-sm rounded-lg px-2 py-1 flex items-center gap-2 text-white text-xs">
               <div className="flex items-center gap-1">
@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { AttachmentUrls, getAttachmentUrls } from '@/lib/storage/chat_attachments';
+
+interface AttachmentGridProps {
+  // Entries of messages.images
+  images: string[];
+  isMe: boolean;
+}
+
+// Thumbnails inside a bubble; tapping one opens the full-size image
+export default function AttachmentGrid({ images, isMe }: AttachmentGridProps) {
+  const [urls, setUrls] = useState<Map<string, AttachmentUrls>>(new Map());
+  const [failed, setFailed] = useState(false);
+  const [openImage, setOpenImage] = useState<string | null>(null);
+
+  const imagesKey = images.join('|');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const init = async () => {
+      try {
+        const resolved = await getAttachmentUrls(imagesKey.split('|'));
+        if (!cancelled) setUrls(resolved);
+      } catch (error) {
+        console.error('Error loading attachments:', error);
+        if (!cancelled) setFailed(true);
+      }
+    };
+    init();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imagesKey]);
+
+  return (
+    <>
+      <div className={images.length === 1 ? '' : 'grid grid-cols-2 gap-1'}>
+        {images.map((entry) => {
+          const url = urls.get(entry);
+
+          return url ? (
+            <img
+              key={entry}
+              src={url.thumbnail}
+              alt="attachment"
+              loading="lazy"
+              className="rounded-lg max-w-full w-full object-cover cursor-pointer hover:opacity-90 transition"
+              onMouseDown={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                setOpenImage(url.full);
+              }}
+            />
+          ) : (
+            <div
+              key={entry}
+              className={`w-40 h-40 max-w-full rounded-lg flex items-center justify-center ${isMe ? 'bg-white/20' : 'bg-gray-100'}`}
+            >
+              {failed ? (
+                <span className={`text-xs ${isMe ? 'text-white/80' : 'text-gray-500'}`}>Image unavailable</span>
+              ) : (
+                <div className={`w-6 h-6 border-2 border-t-transparent rounded-full animate-spin ${isMe ? 'border-white' : 'border-blue-500'}`} />
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Portalled: the bubble's transform would otherwise contain `fixed` */}
+      {openImage && createPortal(
+        <div
+          className="fixed inset-0 z-50 bg-black/90 flex items-center justify-center p-4"
+          onMouseDown={(e) => e.stopPropagation()}
+          onClick={(e) => {
+            e.stopPropagation();
+            setOpenImage(null);
+          }}
+        >
+          <button className="absolute top-4 right-4 text-white text-2xl hover:bg-white/20 rounded-full w-10 h-10" aria-label="Close">
+            ✕
+          </button>
+          <img src={openImage} alt="attachment" className="max-w-full max-h-full object-contain" onClick={(e) => e.stopPropagation()} />
+        </div>,
+        document.body
+      )}
+    </>
+  );
+}
@@ -0,0 +1,410 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import type { Message } from '@/lib/repositories/messages';
+import { displayName, getLastSeen } from '@/lib/repositories/profiles';
+import { DeleteScope, useChat } from '@/lib/hooks/use_chat';
+import { useOnlineUsers } from '@/lib/hooks/use_presence';
+import { MAX_CHAT_ATTACHMENTS } from '@/lib/storage/chat_attachments';
+import MessageList from './message_list';
+import Composer, { PendingAttachment } from './composer';
+import GroupInfoSheet from './group_info_sheet';
+import ReactionBar from './reaction_bar';
+import EditHistorySheet from './edit_history_sheet';
+import DeleteMessageDialog from './delete_message_dialog';
+
+export interface ChatPartner {
+  id: string;
+  name: string;
+  avatarUrl: string | null;
+}
+
+// Direct chats are opened with ?userId=&userName=&avatar= from the inbox
+export function chatPartnerFromParams(params: URLSearchParams): ChatPartner {
+  return {
+    id: params.get('userId') || '',
+    name: params.get('userName') || 'Unknown User',
+    avatarUrl: params.get('avatar') || null,
+  };
+}
+
+// "Sam is typing…", or a count once several people are
+const formatTyping = (names: string[]) => {
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+};
+
+const formatLastSeen = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const minutes = Math.floor((now.getTime() - date.getTime()) / 60000);
+
+  if (minutes < 1) return 'last seen just now';
+  if (minutes < 60) return `last seen ${minutes}m ago`;
+
+  const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+
+  if (date >= today) return `last seen today at ${time}`;
+  if (date >= yesterday) return `last seen yesterday at ${time}`;
+  return `last seen ${date.getDate()}/${date.getMonth() + 1}/${date.getFullYear()}`;
+};
+
+interface ChatScreenProps {
+  // Omitted for a conversation that doesn't exist yet; sending creates it
+  conversationId?: string;
+  // Required for a new direct chat; otherwise taken from the members
+  otherUser?: ChatPartner;
+  // Opened from a search result: scroll to and highlight this message
+  focusMessageId?: string;
+}
+
+export default function ChatScreen({ conversationId, otherUser, focusMessageId }: ChatScreenProps) {
+  const router = useRouter();
+
+  const [messageText, setMessageText] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [selectedMessage, setSelectedMessage] = useState<Message | null>(null);
+  const [isEditMode, setIsEditMode] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [pendingImages, setPendingImages] = useState<PendingAttachment[]>([]);
+  const [toast, setToast] = useState<{ message: string; isError: boolean } | null>(null);
+  const [lastSeen, setLastSeen] = useState<string | null>(null);
+  const [showGroupInfo, setShowGroupInfo] = useState(false);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+
+  const onlineUsers = useOnlineUsers();
+
+  const showToast = (message: string, isError = false) => {
+    setToast({ message, isError });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const chat = useChat({
+    conversationId,
+    otherUserId: otherUser?.id,
+    focusMessageId,
+    onError: (message) => showToast(message, true),
+  });
+
+  const currentUserId = chat.currentUser?.id ?? null;
+  const isGroup = chat.conversation?.is_group ?? false;
+
+  const senderNames = useMemo(
+    () => new Map(chat.members.map((m) => [m.user_id, displayName(m.profile, 'Unknown User')])),
+    [chat.members]
+  );
+
+  const partner: ChatPartner = useMemo(() => {
+    if (otherUser) return otherUser;
+    const other = chat.members.find((m) => m.user_id !== currentUserId);
+    return {
+      id: other?.user_id || '',
+      name: displayName(other?.profile, 'Unknown User'),
+      avatarUrl: other?.profile?.avatar_url || null,
+    };
+  }, [otherUser, chat.members, currentUserId]);
+
+  const isOnline = !isGroup && onlineUsers.has(partner.id);
+  const onlineCount = chat.members.filter((m) => m.user_id !== currentUserId && onlineUsers.has(m.user_id)).length;
+
+  // Refreshed whenever they drop offline, so it reads "just now" after they leave
+  useEffect(() => {
+    if (isGroup || !partner.id || isOnline) return;
+
+    const init = async () => {
+      try {
+        setLastSeen(await getLastSeen(partner.id));
+      } catch (error) {
+        console.error('Error loading last seen:', error);
+      }
+    };
+    init();
+  }, [isGroup, partner.id, isOnline]);
+
+  const isTyping = chat.typingUserIds.length > 0;
+
+  const status = isGroup
+    ? isTyping
+      ? formatTyping(chat.typingUserIds.map((id) => senderNames.get(id) || 'Someone'))
+      : `${chat.members.length} members${onlineCount > 0 ? `, ${onlineCount} online` : ''}`
+    : isTyping
+    ? 'typing…'
+    : isOnline
+    ? 'online'
+    : lastSeen
+    ? formatLastSeen(lastSeen)
+    : '';
+
+  const isOwnSelection = !!selectedMessage && selectedMessage.sender_id === currentUserId;
+
+  const title = isGroup ? chat.conversation?.title || 'Group' : partner.name;
+  const avatarUrl = isGroup ? chat.conversation?.avatar_url ?? null : partner.avatarUrl;
+
+  const handleTextChange = (text: string) => {
+    setMessageText(text);
+    if (text.trim() && !isEditMode) chat.notifyTyping();
+  };
+
+  const clearSelection = () => {
+    setSelectedMessage(null);
+    setIsEditMode(false);
+    setMessageText('');
+  };
+
+  const handleToggleReaction = async (message: Message, emoji: string) => {
+    try {
+      await chat.toggleReaction(message, emoji);
+    } catch (error) {
+      console.error('Error updating reaction:', error);
+      showToast('Failed to update reaction', true);
+    }
+  };
+
+  const handlePickReaction = (emoji: string) => {
+    if (!selectedMessage) return;
+    setSelectedMessage(null);
+    handleToggleReaction(selectedMessage, emoji);
+  };
+
+  const handleSend = async () => {
+    const text = messageText.trim();
+    if ((!text && pendingImages.length === 0) || !chat.currentUser) return;
+    if (!isGroup && !partner.id) return;
+
+    try {
+      // Queued straight away; delivery status shows on the outgoing bubble
+      await chat.send({
+        text,
+        images: pendingImages.map((attachment) => attachment.file),
+        replyTo: replyingTo,
+      });
+      setMessageText('');
+      pendingImages.forEach((attachment) => URL.revokeObjectURL(attachment.preview));
+      setReplyingTo(null);
+      setPendingImages([]);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      showToast('Failed to send message', true);
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    const text = messageText.trim();
+    if (!selectedMessage || !text || isSending) return;
+
+    setIsSending(true);
+    try {
+      await chat.edit(selectedMessage.id, text);
+      clearSelection();
+      showToast('Message updated');
+    } catch (error) {
+      console.error('Error updating message:', error);
+      showToast('Failed to update message', true);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleDelete = async (scope: DeleteScope) => {
+    setShowDeleteDialog(false);
+    if (!selectedMessage) return;
+
+    try {
+      await chat.remove(selectedMessage.id, scope);
+      clearSelection();
+      showToast('Message deleted');
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      showToast('Failed to delete message', true);
+    }
+  };
+
+  const handleAddImages = (files: File[]) => {
+    const room = MAX_CHAT_ATTACHMENTS - pendingImages.length;
+    const accepted = files.filter((file) => file.type.startsWith('image/')).slice(0, room);
+    if (accepted.length === 0) {
+      showToast(room > 0 ? 'Only images can be attached' : `You can attach up to ${MAX_CHAT_ATTACHMENTS} images`, true);
+      return;
+    }
+
+    setPendingImages((prev) => [
+      ...prev,
+      ...accepted.map((file) => ({ id: crypto.randomUUID(), file, preview: URL.createObjectURL(file) })),
+    ]);
+    showToast(`${accepted.length} image(s) ready to send`);
+  };
+
+  const handleRemoveImage = (id: string) => {
+    const attachment = pendingImages.find((a) => a.id === id);
+    if (attachment) URL.revokeObjectURL(attachment.preview);
+    setPendingImages((prev) => prev.filter((a) => a.id !== id));
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-gradient-to-b from-slate-50 to-slate-100">
+      {toast && (
+        <div className="fixed top-4 left-4 right-4 z-50">
+          <div className={`flex items-center px-4 py-3 rounded-lg shadow-lg ${toast.isError ? 'bg-red-400' : 'bg-green-400'}`}>
+            <span className="text-white mr-3 text-xl">{toast.isError ? '⚠️' : '✓'}</span>
+            <span className="text-white text-sm font-medium">{toast.message}</span>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gradient-to-r from-blue-500 via-purple-500 to-pink-500 text-white shadow-lg">
+        <div className="flex items-center px-4 py-3">
+          <button
+            onClick={() => (selectedMessage ? clearSelection() : router.back())}
+            className="mr-3 hover:bg-white/20 rounded-full p-2 transition text-2xl leading-none"
+          >
+            {selectedMessage ? '✕' : '←'}
+          </button>
+
+          {selectedMessage ? (
+            <div className="flex-1 flex items-center justify-between">
+              <span className="font-semibold text-lg">1 selected</span>
+              <div className="flex gap-2">
+                {!selectedMessage.deleted_at && (
+                  <button
+                    onClick={() => {
+                      setReplyingTo(selectedMessage);
+                      setSelectedMessage(null);
+                    }}
+                    className="p-2 hover:bg-white/20 rounded-full transition"
+                    title="Reply"
+                  >
+                    ↩️
+                  </button>
+                )}
+                {selectedMessage.edited_at && !selectedMessage.deleted_at && (
+                  <button
+                    onClick={() => setHistoryMessage(selectedMessage)}
+                    className="p-2 hover:bg-white/20 rounded-full transition"
+                    title="Edit history"
+                  >
+                    🕘
+                  </button>
+                )}
+                {isOwnSelection && !selectedMessage.deleted_at && (
+                  <button
+                    onClick={() => {
+                      setIsEditMode(true);
+                      setMessageText(selectedMessage.content);
+                    }}
+                    className="p-2 hover:bg-white/20 rounded-full transition"
+                    title="Edit"
+                  >
+                    ✏️
+                  </button>
+                )}
+                <button onClick={() => setShowDeleteDialog(true)} className="p-2 hover:bg-white/20 rounded-full transition" title="Delete">
+                  🗑️
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => isGroup && setShowGroupInfo(true)}
+              className={`flex-1 flex items-center min-w-0 text-left ${isGroup ? 'cursor-pointer' : 'cursor-default'}`}
+            >
+              <div className="relative mr-3 flex-shrink-0">
+                <div className="w-10 h-10 rounded-full bg-white flex items-center justify-center overflow-hidden">
+                  {avatarUrl ? (
+                    <img src={avatarUrl} alt={title} className="w-full h-full object-cover" />
+                  ) : (
+                    <span className="text-blue-500 font-semibold text-lg">{isGroup ? '👥' : title[0] || '?'}</span>
+                  )}
+                </div>
+                {isOnline && <span className="absolute bottom-0 right-0 w-3 h-3 rounded-full bg-green-400 border-2 border-white" />}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold truncate">{title}</div>
+                {status && <div className={`text-xs truncate ${isTyping ? 'italic' : 'opacity-80'}`}>{status}</div>}
+              </div>
+            </button>
+          )}
+        </div>
+      </div>
+
+      {selectedMessage && !isEditMode && !selectedMessage.deleted_at && (
+        <ReactionBar
+          activeEmojis={chat.reactions
+            .filter((r) => r.message_id === selectedMessage.id && r.user_id === currentUserId)
+            .map((r) => r.emoji)}
+          onPick={handlePickReaction}
+        />
+      )}
+
+      <MessageList
+        messages={chat.messages}
+        reactions={chat.reactions}
+        currentUserId={currentUserId}
+        isLoading={chat.isLoading}
+        selectedMessageId={selectedMessage?.id ?? null}
+        focusMessageId={focusMessageId}
+        senderNames={isGroup ? senderNames : undefined}
+        groupMembers={isGroup ? chat.members : undefined}
+        hasOlder={chat.hasOlder}
+        hasNewer={chat.hasNewer}
+        isLoadingOlder={chat.isLoadingOlder}
+        isLoadingNewer={chat.isLoadingNewer}
+        onLoadOlder={chat.loadOlder}
+        onLoadNewer={chat.loadNewer}
+        onSelect={setSelectedMessage}
+        onReply={setReplyingTo}
+        onToggleReaction={handleToggleReaction}
+        onShowHistory={setHistoryMessage}
+        outgoing={chat.outgoing}
+        outgoingProgress={chat.outgoingProgress}
+        isOnline={chat.isOnline}
+        onRetrySend={chat.retrySend}
+        onDiscardSend={chat.discardSend}
+      />
+
+      <Composer
+        text={messageText}
+        onTextChange={handleTextChange}
+        pendingImages={pendingImages}
+        onAddImages={handleAddImages}
+        onRemoveImage={handleRemoveImage}
+        replyingTo={replyingTo}
+        replyingToName={
+          replyingTo?.sender_id === currentUserId ? 'You' : (replyingTo && senderNames.get(replyingTo.sender_id)) || partner.name
+        }
+        onCancelReply={() => setReplyingTo(null)}
+        isEditMode={isEditMode}
+        isSending={isSending}
+        onSubmit={isEditMode ? handleSaveEdit : handleSend}
+      />
+
+      {showDeleteDialog && selectedMessage && (
+        <DeleteMessageDialog
+          canDeleteForEveryone={isOwnSelection && !selectedMessage.deleted_at}
+          onDelete={handleDelete}
+          onCancel={() => setShowDeleteDialog(false)}
+        />
+      )}
+
+      {historyMessage && <EditHistorySheet message={historyMessage} onClose={() => setHistoryMessage(null)} />}
+
+      {showGroupInfo && chat.conversation && currentUserId && (
+        <GroupInfoSheet
+          conversation={chat.conversation}
+          members={chat.members}
+          currentUserId={currentUserId}
+          onlineIds={onlineUsers}
+          onClose={() => setShowGroupInfo(false)}
+          onChanged={chat.reloadConversation}
+          onLeft={() => router.push('/messages')}
+          onError={(message) => showToast(message, true)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+'use client';
+
+import { useRef } from 'react';
+import type { ChangeEvent } from 'react';
+import type { Message } from '@/lib/repositories/messages';
+
+export interface PendingAttachment {
+  id: string;
+  file: File;
+  preview: string;
+}
+
+interface ComposerProps {
+  text: string;
+  onTextChange: (text: string) => void;
+  pendingImages: PendingAttachment[];
+  onAddImages: (files: File[]) => void;
+  onRemoveImage: (id: string) => void;
+  replyingTo: Message | null;
+  // Who wrote the message being replied to, as shown above the input
+  replyingToName: string;
+  onCancelReply: () => void;
+  isEditMode: boolean;
+  isSending: boolean;
+  onSubmit: () => void;
+}
+
+export default function Composer({
+  text,
+  onTextChange,
+  pendingImages,
+  onAddImages,
+  onRemoveImage,
+  replyingTo,
+  replyingToName,
+  onCancelReply,
+  isEditMode,
+  isSending,
+  onSubmit,
+}: ComposerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImageSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) onAddImages(files);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="bg-white border-t shadow-lg p-2">
+      {pendingImages.length > 0 && (
+        <div className="flex gap-2 mb-2 overflow-x-auto pb-2">
+          {pendingImages.map((attachment) => (
+            <div key={attachment.id} className="relative flex-shrink-0">
+              <img src={attachment.preview} alt="pending" className="w-20 h-20 object-cover rounded-lg border-2 border-blue-300" />
+              <button
+                onClick={() => onRemoveImage(attachment.id)}
+                className="absolute -top-2 -right-2 bg-black/60 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-black/80"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {replyingTo && (
+        <div className="mb-2 p-2 bg-slate-50 rounded-lg border border-blue-200 flex items-start">
+          <div className="w-1 h-12 bg-gradient-to-b from-blue-500 to-purple-500 rounded mr-3" />
+          <div className="flex-1 min-w-0">
+            <div className="text-xs font-semibold text-blue-600">{replyingToName}</div>
+            <div className="text-sm text-gray-700 truncate">{replyingTo.content}</div>
+          </div>
+          <button onClick={onCancelReply} className="ml-2 text-gray-500 hover:text-gray-700">
+            ✕
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-end gap-2">
+        <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleImageSelect} className="hidden" />
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isSending || isEditMode}
+          className="w-10 h-10 rounded-full bg-slate-100 border border-blue-200 flex items-center justify-center hover:bg-slate-200 transition disabled:opacity-50 flex-shrink-0"
+        >
+          <span className="text-blue-500 text-xl">🖼️</span>
+        </button>
+
+        <textarea
+          value={text}
+          onChange={(e) => onTextChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              onSubmit();
+            }
+          }}
+          placeholder={isEditMode ? 'Edit message...' : 'Type a message...'}
+          className="flex-1 px-4 py-2 bg-slate-50 border border-blue-200 rounded-3xl resize-none max-h-32 focus:outline-none focus:ring-2 focus:ring-blue-400"
+          rows={1}
+        />
+
+        <button
+          onClick={onSubmit}
+          disabled={isSending}
+          className="w-10 h-10 rounded-full bg-gradient-to-r from-blue-500 to-purple-500 text-white flex items-center justify-center shadow-lg hover:shadow-xl transition disabled:opacity-50 flex-shrink-0"
+        >
+          {isSending ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" /> : <span className="text-lg">{isEditMode ? '✓' : '➤'}</span>}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+'use client';
+
+import type { DeleteScope } from '@/lib/hooks/use_chat';
+
+interface DeleteMessageDialogProps {
+  // Only the sender can delete for everyone, and only once
+  canDeleteForEveryone: boolean;
+  onDelete: (scope: DeleteScope) => void;
+  onCancel: () => void;
+}
+
+export default function DeleteMessageDialog({ canDeleteForEveryone, onDelete, onCancel }: DeleteMessageDialogProps) {
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" onClick={onCancel}>
+      <div className="bg-white rounded-2xl w-full max-w-xs overflow-hidden shadow-xl" onClick={(e) => e.stopPropagation()}>
+        <div className="px-6 pt-5 pb-3">
+          <h2 className="text-lg font-semibold text-gray-900">Delete message?</h2>
+          <p className="text-sm text-gray-500 mt-1">
+            {canDeleteForEveryone
+              ? 'Deleting for everyone leaves a note in the chat that a message was deleted.'
+              : 'This removes the message from your view of the chat only.'}
+          </p>
+        </div>
+        <div className="flex flex-col border-t">
+          {canDeleteForEveryone && (
+            <button onClick={() => onDelete('everyone')} className="py-3 text-red-500 font-medium hover:bg-red-50 border-b">
+              Delete for everyone
+            </button>
+          )}
+          <button onClick={() => onDelete('me')} className="py-3 text-red-500 font-medium hover:bg-red-50 border-b">
+            Delete for me
+          </button>
+          <button onClick={onCancel} className="py-3 text-gray-700 hover:bg-gray-50">
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
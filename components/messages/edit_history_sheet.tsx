@@ -0,0 +1,82 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Message, MessageRevision, fetchMessageRevisions } from '@/lib/repositories/messages';
+
+interface EditHistorySheetProps {
+  message: Message;
+  onClose: () => void;
+}
+
+const formatRevisionTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString([], { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// Every wording a message has had, newest first, starting with the current one
+export default function EditHistorySheet({ message, onClose }: EditHistorySheetProps) {
+  const [revisions, setRevisions] = useState<MessageRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        setRevisions(await fetchMessageRevisions(message.id));
+      } catch (error) {
+        console.error('Error loading edit history:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    init();
+  }, [message.id]);
+
+  // A revision holds the wording that was in place until `created_at`, so
+  // each one was written when the one before it was replaced
+  const versions = [
+    { id: 'current', content: message.content, since: message.edited_at, label: 'Current' },
+    ...revisions
+      .map((revision, index) => ({
+        id: revision.id,
+        content: revision.content,
+        since: index === 0 ? message.created_at : revisions[index - 1].created_at,
+        label: index === 0 ? 'Original' : 'Edited',
+      }))
+      .reverse(),
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">Edit history</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition">
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto px-6 py-4 space-y-3">
+          {isLoading ? (
+            <div className="py-6 flex justify-center">
+              <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : (
+            versions.map((version) => (
+              <div key={version.id} className="rounded-xl border border-gray-200 px-4 py-3">
+                <div className="flex items-center justify-between mb-1">
+                  <span className={`text-xs font-semibold ${version.id === 'current' ? 'text-blue-600' : 'text-gray-500'}`}>
+                    {version.label}
+                  </span>
+                  {version.since && <span className="text-xs text-gray-400">{formatRevisionTime(version.since)}</span>}
+                </div>
+                <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{version.content}</p>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
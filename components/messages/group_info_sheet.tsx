@@ -0,0 +1,262 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import type { ChangeEvent } from 'react';
+import { Camera, Check, LogOut, Pencil, Shield, UserMinus, UserPlus, Users, X } from 'lucide-react';
+import { ProfileSummary, displayName } from '@/lib/repositories/profiles';
+import {
+  Conversation,
+  ConversationMember,
+  addConversationMembers,
+  removeConversationMember,
+  setConversationMemberRole,
+  updateGroupDetails,
+} from '@/lib/repositories/messages';
+import { uploadGroupAvatar } from '@/lib/storage/group_avatars';
+import MemberPicker from './member_picker';
+
+interface GroupInfoSheetProps {
+  conversation: Conversation;
+  members: ConversationMember[];
+  currentUserId: string;
+  onlineIds: Set<string>;
+  onClose: () => void;
+  // After any change, so the chat reloads members and details
+  onChanged: () => void;
+  onLeft: () => void;
+  onError: (message: string) => void;
+}
+
+export default function GroupInfoSheet({
+  conversation,
+  members,
+  currentUserId,
+  onlineIds,
+  onClose,
+  onChanged,
+  onLeft,
+  onError,
+}: GroupInfoSheetProps) {
+  const [isEditingTitle, setIsEditingTitle] = useState(false);
+  const [title, setTitle] = useState(conversation.title || '');
+  const [isAdding, setIsAdding] = useState(false);
+  const [toAdd, setToAdd] = useState<ProfileSummary[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+
+  const isAdmin = members.some((m) => m.user_id === currentUserId && m.role === 'admin');
+
+  // Runs one change, reports failures, and refreshes the chat afterwards
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+      onChanged();
+    } catch (error) {
+      console.error(`${failure}:`, error);
+      onError(failure);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const saveTitle = () => {
+    const trimmed = title.trim();
+    if (!trimmed || trimmed === conversation.title) {
+      setIsEditingTitle(false);
+      return;
+    }
+    run(async () => {
+      await updateGroupDetails(conversation.id, { title: trimmed });
+      setIsEditingTitle(false);
+    }, 'Failed to rename group');
+  };
+
+  const handleAvatarSelect = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    run(async () => {
+      const avatarUrl = await uploadGroupAvatar(conversation.id, file);
+      await updateGroupDetails(conversation.id, { avatar_url: avatarUrl });
+    }, 'Failed to update group picture');
+  };
+
+  const addMembers = () => {
+    run(async () => {
+      await addConversationMembers(conversation.id, toAdd.map((p) => p.id));
+      setToAdd([]);
+      setIsAdding(false);
+    }, 'Failed to add members');
+  };
+
+  const leave = async () => {
+    if (!confirm(`Leave "${conversation.title}"? You will stop receiving its messages.`)) return;
+
+    setIsBusy(true);
+    try {
+      await removeConversationMember(conversation.id, currentUserId);
+      onLeft();
+    } catch (error) {
+      console.error('Failed to leave group:', error);
+      onError('Failed to leave group');
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md h-[85vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">{isAdding ? 'Add members' : 'Group info'}</h2>
+          <button
+            onClick={() => (isAdding ? setIsAdding(false) : onClose())}
+            className="p-2 hover:bg-gray-100 rounded-full transition"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        {isAdding ? (
+          <>
+            <MemberPicker selected={toAdd} onChange={setToAdd} excludeIds={members.map((m) => m.user_id)} />
+            <div className="px-6 py-4 border-t">
+              <button
+                onClick={addMembers}
+                disabled={toAdd.length === 0 || isBusy}
+                className="w-full py-3 rounded-lg bg-gradient-to-r from-blue-500 to-purple-500 text-white font-semibold disabled:opacity-50"
+              >
+                {isBusy ? 'Adding...' : `Add ${toAdd.length || ''} ${toAdd.length === 1 ? 'member' : 'members'}`}
+              </button>
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 overflow-y-auto">
+            <div className="flex flex-col items-center px-6 py-5 border-b">
+              <div className="relative mb-3">
+                <div className="w-24 h-24 rounded-full bg-gradient-to-br from-blue-100 to-purple-100 flex items-center justify-center overflow-hidden">
+                  {conversation.avatar_url ? (
+                    <img src={conversation.avatar_url} alt={conversation.title || ''} className="w-full h-full object-cover" />
+                  ) : (
+                    <Users size={40} className="text-blue-500" />
+                  )}
+                </div>
+                {isAdmin && (
+                  <>
+                    <input ref={avatarInputRef} type="file" accept="image/*" onChange={handleAvatarSelect} className="hidden" />
+                    <button
+                      onClick={() => avatarInputRef.current?.click()}
+                      disabled={isBusy}
+                      className="absolute bottom-0 right-0 w-8 h-8 rounded-full bg-blue-500 text-white flex items-center justify-center shadow disabled:opacity-50"
+                      title="Change group picture"
+                    >
+                      <Camera size={16} />
+                    </button>
+                  </>
+                )}
+              </div>
+
+              {isEditingTitle ? (
+                <div className="flex items-center gap-2 w-full">
+                  <input
+                    type="text"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && saveTitle()}
+                    maxLength={80}
+                    autoFocus
+                    className="flex-1 px-3 py-2 border border-gray-200 rounded-lg text-black focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  />
+                  <button onClick={saveTitle} disabled={isBusy} className="p-2 text-blue-500 hover:bg-blue-50 rounded-full">
+                    <Check size={20} />
+                  </button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <h3 className="text-xl font-semibold text-gray-900">{conversation.title}</h3>
+                  {isAdmin && (
+                    <button onClick={() => setIsEditingTitle(true)} className="p-1 text-gray-500 hover:bg-gray-100 rounded-full" title="Rename group">
+                      <Pencil size={16} />
+                    </button>
+                  )}
+                </div>
+              )}
+              <p className="text-sm text-gray-500 mt-1">{members.length} members</p>
+            </div>
+
+            {isAdmin && (
+              <button onClick={() => setIsAdding(true)} className="w-full flex items-center gap-3 px-6 py-3 text-blue-600 hover:bg-gray-50">
+                <UserPlus size={20} />
+                <span className="font-medium">Add members</span>
+              </button>
+            )}
+
+            {members.map((member) => {
+              const isMe = member.user_id === currentUserId;
+              const name = isMe ? 'You' : displayName(member.profile, 'Unknown User');
+
+              return (
+                <div key={member.user_id} className="flex items-center px-6 py-2.5">
+                  <div className="relative mr-3 flex-shrink-0">
+                    <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center overflow-hidden">
+                      {member.profile?.avatar_url ? (
+                        <img src={member.profile.avatar_url} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <span className="text-blue-500 font-semibold">{name[0].toUpperCase()}</span>
+                      )}
+                    </div>
+                    {onlineIds.has(member.user_id) && (
+                      <span className="absolute bottom-0 right-0 w-3 h-3 rounded-full bg-green-500 border-2 border-white" />
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-sm font-medium text-gray-900 truncate">{name}</div>
+                    {member.role === 'admin' && <div className="text-xs text-blue-600 font-medium">Group admin</div>}
+                  </div>
+                  {isAdmin && !isMe && (
+                    <div className="flex gap-1">
+                      <button
+                        onClick={() =>
+                          run(
+                            () => setConversationMemberRole(conversation.id, member.user_id, member.role === 'admin' ? 'member' : 'admin'),
+                            'Failed to change role'
+                          )
+                        }
+                        disabled={isBusy}
+                        className={`p-2 rounded-full hover:bg-gray-100 disabled:opacity-50 ${member.role === 'admin' ? 'text-blue-600' : 'text-gray-500'}`}
+                        title={member.role === 'admin' ? 'Remove as admin' : 'Make admin'}
+                      >
+                        <Shield size={18} />
+                      </button>
+                      <button
+                        onClick={() => run(() => removeConversationMember(conversation.id, member.user_id), 'Failed to remove member')}
+                        disabled={isBusy}
+                        className="p-2 rounded-full text-red-500 hover:bg-red-50 disabled:opacity-50"
+                        title="Remove from group"
+                      >
+                        <UserMinus size={18} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            <button
+              onClick={leave}
+              disabled={isBusy}
+              className="w-full flex items-center gap-3 px-6 py-4 mt-2 border-t text-red-500 hover:bg-red-50 disabled:opacity-50"
+            >
+              <LogOut size={20} />
+              <span className="font-medium">Leave group</span>
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
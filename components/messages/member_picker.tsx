@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Check, Search, X } from 'lucide-react';
+import { ProfileSummary, displayName, searchProfiles } from '@/lib/repositories/profiles';
+
+interface MemberPickerProps {
+  selected: ProfileSummary[];
+  onChange: (selected: ProfileSummary[]) => void;
+  // Already in the group, or the viewer themselves
+  excludeIds: string[];
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+// Search box plus chips for choosing people, e.g. to add to a group
+export default function MemberPicker({ selected, onChange, excludeIds }: MemberPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<ProfileSummary[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const excludeKey = excludeIds.join(',');
+
+  useEffect(() => {
+    const term = query.trim();
+
+    const timer = setTimeout(async () => {
+      if (!term) {
+        setResults([]);
+        return;
+      }
+
+      setIsSearching(true);
+      try {
+        const excluded = new Set(excludeKey.split(','));
+        const found = await searchProfiles(term.toLowerCase(), { limit: 20 });
+        setResults(found.filter((p) => !excluded.has(p.id)));
+      } catch (error) {
+        console.error('Failed to search users:', error);
+        setResults([]);
+      } finally {
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, excludeKey]);
+
+  const isSelected = (id: string) => selected.some((p) => p.id === id);
+
+  const toggle = (profile: ProfileSummary) => {
+    onChange(isSelected(profile.id) ? selected.filter((p) => p.id !== profile.id) : [...selected, profile]);
+  };
+
+  return (
+    <div className="flex flex-col min-h-0">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-2 px-6 pt-3">
+          {selected.map((profile) => (
+            <span key={profile.id} className="inline-flex items-center gap-1 pl-3 pr-1 py-1 rounded-full bg-blue-50 text-blue-700 text-sm">
+              {displayName(profile, 'User')}
+              <button onClick={() => toggle(profile)} className="p-0.5 hover:bg-blue-100 rounded-full">
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      <div className="px-6 py-3">
+        <div className="flex items-center bg-gray-100 rounded-lg px-3 py-2">
+          <Search size={18} className="text-gray-500 mr-2" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search people..."
+            className="flex-1 bg-transparent text-sm text-black outline-none placeholder-gray-500"
+          />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto">
+        {isSearching ? (
+          <div className="py-6 flex justify-center">
+            <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          results.map((profile) => (
+            <button
+              key={profile.id}
+              onClick={() => toggle(profile)}
+              className="w-full flex items-center px-6 py-2.5 hover:bg-gray-50 text-left"
+            >
+              <div className="w-10 h-10 rounded-full bg-blue-100 flex items-center justify-center overflow-hidden mr-3 flex-shrink-0">
+                {profile.avatar_url ? (
+                  <img src={profile.avatar_url} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-blue-500 font-semibold">{displayName(profile, 'U')[0].toUpperCase()}</span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 truncate">{displayName(profile, 'User')}</div>
+                {profile.username && <div className="text-xs text-gray-500 truncate">@{profile.username}</div>}
+              </div>
+              {isSelected(profile.id) && <Check size={18} className="text-blue-500" />}
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
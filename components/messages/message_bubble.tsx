@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import type { MouseEvent as ReactMouseEvent } from 'react';
+import { ConversationMember, Message, MessageStatus, ReactionSummary, messageStatus } from '@/lib/repositories/messages';
+import AttachmentGrid from './attachment_grid';
+
+interface MessageBubbleProps {
+  message: Message;
+  isMe: boolean;
+  isSelected: boolean;
+  isHighlighted?: boolean;
+  time: string;
+  // Groups only: shown above other people's messages
+  senderName?: string;
+  // Groups only: receipts come from each member's reading position
+  groupMembers?: ConversationMember[];
+  reactions: ReactionSummary[];
+  onLongPress: () => void;
+  onSwipeReply: () => void;
+  onToggleReaction: (emoji: string) => void;
+  onShowHistory: () => void;
+}
+
+const STATUS_TICKS: Record<MessageStatus, { ticks: string; className: string; label: string }> = {
+  sent: { ticks: '✓', className: 'text-white/70', label: 'Sent' },
+  delivered: { ticks: '✓✓', className: 'text-white/70', label: 'Delivered' },
+  read: { ticks: '✓✓', className: 'text-sky-200 font-semibold', label: 'Read' },
+};
+
+// How far a bubble slides, and how far it must go to count as a reply
+const MAX_DRAG = 80;
+const REPLY_THRESHOLD = 50;
+
+export default function MessageBubble({
+  message,
+  isMe,
+  isSelected,
+  isHighlighted = false,
+  time,
+  senderName,
+  groupMembers,
+  reactions,
+  onLongPress,
+  onSwipeReply,
+  onToggleReaction,
+  onShowHistory,
+}: MessageBubbleProps) {
+  const [dragX, setDragX] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const isDeleted = !!message.deleted_at;
+  const images = message.images || [];
+  const status = STATUS_TICKS[messageStatus(message, groupMembers)];
+
+  const handleMouseDown = (e: ReactMouseEvent) => {
+    if (isDeleted) return;
+    setIsDragging(true);
+    const startX = e.clientX;
+    let offset = 0;
+
+    const handleMove = (moveEvent: MouseEvent) => {
+      offset = Math.max(0, Math.min(moveEvent.clientX - startX, MAX_DRAG));
+      setDragX(offset);
+    };
+
+    const handleUp = () => {
+      if (offset > REPLY_THRESHOLD) onSwipeReply();
+      setDragX(0);
+      setIsDragging(false);
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleUp);
+    };
+
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleUp);
+  };
+
+  return (
+    <div
+      className={`flex ${isMe ? 'justify-end' : 'justify-start'} mb-2 ${isDragging ? 'cursor-grabbing' : 'cursor-pointer'}`}
+      onMouseDown={handleMouseDown}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        onLongPress();
+      }}
+    >
+      <div className="relative">
+        {dragX > 0 && (
+          <div className={`absolute top-1/2 -translate-y-1/2 ${isMe ? 'right-full mr-4' : 'left-full ml-4'}`} style={{ opacity: dragX / MAX_DRAG }}>
+            <span className="text-2xl">↩️</span>
+          </div>
+        )}
+
+        <div
+          className={`max-w-xs lg:max-w-md px-4 py-2 rounded-2xl shadow-md transition-transform ${
+            isMe ? 'bg-gradient-to-r from-blue-500 to-purple-500 text-white rounded-br-sm' : 'bg-white text-gray-800 rounded-bl-sm border border-gray-200'
+          } ${isSelected ? 'ring-4 ring-pink-500' : isHighlighted ? 'ring-4 ring-yellow-300' : ''}`}
+          style={{ transform: `translateX(${dragX}px)` }}
+        >
+          {senderName && !isMe && <div className="text-xs font-semibold text-purple-600 mb-1">{senderName}</div>}
+
+          {message.reply_to_id && (
+            <div className={`mb-2 p-2 rounded-lg border-l-4 ${isMe ? 'bg-white/20 border-white' : 'bg-gray-100 border-blue-500'}`}>
+              <div className={`text-xs italic line-clamp-2 ${isMe ? 'text-white/90' : 'text-gray-600'}`}>
+                {message.reply_to_content ?? '🚫 Original message was deleted'}
+              </div>
+            </div>
+          )}
+
+          {images.length > 0 && (
+            <div className={message.content ? 'mb-2' : ''}>
+              <AttachmentGrid images={images} isMe={isMe} />
+            </div>
+          )}
+
+          {isDeleted ? (
+            <div className={`text-sm italic ${isMe ? 'text-white/80' : 'text-gray-500'}`}>
+              🚫 {isMe ? 'You deleted this message' : 'This message was deleted'}
+            </div>
+          ) : (
+            message.content && <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">{message.content}</div>
+          )}
+
+          <div className="flex items-center justify-end gap-1 mt-1">
+            {message.edited_at && !isDeleted && (
+              <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={onShowHistory}
+                className={`text-xs italic hover:underline ${isMe ? 'text-white/80' : 'text-gray-500'}`}
+                title="View edit history"
+              >
+                edited
+              </button>
+            )}
+            <span className={`text-xs ${isMe ? 'text-white/80' : 'text-gray-500'}`}>{time}</span>
+            {isMe && !isDeleted && (
+              <span className={`text-sm ${status.className}`} title={status.label} aria-label={status.label}>
+                {status.ticks}
+              </span>
+            )}
+          </div>
+        </div>
+
+        {reactions.length > 0 && (
+          <div className={`flex flex-wrap gap-1 -mt-2 px-2 relative ${isMe ? 'justify-end' : 'justify-start'}`}>
+            {reactions.map((reaction) => (
+              <button
+                key={reaction.emoji}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onToggleReaction(reaction.emoji)}
+                className={`flex items-center gap-1 px-2 py-0.5 rounded-full text-xs border shadow-sm transition ${
+                  reaction.reactedByMe ? 'bg-blue-50 border-blue-400 text-blue-700' : 'bg-white border-gray-200 text-gray-700'
+                }`}
+              >
+                <span className="text-sm leading-none">{reaction.emoji}</span>
+                {reaction.count > 1 && <span className="font-semibold">{reaction.count}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
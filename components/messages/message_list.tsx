@@ -0,0 +1,258 @@
+'use client';
+
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { UIEvent } from 'react';
+import { ConversationMember, Message, MessageReaction, summarizeReactions } from '@/lib/repositories/messages';
+import type { OutboxEntry } from '@/lib/storage/outbox';
+import MessageBubble from './message_bubble';
+import OutgoingBubble from './outgoing_bubble';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const formatMessageTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const diffInDays = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24));
+
+  if (diffInDays === 0) {
+    const hours = date.getHours();
+    const minutes = date.getMinutes();
+    const ampm = hours >= 12 ? 'PM' : 'AM';
+    const displayHours = hours % 12 || 12;
+    return `${displayHours}:${minutes.toString().padStart(2, '0')} ${ampm}`;
+  }
+  if (diffInDays === 1) return 'Yesterday';
+  if (diffInDays < 7) return DAY_NAMES[date.getDay()];
+  return `${date.getDate()}/${date.getMonth() + 1}/${date.getFullYear()}`;
+};
+
+const getDateDividerText = (date: Date) => {
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const yesterday = new Date(today);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const messageDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+  if (messageDate.getTime() === today.getTime()) return 'Today';
+  if (messageDate.getTime() === yesterday.getTime()) return 'Yesterday';
+  if ((now.getTime() - date.getTime()) / (1000 * 60 * 60 * 24) < 7) return DAY_NAMES[date.getDay()];
+  return `${date.getDate()} ${MONTH_NAMES[date.getMonth()]} ${date.getFullYear()}`;
+};
+
+// How long a message opened from search stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2500;
+
+// How close to either end of the list counts as reaching it
+const EDGE_THRESHOLD_PX = 120;
+
+const isSameDay = (d1: Date, d2: Date) => (
+  d1.getFullYear() === d2.getFullYear() &&
+  d1.getMonth() === d2.getMonth() &&
+  d1.getDate() === d2.getDate()
+);
+
+interface MessageListProps {
+  // Newest first; rendered bottom-up
+  messages: Message[];
+  reactions: MessageReaction[];
+  currentUserId: string | null;
+  isLoading: boolean;
+  selectedMessageId: string | null;
+  // Scrolled into view once loaded, and briefly highlighted
+  focusMessageId?: string;
+  // Set for group chats, where bubbles are labelled with their sender
+  senderNames?: Map<string, string>;
+  groupMembers?: ConversationMember[];
+  hasOlder: boolean;
+  hasNewer: boolean;
+  isLoadingOlder: boolean;
+  isLoadingNewer: boolean;
+  onLoadOlder: () => void;
+  onLoadNewer: () => void;
+  onSelect: (message: Message) => void;
+  onReply: (message: Message) => void;
+  onToggleReaction: (message: Message, emoji: string) => void;
+  onShowHistory: (message: Message) => void;
+  // Queued messages, shown after the latest page until the server has them
+  outgoing: OutboxEntry[];
+  outgoingProgress: Record<string, number>;
+  isOnline: boolean;
+  onRetrySend: (id: string) => void;
+  onDiscardSend: (id: string) => void;
+}
+
+const Spinner = () => (
+  <div className="flex justify-center py-3">
+    <div className="w-6 h-6 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
+  </div>
+);
+
+export default function MessageList({
+  messages,
+  reactions,
+  currentUserId,
+  isLoading,
+  selectedMessageId,
+  focusMessageId,
+  senderNames,
+  groupMembers,
+  hasOlder,
+  hasNewer,
+  isLoadingOlder,
+  isLoadingNewer,
+  onLoadOlder,
+  onLoadNewer,
+  onSelect,
+  onReply,
+  onToggleReaction,
+  onShowHistory,
+  outgoing,
+  outgoingProgress,
+  isOnline,
+  onRetrySend,
+  onDiscardSend,
+}: MessageListProps) {
+  const [highlightedId, setHighlightedId] = useState(focusMessageId);
+
+  const reactionsByMessage = useMemo(() => {
+    const grouped = new Map<string, MessageReaction[]>();
+    reactions.forEach((reaction) => {
+      grouped.set(reaction.message_id, [...(grouped.get(reaction.message_id) || []), reaction]);
+    });
+    return grouped;
+  }, [reactions]);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Follow new messages only while the user is already at the bottom
+  const isAtBottomRef = useRef(true);
+  // Scroll geometry from just before an older page was requested
+  const olderSnapshotRef = useRef<{ height: number; top: number } | null>(null);
+  const edgesRef = useRef<{ oldest?: string; newest?: string; outgoing: number }>({ outgoing: 0 });
+
+  const requestOlder = (el: HTMLDivElement) => {
+    if (!hasOlder || isLoadingOlder) return;
+    olderSnapshotRef.current = { height: el.scrollHeight, top: el.scrollTop };
+    onLoadOlder();
+  };
+
+  const handleScroll = (e: UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    isAtBottomRef.current = el.scrollHeight - el.scrollTop - el.clientHeight < EDGE_THRESHOLD_PX;
+
+    if (el.scrollTop < EDGE_THRESHOLD_PX) requestOlder(el);
+    if (isAtBottomRef.current && hasNewer && !isLoadingNewer) onLoadNewer();
+  };
+
+  // Older pages go in above what the user is reading, so push the scroll
+  // position down by however much was added; new messages at the bottom are
+  // followed if the user was there
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+
+    const oldest = messages[messages.length - 1]?.id;
+    const newest = messages[0]?.id;
+    const snapshot = olderSnapshotRef.current;
+
+    if (snapshot && oldest !== edgesRef.current.oldest) {
+      el.scrollTop = el.scrollHeight - snapshot.height + snapshot.top;
+      olderSnapshotRef.current = null;
+    } else if (outgoing.length > edgesRef.current.outgoing && !hasNewer) {
+      // The user just sent something; show it wherever they were
+      el.scrollTop = el.scrollHeight;
+    } else if (newest !== edgesRef.current.newest && isAtBottomRef.current && !hasNewer) {
+      el.scrollTop = el.scrollHeight;
+    }
+    edgesRef.current = { oldest, newest, outgoing: outgoing.length };
+
+    // A first page too short to scroll can't be scrolled up to load more
+    if (el.scrollHeight <= el.clientHeight) requestOlder(el);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [messages, outgoing.length]);
+
+  const isFocusLoaded = !!focusMessageId && messages.some((m) => m.id === focusMessageId);
+
+  useEffect(() => {
+    if (!isFocusLoaded) return;
+
+    document.getElementById(`message-${focusMessageId}`)?.scrollIntoView({ block: 'center' });
+    const timer = setTimeout(() => setHighlightedId(undefined), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [focusMessageId, isFocusLoaded]);
+
+  // A divider sits above the oldest message of each day
+  const shouldShowDateDivider = (index: number) => {
+    if (index === messages.length - 1) return true;
+
+    const currentDate = new Date(messages[index].created_at);
+    const olderDate = new Date(messages[index + 1].created_at);
+
+    return !isSameDay(currentDate, olderDate);
+  };
+
+  return (
+    <div ref={containerRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-3 space-y-2">
+      {isLoading ? (
+        <div className="flex items-center justify-center h-full">
+          <div className="animate-spin rounded-full h-12 w-12 border-4 border-blue-500 border-t-transparent" />
+        </div>
+      ) : messages.length === 0 && outgoing.length === 0 ? (
+        <div className="flex flex-col items-center justify-center h-full text-center px-4">
+          <div className="w-24 h-24 rounded-full bg-gradient-to-r from-blue-500 to-purple-500 flex items-center justify-center mb-4">
+            <span className="text-5xl">💬</span>
+          </div>
+          <div className="text-lg font-semibold text-gray-700 mb-2">No messages yet</div>
+          <div className="text-sm text-gray-500">Send a message to start the conversation</div>
+        </div>
+      ) : (
+        <>
+          {isLoadingOlder && <Spinner />}
+          <div className="flex flex-col-reverse">
+            {messages.map((message, index) => {
+              const isMe = message.sender_id === currentUserId;
+
+              return (
+                <div key={message.id} id={`message-${message.id}`}>
+                  <MessageBubble
+                    message={message}
+                    isMe={isMe}
+                    isSelected={selectedMessageId === message.id}
+                    isHighlighted={highlightedId === message.id}
+                    time={formatMessageTime(message.created_at)}
+                    senderName={senderNames?.get(message.sender_id) ?? (senderNames ? 'Former member' : undefined)}
+                    groupMembers={groupMembers}
+                    reactions={summarizeReactions(reactionsByMessage.get(message.id) || [], currentUserId)}
+                    onLongPress={() => onSelect(message)}
+                    onSwipeReply={() => onReply(message)}
+                    onToggleReaction={(emoji) => onToggleReaction(message, emoji)}
+                    onShowHistory={() => onShowHistory(message)}
+                  />
+                  {shouldShowDateDivider(index) && (
+                    <div className="flex justify-center my-4">
+                      <div className="bg-black/5 px-4 py-1.5 rounded-full">
+                        <span className="text-xs text-gray-600 font-medium">{getDateDividerText(new Date(message.created_at))}</span>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {isLoadingNewer && <Spinner />}
+          {!hasNewer &&
+            outgoing.map((entry) => (
+              <OutgoingBubble
+                key={entry.id}
+                entry={entry}
+                progress={outgoingProgress[entry.id]}
+                isOnline={isOnline}
+                onRetry={() => onRetrySend(entry.id)}
+                onDiscard={() => onDiscardSend(entry.id)}
+              />
+            ))}
+        </>
+      )}
+    </div>
+  );
+}
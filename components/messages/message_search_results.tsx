@@ -0,0 +1,74 @@
+'use client';
+
+import type { ConversationSummary, MessageSearchResult } from '@/lib/repositories/messages';
+
+interface MessageSearchResultsProps {
+  results: MessageSearchResult[];
+  // The inbox rows, for each result's conversation name and picture
+  conversations: ConversationSummary[];
+  currentUserId: string | null;
+  onOpen: (result: MessageSearchResult) => void;
+}
+
+// Snippets come back with matches wrapped in <mark></mark>; split on the tags
+// rather than injecting HTML, so message text is always rendered as text
+const renderSnippet = (snippet: string) =>
+  snippet.split(/<\/?mark>/).map((part, index) =>
+    index % 2 === 1 ? (
+      <mark key={index} className="bg-yellow-200 text-gray-900 rounded px-0.5">
+        {part}
+      </mark>
+    ) : (
+      part
+    )
+  );
+
+const formatResultDate = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const now = new Date();
+
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  }
+  if (date.getFullYear() === now.getFullYear()) {
+    return date.toLocaleDateString([], { day: 'numeric', month: 'short' });
+  }
+  return date.toLocaleDateString([], { day: 'numeric', month: 'short', year: 'numeric' });
+};
+
+export default function MessageSearchResults({ results, conversations, currentUserId, onOpen }: MessageSearchResultsProps) {
+  const conversationsById = new Map(conversations.map((c) => [c.id, c]));
+
+  return (
+    <>
+      {results.map((result) => {
+        const conversation = conversationsById.get(result.conversation_id);
+        const name = conversation?.title || (conversation?.is_group ? 'Group' : 'Unknown User');
+
+        return (
+          <div key={result.message_id} className="border-b border-gray-200 bg-white">
+            <div className="flex items-center px-4 py-3 cursor-pointer hover:bg-gray-50" onClick={() => onOpen(result)}>
+              <div className="w-12 h-12 rounded-full bg-blue-100 flex items-center justify-center overflow-hidden mr-3 flex-shrink-0">
+                {conversation?.avatar_url ? (
+                  <img src={conversation.avatar_url} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <span className="text-blue-500 font-semibold text-lg">{name[0].toUpperCase()}</span>
+                )}
+              </div>
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between mb-0.5">
+                  <h3 className="text-[15px] font-semibold text-gray-900 truncate">{name}</h3>
+                  <span className="text-xs text-gray-500 ml-2 flex-shrink-0">{formatResultDate(result.created_at)}</span>
+                </div>
+                <p className="text-sm text-gray-600 line-clamp-2 break-words">
+                  {result.sender_id === currentUserId && <span className="text-gray-500">You: </span>}
+                  {renderSnippet(result.snippet)}
+                </p>
+              </div>
+            </div>
+          </div>
+        );
+      })}
+    </>
+  );
+}
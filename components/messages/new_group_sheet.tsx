@@ -0,0 +1,76 @@
+'use client';
+
+import { useState } from 'react';
+import { X } from 'lucide-react';
+import { ProfileSummary } from '@/lib/repositories/profiles';
+import { createGroupConversation } from '@/lib/repositories/messages';
+import MemberPicker from './member_picker';
+
+interface NewGroupSheetProps {
+  currentUserId: string;
+  onClose: () => void;
+  onCreated: (conversationId: string) => void;
+}
+
+export default function NewGroupSheet({ currentUserId, onClose, onCreated }: NewGroupSheetProps) {
+  const [title, setTitle] = useState('');
+  const [members, setMembers] = useState<ProfileSummary[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canCreate = title.trim().length > 0 && members.length > 0 && !isCreating;
+
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    setIsCreating(true);
+    setError(null);
+    try {
+      onCreated(await createGroupConversation(title.trim(), members.map((m) => m.id)));
+    } catch (err) {
+      console.error('Error creating group:', err);
+      setError('Failed to create group');
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md h-[80vh] flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">New group</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition">
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <div className="px-6 pt-4">
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Group name"
+            maxLength={80}
+            className="w-full px-4 py-2.5 border border-gray-200 rounded-lg text-black focus:outline-none focus:ring-2 focus:ring-blue-400"
+          />
+        </div>
+
+        <MemberPicker selected={members} onChange={setMembers} excludeIds={[currentUserId]} />
+
+        <div className="px-6 py-4 border-t">
+          {error && <p className="text-sm text-red-500 mb-2">{error}</p>}
+          <button
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="w-full py-3 rounded-lg bg-gradient-to-r from-blue-500 to-purple-500 text-white font-semibold disabled:opacity-50"
+          >
+            {isCreating ? 'Creating...' : `Create group${members.length > 0 ? ` (${members.length + 1})` : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import type { OutboxEntry } from '@/lib/storage/outbox';
+
+interface OutgoingBubbleProps {
+  entry: OutboxEntry;
+  // Upload progress while the entry is being sent
+  progress?: number;
+  isOnline: boolean;
+  onRetry: () => void;
+  onDiscard: () => void;
+}
+
+// Previews a queued image straight from the picked file. The object URL is
+// set on the element directly so it lives exactly as long as the effect.
+function LocalImage({ file }: { file: File }) {
+  const imgRef = useRef<HTMLImageElement>(null);
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file);
+    if (imgRef.current) imgRef.current.src = url;
+    return () => URL.revokeObjectURL(url);
+  }, [file]);
+
+  return <img ref={imgRef} alt="attachment" className="w-full h-24 object-cover rounded-lg" />;
+}
+
+const statusText = (entry: OutboxEntry, isOnline: boolean, progress?: number) => {
+  if (!isOnline) return 'Waiting for connection…';
+  if (progress !== undefined) return `Sending… ${progress}%`;
+  if (entry.attempts > 0) return 'Retrying…';
+  return 'Sending…';
+};
+
+// A message the user wrote that the server hasn't accepted yet
+export default function OutgoingBubble({ entry, progress, isOnline, onRetry, onDiscard }: OutgoingBubbleProps) {
+  const isFailed = entry.status === 'failed';
+
+  return (
+    <div className="flex flex-col items-end mb-2">
+      <div
+        className={`max-w-xs lg:max-w-md px-4 py-2 rounded-2xl rounded-br-sm shadow-md bg-gradient-to-r from-blue-500 to-purple-500 text-white ${
+          isFailed ? 'opacity-60' : 'opacity-80'
+        }`}
+      >
+        {entry.replyTo && (
+          <div className="mb-2 p-2 rounded-lg border-l-4 bg-white/20 border-white">
+            <div className="text-xs italic line-clamp-2 text-white/90">{entry.replyTo.content}</div>
+          </div>
+        )}
+
+        {entry.images.length > 0 && (
+          <div className={`grid gap-1 ${entry.images.length > 1 ? 'grid-cols-2' : 'grid-cols-1'} ${entry.text ? 'mb-2' : ''}`}>
+            {entry.images.map((file, index) => (
+              <LocalImage key={index} file={file} />
+            ))}
+          </div>
+        )}
+
+        {entry.text && <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">{entry.text}</div>}
+
+        {!isFailed && (
+          <div className="flex items-center justify-end gap-1 mt-1">
+            <span className="text-xs text-white/80">{statusText(entry, isOnline, progress)}</span>
+            <span className="text-sm text-white/70" aria-hidden>🕓</span>
+          </div>
+        )}
+      </div>
+
+      {isFailed && (
+        <div className="flex items-center gap-3 mt-1 text-xs">
+          <span className="text-red-500 font-medium">Not sent</span>
+          <button onClick={onRetry} className="text-blue-600 font-semibold hover:underline">
+            Retry
+          </button>
+          <button onClick={onDiscard} className="text-gray-500 hover:underline">
+            Discard
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
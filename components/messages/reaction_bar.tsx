@@ -0,0 +1,29 @@
+'use client';
+
+export const REACTION_EMOJIS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface ReactionBarProps {
+  // Emojis the user has already reacted with, shown as selected
+  activeEmojis: string[];
+  onPick: (emoji: string) => void;
+}
+
+export default function ReactionBar({ activeEmojis, onPick }: ReactionBarProps) {
+  return (
+    <div className="flex justify-center py-2 bg-white/90 border-b border-gray-200 shadow-sm">
+      <div className="flex gap-1 bg-white rounded-full px-2 py-1 shadow-md border border-gray-100">
+        {REACTION_EMOJIS.map((emoji) => (
+          <button
+            key={emoji}
+            onClick={() => onPick(emoji)}
+            className={`w-10 h-10 rounded-full text-2xl flex items-center justify-center transition hover:scale-125 ${
+              activeEmojis.includes(emoji) ? 'bg-blue-100' : 'hover:bg-gray-100'
+            }`}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { MouseEvent, ReactNode, TouchEvent, useRef, useState } from 'react';
+
+interface SwipeToDismissProps {
+  onDismiss: () => void;
+  children: ReactNode;
+}
+
+// Share of the row's width a swipe has to cover to dismiss it
+const DISMISS_FRACTION = 0.35;
+
+// Horizontal travel (px) before the row follows the finger, so vertical
+// scrolling through the list isn't taken over
+const DRAG_SLOP = 10;
+
+// How long the row takes to slide out before it's dismissed
+const LEAVE_MS = 200;
+
+// Swiping the row sideways past DISMISS_FRACTION slides it out and dismisses
+// it; anything shorter snaps back
+export default function SwipeToDismiss({ onDismiss, children }: SwipeToDismissProps) {
+  const [offset, setOffset] = useState(0);
+  const [isDragging, setIsDragging] = useState(false);
+  const rowRef = useRef<HTMLDivElement>(null);
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+  const didSwipe = useRef(false);
+
+  const handleTouchStart = (e: TouchEvent<HTMLDivElement>) => {
+    touchStart.current = { x: e.touches[0].clientX, y: e.touches[0].clientY };
+    didSwipe.current = false;
+  };
+
+  const handleTouchMove = (e: TouchEvent<HTMLDivElement>) => {
+    if (!touchStart.current) return;
+    const dx = e.touches[0].clientX - touchStart.current.x;
+    const dy = e.touches[0].clientY - touchStart.current.y;
+
+    if (!isDragging) {
+      if (Math.abs(dy) > DRAG_SLOP && Math.abs(dy) > Math.abs(dx)) {
+        touchStart.current = null;
+        return;
+      }
+      if (Math.abs(dx) < DRAG_SLOP) return;
+      setIsDragging(true);
+    }
+    setOffset(dx);
+  };
+
+  const handleTouchEnd = () => {
+    touchStart.current = null;
+    if (!isDragging) return;
+
+    setIsDragging(false);
+    didSwipe.current = true;
+    const width = rowRef.current?.offsetWidth ?? 0;
+
+    if (width > 0 && Math.abs(offset) >= width * DISMISS_FRACTION) {
+      setOffset(Math.sign(offset) * width);
+      setTimeout(onDismiss, LEAVE_MS);
+    } else {
+      setOffset(0);
+    }
+  };
+
+  // A swipe ends with a click on touch devices; don't let it open the row
+  const handleClickCapture = (e: MouseEvent<HTMLDivElement>) => {
+    if (didSwipe.current) {
+      didSwipe.current = false;
+      e.stopPropagation();
+      e.preventDefault();
+    }
+  };
+
+  return (
+    <div className="relative overflow-hidden rounded-2xl">
+      {offset !== 0 && (
+        <div className={`absolute inset-0 flex items-center px-6 bg-slate-200 text-slate-600 text-sm font-medium ${
+          offset < 0 ? 'justify-end' : 'justify-start'
+        }`}>
+          Dismiss
+        </div>
+      )}
+      <div
+        ref={rowRef}
+        className={`relative ${isDragging ? '' : 'transition-transform duration-200'}`}
+        style={{ transform: `translateX(${offset}px)` }}
+        onTouchStart={handleTouchStart}
+        onTouchMove={handleTouchMove}
+        onTouchEnd={handleTouchEnd}
+        onClickCapture={handleClickCapture}
+      >
+        {children}
+      </div>
+    </div>
+  );
+}
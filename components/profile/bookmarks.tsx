@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import {
   Heart,
   MapPin,
@@ -9,60 +9,29 @@ import {
   Bookmark,
   BookmarkX,
   Image as ImageIcon,
+  Layers,
+  MessageCircle,
   AlertCircle,
   RefreshCw,
   LogIn,
   X,
   CheckCircle
 } from 'lucide-react';
-
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-// Types
-interface Post {
-  id: string;
-  userId: string;
-  userName: string;
-  imageUrl: string;
-  caption: string;
-  location?: string;
-  tags: string[];
-  createdAt: Date;
-  likes: number;
-  commentCount: number;
-  isFeatured: boolean;
-  isVerified: boolean;
-  userType: string;
-}
-
-// Helper function to get comment count
-async function getCommentCount(postId: string): Promise<number> {
-  try {
-    const { count, error } = await supabase
-      .from('comments')
-      .select('*', { count: 'exact', head: true })
-      .eq('post_id', postId);
-    
-    if (error) {
-      console.error('Error fetching comment count:', error);
-      return 0;
-    }
-    
-    return count || 0;
-  } catch (err) {
-    console.error('Error getting comment count:', err);
-    return 0;
-  }
-}
+import ImageCarousel from '@/components/community/image_carousel';
+import CommentSheet from '@/components/community/comment_sheet';
+import {
+  Post,
+  fetchBookmarkedPosts,
+  hasLiked,
+  likePost,
+  unlikePost,
+  removeBookmark,
+} from '@/lib/repositories/posts';
 
 // Utility function for time ago
-function getTimeAgo(date: Date): string {
+function getTimeAgo(date: string): string {
   const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
+  const diffMs = now.getTime() - new Date(date).getTime();
   const diffMins = Math.floor(diffMs / 60000);
   const diffHours = Math.floor(diffMs / 3600000);
   const diffDays = Math.floor(diffMs / 86400000);
@@ -153,98 +122,14 @@ export default function MyBookmarks() {
 
       setIsAuthenticated(true);
 
-      // Step 1: Get bookmarks for the user
-      const start = 0;
-      const end = POSTS_PER_PAGE - 1;
-      
-      const { data: bookmarksData, error: bookmarksError } = await supabase
-        .from('bookmarks')
-        .select('post_id, created_at')
-        .eq('user_id', currentUser.id)
-        .order('created_at', { ascending: false })
-        .range(start, end);
-
-      if (bookmarksError) throw bookmarksError;
-
-      if (!bookmarksData || bookmarksData.length === 0) {
-        setBookmarks([]);
-        setHasMore(false);
-        setIsLoading(false);
-        return;
-      }
-
-      // Step 2: Get posts for each bookmark
-      const postIds = bookmarksData.map(b => b.post_id);
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('id, user_id, caption, images, location, tags, likes_count, created_at, is_featured')
-        .in('id', postIds);
-
-      if (postsError) throw postsError;
-
-      if (!postsData || postsData.length === 0) {
-        setBookmarks([]);
-        setHasMore(false);
-        setIsLoading(false);
-        return;
-      }
-
-      // Step 3: Get user profiles for each post
-      const userIds = [...new Set(postsData.map(p => p.user_id))];
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, username, user_type, is_verified')
-        .in('id', userIds);
-
-      if (profilesError) throw profilesError;
-
-      // Create a map of user profiles
-      const profilesMap = new Map();
-      if (profilesData) {
-        profilesData.forEach(profile => {
-          profilesMap.set(profile.id, profile);
-        });
-      }
-
-      // Step 4: Map bookmarks to Post interface
-      const mappedBookmarks: Post[] = [];
-      for (const postData of postsData) {
-        const profile = profilesMap.get(postData.user_id);
-        const commentCount = await getCommentCount(postData.id);
-        
-        mappedBookmarks.push({
-          id: postData.id,
-          userId: postData.user_id,
-          userName: profile?.username || 'User',
-          imageUrl: Array.isArray(postData.images) && postData.images.length > 0 
-            ? postData.images[0] 
-            : '',
-          caption: postData.caption || '',
-          location: postData.location || undefined,
-          tags: Array.isArray(postData.tags) ? postData.tags : [],
-          createdAt: new Date(postData.created_at),
-          likes: postData.likes_count || 0,
-          commentCount: commentCount,
-          isFeatured: postData.is_featured || false,
-          isVerified: profile?.is_verified || false,
-          userType: profile?.user_type || 'User'
-        });
-      }
-
-      // Sort by bookmark creation date (most recent first)
-      const bookmarksMap = new Map(bookmarksData.map(b => [b.post_id, b.created_at]));
-      mappedBookmarks.sort((a, b) => {
-        const dateA = bookmarksMap.get(a.id) || a.createdAt;
-        const dateB = bookmarksMap.get(b.id) || b.createdAt;
-        return new Date(dateB).getTime() - new Date(dateA).getTime();
-      });
+      const { posts: mappedBookmarks, count } = await fetchBookmarkedPosts(currentUser.id, 0, POSTS_PER_PAGE);
 
       setBookmarks(mappedBookmarks);
-      setHasMore(bookmarksData.length >= POSTS_PER_PAGE);
+      setHasMore(count >= POSTS_PER_PAGE);
       setCurrentPage(0);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error loading bookmarks:', err);
-      setError(`Failed to load bookmarks: ${err?.message || 'Unknown error'}`);
+      setError(`Failed to load bookmarks: ${err instanceof Error ? err.message : 'Unknown error'}`);
       setIsAuthenticated(false);
     } finally {
       setIsLoading(false);
@@ -260,94 +145,21 @@ export default function MyBookmarks() {
       const { data: { user: currentUser }, error: userError } = await supabase.auth.getUser();
       if (userError || !currentUser) return;
 
-      // Get more bookmarks
-      const start = (currentPage + 1) * POSTS_PER_PAGE;
-      const end = start + POSTS_PER_PAGE - 1;
-      
-      const { data: bookmarksData, error: bookmarksError } = await supabase
-        .from('bookmarks')
-        .select('post_id, created_at')
-        .eq('user_id', currentUser.id)
-        .order('created_at', { ascending: false })
-        .range(start, end);
-
-      if (bookmarksError) throw bookmarksError;
-
-      if (!bookmarksData || bookmarksData.length === 0) {
-        setHasMore(false);
-        setIsLoadingMore(false);
-        return;
-      }
-
-      // Get posts for each bookmark
-      const postIds = bookmarksData.map(b => b.post_id);
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('id, user_id, caption, images, location, tags, likes_count, created_at, is_featured')
-        .in('id', postIds);
-
-      if (postsError) throw postsError;
+      const { posts: mappedBookmarks, count } = await fetchBookmarkedPosts(
+        currentUser.id,
+        currentPage + 1,
+        POSTS_PER_PAGE
+      );
 
-      if (!postsData || postsData.length === 0) {
+      if (count === 0) {
         setHasMore(false);
-        setIsLoadingMore(false);
         return;
       }
 
-      // Get user profiles
-      const userIds = [...new Set(postsData.map(p => p.user_id))];
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, username, user_type, is_verified')
-        .in('id', userIds);
-
-      if (profilesError) throw profilesError;
-
-      // Create a map of user profiles
-      const profilesMap = new Map();
-      if (profilesData) {
-        profilesData.forEach(profile => {
-          profilesMap.set(profile.id, profile);
-        });
-      }
-
-      // Map to Post interface
-      const mappedBookmarks: Post[] = [];
-      for (const postData of postsData) {
-        const profile = profilesMap.get(postData.user_id);
-        const commentCount = await getCommentCount(postData.id);
-        
-        mappedBookmarks.push({
-          id: postData.id,
-          userId: postData.user_id,
-          userName: profile?.username || 'User',
-          imageUrl: Array.isArray(postData.images) && postData.images.length > 0 
-            ? postData.images[0] 
-            : '',
-          caption: postData.caption || '',
-          location: postData.location || undefined,
-          tags: Array.isArray(postData.tags) ? postData.tags : [],
-          createdAt: new Date(postData.created_at),
-          likes: postData.likes_count || 0,
-          commentCount: commentCount,
-          isFeatured: postData.is_featured || false,
-          isVerified: profile?.is_verified || false,
-          userType: profile?.user_type || 'User'
-        });
-      }
-
-      // Sort by bookmark creation date
-      const bookmarksMap = new Map(bookmarksData.map(b => [b.post_id, b.created_at]));
-      mappedBookmarks.sort((a, b) => {
-        const dateA = bookmarksMap.get(a.id) || a.createdAt;
-        const dateB = bookmarksMap.get(b.id) || b.createdAt;
-        return new Date(dateB).getTime() - new Date(dateA).getTime();
-      });
-
       setBookmarks(prev => [...prev, ...mappedBookmarks]);
-      setHasMore(bookmarksData.length >= POSTS_PER_PAGE);
+      setHasMore(count >= POSTS_PER_PAGE);
       setCurrentPage(prev => prev + 1);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error loading more bookmarks:', err);
     } finally {
       setIsLoadingMore(false);
@@ -366,34 +178,13 @@ export default function MyBookmarks() {
         return;
       }
 
-      // Check if already liked
-      const { data: existingLike } = await supabase
-        .from('post_likes')
-        .select('id')
-        .eq('post_id', postId)
-        .eq('user_id', currentUser.id)
-        .single();
-
       let newLikes: number;
-      if (existingLike) {
-        // Unlike
-        await supabase
-          .from('post_likes')
-          .delete()
-          .eq('post_id', postId)
-          .eq('user_id', currentUser.id);
-        
+      if (await hasLiked(currentUser.id, postId)) {
+        await unlikePost(currentUser.id, postId);
         newLikes = bookmarks[index].likes - 1;
         showToast('Post unliked!', 'success');
       } else {
-        // Like
-        await supabase
-          .from('post_likes')
-          .insert({
-            post_id: postId,
-            user_id: currentUser.id
-          });
-        
+        await likePost(currentUser.id, postId);
         newLikes = bookmarks[index].likes + 1;
         showToast('Post liked!', 'success');
       }
@@ -403,7 +194,7 @@ export default function MyBookmarks() {
         updated[index] = { ...updated[index], likes: newLikes };
         return updated;
       });
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error toggling like:', err);
       showToast('Failed to update like', 'error');
     }
@@ -419,20 +210,14 @@ export default function MyBookmarks() {
         return;
       }
 
-      const { error } = await supabase
-        .from('bookmarks')
-        .delete()
-        .eq('user_id', currentUser.id)
-        .eq('post_id', postToRemove.id);
-      
-      if (error) throw error;
+      await removeBookmark(currentUser.id, postToRemove.id);
 
       setBookmarks(prev => prev.filter(p => p.id !== postToRemove.id));
       showToast('Bookmark removed!', 'success');
       setShowRemoveDialog(false);
       setPostToRemove(null);
       setSelectedPost(null);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error removing bookmark:', err);
       showToast('Failed to remove bookmark', 'error');
     }
@@ -538,6 +323,13 @@ export default function MyBookmarks() {
               <span className="text-white text-xs font-medium">{post.likes}</span>
             </div>
 
+            {/* Multi-image indicator */}
+            {post.images.length > 1 && (
+              <div className="absolute bottom-2 right-2 bg-black/60 backdrop-blur-sm p-1 rounded-md">
+                <Layers size={14} className="text-white" />
+              </div>
+            )}
+
             {/* Bookmark indicator */}
             <div className="absolute top-2 left-2">
               <Bookmark size={20} className="text-[#FFC857] fill-[#FFC857]" />
@@ -572,6 +364,9 @@ export default function MyBookmarks() {
         <BookmarkDetailModal
           post={selectedPost}
           onClose={() => setSelectedPost(null)}
+          onCommentCountChange={(postId, count) => {
+            setBookmarks(prev => prev.map(p => p.id === postId ? { ...p, commentCount: count } : p));
+          }}
           onLike={(postId) => {
             const index = bookmarks.findIndex(p => p.id === postId);
             if (index !== -1) toggleLike(postId, index);
@@ -622,13 +417,18 @@ function BookmarkDetailModal({
   post,
   onClose,
   onLike,
+  onCommentCountChange,
   onRemove
 }: {
   post: Post;
   onClose: () => void;
   onLike: (postId: string) => void;
+  onCommentCountChange: (postId: string, count: number) => void;
   onRemove: (post: Post) => void;
 }) {
+  const [showComments, setShowComments] = useState(false);
+  const [commentCount, setCommentCount] = useState(post.commentCount);
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="relative bg-[#23262B] rounded-3xl max-w-2xl w-full max-h-[85vh] overflow-hidden">
@@ -641,11 +441,11 @@ function BookmarkDetailModal({
         <div className="overflow-y-auto max-h-[calc(85vh-40px)] p-4">
           {/* Post Image */}
           <div className="rounded-xl overflow-hidden mb-4">
-            {post.imageUrl ? (
-              <img
-                src={post.imageUrl}
+            {post.images.length > 0 ? (
+              <ImageCarousel
+                images={post.images}
                 alt={post.caption || 'Post image'}
-                className="w-full aspect-square object-cover"
+                className="w-full aspect-square"
               />
             ) : (
               <div className="w-full aspect-square bg-[#181A20] flex items-center justify-center">
@@ -665,13 +465,31 @@ function BookmarkDetailModal({
           {/* Likes and actions */}
           <div className="flex items-center justify-between mb-4">
             <p className="text-gray-200 font-semibold">{post.likes} likes</p>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onLike(post.id)}
+                className="p-2 hover:bg-[#2A2D33] rounded-full transition"
+              >
+                <Heart size={24} className="text-[#4F8A8B]" />
+              </button>
+              <button
+                onClick={() => setShowComments(true)}
+                className="p-2 hover:bg-[#2A2D33] rounded-full transition flex items-center gap-1"
+              >
+                <MessageCircle size={24} className="text-[#4F8A8B]" />
+                {commentCount > 0 && <span className="text-[#4F8A8B] text-sm">{commentCount}</span>}
+              </button>
+            </div>
+          </div>
+
+          {commentCount > 0 && (
             <button
-              onClick={() => onLike(post.id)}
-              className="p-2 hover:bg-[#2A2D33] rounded-full transition"
+              onClick={() => setShowComments(true)}
+              className="text-sm font-medium text-[#4F8A8B] mb-4"
             >
-              <Heart size={24} className="text-[#4F8A8B]" />
+              View {commentCount === 1 ? '1 comment' : `all ${commentCount} comments`}
             </button>
-          </div>
+          )}
 
           {/* Caption */}
           {post.caption && (
@@ -725,6 +543,18 @@ function BookmarkDetailModal({
           <X size={20} className="text-white" />
         </button>
       </div>
+
+      {showComments && (
+        <CommentSheet
+          postId={post.id}
+          postOwnerId={post.userId}
+          onClose={() => setShowComments(false)}
+          onCountChange={(count) => {
+            setCommentCount(count);
+            onCommentCountChange(post.id, count);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,113 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import { UserPlus, UserCheck } from 'lucide-react';
+import { follow, unfollow, isFollowing as checkIsFollowing } from '@/lib/repositories/profiles';
+
+interface FollowButtonProps {
+  userId: string;
+  // When omitted the button looks up the current follow state itself
+  initialIsFollowing?: boolean;
+  // 'light' is for the gradient profile banner, 'default' for white cards
+  variant?: 'default' | 'light';
+  size?: 'sm' | 'md';
+  onChange?: (isFollowing: boolean) => void;
+}
+
+const variantClasses = {
+  default: {
+    following: 'bg-slate-100 text-slate-700 border border-slate-300 hover:bg-slate-200',
+    notFollowing: 'bg-blue-500 text-white hover:bg-blue-600',
+  },
+  light: {
+    following: 'bg-white/20 border border-white/40 text-white hover:bg-white/30',
+    notFollowing: 'bg-white text-indigo-600 shadow hover:shadow-lg',
+  },
+};
+
+const sizeClasses = {
+  sm: 'px-3 py-1.5 text-xs gap-1',
+  md: 'px-5 py-2.5 text-sm gap-2',
+};
+
+export default function FollowButton({
+  userId,
+  initialIsFollowing,
+  variant = 'default',
+  size = 'md',
+  onChange,
+}: FollowButtonProps) {
+  const [isFollowing, setIsFollowing] = useState(initialIsFollowing ?? false);
+  const [isLoading, setIsLoading] = useState(initialIsFollowing === undefined);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadFollowState = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setIsFollowing(await checkIsFollowing(user.id, userId));
+    } catch (err) {
+      console.error('Error loading follow state:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (initialIsFollowing !== undefined) return;
+
+    const init = async () => {
+      await loadFollowState();
+    };
+    init();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, initialIsFollowing]);
+
+  const toggleFollow = async (e: React.MouseEvent) => {
+    // Buttons sit inside clickable cards (search results, lists)
+    e.stopPropagation();
+    if (isSaving) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) {
+      alert('Please sign in to follow users');
+      return;
+    }
+
+    const wasFollowing = isFollowing;
+    setIsFollowing(!wasFollowing);
+    setIsSaving(true);
+
+    try {
+      if (wasFollowing) {
+        await unfollow(user.id, userId);
+      } else {
+        await follow(user.id, userId);
+      }
+      onChange?.(!wasFollowing);
+    } catch (err) {
+      console.error('Error toggling follow:', err);
+      setIsFollowing(wasFollowing);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const colors = variantClasses[variant];
+  const iconSize = size === 'sm' ? 14 : 18;
+
+  return (
+    <button
+      onClick={toggleFollow}
+      disabled={isLoading || isSaving}
+      className={`inline-flex items-center font-semibold rounded-full transition disabled:opacity-60 ${sizeClasses[size]} ${
+        isFollowing ? colors.following : colors.notFollowing
+      }`}
+    >
+      {isFollowing ? <UserCheck size={iconSize} /> : <UserPlus size={iconSize} />}
+      {isFollowing ? 'Following' : 'Follow'}
+    </button>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase/client';
+import { X, Users, BadgeCheck, AlertCircle, RefreshCw } from 'lucide-react';
+import FollowButton from '@/components/profile/follow_button';
+import { displayName, getFollowListIds, getFollowingIds, getProfileMap } from '@/lib/repositories/profiles';
+
+// Types
+export type FollowListType = 'followers' | 'following';
+
+interface FollowListUser {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url?: string;
+  is_verified: boolean;
+}
+
+interface FollowListModalProps {
+  userId: string;
+  type: FollowListType;
+  onClose: () => void;
+  // Lets the owning page keep its counts in step when the viewer follows from the list
+  onFollowChange?: (userId: string, isFollowing: boolean) => void;
+}
+
+// Followers / following list for a profile
+export default function FollowListModal({
+  userId,
+  type,
+  onClose,
+  onFollowChange,
+}: FollowListModalProps) {
+  const router = useRouter();
+  const [users, setUsers] = useState<FollowListUser[]>([]);
+  const [viewerId, setViewerId] = useState<string | null>(null);
+  const [viewerFollowing, setViewerFollowing] = useState<Set<string>>(new Set());
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsers = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      setViewerId(user?.id || null);
+
+      const ids = await getFollowListIds(userId, type);
+
+      if (ids.length === 0) {
+        setUsers([]);
+        return;
+      }
+
+      const profileMap = await getProfileMap(ids);
+      setUsers(ids
+        .filter(id => profileMap.has(id))
+        .map(id => {
+          const p = profileMap.get(id)!;
+          return {
+            id: p.id,
+            username: p.username || 'user',
+            display_name: displayName(p, 'User'),
+            avatar_url: p.avatar_url || undefined,
+            is_verified: p.is_verified || false,
+          };
+        }));
+
+      // Follow state of the viewer for each listed user
+      if (user) {
+        setViewerFollowing(new Set(await getFollowingIds(user.id, ids)));
+      }
+    } catch (err) {
+      console.error(`Error loading ${type}:`, err);
+      setError(`Failed to load ${type}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const init = async () => {
+      await loadUsers();
+    };
+    init();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId, type]);
+
+  const openProfile = (id: string) => {
+    onClose();
+    router.push(id === viewerId ? '/profile' : `/profile/${id}`);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-end sm:items-center justify-center z-50 p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-t-3xl sm:rounded-3xl w-full max-w-md max-h-[80vh] flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <h2 className="text-lg font-semibold text-gray-900">
+            {type === 'followers' ? 'Followers' : 'Following'}
+          </h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-full transition">
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        {/* List */}
+        <div className="flex-1 overflow-y-auto">
+          {isLoading ? (
+            <div className="py-12 flex justify-center">
+              <div className="w-8 h-8 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : error ? (
+            <div className="py-12 text-center">
+              <AlertCircle size={48} className="mx-auto text-gray-400 mb-3" />
+              <p className="text-gray-500 text-sm mb-4">{error}</p>
+              <button
+                onClick={() => {
+                  setIsLoading(true);
+                  setError(null);
+                  loadUsers();
+                }}
+                className="inline-flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition"
+              >
+                <RefreshCw size={16} />
+                Retry
+              </button>
+            </div>
+          ) : users.length === 0 ? (
+            <div className="py-12 text-center">
+              <Users size={48} className="mx-auto text-gray-300 mb-3" />
+              <p className="text-gray-500 text-sm">
+                {type === 'followers' ? 'No followers yet' : 'Not following anyone yet'}
+              </p>
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {users.map(user => (
+                <li
+                  key={user.id}
+                  onClick={() => openProfile(user.id)}
+                  className="flex items-center gap-3 px-6 py-3 hover:bg-gray-50 cursor-pointer transition"
+                >
+                  <div className="w-11 h-11 rounded-full overflow-hidden flex-shrink-0 bg-gradient-to-br from-indigo-400 to-purple-500 flex items-center justify-center">
+                    {user.avatar_url ? (
+                      <img src={user.avatar_url} alt={user.display_name} className="w-full h-full object-cover" />
+                    ) : (
+                      <span className="text-white font-bold">{user.display_name[0]?.toUpperCase() || 'U'}</span>
+                    )}
+                  </div>
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-1">
+                      <p className="font-semibold text-gray-900 truncate">{user.display_name}</p>
+                      {user.is_verified && <BadgeCheck size={16} className="text-white fill-blue-500 flex-shrink-0" />}
+                    </div>
+                    <p className="text-sm text-gray-500 truncate">@{user.username}</p>
+                  </div>
+                  {viewerId && viewerId !== user.id && (
+                    <FollowButton
+                      userId={user.id}
+                      initialIsFollowing={viewerFollowing.has(user.id)}
+                      size="sm"
+                      onChange={(isFollowing) => onFollowChange?.(user.id, isFollowing)}
+                    />
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import {
   Heart,
   MapPin,
@@ -10,59 +10,29 @@ import {
   Share2,
   Trash2,
   Image as ImageIcon,
+  Layers,
+  MessageCircle,
   AlertCircle,
   RefreshCw,
   LogIn,
   X
 } from 'lucide-react';
-
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-// Types
-interface Post {
-  id: string;
-  userId: string;
-  userName: string;
-  imageUrl: string;
-  caption: string;
-  location?: string;
-  tags: string[];
-  createdAt: Date;
-  likes: number;
-  commentCount: number;
-  isFeatured: boolean;
-  isVerified: boolean;
-  userType: string;
-}
-
-// Helper function to get comment count
-async function getCommentCount(postId: string): Promise<number> {
-  try {
-    const { count, error } = await supabase
-      .from('comments')
-      .select('*', { count: 'exact', head: true })
-      .eq('post_id', postId);
-    
-    if (error) {
-      console.error('Error fetching comment count:', error);
-      return 0;
-    }
-    
-    return count || 0;
-  } catch (err) {
-    console.error('Error getting comment count:', err);
-    return 0;
-  }
-}
+import ImageCarousel from '@/components/community/image_carousel';
+import CommentSheet from '@/components/community/comment_sheet';
+import {
+  Post,
+  fetchPosts,
+  hasLiked,
+  likePost,
+  unlikePost,
+  adjustLikesCount,
+  deletePost,
+} from '@/lib/repositories/posts';
 
 // Utility function for time ago
-function getTimeAgo(date: Date): string {
+function getTimeAgo(date: string): string {
   const now = new Date();
-  const diffMs = now.getTime() - date.getTime();
+  const diffMs = now.getTime() - new Date(date).getTime();
   const diffMins = Math.floor(diffMs / 60000);
   const diffHours = Math.floor(diffMs / 3600000);
   const diffDays = Math.floor(diffMs / 86400000);
@@ -151,63 +121,14 @@ export default function MyPosts() {
         return;
       }
 
-      // Fetch user profile
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('username, user_type, is_verified')
-        .eq('id', currentUser.id)
-        .single();
-
-      // Fetch user posts
-      const start = 0;
-      const end = POSTS_PER_PAGE - 1;
-      
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('id, user_id, caption, images, location, tags, likes_count, created_at, is_featured')
-        .eq('user_id', currentUser.id)
-        .order('created_at', { ascending: false })
-        .range(start, end);
-
-      if (postsError) throw postsError;
-
-      if (!postsData || postsData.length === 0) {
-        setPosts([]);
-        setHasMore(false);
-        setIsLoading(false);
-        return;
-      }
-
-      // Map posts to Post interface
-      const mappedPosts: Post[] = [];
-      for (const postData of postsData) {
-        const commentCount = await getCommentCount(postData.id);
-        
-        mappedPosts.push({
-          id: postData.id,
-          userId: postData.user_id,
-          userName: profileData?.username || 'User',
-          imageUrl: Array.isArray(postData.images) && postData.images.length > 0 
-            ? postData.images[0] 
-            : '',
-          caption: postData.caption || '',
-          location: postData.location || undefined,
-          tags: Array.isArray(postData.tags) ? postData.tags : [],
-          createdAt: new Date(postData.created_at),
-          likes: postData.likes_count || 0,
-          commentCount: commentCount,
-          isFeatured: postData.is_featured || false,
-          isVerified: profileData?.is_verified || false,
-          userType: profileData?.user_type || 'User'
-        });
-      }
+      const mappedPosts = await fetchPosts({ page: 0, pageSize: POSTS_PER_PAGE, userIds: [currentUser.id] });
 
       setPosts(mappedPosts);
       setHasMore(mappedPosts.length >= POSTS_PER_PAGE);
       setCurrentPage(0);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error loading posts:', err);
-      setError(`Failed to load your posts: ${err?.message || 'Unknown error'}`);
+      setError(`Failed to load your posts: ${err instanceof Error ? err.message : 'Unknown error'}`);
       setIsAuthenticated(false);
     } finally {
       setIsLoading(false);
@@ -223,56 +144,17 @@ export default function MyPosts() {
       const { data: { user: currentUser }, error: userError } = await supabase.auth.getUser();
       if (userError || !currentUser) return;
 
-      // Fetch user profile
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('username, user_type, is_verified')
-        .eq('id', currentUser.id)
-        .single();
-
-      // Fetch more posts
-      const start = (currentPage + 1) * POSTS_PER_PAGE;
-      const end = start + POSTS_PER_PAGE - 1;
-      
-      const { data: postsData, error: postsError } = await supabase
-        .from('posts')
-        .select('id, user_id, caption, images, location, tags, likes_count, created_at, is_featured')
-        .eq('user_id', currentUser.id)
-        .order('created_at', { ascending: false })
-        .range(start, end);
-
-      if (postsError) throw postsError;
+      const mappedPosts = await fetchPosts({
+        page: currentPage + 1,
+        pageSize: POSTS_PER_PAGE,
+        userIds: [currentUser.id],
+      });
 
-      if (!postsData || postsData.length === 0) {
+      if (mappedPosts.length === 0) {
         setHasMore(false);
-        setIsLoadingMore(false);
         return;
       }
 
-      // Map posts to Post interface
-      const mappedPosts: Post[] = [];
-      for (const postData of postsData) {
-        const commentCount = await getCommentCount(postData.id);
-        
-        mappedPosts.push({
-          id: postData.id,
-          userId: postData.user_id,
-          userName: profileData?.username || 'User',
-          imageUrl: Array.isArray(postData.images) && postData.images.length > 0 
-            ? postData.images[0] 
-            : '',
-          caption: postData.caption || '',
-          location: postData.location || undefined,
-          tags: Array.isArray(postData.tags) ? postData.tags : [],
-          createdAt: new Date(postData.created_at),
-          likes: postData.likes_count || 0,
-          commentCount: commentCount,
-          isFeatured: postData.is_featured || false,
-          isVerified: profileData?.is_verified || false,
-          userType: profileData?.user_type || 'User'
-        });
-      }
-
       setPosts(prev => [...prev, ...mappedPosts]);
       setHasMore(mappedPosts.length >= POSTS_PER_PAGE);
       setCurrentPage(prev => prev + 1);
@@ -296,74 +178,23 @@ export default function MyPosts() {
         return;
       }
 
-      // Check if already liked
-      const { data: existingLike } = await supabase
-        .from('post_likes')
-        .select('id')
-        .eq('post_id', postId)
-        .eq('user_id', currentUser.id)
-        .single();
-
-      if (existingLike) {
-        // Unlike: remove like
-        const { error: deleteError } = await supabase
-          .from('post_likes')
-          .delete()
-          .eq('post_id', postId)
-          .eq('user_id', currentUser.id);
-
-        if (deleteError) throw deleteError;
-
-        // Update likes count
-        const { data: postData } = await supabase
-          .from('posts')
-          .select('likes_count')
-          .eq('id', postId)
-          .single();
-
-        const newLikesCount = Math.max(0, (postData?.likes_count || 0) - 1);
-
-        await supabase
-          .from('posts')
-          .update({ likes_count: newLikesCount })
-          .eq('id', postId);
-
-        setPosts(prev => {
-          const updated = [...prev];
-          updated[index] = { ...updated[index], likes: newLikesCount };
-          return updated;
-        });
-        showToast('Post unliked!', 'success');
+      const wasLiked = await hasLiked(currentUser.id, postId);
+
+      if (wasLiked) {
+        await unlikePost(currentUser.id, postId);
       } else {
-        // Like: add like
-        const { error: insertError } = await supabase
-          .from('post_likes')
-          .insert({ post_id: postId, user_id: currentUser.id });
-
-        if (insertError) throw insertError;
-
-        // Update likes count
-        const { data: postData } = await supabase
-          .from('posts')
-          .select('likes_count')
-          .eq('id', postId)
-          .single();
-
-        const newLikesCount = (postData?.likes_count || 0) + 1;
-
-        await supabase
-          .from('posts')
-          .update({ likes_count: newLikesCount })
-          .eq('id', postId);
-
-        setPosts(prev => {
-          const updated = [...prev];
-          updated[index] = { ...updated[index], likes: newLikesCount };
-          return updated;
-        });
-        showToast('Post liked!', 'success');
+        await likePost(currentUser.id, postId);
       }
-    } catch (err: any) {
+
+      const newLikesCount = await adjustLikesCount(postId, wasLiked ? -1 : 1);
+
+      setPosts(prev => {
+        const updated = [...prev];
+        updated[index] = { ...updated[index], likes: newLikesCount };
+        return updated;
+      });
+      showToast(wasLiked ? 'Post unliked!' : 'Post liked!', 'success');
+    } catch (err) {
       console.error('Error toggling like:', err);
       showToast('Failed to update like', 'error');
     }
@@ -380,39 +211,22 @@ export default function MyPosts() {
         return;
       }
 
-      // Verify ownership
-      const { data: postData } = await supabase
-        .from('posts')
-        .select('user_id')
-        .eq('id', postToDelete.id)
-        .single();
-
-      if (!postData || postData.user_id !== currentUser.id) {
+      // Only your own posts can be deleted here
+      if (postToDelete.userId !== currentUser.id) {
         showToast('You can only delete your own posts', 'error');
         return;
       }
 
-      // Delete related data first (likes, comments, bookmarks)
-      await supabase.from('post_likes').delete().eq('post_id', postToDelete.id);
-      await supabase.from('comments').delete().eq('post_id', postToDelete.id);
-      await supabase.from('bookmarks').delete().eq('post_id', postToDelete.id);
-
-      // Delete the post
-      const { error: deleteError } = await supabase
-        .from('posts')
-        .delete()
-        .eq('id', postToDelete.id);
-
-      if (deleteError) throw deleteError;
+      await deletePost(postToDelete.id);
 
       setPosts(prev => prev.filter(p => p.id !== postToDelete.id));
       showToast('Post deleted successfully', 'success');
       setShowDeleteDialog(false);
       setPostToDelete(null);
       setSelectedPost(null);
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error deleting post:', err);
-      showToast(`Failed to delete post: ${err?.message || 'Unknown error'}`, 'error');
+      showToast(`Failed to delete post: ${err instanceof Error ? err.message : 'Unknown error'}`, 'error');
     }
   };
 
@@ -530,6 +344,13 @@ export default function MyPosts() {
               <span className="text-white text-xs font-medium">{post.likes}</span>
             </div>
 
+            {/* Multi-image indicator */}
+            {post.images.length > 1 && (
+              <div className="absolute bottom-2 right-2 bg-black/60 backdrop-blur-sm p-1 rounded-md">
+                <Layers size={14} className="text-white" />
+              </div>
+            )}
+
             {/* Featured badge */}
             {post.isFeatured && (
               <div className="absolute top-2 left-2">
@@ -559,6 +380,9 @@ export default function MyPosts() {
         <PostDetailModal
           post={selectedPost}
           onClose={() => setSelectedPost(null)}
+          onCommentCountChange={(postId, count) => {
+            setPosts(prev => prev.map(p => p.id === postId ? { ...p, commentCount: count } : p));
+          }}
           onLike={(postId) => {
             const index = posts.findIndex(p => p.id === postId);
             if (index !== -1) toggleLike(postId, index);
@@ -618,6 +442,7 @@ function PostDetailModal({
   post,
   onClose,
   onLike,
+  onCommentCountChange,
   onEdit,
   onShare,
   onDelete
@@ -625,10 +450,14 @@ function PostDetailModal({
   post: Post;
   onClose: () => void;
   onLike: (postId: string) => void;
+  onCommentCountChange: (postId: string, count: number) => void;
   onEdit: (post: Post) => void;
   onShare: (post: Post) => void;
   onDelete: (post: Post) => void;
 }) {
+  const [showComments, setShowComments] = useState(false);
+  const [commentCount, setCommentCount] = useState(post.commentCount);
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
       <div className="relative bg-[#23262B] rounded-3xl max-w-2xl w-full max-h-[85vh] overflow-hidden">
@@ -641,11 +470,11 @@ function PostDetailModal({
         <div className="overflow-y-auto max-h-[calc(85vh-40px)] p-4">
           {/* Post Image */}
           <div className="rounded-xl overflow-hidden mb-4">
-            {post.imageUrl ? (
-              <img
-                src={post.imageUrl}
+            {post.images.length > 0 ? (
+              <ImageCarousel
+                images={post.images}
                 alt={post.caption || 'Post image'}
-                className="w-full h-[300px] object-cover"
+                className="w-full h-[300px]"
               />
             ) : (
               <div className="w-full h-[300px] bg-[#181A20] flex items-center justify-center">
@@ -657,13 +486,31 @@ function PostDetailModal({
           {/* Likes and actions */}
           <div className="flex items-center justify-between mb-4">
             <p className="text-[#4F8A8B] font-semibold">{post.likes} likes</p>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => onLike(post.id)}
+                className="p-2 hover:bg-[#2A2D33] rounded-full transition"
+              >
+                <Heart size={24} className="text-[#4F8A8B]" />
+              </button>
+              <button
+                onClick={() => setShowComments(true)}
+                className="p-2 hover:bg-[#2A2D33] rounded-full transition flex items-center gap-1"
+              >
+                <MessageCircle size={24} className="text-[#4F8A8B]" />
+                {commentCount > 0 && <span className="text-[#4F8A8B] text-sm">{commentCount}</span>}
+              </button>
+            </div>
+          </div>
+
+          {commentCount > 0 && (
             <button
-              onClick={() => onLike(post.id)}
-              className="p-2 hover:bg-[#2A2D33] rounded-full transition"
+              onClick={() => setShowComments(true)}
+              className="text-sm font-medium text-[#4F8A8B] mb-4"
             >
-              <Heart size={24} className="text-[#4F8A8B]" />
+              View {commentCount === 1 ? '1 comment' : `all ${commentCount} comments`}
             </button>
-          </div>
+          )}
 
           {/* Caption */}
           {post.caption && (
@@ -733,6 +580,18 @@ function PostDetailModal({
           <X size={20} className="text-white" />
         </button>
       </div>
+
+      {showComments && (
+        <CommentSheet
+          postId={post.id}
+          postOwnerId={post.userId}
+          onClose={() => setShowComments(false)}
+          onCountChange={(count) => {
+            setCommentCount(count);
+            onCommentCountChange(post.id, count);
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,333 @@
+'use client';
+
+import { ReactNode, useState, useSyncExternalStore } from 'react';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import { usePushNotifications } from '@/lib/hooks/use_push_notifications';
+import {
+  CATEGORY_CHANNELS,
+  ChannelPreferences,
+  DIGEST_CATEGORIES,
+  NOTIFICATION_CATEGORIES,
+  NotificationCategory,
+  NotificationChannel,
+  NotificationPreferences,
+  NotificationSettings,
+  fetchNotificationPreferences,
+  saveChannelPreferences,
+  saveNotificationSettings,
+} from '@/lib/repositories/notification_preferences';
+
+interface NotificationPreferencesScreenProps {
+  userId: string;
+  // Loaded by the server page; null if that failed
+  initialPreferences: NotificationPreferences | null;
+  initialError?: string | null;
+}
+
+const CATEGORY_LABELS: Record<NotificationCategory, { label: string; description: string }> = {
+  messages: { label: 'Messages', description: 'New messages in your chats' },
+  comments: { label: 'Comments', description: 'Comments on your posts and replies to you' },
+  likes: { label: 'Likes', description: 'Likes and saves on your posts' },
+  follows: { label: 'Follows', description: 'New followers' },
+  photos: { label: 'Photos', description: 'Photos sent to you and purchases of yours' },
+  payments: { label: 'Payments', description: 'Whether your M-Pesa payments went through' },
+  announcements: { label: 'Announcements', description: 'Notices from the admins' },
+};
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: 'In-app',
+  push: 'Push',
+  email: 'Email',
+};
+
+const DEVICE_STATUS_TEXT: Record<string, string> = {
+  unsupported: "This browser can't receive push notifications.",
+  denied: 'Notifications are blocked for this site. Allow them in your browser settings to turn push on.',
+  off: 'Get push notifications on this device even when the app is closed.',
+  on: 'This device gets push notifications.',
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const formatHour = (hour: number) =>
+  new Intl.DateTimeFormat('en-US', { hour: 'numeric', timeZone: 'UTC' }).format(Date.UTC(2000, 0, 1, hour));
+
+// The browser's zone never changes while the page is open; null on the server
+const subscribeToNothing = () => () => {};
+const getDeviceTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+const getServerTimeZone = () => null;
+
+function Toggle({ checked, disabled, label, onChange }: {
+  checked: boolean;
+  disabled?: boolean;
+  label: string;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <button
+      role="switch"
+      aria-checked={checked}
+      aria-label={label}
+      disabled={disabled}
+      onClick={() => onChange(!checked)}
+      className={`relative w-11 h-6 rounded-full transition-colors flex-shrink-0 disabled:opacity-50 ${checked ? 'bg-indigo-600' : 'bg-gray-300'}`}
+    >
+      <span className={`absolute top-0.5 left-0.5 w-5 h-5 bg-white rounded-full shadow transition-transform ${checked ? 'translate-x-5' : ''}`} />
+    </button>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <section className="bg-white rounded-2xl shadow-sm p-5 space-y-4">
+      <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">{title}</h2>
+      {children}
+    </section>
+  );
+}
+
+// Settings are saved as they change, with the switch put back if that fails
+export default function NotificationPreferencesScreen({
+  userId,
+  initialPreferences,
+  initialError = null,
+}: NotificationPreferencesScreenProps) {
+  const router = useRouter();
+  const push = usePushNotifications();
+  const deviceTimeZone = useSyncExternalStore(subscribeToNothing, getDeviceTimeZone, getServerTimeZone);
+  const [channels, setChannels] = useState(initialPreferences?.channels ?? null);
+  const [settings, setSettings] = useState(initialPreferences?.settings ?? null);
+  const [error, setError] = useState<string | null>(initialError);
+  const [isLoading, setIsLoading] = useState(false);
+  const [snackbar, setSnackbar] = useState<string | null>(null);
+
+  const loadPreferences = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const preferences = await fetchNotificationPreferences(userId);
+      setChannels(preferences.channels);
+      setSettings(preferences.settings);
+    } catch (err) {
+      setError(`Failed to load notification settings: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const showError = (message: string) => {
+    setSnackbar(message);
+    setTimeout(() => setSnackbar(null), 4000);
+  };
+
+  const toggleDevice = async (enabled: boolean) => {
+    try {
+      await (enabled ? push.enable() : push.disable());
+    } catch (error) {
+      console.error('Error changing push subscription:', error);
+      showError(enabled ? 'Failed to turn on push notifications' : 'Failed to turn off push notifications');
+    }
+  };
+
+  const toggleChannel = async (category: NotificationCategory, channel: NotificationChannel, enabled: boolean) => {
+    if (!channels) return;
+    const previous = channels[category];
+    const next: ChannelPreferences = { ...previous, [channel]: enabled };
+
+    setChannels(prev => prev && { ...prev, [category]: next });
+    try {
+      await saveChannelPreferences(userId, category, next);
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      setChannels(prev => prev && { ...prev, [category]: previous });
+      showError('Failed to save your notification settings');
+    }
+  };
+
+  const updateSettings = async (changes: Partial<NotificationSettings>) => {
+    if (!settings) return;
+    const previous = settings;
+    const next = { ...settings, ...changes };
+
+    setSettings(next);
+    try {
+      await saveNotificationSettings(userId, next);
+    } catch (error) {
+      console.error('Error saving notification settings:', error);
+      setSettings(previous);
+      showError('Failed to save your notification settings');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-indigo-600 text-white sticky top-0 z-10">
+        <div className="max-w-2xl mx-auto px-4 py-4 flex items-center gap-3">
+          <button onClick={() => router.back()} className="p-2 -ml-2 hover:bg-indigo-700 rounded-lg transition-colors">
+            <ArrowLeft size={20} />
+          </button>
+          <h1 className="text-xl font-bold">Notifications</h1>
+        </div>
+      </header>
+
+      {!channels || !settings ? (
+        <div className="flex items-center justify-center h-[calc(100vh-64px)] px-5">
+          <div className="text-center">
+            <h2 className="text-lg font-semibold text-gray-600 mb-2">Failed to load your notification settings</h2>
+            <p className="text-sm text-gray-500 mb-6 max-w-md">{error}</p>
+            <button
+              onClick={loadPreferences}
+              disabled={isLoading}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              {isLoading ? 'Loading…' : 'Retry'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <main className="max-w-2xl mx-auto px-4 py-6 space-y-4">
+          <Section title="This device">
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-sm text-gray-600">{DEVICE_STATUS_TEXT[push.status]}</p>
+              <Toggle
+                label="Push notifications on this device"
+                checked={push.status === 'on'}
+                disabled={push.isBusy || push.status === 'unsupported' || push.status === 'denied'}
+                onChange={toggleDevice}
+              />
+            </div>
+          </Section>
+
+          <Section title="What you hear about">
+            <div className="grid grid-cols-[1fr_repeat(3,3.5rem)] gap-x-2 gap-y-4 items-center">
+              <span />
+              {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                <span key={channel} className="text-xs font-medium text-gray-500 text-center">
+                  {CHANNEL_LABELS[channel]}
+                </span>
+              ))}
+
+              {NOTIFICATION_CATEGORIES.map(category => (
+                <div key={category} className="contents">
+                  <div>
+                    <div className="text-sm font-medium text-gray-900">{CATEGORY_LABELS[category].label}</div>
+                    <p className="text-xs text-gray-500 mt-0.5">{CATEGORY_LABELS[category].description}</p>
+                  </div>
+                  {(Object.keys(CHANNEL_LABELS) as NotificationChannel[]).map(channel => (
+                    <div key={channel} className="flex justify-center">
+                      {CATEGORY_CHANNELS[category].includes(channel) ? (
+                        <input
+                          type="checkbox"
+                          aria-label={`${CATEGORY_LABELS[category].label}: ${CHANNEL_LABELS[channel]}`}
+                          checked={channels[category][channel]}
+                          onChange={(e) => toggleChannel(category, channel, e.target.checked)}
+                          className="w-5 h-5 accent-indigo-600"
+                        />
+                      ) : (
+                        <span className="text-gray-300">—</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          </Section>
+
+          <Section title="Daily digest">
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                Bundle push and email about {DIGEST_CATEGORIES.map(c => CATEGORY_LABELS[c].label.toLowerCase()).join(', ')} into
+                one a day. Messages and payments still arrive straight away.
+              </p>
+              <Toggle
+                label="Daily digest"
+                checked={settings.digest === 'daily'}
+                onChange={(enabled) => updateSettings({ digest: enabled ? 'daily' : 'off' })}
+              />
+            </div>
+            {settings.digest === 'daily' && (
+              <label className="flex items-center justify-between gap-4 text-sm text-gray-900">
+                Send it at
+                <select
+                  value={settings.digestHour}
+                  onChange={(e) => updateSettings({ digestHour: Number(e.target.value) })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg bg-white"
+                >
+                  {HOURS.map(hour => (
+                    <option key={hour} value={hour}>{formatHour(hour)}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+          </Section>
+
+          <Section title="Quiet hours">
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-sm text-gray-600">
+                Hold push notifications back until quiet hours end. Email and in-app notifications aren&apos;t affected.
+              </p>
+              <Toggle
+                label="Quiet hours"
+                checked={settings.quietHours}
+                onChange={(enabled) => updateSettings({ quietHours: enabled })}
+              />
+            </div>
+            {settings.quietHours && (
+              <div className="grid grid-cols-2 gap-3">
+                <label className="text-sm text-gray-900">
+                  From
+                  <input
+                    type="time"
+                    value={settings.quietStart}
+                    onChange={(e) => e.target.value && updateSettings({ quietStart: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </label>
+                <label className="text-sm text-gray-900">
+                  Until
+                  <input
+                    type="time"
+                    value={settings.quietEnd}
+                    onChange={(e) => e.target.value && updateSettings({ quietEnd: e.target.value })}
+                    className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg"
+                  />
+                </label>
+              </div>
+            )}
+            <div className="flex items-center justify-between gap-4 text-xs text-gray-500">
+              <span>Times are in {settings.timeZone.replace(/_/g, ' ')}</span>
+              {deviceTimeZone && deviceTimeZone !== settings.timeZone && (
+                <button
+                  onClick={() => updateSettings({ timeZone: deviceTimeZone })}
+                  className="text-indigo-600 font-medium hover:underline"
+                >
+                  Use {deviceTimeZone.replace(/_/g, ' ')}
+                </button>
+              )}
+            </div>
+          </Section>
+
+          <Section title="Notifications screen">
+            <div className="flex items-start justify-between gap-4">
+              <p className="text-sm text-gray-600">Mark everything read when I open Notifications</p>
+              <Toggle
+                label="Mark everything read when I open Notifications"
+                checked={settings.markReadOnOpen}
+                onChange={(enabled) => updateSettings({ markReadOnOpen: enabled })}
+              />
+            </div>
+          </Section>
+        </main>
+      )}
+
+      {snackbar && (
+        <div className="fixed bottom-6 left-4 right-4 z-50">
+          <div className="max-w-2xl mx-auto px-4 py-3 rounded-xl shadow-lg bg-red-600 text-white">
+            <p className="text-sm font-medium">{snackbar}</p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import React from 'react';
+import { VerifiedIcon, BadgeCheck } from 'lucide-react';
+
+interface ProfileStat {
+  label: string;
+  value: number;
+  onClick?: () => void;
+}
+
+interface ProfileHeaderProps {
+  displayName: string;
+  username: string;
+  email?: string;
+  avatarUrl?: string;
+  isVerified?: boolean;
+  badgeLabel?: string;
+  stats?: ProfileStat[];
+  // Rendered in the top-left / top-right corners of the banner (back button, menu)
+  leading?: React.ReactNode;
+  trailing?: React.ReactNode;
+  // Rendered under the badge (e.g. Message / Follow buttons)
+  actions?: React.ReactNode;
+}
+
+// Gradient banner with avatar, name and badge shared by the own and public profile pages
+export default function ProfileHeader({
+  displayName,
+  username,
+  email,
+  avatarUrl,
+  isVerified = false,
+  badgeLabel = 'Active Member',
+  stats,
+  leading,
+  trailing,
+  actions,
+}: ProfileHeaderProps) {
+  const showUsername = displayName && displayName !== username;
+
+  return (
+    <div className={`${actions || stats ? 'min-h-96' : 'h-96'} bg-gradient-to-br from-indigo-600 via-purple-600 to-purple-700 relative`}>
+      {leading && (
+        <div className="absolute top-4 left-4 z-10">{leading}</div>
+      )}
+      {trailing && (
+        <div className="absolute top-4 right-4 z-10">{trailing}</div>
+      )}
+
+      {/* Profile Content */}
+      <div className="container mx-auto px-4 h-full flex flex-col items-center justify-center pt-16 pb-24">
+        {/* Avatar */}
+        <div className="relative">
+          <div className="w-32 h-32 rounded-full border-4 border-white shadow-2xl overflow-hidden bg-white">
+            {avatarUrl ? (
+              <img
+                src={avatarUrl}
+                alt={displayName}
+                className="w-full h-full object-cover"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-indigo-400 to-purple-500">
+                <span className="text-5xl font-bold text-white">
+                  {username[0]?.toUpperCase() || 'U'}
+                </span>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Name & Info */}
+        <div className="flex items-center gap-2 mt-6">
+          <h1 className="text-3xl font-bold text-white">{displayName}</h1>
+          {isVerified && (
+            <BadgeCheck size={26} className="text-white fill-blue-500" />
+          )}
+        </div>
+
+        {showUsername && (
+          <p className="text-white/80 text-sm font-medium mt-1">
+            @{username}
+          </p>
+        )}
+
+        {email && (
+          <p className="text-white/90 text-base mt-2">{email}</p>
+        )}
+
+        {/* Status Badge */}
+        <div className="mt-6 inline-flex items-center gap-2 px-4 py-2 bg-white/20 backdrop-blur-sm border border-white/30 rounded-full">
+          <VerifiedIcon size={16} className="text-white" />
+          <span className="text-white font-medium text-sm">{badgeLabel}</span>
+        </div>
+
+        {/* Counts */}
+        {stats && stats.length > 0 && (
+          <div className="flex items-center gap-8 mt-6">
+            {stats.map(stat => (
+              <button
+                key={stat.label}
+                onClick={stat.onClick}
+                disabled={!stat.onClick}
+                className="text-center text-white disabled:cursor-default"
+              >
+                <p className="text-2xl font-bold">{stat.value}</p>
+                <p className="text-white/80 text-xs font-medium uppercase tracking-wide">{stat.label}</p>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {actions && (
+          <div className="flex items-center gap-3 mt-6">{actions}</div>
+        )}
+      </div>
+    </div>
+  );
+}
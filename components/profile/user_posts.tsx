@@ -0,0 +1,314 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Heart,
+  MapPin,
+  Star,
+  Image as ImageIcon,
+  Layers,
+  MessageCircle,
+  AlertCircle,
+  RefreshCw,
+  X
+} from 'lucide-react';
+import ImageCarousel from '@/components/community/image_carousel';
+import CommentSheet from '@/components/community/comment_sheet';
+import { Post, fetchPosts } from '@/lib/repositories/posts';
+
+// Utility function for time ago
+function getTimeAgo(date: string): string {
+  const now = new Date();
+  const diffMs = now.getTime() - new Date(date).getTime();
+  const diffMins = Math.floor(diffMs / 60000);
+  const diffHours = Math.floor(diffMs / 3600000);
+  const diffDays = Math.floor(diffMs / 86400000);
+  const diffWeeks = Math.floor(diffDays / 7);
+  const diffMonths = Math.floor(diffDays / 30);
+
+  if (diffMins < 1) return 'just now';
+  if (diffHours < 1) return `${diffMins}m ago`;
+  if (diffDays < 1) return `${diffHours}h ago`;
+  if (diffWeeks < 1) return `${diffDays}d ago`;
+  if (diffMonths < 1) return `${diffWeeks}w ago`;
+  return `${diffMonths}mo ago`;
+}
+
+// Read-only post grid for another user's public profile
+export default function UserPosts({ userId }: { userId: string }) {
+  const [posts, setPosts] = useState<Post[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [currentPage, setCurrentPage] = useState(0);
+  const [selectedPost, setSelectedPost] = useState<Post | null>(null);
+
+  const observerRef = useRef<IntersectionObserver | null>(null);
+  const lastPostRef = useRef<HTMLDivElement>(null);
+
+  const POSTS_PER_PAGE = 12;
+
+  const fetchPage = (page: number): Promise<Post[]> =>
+    fetchPosts({ page, pageSize: POSTS_PER_PAGE, userIds: [userId] });
+
+  const loadPosts = async () => {
+    try {
+      const newPosts = await fetchPage(0);
+      setPosts(newPosts);
+      setHasMore(newPosts.length >= POSTS_PER_PAGE);
+      setCurrentPage(0);
+    } catch (err) {
+      console.error('Error loading posts:', err);
+      setError('Failed to load posts');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadMorePosts = async () => {
+    if (isLoadingMore || !hasMore) return;
+
+    setIsLoadingMore(true);
+    try {
+      const newPosts = await fetchPage(currentPage + 1);
+      setPosts(prev => [...prev, ...newPosts]);
+      setHasMore(newPosts.length >= POSTS_PER_PAGE);
+      setCurrentPage(prev => prev + 1);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    const init = async () => {
+      await loadPosts();
+    };
+    init();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [userId]);
+
+  // Infinite scroll setup
+  useEffect(() => {
+    if (!hasMore || isLoadingMore) return;
+
+    observerRef.current = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMorePosts();
+        }
+      },
+      { threshold: 0.5 }
+    );
+
+    if (lastPostRef.current) {
+      observerRef.current.observe(lastPostRef.current);
+    }
+
+    return () => observerRef.current?.disconnect();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [hasMore, isLoadingMore, posts.length]);
+
+  if (isLoading && posts.length === 0) {
+    return (
+      <div className="min-h-[400px] bg-[#181A20] flex items-center justify-center">
+        <div className="w-12 h-12 border-4 border-[#4F8A8B] border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error && posts.length === 0) {
+    return (
+      <div className="min-h-[400px] bg-[#181A20] flex items-center justify-center">
+        <div className="text-center p-8">
+          <AlertCircle size={64} className="mx-auto text-[#4F8A8B] mb-4" />
+          <p className="text-gray-400 text-sm mb-6">{error}</p>
+          <button
+            onClick={() => {
+              setIsLoading(true);
+              setError(null);
+              loadPosts();
+            }}
+            className="inline-flex items-center gap-2 px-6 py-3 bg-[#23262B] text-[#4F8A8B] rounded-lg hover:bg-[#2A2D33] transition"
+          >
+            <RefreshCw size={20} />
+            Retry
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (posts.length === 0) {
+    return (
+      <div className="min-h-[400px] bg-[#181A20] flex items-center justify-center">
+        <div className="text-center">
+          <ImageIcon size={64} className="mx-auto text-[#4F8A8B] mb-4" />
+          <h3 className="text-lg font-semibold text-gray-200">No posts yet</h3>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#181A20] min-h-screen pt-2">
+      {/* Posts Grid */}
+      <div className="grid grid-cols-3 gap-1 px-2">
+        {posts.map((post, index) => (
+          <div
+            key={post.id}
+            ref={index === posts.length - 1 ? lastPostRef : null}
+            onClick={() => setSelectedPost(post)}
+            className="aspect-square bg-[#23262B] rounded-lg overflow-hidden cursor-pointer hover:opacity-90 transition relative"
+          >
+            {post.images[0] ? (
+              <img
+                src={post.images[0]}
+                alt={post.caption || 'Post image'}
+                className="w-full h-full object-cover"
+                loading="lazy"
+              />
+            ) : (
+              <div className="w-full h-full flex items-center justify-center">
+                <ImageIcon size={30} className="text-[#4F8A8B]" />
+              </div>
+            )}
+
+            <div className="absolute top-2 right-2 flex items-center gap-1 bg-[#4F8A8B]/80 backdrop-blur-sm px-2 py-1 rounded-full">
+              <Heart size={12} className="text-white fill-white" />
+              <span className="text-white text-xs font-medium">{post.likes}</span>
+            </div>
+
+            {post.images.length > 1 && (
+              <div className="absolute bottom-2 right-2 bg-black/60 backdrop-blur-sm p-1 rounded-md">
+                <Layers size={14} className="text-white" />
+              </div>
+            )}
+
+            {post.isFeatured && (
+              <div className="absolute top-2 left-2">
+                <Star size={20} className="text-[#FFC857] fill-[#FFC857]" />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {isLoadingMore && (
+        <div className="py-8 flex justify-center">
+          <div className="w-8 h-8 border-4 border-[#4F8A8B] border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
+
+      {selectedPost && (
+        <PostViewModal
+          post={selectedPost}
+          onClose={() => setSelectedPost(null)}
+          onCommentCountChange={(postId, count) => {
+            setPosts(prev => prev.map(p => p.id === postId ? { ...p, commentCount: count } : p));
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+// Post View Modal Component
+function PostViewModal({
+  post,
+  onClose,
+  onCommentCountChange
+}: {
+  post: Post;
+  onClose: () => void;
+  onCommentCountChange: (postId: string, count: number) => void;
+}) {
+  const [showComments, setShowComments] = useState(false);
+  const [commentCount, setCommentCount] = useState(post.commentCount);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="relative bg-[#23262B] rounded-3xl max-w-2xl w-full max-h-[85vh] overflow-hidden">
+        <div className="flex justify-center pt-3 pb-2">
+          <div className="w-10 h-1 bg-[#4F8A8B]/30 rounded-full" />
+        </div>
+
+        <div className="overflow-y-auto max-h-[calc(85vh-40px)] p-4">
+          <div className="rounded-xl overflow-hidden mb-4">
+            {post.images.length > 0 ? (
+              <ImageCarousel
+                images={post.images}
+                alt={post.caption || 'Post image'}
+                className="w-full aspect-square"
+              />
+            ) : (
+              <div className="w-full aspect-square bg-[#181A20] flex items-center justify-center">
+                <ImageIcon size={50} className="text-[#4F8A8B]" />
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center justify-between mb-4">
+            <p className="text-gray-200 font-semibold">{post.likes} likes</p>
+            <button
+              onClick={() => setShowComments(true)}
+              className="p-2 hover:bg-[#2A2D33] rounded-full transition flex items-center gap-1"
+            >
+              <MessageCircle size={24} className="text-[#4F8A8B]" />
+              {commentCount > 0 && <span className="text-[#4F8A8B] text-sm">{commentCount}</span>}
+            </button>
+          </div>
+
+          {post.caption && (
+            <p className="text-gray-200 text-base mb-4">{post.caption}</p>
+          )}
+
+          {post.location && (
+            <div className="flex items-center gap-2 mb-4">
+              <MapPin size={16} className="text-[#4F8A8B]" />
+              <p className="text-gray-400 text-sm">{post.location}</p>
+            </div>
+          )}
+
+          {post.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-4">
+              {post.tags.map((tag, index) => (
+                <span
+                  key={index}
+                  className="px-3 py-1.5 bg-[#4F8A8B]/15 border border-[#4F8A8B]/30 rounded-full text-[#4F8A8B] text-xs font-medium"
+                >
+                  #{tag}
+                </span>
+              ))}
+            </div>
+          )}
+
+          <p className="text-gray-400 text-xs">
+            Posted {getTimeAgo(post.createdAt)}
+          </p>
+        </div>
+
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 p-2 bg-black/50 backdrop-blur-sm rounded-full hover:bg-black/70 transition"
+        >
+          <X size={20} className="text-white" />
+        </button>
+      </div>
+
+      {showComments && (
+        <CommentSheet
+          postId={post.id}
+          postOwnerId={post.userId}
+          onClose={() => setShowComments(false)}
+          onCountChange={(count) => {
+            setCommentCount(count);
+            onCommentCountChange(post.id, count);
+          }}
+        />
+      )}
+    </div>
+  );
+}
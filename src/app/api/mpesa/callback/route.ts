@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { parseStkCallback } from '@/lib/mpesa/daraja';
+import { applyStkCallback } from '@/lib/mpesa/transactions';
+
+// Daraja only needs an acknowledgement; anything else makes it retry
+const accepted = () => NextResponse.json({ ResultCode: 0, ResultDesc: 'Accepted' });
+
+// POST /api/mpesa/callback - result of an STK push, posted by Daraja
+export async function POST(request: Request) {
+  // Daraja callbacks are unsigned, so MPESA_CALLBACK_URL carries a shared
+  // token. Without it anyone who knows a CheckoutRequestID (buyers can read
+  // their own) could post a success.
+  const expectedToken = process.env.MPESA_CALLBACK_TOKEN;
+  if (!expectedToken) {
+    console.error('MPESA_CALLBACK_TOKEN is not set; rejecting M-Pesa callback');
+    return NextResponse.json({ ResultCode: 1, ResultDesc: 'Callback not configured' }, { status: 500 });
+  }
+
+  const token = new URL(request.url).searchParams.get('token');
+  if (token !== expectedToken) {
+    return NextResponse.json({ ResultCode: 1, ResultDesc: 'Rejected' }, { status: 403 });
+  }
+
+  const payload = await request.json().catch(() => null);
+  const callback = parseStkCallback(payload);
+
+  if (!callback) {
+    console.error('Malformed M-Pesa callback:', payload);
+    return accepted();
+  }
+
+  try {
+    const transaction = await applyStkCallback(callback);
+    if (!transaction) {
+      console.error('M-Pesa callback for unknown checkout request:', callback.checkoutRequestId);
+    }
+  } catch (err) {
+    console.error('Error applying M-Pesa callback:', err);
+    return NextResponse.json({ ResultCode: 1, ResultDesc: 'Failed to process callback' }, { status: 500 });
+  }
+
+  return accepted();
+}
@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { getAdminClient } from '@/lib/supabase/admin';
+import { getRequestUser, markTransactionFailed } from '@/lib/mpesa/transactions';
+
+// POST /api/mpesa/cancel - stop waiting on a pending payment, either because the
+// user cancelled or because the client-side wait timed out (`reason: 'timeout'`).
+// Daraja has no way to withdraw a prompt, so this only closes our side; a late
+// successful callback still completes the purchase.
+export async function POST(request: Request) {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Please sign in' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const transactionId = typeof body?.transactionId === 'string' ? body.transactionId : '';
+  const isTimeout = body?.reason === 'timeout';
+  if (!transactionId) {
+    return NextResponse.json({ success: false, error: 'Missing transaction' }, { status: 400 });
+  }
+
+  const { data: transaction, error } = await getAdminClient()
+    .from('mpesa_transactions')
+    .select('id, user_id, status')
+    .eq('id', transactionId)
+    .maybeSingle();
+
+  if (error || !transaction || transaction.user_id !== user.id) {
+    return NextResponse.json({ success: false, error: 'Transaction not found' }, { status: 404 });
+  }
+
+  if (transaction.status !== 'pending') {
+    return NextResponse.json({ success: true, status: transaction.status });
+  }
+
+  try {
+    if (isTimeout) {
+      await markTransactionFailed(transaction.id, 'timeout', 'No response from M-Pesa in time');
+      return NextResponse.json({ success: true, status: 'timeout' });
+    }
+
+    await markTransactionFailed(transaction.id, 'failed', 'Cancelled by user');
+    return NextResponse.json({ success: true, status: 'failed' });
+  } catch (err) {
+    console.error('Error cancelling M-Pesa payment:', err);
+    return NextResponse.json({ success: false, error: 'Failed to cancel payment' }, { status: 500 });
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { DarajaError, initiateStkPush, normalizePhoneNumber } from '@/lib/mpesa/daraja';
+import {
+  attachCheckoutRequest,
+  createPendingTransaction,
+  getRequestUser,
+  loadImagePrice,
+  loadPayableImageIds,
+  markTransactionFailed,
+} from '@/lib/mpesa/transactions';
+
+// Daraja's per-transaction ceiling for M-Pesa Express
+const MAX_AMOUNT = 150000;
+const MAX_IMAGES_PER_PAYMENT = 100;
+
+// POST /api/mpesa/stkpush - start an STK push for a set of marketplace images
+export async function POST(request: Request) {
+  const user = await getRequestUser(request);
+  if (!user) {
+    return NextResponse.json({ success: false, error: 'Please sign in to make a payment' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const imageIds: unknown = body?.imageIds;
+  const phoneNumber = normalizePhoneNumber(String(body?.phoneNumber || ''));
+
+  if (!phoneNumber) {
+    return NextResponse.json({ success: false, error: 'Please enter a valid Kenyan phone number' }, { status: 400 });
+  }
+
+  if (
+    !Array.isArray(imageIds) ||
+    imageIds.length === 0 ||
+    imageIds.length > MAX_IMAGES_PER_PAYMENT ||
+    !imageIds.every(id => typeof id === 'string' && id.length > 0)
+  ) {
+    return NextResponse.json({ success: false, error: 'No images selected for payment' }, { status: 400 });
+  }
+
+  const uniqueImageIds = Array.from(new Set(imageIds as string[]));
+
+  // Only images sent to this user can be bought, and the price comes from the
+  // server rather than the request
+  let payableImageIds: string[];
+  let amount: number;
+  try {
+    payableImageIds = await loadPayableImageIds(user.id, uniqueImageIds);
+    amount = payableImageIds.length * (await loadImagePrice());
+  } catch (err) {
+    console.error('Error loading images for M-Pesa payment:', err);
+    return NextResponse.json({ success: false, error: 'Failed to initiate payment' }, { status: 500 });
+  }
+
+  if (payableImageIds.length !== uniqueImageIds.length) {
+    return NextResponse.json({ success: false, error: 'Some of these images are not available to you' }, { status: 403 });
+  }
+
+  if (amount <= 0 || amount > MAX_AMOUNT) {
+    return NextResponse.json({ success: false, error: 'Payment amount is out of range' }, { status: 400 });
+  }
+
+  const description = String(body?.transactionDescription || 'Image purchase');
+
+  let transactionId: string | null = null;
+  try {
+    const transaction = await createPendingTransaction({
+      userId: user.id,
+      phoneNumber,
+      amount,
+      imageIds: payableImageIds,
+      description,
+    });
+    transactionId = transaction.id;
+
+    const result = await initiateStkPush({
+      phoneNumber,
+      amount,
+      accountReference: 'FineTake',
+      description: 'Image payment',
+    });
+
+    await attachCheckoutRequest(transaction.id, result.checkoutRequestId, result.merchantRequestId);
+
+    return NextResponse.json({
+      success: true,
+      transactionId: transaction.id,
+      status: 'pending',
+      amount,
+      message: result.customerMessage,
+    });
+  } catch (err) {
+    console.error('Error initiating M-Pesa payment:', err);
+    const message = err instanceof DarajaError ? err.message : 'Failed to initiate payment';
+
+    if (transactionId) {
+      await markTransactionFailed(transactionId, 'failed', message).catch(() => {});
+    }
+
+    return NextResponse.json({ success: false, error: message }, { status: 502 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { dispatchNotificationQueue } from '@/lib/notifications/dispatch';
+
+// POST /api/notifications/dispatch - send whatever push and email is due in
+// notification_queue. Called by a Supabase database webhook on
+// notification_queue inserts, and by a cron as a sweep for retries, scheduled
+// rows and digests; both send `Authorization: Bearer <NOTIFICATION_DISPATCH_SECRET>`.
+export async function POST(request: Request) {
+  const secret = process.env.NOTIFICATION_DISPATCH_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    // Links in emails point back at whichever host the dispatcher was called on
+    const result = await dispatchNotificationQueue(new URL(request.url).origin);
+    return NextResponse.json({ success: true, ...result });
+  } catch (err) {
+    console.error('Error dispatching notifications:', err);
+    return NextResponse.json({ success: false, error: 'Failed to dispatch notifications' }, { status: 500 });
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { createServerSupabase } from '@/lib/supabase/server';
+import { safeNextPath } from '@/lib/supabase/redirects';
+
+// GET /auth/callback - where OAuth providers send the user back. Swaps the
+// one-time code for a session cookie, then continues to ?next= or the feed.
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const code = url.searchParams.get('code');
+  const next = safeNextPath(url.searchParams.get('next'));
+
+  if (code) {
+    const supabase = await createServerSupabase();
+    const { error } = await supabase.auth.exchangeCodeForSession(code);
+    if (!error) {
+      return NextResponse.redirect(new URL(next, url.origin));
+    }
+    console.error('OAuth code exchange failed:', error.message);
+  }
+
+  return NextResponse.redirect(new URL('/login?error=oauth', url.origin));
+}
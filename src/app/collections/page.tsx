@@ -1,9 +1,9 @@
 'use client';
 
-import { useState, useEffect, useMemo, useRef } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import { 
   Trash2, 
   Download, 
@@ -17,15 +17,12 @@ import {
   ChevronLeft,
   ChevronRight
 } from 'lucide-react';
+import { fetchReceivedPhotos, deleteImage as removeImage } from '@/lib/repositories/images';
+import { getRole, getProfileMap, displayName as profileDisplayName } from '@/lib/repositories/profiles';
+import { Role, ROLE_LABELS, can } from '@/lib/permissions';
 import Market from '@/components/collections/market_section';
 import SendImages from '@/components/collections/sendimages';
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
 // Types
 interface ImageData {
   id: string;
@@ -40,183 +37,62 @@ interface ImageData {
 }
 
 interface UserType {
-  type: 'photographer' | 'admin' | 'user' | null;
+  role: Role;
   displayName: string;
   color: string;
 }
 
-// Get user type from profile
-const getUserType = async (userId: string): Promise<UserType> => {
-  try {
-    // Fetch all profile fields like other pages do
-    const { data: profile, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .single();
-
-    if (error) {
-      console.error('Error fetching user profile:', error);
-      return {
-        type: 'user',
-        displayName: 'User',
-        color: '#6b7280'
-      };
-    }
-
-    if (!profile) {
-      console.warn('Profile not found for user:', userId);
-      return {
-        type: 'user',
-        displayName: 'User',
-        color: '#6b7280'
-      };
-    }
-
-    console.log('Profile data:', { 
-      is_admin: profile.is_admin, 
-      user_type: profile.user_type, 
-      role: profile.role 
-    });
-
-    // Determine user type - check is_admin first, then user_type, then role
-    let userType: 'photographer' | 'admin' | 'user' | null = 'user';
-    let displayName = 'User';
-    let color = '#6b7280';
-
-    if (profile.is_admin === true) {
-      userType = 'admin';
-      displayName = 'Admin';
-      color = '#ef4444';
-    } else if (profile.user_type === 'photographer' || profile.role === 'photographer') {
-      userType = 'photographer';
-      displayName = 'Photographer';
-      color = '#3b82f6';
-    } else if (profile.user_type === 'client' || profile.role === 'client') {
-      userType = 'user';
-      displayName = 'Client';
-      color = '#10b981';
-    }
-
-    return {
-      type: userType,
-      displayName,
-      color
-    };
-  } catch (error) {
-    console.error('Error getting user type:', error);
-    return {
-      type: 'user',
-      displayName: 'User',
-      color: '#6b7280'
-    };
-  }
+const ROLE_COLORS: Record<Role, string> = {
+  admin: '#ef4444',
+  photographer: '#3b82f6',
+  client: '#10b981',
 };
 
-// Fetch images visible to the signed-in user according to the photos/images schema
+// Images sent to the signed-in user that they may view: free collections,
+// or images already paid for
 const fetchPaidImages = async (userId: string): Promise<ImageData[]> => {
   try {
-    console.log('🔍 Fetching images for user (photos/images schema):', userId);
-
-      // Fetch photos where the user is the recipient and include nested images
-      // NOTE: remove the attempt to join sender via `sender:sender_id(...)` which
-      // may not map to a valid PostgREST relationship name; instead fetch
-      // sender profiles in a separate step (fallbackProfiles) below.
-      const { data: photosData, error: photosError } = await supabase
-        .from('photos')
-        .select('id, title, description, is_payment_required, sender_id, recipient_id, images(*)')
-        .eq('recipient_id', userId)
-        .order('created_at', { ascending: false });
-
-    if (photosError) {
-      console.warn('Error fetching photos:', photosError);
-      return [];
-    }
+    const photos = await fetchReceivedPhotos(userId);
+    const senders = await getProfileMap(photos.map(photo => photo.sender_id));
 
     const imagesResult: ImageData[] = [];
     const seen = new Set<string>();
 
-    // If the joined sender object wasn't returned (RLS or missing), fetch missing sender profiles as a fallback
-    const missingSenderIds = Array.from(new Set((photosData || [])
-      .filter((p: any) => !p.sender && p.sender_id)
-      .map((p: any) => p.sender_id)
-      .filter(Boolean)));
-    let fallbackProfiles: Record<string, any> = {};
-    if (missingSenderIds.length > 0) {
-      const { data: profilesData, error: profilesError } = await supabase
-        .from('profiles')
-        .select('id, display_name, full_name, name, username, first_name, last_name, avatar_url')
-        .in('id', missingSenderIds);
-
-      if (!profilesError && profilesData) {
-        fallbackProfiles = Object.fromEntries((profilesData as any[]).map(p => [String(p.id), p]));
-      } else if (profilesError) {
-        console.warn('Error fetching missing sender profiles:', profilesError);
-      }
-    }
-
-    // For recipients: only include images when the photo is free OR the image.status === 'paid'
-    (photosData || []).forEach((photo: any) => {
-      if (!photo.images || photo.images.length === 0) return;
-
-      const photoRequiresPayment = photo.is_payment_required === true;
-
-      photo.images.forEach((img: any) => {
-        if (!img || !img.id || seen.has(img.id)) return;
-
-        const imageIsPaid = img.status === 'paid';
-
-        if (!photoRequiresPayment || imageIsPaid) {
-          seen.add(img.id);
-          const senderProfile = photo.sender || fallbackProfiles[String(photo.sender_id)] || null;
-          let senderName: string | undefined = undefined;
-          if (senderProfile) {
-            senderName = senderProfile.display_name || senderProfile.full_name || senderProfile.name || senderProfile.username;
-            if (!senderName && (senderProfile.first_name || senderProfile.last_name)) {
-              senderName = `${senderProfile.first_name || ''}${senderProfile.first_name && senderProfile.last_name ? ' ' : ''}${senderProfile.last_name || ''}`.trim();
-            }
-          }
-
-          imagesResult.push({
-            id: img.id,
-            image_url: img.image_url || img.url || '',
-            title: img.title || img.file_name || photo.title || undefined,
-            collection_title: photo.title || undefined,
-            sender_name: senderName,
-            sender_id: photo.sender_id,
-            file_name: img.file_name || undefined,
-            mime_type: img.mime_type || img.type || undefined,
-            created_at: img.created_at || img.inserted_at || undefined
-          });
-        }
+    photos.forEach(photo => {
+      photo.images.forEach(img => {
+        if (seen.has(img.id)) return;
+        if (photo.is_payment_required && img.status !== 'paid') return;
+
+        seen.add(img.id);
+        imagesResult.push({
+          id: img.id,
+          image_url: img.image_url,
+          title: img.title || img.file_name || photo.title || undefined,
+          collection_title: photo.title || undefined,
+          sender_name: profileDisplayName(senders.get(photo.sender_id), '') || undefined,
+          sender_id: photo.sender_id,
+          file_name: img.file_name || undefined,
+          mime_type: img.mime_type || undefined,
+          created_at: img.created_at
+        });
       });
     });
 
-    console.log('✅ Images returned for user:', imagesResult.length);
     return imagesResult;
   } catch (error) {
-    console.error('❌ Error fetching images:', error);
+    console.error('Error fetching images:', error);
     return [];
   }
 };
 
-const deleteImage = async (imageId: string, userId: string): Promise<{ success: boolean; message?: string; error?: string }> => {
+const deleteImage = async (imageId: string): Promise<{ success: boolean; message?: string; error?: string }> => {
   try {
-    // Delete from the canonical `images` table. RLS will enforce permissions.
-    const { error } = await supabase
-      .from('images')
-      .delete()
-      .eq('id', imageId);
-
-    if (error) {
-      console.error('Error deleting image from images table:', error);
-      return { success: false, error: error.message || 'Failed to delete image' };
-    }
-
+    // RLS enforces who may delete
+    await removeImage(imageId);
     return { success: true, message: 'Image deleted successfully' };
-  } catch (error: any) {
+  } catch (error) {
     console.error('Error deleting image:', error);
-    return { success: false, error: error.message || 'Failed to delete image' };
+    return { success: false, error: error instanceof Error ? error.message : 'Failed to delete image' };
   }
 };
 
@@ -233,6 +109,7 @@ export default function CollectionsPage() {
   const [showAppBar, setShowAppBar] = useState(true);
   const [zoomLevel, setZoomLevel] = useState(1);
   const [userId, setUserId] = useState<string | null>(null);
+  const [sendRecipientId, setSendRecipientId] = useState<string | null>(null);
 
   // Load user type first (separate from images)
   useEffect(() => {
@@ -263,81 +140,30 @@ export default function CollectionsPage() {
 
       setUserId(currentUser.id);
 
-      // Fetch user profile from profiles table - same as profile page
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', currentUser.id)
-        .single();
-
-      if (profileError) {
+      let role: Role;
+      try {
+        role = await getRole(currentUser.id);
+      } catch (profileError) {
         console.error('Error fetching profile:', profileError);
         setHasError(true);
         setIsLoading(false);
         return;
       }
 
-      // Debug: Log the profile data to see what we're working with
-      console.log('📋 Profile data:', {
-        id: profileData?.id,
-        is_admin: profileData?.is_admin,
-        user_type: profileData?.user_type,
-        role: profileData?.role,
-        full_profile: profileData
+      setUserType({
+        role,
+        displayName: ROLE_LABELS[role],
+        color: ROLE_COLORS[role]
       });
 
-      // Determine user type from profile - check all possible fields
-      let userType: 'photographer' | 'admin' | 'user' | null = 'user';
-      let displayName = 'User';
-      let color = '#6b7280';
-
-      // Get role from various possible fields (case-insensitive)
-      const roleValue = (profileData?.role || profileData?.user_type || '').toString().toLowerCase();
-      const isAdmin = profileData?.is_admin === true || profileData?.is_admin === 1 || roleValue === 'admin';
-
-      // Check admin first
-      if (isAdmin) {
-        userType = 'admin';
-        displayName = 'Admin';
-        color = '#ef4444';
-        console.log('✅ User type: Admin');
-      } 
-      // Check photographer (case-insensitive)
-      else if (roleValue === 'photographer') {
-        userType = 'photographer';
-        displayName = 'Photographer';
-        color = '#3b82f6';
-        console.log('✅ User type: Photographer');
-      } 
-      // Check client (case-insensitive)
-      else if (roleValue === 'client') {
-        userType = 'user';
-        displayName = 'Client';
-        color = '#10b981';
-        console.log('✅ User type: Client');
-      } 
-      // Default fallback
-      else {
-        console.warn('⚠️ No matching role found. Role value:', roleValue, 'Profile:', profileData);
-        // If we have a role value but it doesn't match, still try to use it
-        if (roleValue) {
-          displayName = roleValue.charAt(0).toUpperCase() + roleValue.slice(1);
-          console.log('⚠️ Using role value as display name:', displayName);
-        } else {
-          displayName = 'User';
-        }
-        userType = 'user';
-        color = '#6b7280';
+      // Deep link from a public profile: /collections?tab=send&recipient=<id>
+      const params = new URLSearchParams(window.location.search);
+      if (params.get('tab') === 'send' && can(role, 'canSendImages')) {
+        setActiveTab('send');
+        setSendRecipientId(params.get('recipient'));
+        window.history.replaceState(null, '', '/collections');
       }
 
-      console.log('🎯 Setting user type:', { type: userType, displayName, color });
-
-      setUserType({
-        type: userType,
-        displayName,
-        color
-      });
-
       setHasError(false);
     } catch (err: any) {
       console.error('Error loading user type:', err);
@@ -373,7 +199,7 @@ export default function CollectionsPage() {
     setDeletingImages(prev => new Set(prev).add(image.id));
 
     try {
-      const result = await deleteImage(image.id, userId);
+      const result = await deleteImage(image.id);
       
       if (result.success) {
         setPaidImages(prev => prev.filter(img => img.id !== image.id));
@@ -431,21 +257,7 @@ export default function CollectionsPage() {
     console.log(`${type.toUpperCase()}: ${message}`);
   };
 
-  // Only allow admin or photographer users to send images
-  const canSendImages = useMemo(() => {
-    const isAdmin = userType?.type === 'admin';
-    const isPhotographer = userType?.type === 'photographer';
-    const canSend = isAdmin || isPhotographer;
-    console.log('🔍 canSendImages check:', {
-      userType: userType?.type,
-      displayName: userType?.displayName,
-      isAdmin,
-      isPhotographer,
-      canSend,
-      fullUserType: userType
-    });
-    return canSend;
-  }, [userType]);
+  const canSendImages = !!userType && can(userType.role, 'canSendImages');
 
   if (isLoading) {
     return (
@@ -558,7 +370,7 @@ export default function CollectionsPage() {
         )}
 
         {activeTab === 'send' && canSendImages && (
-          <SendImages />
+          <SendImages initialRecipientId={sendRecipientId} />
         )}
       </main>
 
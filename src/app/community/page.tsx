@@ -1,34 +1,29 @@
 'use client';
 
 import { useEffect, useState, useRef } from 'react';
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Post,
+  fetchPosts,
+  fetchPostsByIds,
+  fetchLikedPostIds,
+  fetchBookmarkedPostIds,
+  likePost,
+  unlikePost,
+  bookmarkPost,
+  removeBookmark,
+  deletePost as removePost,
+} from '@/lib/repositories/posts';
+import { getFollowingIds } from '@/lib/repositories/profiles';
+import { useCapabilities } from '@/lib/hooks/use_capabilities';
 import Image from 'next/image';
 import TopAppBar from '@/components/community/top_appbar';
 import FeaturedItems from '@/components/community/featured_items';
+import ImageCarousel from '@/components/community/image_carousel';
+import CommentSheet from '@/components/community/comment_sheet';
 
-// Initialize Supabase
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-// Simple Post type
-type Post = {
-  id: string;
-  userId: string;
-  userName: string;
-  imageUrl: string;
-  caption: string;
-  location?: string;
-  tags: string[];
-  createdAt: string;
-  isVerified: boolean;
-  userType: string;
-  likes: number;
-  commentCount: number;
-  isFeatured: boolean;
-  avatarUrl?: string;
-};
+type Feed = 'recent' | 'following';
 
 export default function CommunityPage() {
   const [posts, setPosts] = useState<Post[]>([]);
@@ -38,10 +33,22 @@ export default function CommunityPage() {
   const [page, setPage] = useState(0);
   const [likedPosts, setLikedPosts] = useState<Set<string>>(new Set());
   const [bookmarkedPosts, setBookmarkedPosts] = useState<Set<string>>(new Set());
-  const [currentUser, setCurrentUser] = useState<any>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const { canModerate } = useCapabilities();
   const [showModal, setShowModal] = useState<{post: Post, index: number} | null>(null);
   const [showImage, setShowImage] = useState<string | null>(null);
+  const [commentsPost, setCommentsPost] = useState<Post | null>(null);
+  const [feed, setFeed] = useState<Feed>('recent');
+  const [switchingFeed, setSwitchingFeed] = useState(false);
+  // Deep link from a notification: /community?post=<id>[&comments=1]. The
+  // post goes first in the feed, with its comments open if asked for.
+  const [postLink] = useState(() => {
+    if (typeof window === 'undefined') return null;
+    const params = new URLSearchParams(window.location.search);
+    const postId = params.get('post');
+    return postId ? { postId, showComments: params.get('comments') === '1' } : null;
+  });
+  const postLinkOpenedRef = useRef(false);
   
   const observer = useRef<IntersectionObserver | null>(null);
   const lastPostRef = useRef<HTMLDivElement>(null);
@@ -75,15 +82,6 @@ export default function CommunityPage() {
     const getUser = async () => {
       const { data: { user } } = await supabase.auth.getUser();
       setCurrentUser(user);
-      
-      if (user) {
-        const { data } = await supabase
-          .from('profiles')
-          .select('is_admin')
-          .eq('id', user.id)
-          .single();
-        setIsAdmin(data?.is_admin || false);
-      }
     };
     getUser();
   }, []);
@@ -92,52 +90,30 @@ export default function CommunityPage() {
   const fetchUserData = async () => {
     if (!currentUser) return;
 
-    const { data: likes } = await supabase
-      .from('post_likes')
-      .select('post_id')
-      .eq('user_id', currentUser.id);
-    
-    const { data: bookmarks } = await supabase
-      .from('bookmarks')
-      .select('post_id')
-      .eq('user_id', currentUser.id);
-
-    if (likes) setLikedPosts(new Set(likes.map(l => l.post_id)));
-    if (bookmarks) setBookmarkedPosts(new Set(bookmarks.map(b => b.post_id)));
+    try {
+      setLikedPosts(await fetchLikedPostIds(currentUser.id));
+      setBookmarkedPosts(await fetchBookmarkedPostIds(currentUser.id));
+    } catch (err) {
+      console.error('Error loading likes and bookmarks:', err);
+    }
   };
 
   // Load posts
-  const loadPosts = async (pageNum: number) => {
-    const start = pageNum * POSTS_PER_PAGE;
-    const end = start + POSTS_PER_PAGE - 1;
+  const loadPosts = async (pageNum: number, feedType: Feed = feed): Promise<Post[]> => {
+    try {
+      // Following feed only pages posts from followed users
+      if (feedType === 'following') {
+        if (!currentUser) return [];
 
-    const { data, error } = await supabase
-      .from('posts_with_users')
-      .select('*')
-      .order('created_at', { ascending: false })
-      .range(start, end);
+        const followingIds = await getFollowingIds(currentUser.id);
+        return await fetchPosts({ page: pageNum, pageSize: POSTS_PER_PAGE, userIds: followingIds });
+      }
 
-    if (error) {
+      return await fetchPosts({ page: pageNum, pageSize: POSTS_PER_PAGE });
+    } catch (error) {
       console.error('Error loading posts:', error);
       return [];
     }
-
-    return data.map((p: any) => ({
-      id: p.id,
-      userId: p.user_id,
-      userName: p.username || p.display_name || 'Anonymous',
-      imageUrl: p.images?.[0] || '',
-      caption: p.caption || '',
-      location: p.location,
-      tags: p.tags || [],
-      createdAt: p.created_at,
-      isVerified: p.is_verified || false,
-      userType: p.user_type || 'Photography Enthusiast',
-      likes: p.likes_count || 0,
-      commentCount: p.comments_count || 0,
-      isFeatured: p.is_featured || false,
-      avatarUrl: p.avatar_url,
-    }));
   };
 
   // Initial load
@@ -146,16 +122,22 @@ export default function CommunityPage() {
       setLoading(true);
       await fetchUserData();
       const newPosts = await loadPosts(0);
-      setPosts(newPosts);
+      const linked = postLink ? (await fetchPostsByIds([postLink.postId]).catch(() => []))[0] : undefined;
+      setPosts(linked ? [linked, ...newPosts.filter(p => p.id !== linked.id)] : newPosts);
       setHasMore(newPosts.length >= POSTS_PER_PAGE);
       setLoading(false);
+
+      if (linked && postLink?.showComments && !postLinkOpenedRef.current) {
+        postLinkOpenedRef.current = true;
+        setCommentsPost(linked);
+      }
     };
     init();
   }, [currentUser]);
 
   // Infinite scroll
   useEffect(() => {
-    if (loading) return;
+    if (loading || switchingFeed) return;
 
     observer.current = new IntersectionObserver(entries => {
       if (entries[0].isIntersecting && hasMore && !loadingMore) {
@@ -168,7 +150,7 @@ export default function CommunityPage() {
     }
 
     return () => observer.current?.disconnect();
-  }, [loading, hasMore, loadingMore]);
+  }, [loading, switchingFeed, hasMore, loadingMore]);
 
   const loadMore = async () => {
     setLoadingMore(true);
@@ -208,14 +190,9 @@ export default function CommunityPage() {
 
     try {
       if (wasLiked) {
-        await supabase.from('post_likes').delete()
-          .eq('post_id', postId)
-          .eq('user_id', currentUser.id);
+        await unlikePost(currentUser.id, postId);
       } else {
-        await supabase.from('post_likes').insert({
-          post_id: postId,
-          user_id: currentUser.id
-        });
+        await likePost(currentUser.id, postId);
       }
     } catch (err) {
       console.error('Error toggling like:', err);
@@ -241,14 +218,9 @@ export default function CommunityPage() {
 
     try {
       if (wasBookmarked) {
-        await supabase.from('bookmarks').delete()
-          .eq('post_id', postId)
-          .eq('user_id', currentUser.id);
+        await removeBookmark(currentUser.id, postId);
       } else {
-        await supabase.from('bookmarks').insert({
-          post_id: postId,
-          user_id: currentUser.id
-        });
+        await bookmarkPost(currentUser.id, postId);
       }
     } catch (err) {
       console.error('Error toggling bookmark:', err);
@@ -275,7 +247,7 @@ export default function CommunityPage() {
     if (!confirm('Delete this post?')) return;
 
     try {
-      await supabase.from('posts').delete().eq('id', postId);
+      await removePost(postId);
       setPosts(posts.filter((_, i) => i !== index));
       setShowModal(null);
     } catch (err) {
@@ -291,6 +263,20 @@ export default function CommunityPage() {
     setHasMore(newPosts.length >= POSTS_PER_PAGE);
   };
 
+  // Switch between the global and following feeds
+  const switchFeed = async (next: Feed) => {
+    if (next === feed || switchingFeed) return;
+
+    setFeed(next);
+    setSwitchingFeed(true);
+    setPosts([]);
+    setPage(0);
+    const newPosts = await loadPosts(0, next);
+    setPosts(newPosts);
+    setHasMore(newPosts.length >= POSTS_PER_PAGE);
+    setSwitchingFeed(false);
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen bg-slate-50 flex items-center justify-center">
@@ -310,19 +296,39 @@ export default function CommunityPage() {
           <FeaturedItems />
         </div>
 
-        {/* Section Header */}
+        {/* Section Header / Feed Tabs */}
         <div className="flex items-center gap-4 my-8">
           <div className="flex-1 h-px bg-slate-300"></div>
-          <span className="px-4 py-2 bg-slate-600 text-white text-xs font-semibold rounded-full">
-            Recent Posts
-          </span>
+          <div className="flex items-center gap-1 p-1 bg-slate-200 rounded-full">
+            {(['recent', 'following'] as Feed[]).map(f => (
+              <button
+                key={f}
+                onClick={() => switchFeed(f)}
+                className={`px-4 py-2 text-xs font-semibold rounded-full transition ${
+                  feed === f ? 'bg-slate-600 text-white' : 'text-slate-600 hover:text-slate-800'
+                }`}
+              >
+                {f === 'recent' ? 'Recent Posts' : 'Following'}
+              </button>
+            ))}
+          </div>
           <div className="flex-1 h-px bg-slate-300"></div>
         </div>
 
         {/* Posts */}
-        {posts.length === 0 ? (
+        {switchingFeed ? (
           <div className="text-center py-20">
-            <p className="text-slate-500 mb-4">No posts yet</p>
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
+          </div>
+        ) : posts.length === 0 ? (
+          <div className="text-center py-20">
+            <p className="text-slate-500 mb-4">
+              {feed === 'following'
+                ? currentUser
+                  ? 'Posts from people you follow will show up here'
+                  : 'Sign in to see posts from people you follow'
+                : 'No posts yet'}
+            </p>
             <button onClick={refresh} className="px-6 py-3 bg-blue-500 text-white rounded-lg">
               Refresh
             </button>
@@ -383,10 +389,12 @@ export default function CommunityPage() {
                   </div>
 
                   {/* Image */}
-                  <div className="relative h-96 bg-slate-200 cursor-pointer" onClick={() => setShowImage(post.imageUrl)}>
-                    {post.imageUrl && (
-                      <img src={post.imageUrl} alt="" className="w-full h-full object-cover" />
-                    )}
+                  <div className="relative h-96 bg-slate-200 cursor-pointer">
+                    <ImageCarousel
+                      images={post.images}
+                      className="w-full h-full"
+                      onImageClick={(url) => setShowImage(url)}
+                    />
                   </div>
 
                   {/* Content */}
@@ -400,7 +408,7 @@ export default function CommunityPage() {
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4.318 6.318a4.5 4.5 0 000 6.364L12 20.364l7.682-7.682a4.5 4.5 0 00-6.364-6.364L12 7.636l-1.318-1.318a4.5 4.5 0 00-6.364 0z" />
                           </svg>
                         </button>
-                        <button className="p-2 hover:bg-slate-100 rounded-full flex items-center gap-1">
+                        <button onClick={() => setCommentsPost(post)} className="p-2 hover:bg-slate-100 rounded-full flex items-center gap-1">
                           <svg className="w-6 h-6 text-purple-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
                           </svg>
@@ -441,7 +449,7 @@ export default function CommunityPage() {
                     )}
 
                     {post.commentCount > 0 && (
-                      <button className="text-sm font-medium text-blue-700 mb-2">
+                      <button onClick={() => setCommentsPost(post)} className="text-sm font-medium text-blue-700 mb-2">
                         View {post.commentCount === 1 ? '1 comment' : `all ${post.commentCount} comments`}
                       </button>
                     )}
@@ -490,7 +498,7 @@ export default function CommunityPage() {
               </button>
             )}
 
-            {(isAdmin || currentUser?.id === showModal.post.userId) && (
+            {(canModerate || currentUser?.id === showModal.post.userId) && (
               <button onClick={() => deletePost(showModal.post.id, showModal.index)}
                 className="w-full p-3 flex items-center gap-3 hover:bg-slate-50 rounded-lg mb-2">
                 <svg className="w-5 h-5 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -511,6 +519,18 @@ export default function CommunityPage() {
         </div>
       )}
 
+      {/* Comments Sheet */}
+      {commentsPost && (
+        <CommentSheet
+          postId={commentsPost.id}
+          postOwnerId={commentsPost.userId}
+          onClose={() => setCommentsPost(null)}
+          onCountChange={(count) => {
+            setPosts(prev => prev.map(p => p.id === commentsPost.id ? { ...p, commentCount: count } : p));
+          }}
+        />
+      )}
+
       {/* Full Image Modal */}
       {showImage && (
         <div className="fixed inset-0 bg-black z-50 flex items-center justify-center p-4"
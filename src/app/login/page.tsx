@@ -1,15 +1,11 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import { createProfile } from '@/lib/repositories/profiles';
+import { safeNextPath } from '@/lib/supabase/redirects';
 import { useRouter } from 'next/navigation';
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
 export default function LoginPage() {
   const [fullName, setFullName] = useState('');
   const [email, setEmail] = useState('');
@@ -30,12 +26,15 @@ export default function LoginPage() {
     initializeAuth();
   }, []);
 
+  // Middleware sends signed-out visitors here with the page they wanted in ?next=
+  const nextPath = () => safeNextPath(new URLSearchParams(window.location.search).get('next'));
+
   const initializeAuth = async () => {
     const { data: { session } } = await supabase.auth.getSession();
     if (session) {
       console.log('🔐 Found existing session');
       // Check server health or set auth token in your PostManager equivalent
-      router.push('/community');
+      router.push(nextPath());
     }
   };
 
@@ -94,7 +93,7 @@ export default function LoginPage() {
       if (data.user && data.session) {
         console.log('✅ Sign in successful');
         // Set token in your PostManager equivalent here
-        router.push('/community');
+        router.push(nextPath());
       }
     } catch (error: any) {
       console.error('❌ Sign in failed:', error.message);
@@ -137,7 +136,7 @@ export default function LoginPage() {
 
         if (data.session) {
           setTimeout(() => {
-            router.push('/community');
+            router.push(nextPath());
           }, 2000);
         }
       }
@@ -152,16 +151,14 @@ export default function LoginPage() {
   const createUserProfile = async (user: any) => {
     try {
       console.log('👤 Creating user profile...');
-      const { error } = await supabase.from('profiles').insert({
+      await createProfile({
         id: user.id,
         full_name: fullName.trim(),
         username: username.trim(),
         email: email.trim(),
-        role: 'client',
+        user_type: 'client',
         created_at: new Date().toISOString(),
       });
-
-      if (error) throw error;
       console.log('✅ User profile created');
     } catch (error) {
       console.error('❌ Profile creation error:', error);
@@ -176,7 +173,7 @@ export default function LoginPage() {
       const { error } = await supabase.auth.signInWithOAuth({
         provider: 'google',
         options: {
-          redirectTo: `${window.location.origin}/auth/callback`,
+          redirectTo: `${window.location.origin}/auth/callback?next=${encodeURIComponent(nextPath())}`,
         },
       });
 
@@ -2,52 +2,42 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter } from 'next/navigation';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import type { RealtimeChannel } from '@supabase/supabase-js';
-
-interface Profile {
-  id: string;
-  display_name: string | null;
-  username: string | null;
-  email: string | null;
-  user_type: string | null;
-  avatar_url: string | null;
-  is_verified: boolean;
-}
-
-interface Conversation {
-  id: string;
-  user1_id: string;
-  user2_id: string;
-  user1_display_name: string | null;
-  user2_display_name: string | null;
-  user1_username: string | null;
-  user2_username: string | null;
-  user1_avatar_url: string | null;
-  user2_avatar_url: string | null;
-  user1_unread_count: number;
-  user2_unread_count: number;
-  last_message: string | null;
-  last_message_at: string | null;
-}
-
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import {
+  ConversationSummary,
+  MessageSearchResult,
+  clearConversation,
+  fetchConversations,
+  findConversation,
+  markMessagesDelivered,
+  removeConversationMember,
+  searchMessages,
+} from '@/lib/repositories/messages';
+import { ProfileSummary, getProfile, searchProfiles } from '@/lib/repositories/profiles';
+import { useOnlineUsers } from '@/lib/hooks/use_presence';
+import NewGroupSheet from '@/components/messages/new_group_sheet';
+import MessageSearchResults from '@/components/messages/message_search_results';
+
+// Shorter queries match too many messages to be useful
+const MIN_MESSAGE_QUERY_LENGTH = 2;
 
 export default function MessagesScreen() {
   const router = useRouter();
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSearchingUsers, setIsSearchingUsers] = useState(false);
-  const [userSearchResults, setUserSearchResults] = useState<Profile[]>([]);
+  const [userSearchResults, setUserSearchResults] = useState<ProfileSummary[]>([]);
   const [hasUserSearchQuery, setHasUserSearchQuery] = useState(false);
+  const [messageSearchResults, setMessageSearchResults] = useState<MessageSearchResult[]>([]);
+  const [isSearchingMessages, setIsSearchingMessages] = useState(false);
   const [selectedConversationId, setSelectedConversationId] = useState<string | null>(null);
   const [isSelectionMode, setIsSelectionMode] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [showNewGroup, setShowNewGroup] = useState(false);
+  const onlineUserIds = useOnlineUsers();
   
   const debounceTimerRef = useRef<NodeJS.Timeout | null>(null);
   const channelRef = useRef<RealtimeChannel | null>(null);
@@ -72,15 +62,8 @@ export default function MessagesScreen() {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('conversations_with_details')
-        .select('*')
-        .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
-        .order('last_message_at', { ascending: false });
-
-      if (error) throw error;
-
-      setConversations(data || []);
+      await markMessagesDelivered().catch((error) => console.error('Error marking messages delivered:', error));
+      setConversations(await fetchConversations());
       setIsLoading(false);
     } catch (error) {
       console.error('Error loading conversations:', error);
@@ -91,6 +74,7 @@ export default function MessagesScreen() {
   // Subscribe to realtime messages
   useEffect(() => {
     loadConversations();
+    if (!currentUserId) return;
 
     channelRef.current = supabase
       .channel('messages_channel')
@@ -101,6 +85,23 @@ export default function MessagesScreen() {
       }, () => {
         loadConversations();
       })
+      // Read receipts change the unread badges
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'messages'
+      }, () => {
+        loadConversations();
+      })
+      // Joining or leaving a group, and reading in another tab
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'conversation_participants',
+        filter: `user_id=eq.${currentUserId}`
+      }, () => {
+        loadConversations();
+      })
       .subscribe();
 
     return () => {
@@ -108,7 +109,7 @@ export default function MessagesScreen() {
         supabase.removeChannel(channelRef.current);
       }
     };
-  }, [loadConversations]);
+  }, [loadConversations, currentUserId]);
 
   // Search users
   const searchUsers = async (query: string) => {
@@ -126,19 +127,7 @@ export default function MessagesScreen() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const searchQuery = query.toLowerCase();
-      
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, display_name, username, email, user_type, avatar_url, is_verified')
-        .neq('id', user.id)
-        .or(`display_name.ilike.%${searchQuery}%,username.ilike.%${searchQuery}%,email.ilike.%${searchQuery}%`)
-        .order('display_name', { ascending: true })
-        .limit(20);
-
-      if (error) throw error;
-
-      setUserSearchResults(data || []);
+      setUserSearchResults(await searchProfiles(query.toLowerCase(), { excludeId: user.id, limit: 20 }));
     } catch (error) {
       console.error('Failed to search users:', error);
       setUserSearchResults([]);
@@ -147,6 +136,27 @@ export default function MessagesScreen() {
     }
   };
 
+  // Search message history
+  const searchMessageHistory = async (query: string) => {
+    const term = query.trim();
+    if (term.length < MIN_MESSAGE_QUERY_LENGTH) {
+      setMessageSearchResults([]);
+      setIsSearchingMessages(false);
+      return;
+    }
+
+    setIsSearchingMessages(true);
+
+    try {
+      setMessageSearchResults(await searchMessages(term));
+    } catch (error) {
+      console.error('Failed to search messages:', error);
+      setMessageSearchResults([]);
+    } finally {
+      setIsSearchingMessages(false);
+    }
+  };
+
   // Debounced search
   const performSearch = (query: string) => {
     if (debounceTimerRef.current) {
@@ -155,6 +165,7 @@ export default function MessagesScreen() {
 
     debounceTimerRef.current = setTimeout(() => {
       searchUsers(query);
+      searchMessageHistory(query);
     }, 300);
   };
 
@@ -170,49 +181,56 @@ export default function MessagesScreen() {
     setSearchQuery('');
     setUserSearchResults([]);
     setHasUserSearchQuery(false);
+    setMessageSearchResults([]);
     if (debounceTimerRef.current) {
       clearTimeout(debounceTimerRef.current);
     }
   };
 
   // Start conversation
-  const startConversation = async (user: Profile) => {
+  const startConversation = async (user: ProfileSummary) => {
     try {
       const { data: { user: currentUser } } = await supabase.auth.getUser();
       if (!currentUser) return;
 
-      const userId1 = currentUser.id < user.id ? currentUser.id : user.id;
-      const userId2 = currentUser.id < user.id ? user.id : currentUser.id;
-
-      const { data: existingConversation } = await supabase
-        .from('conversations')
-        .select('*')
-        .eq('user1_id', userId1)
-        .eq('user2_id', userId2)
-        .maybeSingle();
+      const existingConversation = await findConversation(currentUser.id, user.id);
 
       clearSearch();
 
-      router.push(`/messages/${existingConversation?.id || 'new'}?userId=${user.id}&userName=${user.display_name || user.username || 'Unknown User'}&avatar=${user.avatar_url || ''}`);
+      router.push(`/messages/${existingConversation?.id || 'new'}?userId=${user.id}&userName=${encodeURIComponent(user.display_name || user.username || 'Unknown User')}&avatar=${encodeURIComponent(user.avatar_url || '')}`);
     } catch (error) {
       console.error('Error starting conversation:', error);
     }
   };
 
-  // Delete conversation
+  // Open a chat requested from elsewhere, e.g. the "Message" button on a public profile
+  useEffect(() => {
+    const startWith = new URLSearchParams(window.location.search).get('startWith');
+    if (!startWith) return;
+
+    // Drop the param so navigating back here doesn't reopen the chat
+    window.history.replaceState(null, '', '/messages');
+
+    const openRequestedConversation = async () => {
+      const profile = await getProfile(startWith).catch(() => null);
+      if (profile) startConversation(profile);
+    };
+    openRequestedConversation();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const selectedConversation = conversations.find((c) => c.id === selectedConversationId);
+
+  // Delete a direct conversation for this user only, or leave a group
   const deleteConversation = async () => {
-    if (!selectedConversationId) return;
+    if (!selectedConversation || !currentUserId) return;
 
     try {
-      await supabase
-        .from('messages')
-        .delete()
-        .eq('conversation_id', selectedConversationId);
-
-      await supabase
-        .from('conversations')
-        .delete()
-        .eq('id', selectedConversationId);
+      if (selectedConversation.is_group) {
+        await removeConversationMember(selectedConversation.id, currentUserId);
+      } else {
+        await clearConversation(selectedConversation.id);
+      }
 
       setIsSelectionMode(false);
       setSelectedConversationId(null);
@@ -222,22 +240,26 @@ export default function MessagesScreen() {
     }
   };
 
-  // Get other user info
-  const getOtherUserInfo = (conversation: Conversation) => {
-    const isUser1 = conversation.user1_id === currentUserId;
-    
-    return {
-      id: isUser1 ? conversation.user2_id : conversation.user1_id,
-      display_name: isUser1 ? conversation.user2_display_name : conversation.user1_display_name,
-      avatar_url: isUser1 ? conversation.user2_avatar_url : conversation.user1_avatar_url,
-      username: isUser1 ? conversation.user2_username : conversation.user1_username,
-    };
+  // Groups open by id alone; direct chats pass the other person along for the
+  // header. `messageId` opens the chat scrolled to that message.
+  const conversationHref = (conversationId: string, messageId?: string) => {
+    const conversation = conversations.find((c) => c.id === conversationId);
+    const params = new URLSearchParams();
+    if (conversation && !conversation.is_group && conversation.other_user_id) {
+      params.set('userId', conversation.other_user_id);
+      params.set('userName', conversation.title || 'Unknown User');
+      params.set('avatar', conversation.avatar_url || '');
+    }
+    if (messageId) params.set('message', messageId);
+
+    const query = params.toString();
+    return `/messages/${conversationId}${query ? `?${query}` : ''}`;
   };
 
-  // Get unread count
-  const getUnreadCount = (conversation: Conversation) => {
-    const isUser1 = conversation.user1_id === currentUserId;
-    return isUser1 ? conversation.user1_unread_count : conversation.user2_unread_count;
+  const openSearchResult = (result: MessageSearchResult) => {
+    const href = conversationHref(result.conversation_id, result.message_id);
+    clearSearch();
+    router.push(href);
   };
 
   // Format time
@@ -337,19 +359,31 @@ export default function MessagesScreen() {
               {isSelectionMode ? '1 selected' : 'Messages'}
             </h1>
           </div>
-          {isSelectionMode && (
+          {isSelectionMode ? (
             <button
               onClick={() => {
-                if (confirm('Are you sure you want to delete this conversation? This action cannot be undone.')) {
+                const prompt = selectedConversation?.is_group
+                  ? 'Are you sure you want to leave this group? You will stop receiving its messages.'
+                  : 'Delete this conversation? Its messages will be removed for you only.';
+                if (confirm(prompt)) {
                   deleteConversation();
                 }
               }}
               className="text-white"
+              title={selectedConversation?.is_group ? 'Leave group' : 'Delete conversation'}
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
               </svg>
             </button>
+          ) : (
+            currentUserId && (
+              <button onClick={() => setShowNewGroup(true)} className="text-white" title="New group">
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                </svg>
+              </button>
+            )
           )}
         </div>
       </div>
@@ -365,7 +399,7 @@ export default function MessagesScreen() {
               type="text"
               value={searchQuery}
               onChange={handleSearchChange}
-              placeholder="Search users to message..."
+              placeholder="Search people and messages..."
               className="flex-1 bg-transparent text-black text-[15px] outline-none placeholder-gray-600"
             />
             {searchQuery && (
@@ -400,8 +434,8 @@ export default function MessagesScreen() {
             ) : (
               <div className="h-full overflow-y-auto">
                 {conversations.map((conversation) => {
-                  const otherUser = getOtherUserInfo(conversation);
-                  const unreadCount = getUnreadCount(conversation);
+                  const unreadCount = conversation.unread_count;
+                  const name = conversation.title || (conversation.is_group ? 'Group' : 'Unknown User');
                   const isSelected = selectedConversationId === conversation.id;
 
                   return (
@@ -416,7 +450,7 @@ export default function MessagesScreen() {
                             setIsSelectionMode(false);
                             setSelectedConversationId(null);
                           } else {
-                            router.push(`/messages/${conversation.id}?userId=${otherUser.id}&userName=${otherUser.display_name || 'Unknown User'}&avatar=${otherUser.avatar_url || ''}`);
+                            router.push(conversationHref(conversation.id));
                           }
                         }}
                         onContextMenu={(e) => {
@@ -426,20 +460,30 @@ export default function MessagesScreen() {
                         }}
                       >
                         <div className="relative mr-3">
-                          <div className={`w-14 h-14 rounded-full ${otherUser.avatar_url ? '' : 'bg-blue-100'} flex items-center justify-center overflow-hidden`}>
-                            {otherUser.avatar_url ? (
-                              <img src={otherUser.avatar_url} alt="" className="w-full h-full object-cover" />
+                          <div className={`w-14 h-14 rounded-full ${conversation.avatar_url ? '' : 'bg-blue-100'} flex items-center justify-center overflow-hidden`}>
+                            {conversation.avatar_url ? (
+                              <img src={conversation.avatar_url} alt="" className="w-full h-full object-cover" />
+                            ) : conversation.is_group ? (
+                              <svg className="w-7 h-7 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0zm6 3a2 2 0 11-4 0 2 2 0 014 0zM7 10a2 2 0 11-4 0 2 2 0 014 0z" />
+                              </svg>
                             ) : (
                               <span className="text-blue-500 font-semibold text-xl">
-                                {(otherUser.display_name || 'U')[0].toUpperCase()}
+                                {name[0].toUpperCase()}
                               </span>
                             )}
                           </div>
+                          {conversation.other_user_id && onlineUserIds.has(conversation.other_user_id) && (
+                            <span className="absolute bottom-0.5 right-0.5 w-3.5 h-3.5 rounded-full bg-green-500 border-2 border-white" title="Online" />
+                          )}
                         </div>
                         <div className="flex-1 min-w-0">
                           <div className="flex items-center justify-between mb-1">
                             <h3 className={`text-base ${unreadCount > 0 ? 'font-bold' : 'font-semibold'} text-gray-900 truncate`}>
-                              {otherUser.display_name || 'Unknown User'}
+                              {name}
+                              {conversation.is_group && (
+                                <span className="ml-1.5 text-xs font-normal text-gray-500">· {conversation.member_count}</span>
+                              )}
                             </h3>
                             <span className={`text-[13px] ${unreadCount > 0 ? 'text-blue-500 font-semibold' : 'text-gray-600'} ml-2 flex-shrink-0`}>
                               {formatTime(conversation.last_message_at)}
@@ -464,7 +508,28 @@ export default function MessagesScreen() {
             )}
           </>
         ) : (
-          <div className="h-full bg-white overflow-hidden flex flex-col">
+          <div className="h-full bg-white overflow-y-auto">
+            {(messageSearchResults.length > 0 || isSearchingMessages) && (
+              <>
+                <div className="px-4 py-4 bg-gray-50 border-b border-gray-200 flex items-center">
+                  <div className="w-8 h-8 bg-purple-500 rounded-lg flex items-center justify-center mr-3">
+                    <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                    </svg>
+                  </div>
+                  <span className="text-base font-semibold text-gray-900">Messages</span>
+                  {isSearchingMessages && (
+                    <div className="ml-3 w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
+                  )}
+                </div>
+                <MessageSearchResults
+                  results={messageSearchResults}
+                  conversations={conversations}
+                  currentUserId={currentUserId}
+                  onOpen={openSearchResult}
+                />
+              </>
+            )}
             <div className="px-4 py-4 bg-gray-50 border-b border-gray-200 flex items-center">
               <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center mr-3">
                 <svg className="w-4 h-4 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -476,19 +541,21 @@ export default function MessagesScreen() {
                 <div className="ml-3 w-4 h-4 border-2 border-blue-500 border-t-transparent rounded-full animate-spin" />
               )}
             </div>
-            <div className="flex-1 overflow-y-auto">
+            <div>
               {isSearchingUsers ? (
-                <div className="flex items-center justify-center h-full">
+                <div className="flex items-center justify-center py-16">
                   <div className="w-10 h-10 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
                 </div>
+              ) : userSearchResults.length === 0 && messageSearchResults.length > 0 ? (
+                <p className="px-4 py-6 text-sm text-gray-500 text-center">No users found</p>
               ) : userSearchResults.length === 0 ? (
-                <div className="flex flex-col items-center justify-center h-full px-4">
+                <div className="flex flex-col items-center justify-center py-16 px-4">
                   <div className="w-32 h-32 rounded-full bg-gradient-to-br from-blue-100 to-purple-100 flex items-center justify-center mb-6">
                     <svg className="w-16 h-16 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
                     </svg>
                   </div>
-                  <h3 className="text-lg font-semibold text-gray-700 mb-2">No users found</h3>
+                  <h3 className="text-lg font-semibold text-gray-700 mb-2">No users or messages found</h3>
                   <p className="text-sm text-gray-500">Try searching with different keywords</p>
                 </div>
               ) : (
@@ -544,6 +611,14 @@ export default function MessagesScreen() {
           </div>
         )}
       </div>
+
+      {showNewGroup && currentUserId && (
+        <NewGroupSheet
+          currentUserId={currentUserId}
+          onClose={() => setShowNewGroup(false)}
+          onCreated={(conversationId) => router.push(`/messages/${conversationId}`)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
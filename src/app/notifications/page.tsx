@@ -1,82 +1,185 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
 import type { RealtimeChannel } from '@supabase/supabase-js';
+import {
+  NotificationAudience,
+  NotificationItem,
+  UnreadCounts,
+  fetchNotifications,
+  fetchUnreadCounts,
+  markNotificationsRead,
+  markNotificationsUnread,
+  markAllNotificationsRead,
+  dismissNotification,
+  createNotification,
+  nextNotificationChange,
+  updateNotification,
+  deleteNotification as removeNotification,
+} from '@/lib/repositories/notifications';
+import {
+  ActivityGroup,
+  dismissActivity,
+  fetchActivity,
+  markActivityRead,
+  markActivityUnread,
+} from '@/lib/repositories/activity';
+import { ProfileSummary, displayName } from '@/lib/repositories/profiles';
+import { useCapabilities } from '@/lib/hooks/use_capabilities';
+import { ROLES, ROLE_LABELS, Role } from '@/lib/permissions';
+import MemberPicker from '@/components/messages/member_picker';
+import SwipeToDismiss from '@/components/notifications/swipe_to_dismiss';
+import { fetchNotificationSettings } from '@/lib/repositories/notification_preferences';
+import { Bookmark, Heart, Images, Mail, MailOpen, MessageCircle, Reply, Settings, ShoppingBag, UserPlus, X } from 'lucide-react';
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-interface NotificationItem {
-  id: string;
-  message: string;
-  created_at: string;
-  created_by: string;
-  isRead: boolean;
+const AUDIENCE_OPTIONS: { value: NotificationAudience; label: string }[] = [
+  { value: 'everyone', label: 'Everyone' },
+  { value: 'role', label: 'By role' },
+  { value: 'verified', label: 'Verified users' },
+  { value: 'users', label: 'Specific people' },
+];
+
+// setTimeout fires straight away for anything longer than this
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString([], { day: 'numeric', month: 'short', hour: 'numeric', minute: '2-digit' });
+
+// datetime-local inputs hold local wall-clock time with no zone
+const toIsoString = (localValue: string) => (localValue ? new Date(localValue).toISOString() : undefined);
+
+// What one load of the screen found, for marking it read
+interface LoadedFeed {
+  userId: string;
+  notifications: NotificationItem[];
+  activity: ActivityGroup[];
 }
 
+// Announcements and grouped activity, in one list newest first
+type FeedEntry =
+  | { kind: 'announcement'; at: string; notification: NotificationItem }
+  | { kind: 'activity'; at: string; group: ActivityGroup };
+
+const ACTIVITY_STYLES: Record<ActivityGroup['verb'], { icon: typeof Heart; color: string }> = {
+  like: { icon: Heart, color: 'from-pink-500 to-red-500' },
+  bookmark: { icon: Bookmark, color: 'from-amber-400 to-orange-500' },
+  comment: { icon: MessageCircle, color: 'from-blue-500 to-cyan-500' },
+  reply: { icon: Reply, color: 'from-blue-500 to-indigo-500' },
+  follow: { icon: UserPlus, color: 'from-purple-500 to-fuchsia-500' },
+  purchase: { icon: ShoppingBag, color: 'from-green-500 to-emerald-600' },
+  send_images: { icon: Images, color: 'from-sky-500 to-blue-600' },
+};
+
+// "Ann", "Ann and Ben", "Ann and 4 others"
+const describeActors = (actors: ProfileSummary[]) => {
+  const first = displayName(actors[0], 'Someone');
+  if (actors.length <= 1) return first;
+  if (actors.length === 2) return `${first} and ${displayName(actors[1], 'someone')}`;
+  return `${first} and ${actors.length - 1} others`;
+};
+
+const describeActivity = (group: ActivityGroup) => {
+  switch (group.verb) {
+    case 'like':
+      return 'liked your post';
+    case 'bookmark':
+      return 'saved your post';
+    case 'comment':
+      return 'commented on your post';
+    case 'reply':
+      return 'replied to your comment';
+    case 'follow':
+      return 'started following you';
+    case 'purchase':
+      return group.ids.length > 1 ? `bought ${group.ids.length} of your photos` : 'bought your photo';
+    case 'send_images':
+      return group.preview ? `sent you photos: ${group.preview}` : 'sent you photos';
+  }
+};
+
+const activityHref = (group: ActivityGroup) => {
+  switch (group.targetType) {
+    case 'post':
+      return group.verb === 'comment' || group.verb === 'reply'
+        ? `/community?post=${group.targetId}&comments=1`
+        : `/community?post=${group.targetId}`;
+    case 'photo':
+      return group.verb === 'send_images' ? '/collections' : `/profile/${group.actors[0]?.id ?? ''}`;
+    default:
+      return group.actors[0] ? `/profile/${group.actors[0].id}` : '/profile';
+  }
+};
+
+const describeAudience = (notification: NotificationItem) => {
+  switch (notification.audience) {
+    case 'role':
+      return notification.audienceRole ? `${ROLE_LABELS[notification.audienceRole]}s` : 'One role';
+    case 'verified':
+      return 'Verified users';
+    case 'users':
+      return `${notification.recipientCount ?? 0} ${notification.recipientCount === 1 ? 'person' : 'people'}`;
+    default:
+      return 'Everyone';
+  }
+};
+
 export default function NotificationsPage() {
   const router = useRouter();
   
   const [notifications, setNotifications] = useState<NotificationItem[]>([]);
+  const [activity, setActivity] = useState<ActivityGroup[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isSending, setIsSending] = useState(false);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { canBroadcast } = useCapabilities();
   const [messageController, setMessageController] = useState('');
+  const [audience, setAudience] = useState<NotificationAudience>('everyone');
+  const [audienceRole, setAudienceRole] = useState<Role>('photographer');
+  const [recipients, setRecipients] = useState<ProfileSummary[]>([]);
+  const [deliverAt, setDeliverAt] = useState('');
+  const [expiresAt, setExpiresAt] = useState('');
   const [editingNotificationId, setEditingNotificationId] = useState<string | null>(null);
   const [editControllers, setEditControllers] = useState<Record<string, string>>({});
   const [showFab, setShowFab] = useState(false);
   const [snackbar, setSnackbar] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const [unreadCounts, setUnreadCounts] = useState<UnreadCounts>({ announcements: 0, activity: 0 });
   
   const channelRef = useRef<RealtimeChannel | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Reloads when a scheduled notification arrives or one expires
+  const refreshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // The user's "mark everything read when I open Notifications" setting
+  const markReadOnOpenRef = useRef(true);
+  const userIdRef = useRef<string | null>(null);
+  // Async work that finishes after the screen closes must not subscribe or
+  // schedule anything
+  const isMountedRef = useRef(false);
 
+  // Let the compose button bounce in once we know the user may broadcast
   useEffect(() => {
-    initializeScreen();
-    
-    return () => {
-      channelRef.current?.unsubscribe();
-    };
-  }, []);
+    if (!canBroadcast) return;
+    const timer = setTimeout(() => setShowFab(true), 100);
+    return () => clearTimeout(timer);
+  }, [canBroadcast]);
 
+  // Opening the screen marks what it loaded read, if the user wants that.
+  // Only here: later reloads leave read state alone, so an item the user
+  // marked unread stays unread while the screen is open.
   const initializeScreen = async () => {
-    await checkAdminStatus();
-    await loadNotifications();
-    await markAllAsRead();
-    setupRealtimeSubscription();
+    const loaded = await loadNotifications();
+    if (loaded && markReadOnOpenRef.current) await markLoadedAsRead(loaded);
+    await loadUnreadCounts();
+    await setupRealtimeSubscription();
   };
 
-  const checkAdminStatus = async () => {
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        setIsAdmin(false);
-        return;
-      }
-
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('user_type')
-        .eq('id', user.id)
-        .single();
-
-      const adminStatus = profile?.user_type === 'admin';
-      setIsAdmin(adminStatus);
-      
-      if (adminStatus) {
-        setTimeout(() => setShowFab(true), 100);
-      }
-    } catch (error) {
-      console.error('Error checking admin status:', error);
-      setIsAdmin(false);
-    }
+  // For realtime events, the schedule timer and the refresh button
+  const refresh = async () => {
+    await loadNotifications();
+    await loadUnreadCounts();
   };
 
-  const loadNotifications = async () => {
+  const loadNotifications = async (): Promise<LoadedFeed | null> => {
     setIsLoading(true);
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -85,74 +188,137 @@ export default function NotificationsPage() {
         throw new Error('User not authenticated');
       }
 
-      const { data: notificationsData, error: notifError } = await supabase
-        .from('notifications')
-        .select(`
-          id,
-          message,
-          created_at,
-          created_by,
-          notification_reads!left(user_id)
-        `)
-        .order('created_at', { ascending: false });
-
-      if (notifError) throw notifError;
-
-      const processedNotifications: NotificationItem[] = (notificationsData || []).map(
-        (item: any) => {
-          const reads = item.notification_reads as any[] | null;
-          const isRead = reads?.some((read: any) => read.user_id === user.id) ?? false;
-
-          return {
-            id: item.id,
-            message: item.message,
-            created_at: item.created_at,
-            created_by: item.created_by,
-            isRead,
-          };
-        }
-      );
+      const [processedNotifications, activityGroups, nextChange, settings] = await Promise.all([
+        fetchNotifications(),
+        fetchActivity(user.id),
+        nextNotificationChange(),
+        fetchNotificationSettings(user.id),
+      ]);
 
+      userIdRef.current = user.id;
+      markReadOnOpenRef.current = settings.markReadOnOpen;
       setNotifications(processedNotifications);
+      setActivity(activityGroups);
+
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = nextChange && isMountedRef.current
+        ? setTimeout(refresh, Math.min(new Date(nextChange).getTime() - new Date().getTime(), MAX_TIMER_MS))
+        : null;
       
       if (scrollRef.current) {
         scrollRef.current.scrollTo({ top: 0, behavior: 'smooth' });
       }
+
+      return { userId: user.id, notifications: processedNotifications, activity: activityGroups };
     } catch (error) {
       showSnackBar(`Failed to load notifications: ${error}`, 'error');
+      return null;
     } finally {
       setIsLoading(false);
     }
   };
 
+  const loadUnreadCounts = async () => {
+    try {
+      setUnreadCounts(await fetchUnreadCounts());
+    } catch (error) {
+      console.error('Error loading unread counts:', error);
+    }
+  };
+
+  const markLoadedAsRead = async (loaded: LoadedFeed) => {
+    const notificationIds = loaded.notifications.filter(n => n.isForMe && !n.isRead).map(n => n.id);
+    const activityIds = loaded.activity.filter(g => !g.isRead).flatMap(g => g.ids);
+    if (notificationIds.length === 0 && activityIds.length === 0) return;
+
+    try {
+      await Promise.all([
+        markNotificationsRead(loaded.userId, notificationIds),
+        markActivityRead(activityIds),
+      ]);
+
+      setNotifications(prev => prev.map(n => notificationIds.includes(n.id) ? { ...n, isRead: true } : n));
+      setActivity(prev => prev.map(g => g.ids.some(id => activityIds.includes(id)) ? { ...g, isRead: true } : g));
+    } catch (error) {
+      console.error('Error marking notifications as read:', error);
+    }
+  };
+
   const markAllAsRead = async () => {
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      await markAllNotificationsRead();
+      setNotifications(prev => prev.map(n => n.isForMe ? { ...n, isRead: true } : n));
+      setActivity(prev => prev.map(g => ({ ...g, isRead: true })));
+      setUnreadCounts({ announcements: 0, activity: 0 });
+    } catch (error) {
+      showSnackBar(`Failed to mark notifications as read: ${error}`, 'error');
+    }
+  };
 
-      const unreadNotifications = notifications.filter(n => !n.isRead);
-      
-      if (unreadNotifications.length === 0) return;
+  const setNotificationRead = async (notification: NotificationItem, isRead: boolean) => {
+    const userId = userIdRef.current;
+    if (!userId) return;
+
+    const apply = (read: boolean) =>
+      setNotifications(prev => prev.map(n => n.id === notification.id ? { ...n, isRead: read } : n));
 
-      const reads = unreadNotifications.map(notification => ({
-        notification_id: notification.id,
-        user_id: user.id,
-      }));
+    apply(isRead);
+    try {
+      await (isRead
+        ? markNotificationsRead(userId, [notification.id])
+        : markNotificationsUnread(userId, [notification.id]));
+      await loadUnreadCounts();
+    } catch (error) {
+      apply(!isRead);
+      showSnackBar(`Failed to update notification: ${error}`, 'error');
+    }
+  };
 
-      await supabase
-        .from('notification_reads')
-        .upsert(reads, { onConflict: 'notification_id,user_id' });
+  const setActivityRead = async (group: ActivityGroup, isRead: boolean) => {
+    const apply = (read: boolean) =>
+      setActivity(prev => prev.map(g => g.key === group.key ? { ...g, isRead: read } : g));
 
-      setNotifications(prev => prev.map(n => ({ ...n, isRead: true })));
+    apply(isRead);
+    try {
+      await (isRead ? markActivityRead(group.ids) : markActivityUnread(group.ids));
+      await loadUnreadCounts();
     } catch (error) {
-      console.error('Error marking notifications as read:', error);
+      apply(!isRead);
+      showSnackBar(`Failed to update notification: ${error}`, 'error');
+    }
+  };
+
+  const dismissAnnouncement = async (notification: NotificationItem) => {
+    const userId = userIdRef.current;
+    if (!userId) return;
+
+    setNotifications(prev => prev.filter(n => n.id !== notification.id));
+    try {
+      await dismissNotification(userId, notification.id);
+      await loadUnreadCounts();
+    } catch (error) {
+      showSnackBar(`Failed to dismiss notification: ${error}`, 'error');
+      await loadNotifications();
+    }
+  };
+
+  const dismissActivityGroup = async (group: ActivityGroup) => {
+    setActivity(prev => prev.filter(g => g.key !== group.key));
+    try {
+      await dismissActivity(group.ids);
+      await loadUnreadCounts();
+    } catch (error) {
+      showSnackBar(`Failed to dismiss notification: ${error}`, 'error');
+      await loadNotifications();
     }
   };
 
   const setupRealtimeSubscription = async () => {
     const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return;
+    if (!user || !isMountedRef.current) return;
 
+    // A remount can start a second setup before the first one finishes
+    if (channelRef.current) supabase.removeChannel(channelRef.current);
     channelRef.current = supabase
       .channel(`notifications_${user.id}`)
       .on(
@@ -162,51 +328,83 @@ export default function NotificationsPage() {
           schema: 'public',
           table: 'notifications',
         },
-        async () => {
-          await loadNotifications();
-          await markAllAsRead();
-        }
+        refresh
       )
       .on(
         'postgres_changes',
         {
-          event: 'INSERT',
+          // Read, unread and dismissed, here or in another tab
+          event: '*',
           schema: 'public',
           table: 'notification_reads',
           filter: `user_id=eq.${user.id}`,
         },
-        async () => {
-          await loadNotifications();
-        }
+        loadUnreadCounts
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'activity_notifications',
+          filter: `recipient_id=eq.${user.id}`,
+        },
+        refresh
       )
       .subscribe();
   };
 
+  // Below the loaders it calls, so they are declared before it uses them
+  useEffect(() => {
+    isMountedRef.current = true;
+    initializeScreen();
+
+    return () => {
+      isMountedRef.current = false;
+      if (channelRef.current) supabase.removeChannel(channelRef.current);
+      channelRef.current = null;
+      if (refreshTimerRef.current) clearTimeout(refreshTimerRef.current);
+      refreshTimerRef.current = null;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const sendNotification = async () => {
     if (messageController.trim() === '') {
       showSnackBar('Please enter a message', 'error');
       return;
     }
 
-    setIsSending(true);
-    try {
-      const { data: { user } } = await supabase.auth.getUser();
-      
-      if (!user) {
-        throw new Error('User not authenticated');
-      }
+    if (audience === 'users' && recipients.length === 0) {
+      showSnackBar('Choose at least one person to notify', 'error');
+      return;
+    }
 
-      const { error } = await supabase
-        .from('notifications')
-        .insert({
-          message: messageController.trim(),
-          created_by: user.id,
-        });
+    const deliverAtIso = toIsoString(deliverAt);
+    const expiresAtIso = toIsoString(expiresAt);
+    if (expiresAtIso && new Date(expiresAtIso) <= (deliverAtIso ? new Date(deliverAtIso) : new Date())) {
+      showSnackBar('Expiry must be after delivery', 'error');
+      return;
+    }
 
-      if (error) throw error;
+    setIsSending(true);
+    try {
+      await createNotification(
+        messageController.trim(),
+        {
+          audience,
+          role: audience === 'role' ? audienceRole : undefined,
+          recipientIds: audience === 'users' ? recipients.map(r => r.id) : undefined,
+        },
+        { deliverAt: deliverAtIso, expiresAt: expiresAtIso }
+      );
 
       setMessageController('');
-      showSnackBar('Notification sent successfully!', 'success');
+      setRecipients([]);
+      setDeliverAt('');
+      setExpiresAt('');
+      const isScheduled = !!deliverAtIso && new Date(deliverAtIso) > new Date();
+      showSnackBar(isScheduled ? `Notification scheduled for ${formatDateTime(deliverAtIso)}` : 'Notification sent successfully!', 'success');
     } catch (error) {
       showSnackBar(`Failed to send notification: ${error}`, 'error');
     } finally {
@@ -216,12 +414,7 @@ export default function NotificationsPage() {
 
   const deleteNotification = async (notificationId: string) => {
     try {
-      const { error } = await supabase
-        .from('notifications')
-        .delete()
-        .eq('id', notificationId);
-
-      if (error) throw error;
+      await removeNotification(notificationId);
 
       showSnackBar('Notification deleted', 'success');
     } catch (error) {
@@ -252,12 +445,7 @@ export default function NotificationsPage() {
     }
 
     try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ message: newMessage })
-        .eq('id', notificationId);
-
-      if (error) throw error;
+      await updateNotification(notificationId, newMessage);
 
       setEditingNotificationId(null);
       setEditControllers(prev => {
@@ -305,6 +493,37 @@ export default function NotificationsPage() {
     return `${diffMonths}mo ago`;
   };
 
+  const openActivity = (group: ActivityGroup) => {
+    if (!group.isRead) {
+      markActivityRead(group.ids).catch(error => console.error('Error marking activity as read:', error));
+    }
+    router.push(activityHref(group));
+  };
+
+  const feed: FeedEntry[] = [
+    ...notifications.map(notification => ({ kind: 'announcement' as const, at: notification.deliverAt, notification })),
+    ...activity.map(group => ({ kind: 'activity' as const, at: group.latestAt, group })),
+  ].sort((a, b) => b.at.localeCompare(a.at));
+
+  const unreadTotal = unreadCounts.announcements + unreadCounts.activity;
+
+  const renderNotificationCard = (notification: NotificationItem) => (
+    <NotificationCard
+      notification={notification}
+      canBroadcast={canBroadcast}
+      isEditing={editingNotificationId === notification.id}
+      editValue={editControllers[notification.id] || ''}
+      onEditChange={(value) => setEditControllers(prev => ({ ...prev, [notification.id]: value }))}
+      onStartEdit={() => startEditingNotification(notification.id, notification.message)}
+      onCancelEdit={() => cancelEditingNotification(notification.id)}
+      onSaveEdit={() => saveEditedNotification(notification.id)}
+      onDelete={() => showDeleteDialog(notification.id, notification.message)}
+      onToggleRead={() => setNotificationRead(notification, !notification.isRead)}
+      onDismiss={() => dismissAnnouncement(notification)}
+      getTimeAgo={getTimeAgo}
+    />
+  );
+
   const scrollToTop = () => {
     scrollRef.current?.scrollTo({ top: 0, behavior: 'smooth' });
   };
@@ -328,21 +547,30 @@ export default function NotificationsPage() {
             </svg>
             <h1 className="text-xl font-bold text-white">Notifications</h1>
           </div>
-          <button
-            onClick={loadNotifications}
-            className="p-2 hover:bg-white/10 rounded-full transition-colors"
-          >
-            <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-            </svg>
-          </button>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => router.push('/profile/notifications')}
+              aria-label="Notification settings"
+              className="p-2 hover:bg-white/10 rounded-full transition-colors"
+            >
+              <Settings className="w-6 h-6 text-white" />
+            </button>
+            <button
+              onClick={refresh}
+              className="p-2 hover:bg-white/10 rounded-full transition-colors"
+            >
+              <svg className="w-6 h-6 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          </div>
         </div>
       </div>
 
       {/* Main Content */}
       <div className="pb-20">
         {/* Admin Send Section */}
-        {isAdmin && (
+        {canBroadcast && (
           <div className="m-4 p-4 bg-white rounded-2xl shadow-md border border-blue-100">
             <div className="flex items-center justify-between mb-3">
               <div className="px-2 py-1 bg-gradient-to-r from-blue-500 to-purple-600 rounded-lg">
@@ -358,6 +586,65 @@ export default function NotificationsPage() {
               rows={3}
               className="w-full px-4 py-3 bg-slate-50 border border-gray-300 rounded-xl text-gray-900 placeholder-gray-500 focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
             />
+
+            <div className="mt-3">
+              <span className="text-xs font-semibold text-slate-600">Send to</span>
+              <div className="flex flex-wrap gap-2 mt-1">
+                {AUDIENCE_OPTIONS.map(option => (
+                  <button
+                    key={option.value}
+                    onClick={() => setAudience(option.value)}
+                    className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                      audience === option.value
+                        ? 'bg-blue-500 border-blue-500 text-white'
+                        : 'bg-white border-gray-300 text-slate-700 hover:bg-slate-50'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+
+              {audience === 'role' && (
+                <select
+                  value={audienceRole}
+                  onChange={(e) => setAudienceRole(e.target.value as Role)}
+                  className="w-full mt-2 px-3 py-2 bg-slate-50 border border-gray-300 rounded-xl text-gray-900 text-sm focus:ring-2 focus:ring-blue-500 outline-none"
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>{ROLE_LABELS[role]}s</option>
+                  ))}
+                </select>
+              )}
+
+              {audience === 'users' && (
+                <div className="-mx-4 mt-1 max-h-72 flex flex-col">
+                  <MemberPicker selected={recipients} onChange={setRecipients} excludeIds={[]} />
+                </div>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 mt-3">
+              <label className="text-xs font-semibold text-slate-600">
+                Deliver at
+                <input
+                  type="datetime-local"
+                  value={deliverAt}
+                  onChange={(e) => setDeliverAt(e.target.value)}
+                  className="w-full mt-1 px-3 py-2 bg-slate-50 border border-gray-300 rounded-xl text-gray-900 text-sm font-normal focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </label>
+              <label className="text-xs font-semibold text-slate-600">
+                Expires at
+                <input
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                  className="w-full mt-1 px-3 py-2 bg-slate-50 border border-gray-300 rounded-xl text-gray-900 text-sm font-normal focus:ring-2 focus:ring-blue-500 outline-none"
+                />
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Leave empty to send now and keep it until deleted.</p>
             
             <button
               onClick={sendNotification}
@@ -386,19 +673,31 @@ export default function NotificationsPage() {
           <div className="flex-1 h-px bg-gradient-to-r from-transparent via-slate-400/30 to-transparent" />
           <div className="px-4 py-2 bg-gradient-to-r from-slate-600 to-slate-700 rounded-full">
             <span className="text-white text-xs font-semibold">
-              {notifications.length} Notifications
+              {feed.length} Notifications
             </span>
           </div>
           <div className="flex-1 h-px bg-gradient-to-r from-transparent via-slate-400/30 to-transparent" />
         </div>
 
+        {unreadTotal > 0 && (
+          <div className="flex items-center justify-between mx-4 -mt-1 mb-3">
+            <span className="text-sm text-slate-600">{unreadTotal} unread</span>
+            <button
+              onClick={markAllAsRead}
+              className="text-sm font-semibold text-blue-600 hover:text-blue-700 transition-colors"
+            >
+              Mark all read
+            </button>
+          </div>
+        )}
+
         {/* Notifications List */}
         <div ref={scrollRef} className="px-4 space-y-3 max-h-[calc(100vh-300px)] overflow-y-auto">
           {isLoading ? (
             <div className="flex justify-center py-12">
               <div className="w-8 h-8 border-4 border-blue-500 border-t-transparent rounded-full animate-spin" />
             </div>
-          ) : notifications.length === 0 ? (
+          ) : feed.length === 0 ? (
             <div className="flex flex-col items-center justify-center py-16 text-center">
               <svg className="w-16 h-16 text-gray-400 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2.586a1 1 0 00-.707.293l-2.414 2.414a1 1 0 01-.707.293h-3.172a1 1 0 01-.707-.293l-2.414-2.414A1 1 0 006.586 13H4" />
@@ -407,31 +706,33 @@ export default function NotificationsPage() {
                 No notifications yet
               </h3>
               <p className="text-sm text-gray-500">
-                {isAdmin ? 'Send your first notification above!' : 'Stay tuned for updates!'}
+                {canBroadcast ? 'Send your first notification above!' : 'Stay tuned for updates!'}
               </p>
             </div>
           ) : (
-            notifications.map((notification, index) => (
-              <NotificationCard
-                key={notification.id}
-                notification={notification}
-                isAdmin={isAdmin}
-                isEditing={editingNotificationId === notification.id}
-                editValue={editControllers[notification.id] || ''}
-                onEditChange={(value) => setEditControllers(prev => ({ ...prev, [notification.id]: value }))}
-                onStartEdit={() => startEditingNotification(notification.id, notification.message)}
-                onCancelEdit={() => cancelEditingNotification(notification.id)}
-                onSaveEdit={() => saveEditedNotification(notification.id)}
-                onDelete={() => showDeleteDialog(notification.id, notification.message)}
-                getTimeAgo={getTimeAgo}
-              />
+            feed.map(entry => entry.kind === 'activity' ? (
+              <SwipeToDismiss key={entry.group.key} onDismiss={() => dismissActivityGroup(entry.group)}>
+                <ActivityCard
+                  group={entry.group}
+                  onOpen={() => openActivity(entry.group)}
+                  onToggleRead={() => setActivityRead(entry.group, !entry.group.isRead)}
+                  onDismiss={() => dismissActivityGroup(entry.group)}
+                  getTimeAgo={getTimeAgo}
+                />
+              </SwipeToDismiss>
+            ) : entry.notification.isForMe ? (
+              <SwipeToDismiss key={entry.notification.id} onDismiss={() => dismissAnnouncement(entry.notification)}>
+                {renderNotificationCard(entry.notification)}
+              </SwipeToDismiss>
+            ) : (
+              <div key={entry.notification.id}>{renderNotificationCard(entry.notification)}</div>
             ))
           )}
         </div>
       </div>
 
       {/* Floating Action Button */}
-      {isAdmin && showFab && (
+      {canBroadcast && showFab && (
         <button
           onClick={scrollToTop}
           className={`fixed bottom-6 right-6 w-14 h-14 bg-blue-500 hover:bg-blue-600 rounded-full shadow-lg flex items-center justify-center transition-all z-50 ${
@@ -490,7 +791,7 @@ export default function NotificationsPage() {
 
 interface NotificationCardProps {
   notification: NotificationItem;
-  isAdmin: boolean;
+  canBroadcast: boolean;
   isEditing: boolean;
   editValue: string;
   onEditChange: (value: string) => void;
@@ -498,12 +799,38 @@ interface NotificationCardProps {
   onCancelEdit: () => void;
   onSaveEdit: () => void;
   onDelete: () => void;
+  onToggleRead: () => void;
+  onDismiss: () => void;
   getTimeAgo: (date: string) => string;
 }
 
+// Read/unread and dismiss buttons; swiping the card dismisses it too
+function ReadControls({ isRead, onToggleRead, onDismiss }: { isRead: boolean; onToggleRead: () => void; onDismiss: () => void }) {
+  return (
+    <div className="flex items-center gap-0.5 flex-shrink-0">
+      <button
+        onClick={onToggleRead}
+        aria-label={isRead ? 'Mark as unread' : 'Mark as read'}
+        title={isRead ? 'Mark as unread' : 'Mark as read'}
+        className="p-1.5 hover:bg-gray-100 rounded-full transition-colors"
+      >
+        {isRead ? <Mail className="w-4 h-4 text-gray-500" /> : <MailOpen className="w-4 h-4 text-blue-600" />}
+      </button>
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        title="Dismiss"
+        className="p-1.5 hover:bg-gray-100 rounded-full transition-colors"
+      >
+        <X className="w-4 h-4 text-gray-500" />
+      </button>
+    </div>
+  );
+}
+
 function NotificationCard({
   notification,
-  isAdmin,
+  canBroadcast,
   isEditing,
   editValue,
   onEditChange,
@@ -511,6 +838,8 @@ function NotificationCard({
   onCancelEdit,
   onSaveEdit,
   onDelete,
+  onToggleRead,
+  onDismiss,
   getTimeAgo,
 }: NotificationCardProps) {
   const [showMenu, setShowMenu] = useState(false);
@@ -525,11 +854,13 @@ function NotificationCard({
       });
   }, []);
 
-  const isOwnNotification = isAdmin && currentUserId === notification.created_by;
+  const isOwnNotification = canBroadcast && currentUserId === notification.created_by;
+  const isScheduled = new Date(notification.deliverAt) > new Date();
+  const isExpired = !!notification.expiresAt && new Date(notification.expiresAt) <= new Date();
 
   return (
     <div className={`bg-white rounded-2xl shadow-md p-4 border-2 transition-all ${
-      notification.isRead 
+      notification.isRead || !notification.isForMe
         ? 'border-black/10' 
         : 'border-blue-500/30'
     }`}>
@@ -544,15 +875,35 @@ function NotificationCard({
           <div className="flex items-center gap-2 mb-1">
             <span className="font-semibold text-slate-800">Admin</span>
             <span className="text-xs text-blue-600 font-medium">• Official</span>
-            {!notification.isRead && (
+            {notification.isForMe && !notification.isRead && (
               <span className="px-2 py-0.5 bg-pink-500 text-white text-[10px] font-bold rounded">
                 NEW
               </span>
             )}
           </div>
-          <p className="text-xs text-gray-500">{getTimeAgo(notification.created_at)}</p>
+          <p className="text-xs text-gray-500">
+            {isScheduled ? `Scheduled for ${formatDateTime(notification.deliverAt)}` : getTimeAgo(notification.deliverAt)}
+          </p>
+          {(isOwnNotification || !notification.isForMe) && (
+            <div className="flex flex-wrap gap-1.5 mt-1.5">
+              <span className="px-2 py-0.5 bg-blue-50 text-blue-700 text-[11px] font-medium rounded-full">
+                To: {describeAudience(notification)}
+              </span>
+              {isExpired ? (
+                <span className="px-2 py-0.5 bg-gray-100 text-gray-600 text-[11px] font-medium rounded-full">Expired</span>
+              ) : notification.expiresAt && (
+                <span className="px-2 py-0.5 bg-amber-50 text-amber-700 text-[11px] font-medium rounded-full">
+                  Expires {formatDateTime(notification.expiresAt)}
+                </span>
+              )}
+            </div>
+          )}
         </div>
 
+        {notification.isForMe && (
+          <ReadControls isRead={notification.isRead} onToggleRead={onToggleRead} onDismiss={onDismiss} />
+        )}
+
         {isOwnNotification && (
           <div className="relative">
             <button
@@ -627,4 +978,64 @@ function NotificationCard({
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+interface ActivityCardProps {
+  group: ActivityGroup;
+  onOpen: () => void;
+  onToggleRead: () => void;
+  onDismiss: () => void;
+  getTimeAgo: (date: string) => string;
+}
+
+function ActivityCard({ group, onOpen, onToggleRead, onDismiss, getTimeAgo }: ActivityCardProps) {
+  const { icon: Icon, color } = ACTIVITY_STYLES[group.verb];
+  const actor = group.actors[0];
+  const showsPreview = group.preview && (group.verb === 'comment' || group.verb === 'reply');
+
+  return (
+    <div
+      className={`flex items-start gap-2 bg-white rounded-2xl shadow-md p-4 border-2 transition-all hover:shadow-lg ${
+        group.isRead ? 'border-black/10' : 'border-blue-500/30'
+      }`}
+    >
+      <button onClick={onOpen} className="flex-1 min-w-0 flex items-start gap-3 text-left">
+        <div className="relative flex-shrink-0">
+          <div className="w-10 h-10 rounded-full bg-slate-200 overflow-hidden flex items-center justify-center">
+            {actor?.avatar_url ? (
+              <img src={actor.avatar_url} alt="" className="w-full h-full object-cover" />
+            ) : (
+              <span className="text-slate-600 font-semibold">{displayName(actor, 'U')[0].toUpperCase()}</span>
+            )}
+          </div>
+          <div className={`absolute -bottom-1 -right-1 w-5 h-5 rounded-full bg-gradient-to-br ${color} flex items-center justify-center ring-2 ring-white`}>
+            <Icon className="w-3 h-3 text-white" />
+          </div>
+        </div>
+
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-slate-700">
+            <span className="font-semibold text-slate-800">{describeActors(group.actors)}</span>{' '}
+            {describeActivity(group)}
+          </p>
+          {showsPreview && (
+            <p className="text-sm text-slate-500 mt-1 line-clamp-2">&ldquo;{group.preview}&rdquo;</p>
+          )}
+          <div className="flex items-center gap-2 mt-1">
+            <span className="text-xs text-gray-500">{getTimeAgo(group.latestAt)}</span>
+            {!group.isRead && (
+              <span className="px-2 py-0.5 bg-pink-500 text-white text-[10px] font-bold rounded">
+                NEW
+              </span>
+            )}
+          </div>
+        </div>
+
+        {group.thumbnailUrl && (
+          <img src={group.thumbnailUrl} alt="" className="w-12 h-12 rounded-lg object-cover flex-shrink-0" />
+        )}
+      </button>
+
+      <ReadControls isRead={group.isRead} onToggleRead={onToggleRead} onDismiss={onDismiss} />
+    </div>
+  );
+}
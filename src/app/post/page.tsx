@@ -1,28 +1,43 @@
 'use client';
 
 import { useState, useRef, ChangeEvent, useEffect } from 'react';
-import { Camera, Upload, MapPin, Tag, Settings, X, Edit2, Check } from 'lucide-react';
-import { createClient } from '@supabase/supabase-js';
+import {
+  Camera, Upload, MapPin, Tag, Settings, X, Edit2, Check, AlertCircle, RefreshCw,
+  ChevronLeft, ChevronRight, Plus
+} from 'lucide-react';
+import { supabase } from '@/lib/supabase/client';
+import { Profile, getProfile } from '@/lib/repositories/profiles';
+import { createPost } from '@/lib/repositories/posts';
+import { uploadWithProgress } from '@/lib/storage/upload';
 import { useRouter } from 'next/navigation';
 
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+const POST_IMAGES_BUCKET = 'post-images';
+const MAX_UPLOAD_ATTEMPTS = 3;
+const MAX_IMAGES = 10;
+
+type PublishStage = 'idle' | 'uploading' | 'saving' | 'error';
+
+interface SelectedImage {
+  file: File;
+  preview: string;
+}
 
 export default function PostScreen() {
   const [caption, setCaption] = useState('');
   const [location, setLocation] = useState('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
+  const [selectedImages, setSelectedImages] = useState<SelectedImage[]>([]);
   const [selectedTags, setSelectedTags] = useState<string[]>([]);
   const [isPosting, setIsPosting] = useState(false);
+  const [publishStage, setPublishStage] = useState<PublishStage>('idle');
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadingIndex, setUploadingIndex] = useState(0);
+  const [publishError, setPublishError] = useState<string | null>(null);
   const [showSuccessModal, setShowSuccessModal] = useState(false);
   const [showImageModal, setShowImageModal] = useState(false);
   const [allowComments, setAllowComments] = useState(true);
   const [allowLikes, setAllowLikes] = useState(true);
   const [user, setUser] = useState<any>(null);
-  const [userProfile, setUserProfile] = useState<any>(null);
+  const [userProfile, setUserProfile] = useState<Profile | null>(null);
   const [isLoadingUser, setIsLoadingUser] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const router = useRouter();
@@ -48,17 +63,11 @@ export default function PostScreen() {
         setUser(currentUser);
 
         // Fetch user profile
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', currentUser.id)
-          .single();
-
-        if (profileError) {
+        try {
+          setUserProfile(await getProfile(currentUser.id));
+        } catch (profileError) {
           console.error('Error fetching profile:', profileError);
           // Still show user email even if profile fetch fails
-        } else {
-          setUserProfile(profile);
         }
       } catch (error) {
         console.error('Error fetching user:', error);
@@ -72,27 +81,67 @@ export default function PostScreen() {
   }, [router]);
 
   const canPublish = () => {
-    return selectedImage && caption.trim().length > 0;
+    return selectedImages.length > 0 && user && caption.trim().length > 0;
   };
 
   const handleImageSelect = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+    const files = e.target.files;
+    if (!files || files.length === 0) return;
+
+    const availableSlots = MAX_IMAGES - selectedImages.length;
+    if (availableSlots <= 0) {
+      setPublishError(`You can add up to ${MAX_IMAGES} photos per post`);
+      e.target.value = '';
+      return;
     }
+
+    const imageFiles = Array.from(files).filter(file => file.type.startsWith('image/'));
+    const filesToAdd = imageFiles.slice(0, availableSlots);
+
+    if (imageFiles.length === 0) {
+      setPublishError('Please select an image file');
+    } else if (imageFiles.length > availableSlots) {
+      setPublishError(`Only ${filesToAdd.length} photo${filesToAdd.length === 1 ? ' was' : 's were'} added (max ${MAX_IMAGES} per post)`);
+    } else {
+      setPublishError(null);
+    }
+
+    setSelectedImages(prev => [
+      ...prev,
+      ...filesToAdd.map(file => ({ file, preview: URL.createObjectURL(file) })),
+    ]);
+    e.target.value = '';
+  };
+
+  const removeImage = (index: number) => {
+    setSelectedImages(prev => {
+      const updated = [...prev];
+      URL.revokeObjectURL(updated[index].preview);
+      updated.splice(index, 1);
+      return updated;
+    });
   };
 
-  const removeImage = () => {
-    setSelectedImage(null);
+  const clearImages = () => {
+    selectedImages.forEach(img => URL.revokeObjectURL(img.preview));
+    setSelectedImages([]);
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
+  // Swap a photo with its neighbour; the first photo is the cover
+  const moveImage = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= selectedImages.length) return;
+
+    setSelectedImages(prev => {
+      const updated = [...prev];
+      [updated[index], updated[target]] = [updated[target], updated[index]];
+      return updated;
+    });
+  };
+
   const toggleTag = (tag: string) => {
     if (selectedTags.includes(tag)) {
       setSelectedTags(selectedTags.filter(t => t !== tag));
@@ -101,27 +150,108 @@ export default function PostScreen() {
     }
   };
 
+  const uploadImage = async (
+    path: string,
+    file: File,
+    accessToken: string,
+    onProgress: (percent: number) => void
+  ) => {
+    let lastError: unknown = null;
+    for (let attempt = 1; attempt <= MAX_UPLOAD_ATTEMPTS; attempt++) {
+      try {
+        onProgress(0);
+        await uploadWithProgress(POST_IMAGES_BUCKET, path, file, accessToken, onProgress);
+        return;
+      } catch (error) {
+        lastError = error;
+        console.error(`Upload attempt ${attempt} failed:`, error);
+        if (attempt < MAX_UPLOAD_ATTEMPTS) {
+          // Back off a little longer after each failed attempt
+          await new Promise(resolve => setTimeout(resolve, attempt * 1000));
+        }
+      }
+    }
+
+    throw lastError;
+  };
+
   const handlePublish = async () => {
-    if (!canPublish()) return;
+    if (!canPublish() || !user) return;
 
     setIsPosting(true);
-    
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    setIsPosting(false);
-    setShowSuccessModal(true);
+    setPublishError(null);
+
+    const uploadedPaths: string[] = [];
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session?.access_token) {
+        throw new Error('Your session has expired, please log in again');
+      }
+
+      setPublishStage('uploading');
+      const imageUrls: string[] = [];
+      const total = selectedImages.length;
+
+      // Upload sequentially so order in `images` matches the order the user chose
+      for (let i = 0; i < total; i++) {
+        const { file } = selectedImages[i];
+        const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+        const path = `${user.id}/${Date.now()}-${i}-${Math.random().toString(36).slice(2)}.${extension}`;
+
+        setUploadingIndex(i);
+        await uploadImage(path, file, session.access_token, (percent) => {
+          setUploadProgress(Math.round(((i * 100) + percent) / total));
+        });
+        uploadedPaths.push(path);
+
+        const { data: { publicUrl } } = supabase.storage
+          .from(POST_IMAGES_BUCKET)
+          .getPublicUrl(path);
+        imageUrls.push(publicUrl);
+      }
+
+      setPublishStage('saving');
+      await createPost({
+        userId: user.id,
+        caption: caption.trim(),
+        location: location.trim() || null,
+        tags: selectedTags,
+        images: imageUrls,
+      });
+
+      setPublishStage('idle');
+      setShowSuccessModal(true);
+    } catch (error) {
+      console.error('Error publishing post:', error);
+
+      // Don't leave orphaned files behind if the post row was never created
+      if (uploadedPaths.length > 0) {
+        const { error: removeError } = await supabase.storage
+          .from(POST_IMAGES_BUCKET)
+          .remove(uploadedPaths);
+        if (removeError) {
+          console.error('Error rolling back uploaded images:', removeError);
+        }
+      }
+
+      setPublishStage('error');
+      setPublishError(error instanceof Error ? error.message : 'Failed to publish post');
+    } finally {
+      setIsPosting(false);
+      setUploadProgress(0);
+      setUploadingIndex(0);
+    }
   };
 
   const resetForm = () => {
-    setSelectedImage(null);
+    clearImages();
+    setPublishStage('idle');
+    setPublishError(null);
     setCaption('');
     setLocation('');
     setSelectedTags([]);
     setShowSuccessModal(false);
-    if (fileInputRef.current) {
-      fileInputRef.current.value = '';
-    }
   };
 
   return (
@@ -142,7 +272,7 @@ export default function PostScreen() {
             {isPosting ? (
               <div className="flex items-center gap-2">
                 <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
-                Posting...
+                {publishStage === 'uploading' ? `Uploading ${uploadProgress}%` : 'Posting...'}
               </div>
             ) : (
               'Share'
@@ -183,42 +313,144 @@ export default function PostScreen() {
           </div>
         )}
 
+        {/* Publish Progress */}
+        {isPosting && (
+          <div className="bg-white rounded-2xl shadow-lg p-4">
+            <div className="flex items-center justify-between mb-2">
+              <p className="font-semibold text-slate-700">
+                {publishStage === 'uploading'
+                  ? `Uploading photo ${uploadingIndex + 1} of ${selectedImages.length}...`
+                  : 'Saving post...'}
+              </p>
+              <p className="text-sm text-slate-500">
+                {publishStage === 'uploading' ? `${uploadProgress}%` : '100%'}
+              </p>
+            </div>
+            <div className="h-2 bg-slate-200 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-indigo-500 to-purple-600 transition-all"
+                style={{ width: `${publishStage === 'uploading' ? uploadProgress : 100}%` }}
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Publish Error */}
+        {publishError && !isPosting && (
+          <div className="bg-red-50 border border-red-500 rounded-xl p-4 flex items-center gap-3">
+            <AlertCircle className="text-red-600 flex-shrink-0" size={24} />
+            <div className="flex-1">
+              <p className="font-bold text-red-700">Couldn&apos;t publish your post</p>
+              <p className="text-sm text-red-600">{publishError}</p>
+            </div>
+            {publishStage === 'error' && (
+              <button
+                onClick={handlePublish}
+                disabled={!canPublish()}
+                className="bg-red-600 text-white px-4 py-2 rounded-full flex items-center gap-2 hover:bg-red-700 transition"
+              >
+                <RefreshCw size={16} />
+                Retry
+              </button>
+            )}
+          </div>
+        )}
+
         {/* Image Selection */}
         <div className="bg-white rounded-2xl shadow-lg p-6">
           <div className="flex items-center gap-3 mb-4">
             <div className="bg-gradient-to-br from-indigo-500 to-purple-600 p-2 rounded-lg">
               <Upload className="text-white" size={20} />
             </div>
-            <h2 className="text-xl font-bold text-slate-700">Select Photo</h2>
+            <h2 className="text-xl font-bold text-slate-700">Select Photos</h2>
+            {selectedImages.length > 0 && (
+              <span className="ml-auto text-sm text-slate-400">
+                {selectedImages.length}/{MAX_IMAGES}
+              </span>
+            )}
           </div>
 
-          {selectedImage ? (
-            <div className="relative h-80 rounded-2xl overflow-hidden bg-gradient-to-br from-indigo-50 to-purple-50">
-              <img
-                src={selectedImage}
-                alt="Selected"
-                className="w-full h-full object-cover"
-              />
-              <button
-                onClick={removeImage}
-                className="absolute top-3 right-3 bg-black/70 p-2 rounded-full hover:bg-black transition"
-              >
-                <X className="text-white" size={20} />
-              </button>
-              <button
-                onClick={() => setShowImageModal(true)}
-                className="absolute bottom-3 right-3 bg-gradient-to-r from-indigo-500 to-purple-600 px-4 py-2 rounded-full text-white flex items-center gap-2 hover:shadow-lg transition"
-              >
-                <Edit2 size={16} />
-                Change
-              </button>
+          {selectedImages.length > 0 ? (
+            <div className="space-y-4">
+              {/* Cover preview */}
+              <div className="relative h-80 rounded-2xl overflow-hidden bg-gradient-to-br from-indigo-50 to-purple-50">
+                <img
+                  src={selectedImages[0].preview}
+                  alt="Cover"
+                  className="w-full h-full object-cover"
+                />
+                <span className="absolute top-3 left-3 bg-black/70 text-white text-xs font-semibold px-3 py-1 rounded-full">
+                  Cover
+                </span>
+                <button
+                  onClick={() => setShowImageModal(true)}
+                  className="absolute bottom-3 right-3 bg-gradient-to-r from-indigo-500 to-purple-600 px-4 py-2 rounded-full text-white flex items-center gap-2 hover:shadow-lg transition"
+                >
+                  <Edit2 size={16} />
+                  Change
+                </button>
+              </div>
+
+              {/* Ordered thumbnails */}
+              <div className="flex gap-3 overflow-x-auto pb-2">
+                {selectedImages.map((image, index) => (
+                  <div
+                    key={image.preview}
+                    className="relative w-24 h-24 flex-shrink-0 rounded-xl overflow-hidden border-2 border-indigo-200"
+                  >
+                    <img src={image.preview} alt={`Photo ${index + 1}`} className="w-full h-full object-cover" />
+                    <span className="absolute top-1 left-1 bg-black/70 text-white text-xs font-bold w-5 h-5 rounded-full flex items-center justify-center">
+                      {index + 1}
+                    </span>
+                    <button
+                      onClick={() => removeImage(index)}
+                      disabled={isPosting}
+                      className="absolute top-1 right-1 bg-black/70 p-1 rounded-full hover:bg-black transition"
+                    >
+                      <X className="text-white" size={12} />
+                    </button>
+                    <div className="absolute bottom-1 inset-x-1 flex justify-between">
+                      <button
+                        onClick={() => moveImage(index, -1)}
+                        disabled={index === 0 || isPosting}
+                        className="bg-black/70 p-1 rounded-full hover:bg-black transition disabled:opacity-30"
+                        aria-label="Move earlier"
+                      >
+                        <ChevronLeft className="text-white" size={12} />
+                      </button>
+                      <button
+                        onClick={() => moveImage(index, 1)}
+                        disabled={index === selectedImages.length - 1 || isPosting}
+                        className="bg-black/70 p-1 rounded-full hover:bg-black transition disabled:opacity-30"
+                        aria-label="Move later"
+                      >
+                        <ChevronRight className="text-white" size={12} />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+
+                {selectedImages.length < MAX_IMAGES && (
+                  <label className="w-24 h-24 flex-shrink-0 rounded-xl border-2 border-dashed border-indigo-200 bg-indigo-50/50 flex flex-col items-center justify-center gap-1 cursor-pointer hover:border-indigo-400 transition">
+                    <Plus className="text-indigo-500" size={20} />
+                    <span className="text-xs font-medium text-indigo-500">Add</span>
+                    <input
+                      type="file"
+                      accept="image/*"
+                      multiple
+                      onChange={handleImageSelect}
+                      className="hidden"
+                    />
+                  </label>
+                )}
+              </div>
             </div>
           ) : (
             <div className="h-52 rounded-2xl border-2 border-dashed border-indigo-200 bg-gradient-to-br from-indigo-50/50 to-purple-50/50 flex flex-col items-center justify-center gap-4">
               <div className="bg-gradient-to-br from-indigo-500 to-purple-600 p-4 rounded-full">
                 <Upload className="text-white" size={32} />
               </div>
-              <p className="text-slate-500 font-medium">Select a photo to share</p>
+              <p className="text-slate-500 font-medium">Select up to {MAX_IMAGES} photos to share</p>
               <div className="flex gap-4">
                 <label className="cursor-pointer">
                   <div className="bg-gradient-to-r from-indigo-500 to-purple-600 text-white px-6 py-3 rounded-full shadow-lg hover:shadow-xl transition flex items-center gap-2">
@@ -229,6 +461,7 @@ export default function PostScreen() {
                     ref={fileInputRef}
                     type="file"
                     accept="image/*"
+                    multiple
                     onChange={handleImageSelect}
                     className="hidden"
                   />
@@ -399,7 +632,10 @@ export default function PostScreen() {
                   Create Another
                 </button>
                 <button
-                  onClick={resetForm}
+                  onClick={() => {
+                    resetForm();
+                    router.push('/community');
+                  }}
                   className="flex-1 bg-gradient-to-r from-indigo-500 to-purple-600 text-white py-3 rounded-full font-semibold hover:shadow-lg transition"
                 >
                   Done
@@ -428,6 +664,7 @@ export default function PostScreen() {
                 <input
                   type="file"
                   accept="image/*"
+                  multiple
                   onChange={(e) => {
                     handleImageSelect(e);
                     setShowImageModal(false);
@@ -445,7 +682,7 @@ export default function PostScreen() {
 
               <button
                 onClick={() => {
-                  removeImage();
+                  clearImages();
                   setShowImageModal(false);
                 }}
                 className="w-full bg-gradient-to-br from-red-50 to-red-50 border-2 border-red-200 rounded-xl p-4 flex items-center gap-4 hover:border-red-400 transition"
@@ -453,7 +690,7 @@ export default function PostScreen() {
                 <div className="bg-gradient-to-br from-red-500 to-red-600 p-2 rounded-lg">
                   <X className="text-white" size={20} />
                 </div>
-                <span className="font-semibold text-red-600">Remove Photo</span>
+                <span className="font-semibold text-red-600">Remove All Photos</span>
               </button>
             </div>
 
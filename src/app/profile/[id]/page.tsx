@@ -0,0 +1,243 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter, useParams } from 'next/navigation';
+import { supabase } from '@/lib/supabase/client';
+import {
+  ArrowLeft,
+  MessageCircle,
+  Send,
+  Grid3x3,
+  RefreshCw,
+  AlertCircle
+} from 'lucide-react';
+import ProfileHeader from '@/components/profile/profile_header';
+import UserPosts from '@/components/profile/user_posts';
+import FollowButton from '@/components/profile/follow_button';
+import FollowListModal, { FollowListType } from '@/components/profile/follow_list';
+import {
+  displayName,
+  getProfile,
+  getFollowCounts,
+  isFollowing as checkIsFollowing,
+} from '@/lib/repositories/profiles';
+import { fetchPostStats } from '@/lib/repositories/posts';
+import { Role, ROLE_LABELS, roleOf } from '@/lib/permissions';
+import { useCapabilities } from '@/lib/hooks/use_capabilities';
+
+// Types
+interface PublicProfile {
+  id: string;
+  username: string;
+  display_name: string;
+  avatar_url?: string;
+  role: Role;
+  is_verified: boolean;
+}
+
+export default function PublicProfilePage() {
+  const router = useRouter();
+  const params = useParams<{ id: string }>();
+  const profileId = Array.isArray(params.id) ? params.id[0] : params.id;
+
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [postCount, setPostCount] = useState(0);
+  const [likeCount, setLikeCount] = useState(0);
+  const [followerCount, setFollowerCount] = useState(0);
+  const [followingCount, setFollowingCount] = useState(0);
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  const [followList, setFollowList] = useState<FollowListType | null>(null);
+  const { canSendImages } = useCapabilities();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfile = async () => {
+    if (!profileId) return;
+
+    try {
+      const { data: { user: currentUser } } = await supabase.auth.getUser();
+
+      // Viewing yourself goes to the editable profile
+      if (currentUser?.id === profileId) {
+        router.replace('/profile');
+        return;
+      }
+
+      const profileData = await getProfile(profileId);
+
+      if (!profileData) {
+        setError('This user does not exist');
+        return;
+      }
+
+      setProfile({
+        id: profileData.id,
+        username: profileData.username || 'user',
+        display_name: displayName(profileData, 'User'),
+        avatar_url: profileData.avatar_url || undefined,
+        role: roleOf(profileData),
+        is_verified: profileData.is_verified || false,
+      });
+
+      // Counts
+      const [postStats, followCounts] = await Promise.all([
+        fetchPostStats(profileId),
+        getFollowCounts(profileId),
+      ]);
+
+      setPostCount(postStats.posts);
+      setLikeCount(postStats.likes);
+      setFollowerCount(followCounts.followers);
+      setFollowingCount(followCounts.following);
+
+      setIsSignedIn(!!currentUser);
+
+      if (currentUser) {
+        setIsFollowing(await checkIsFollowing(currentUser.id, profileId));
+      }
+    } catch (err) {
+      console.error('Error loading profile:', err);
+      setError('Failed to load profile information');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    const init = async () => {
+      await loadProfile();
+    };
+    init();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profileId]);
+
+  const retryLoad = () => {
+    setIsLoading(true);
+    setError(null);
+    loadProfile();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100">
+        <div className="w-12 h-12 border-4 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !profile) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-50 to-slate-100">
+        <div className="text-center p-8">
+          <AlertCircle size={64} className="mx-auto text-gray-400 mb-4" />
+          <h2 className="text-xl font-semibold text-gray-600 mb-2">
+            Failed to load profile
+          </h2>
+          <p className="text-gray-500 mb-6">{error}</p>
+          <div className="flex gap-3 justify-center">
+            <button
+              onClick={() => router.back()}
+              className="inline-flex items-center gap-2 px-6 py-3 text-gray-700 hover:bg-gray-100 rounded-lg transition"
+            >
+              <ArrowLeft size={20} />
+              Back
+            </button>
+            <button
+              onClick={retryLoad}
+              className="inline-flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition"
+            >
+              <RefreshCw size={20} />
+              Retry
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
+      <div className="relative">
+        <ProfileHeader
+          displayName={profile.display_name}
+          username={profile.username}
+          avatarUrl={profile.avatar_url}
+          isVerified={profile.is_verified}
+          badgeLabel={ROLE_LABELS[profile.role]}
+          stats={[
+            { label: 'Posts', value: postCount },
+            { label: 'Followers', value: followerCount, onClick: () => setFollowList('followers') },
+            { label: 'Following', value: followingCount, onClick: () => setFollowList('following') },
+            { label: 'Likes', value: likeCount },
+          ]}
+          leading={
+            <button
+              onClick={() => router.back()}
+              className="p-2 text-white hover:bg-white/20 rounded-full transition"
+            >
+              <ArrowLeft size={24} />
+            </button>
+          }
+          actions={
+            <>
+              {isSignedIn && (
+                <FollowButton
+                  userId={profile.id}
+                  initialIsFollowing={isFollowing}
+                  variant="light"
+                  onChange={(nowFollowing) => {
+                    setIsFollowing(nowFollowing);
+                    setFollowerCount(prev => Math.max(0, prev + (nowFollowing ? 1 : -1)));
+                  }}
+                />
+              )}
+              <button
+                onClick={() => router.push(`/messages?startWith=${profile.id}`)}
+                className="inline-flex items-center gap-2 px-5 py-2.5 bg-white text-indigo-600 font-semibold rounded-full shadow hover:shadow-lg transition"
+              >
+                <MessageCircle size={18} />
+                Message
+              </button>
+              {canSendImages && (
+                <button
+                  onClick={() => router.push(`/collections?tab=send&recipient=${profile.id}`)}
+                  className="inline-flex items-center gap-2 px-5 py-2.5 bg-white/20 border border-white/40 text-white font-semibold rounded-full hover:bg-white/30 transition"
+                >
+                  <Send size={18} />
+                  Send images
+                </button>
+              )}
+            </>
+          }
+        />
+
+        {/* Posts Section - Overlapping */}
+        <div className="relative -mt-12">
+          <div className="container mx-auto px-4">
+            <div className="bg-white rounded-t-3xl shadow-xl">
+              <div className="flex border-b">
+                <div className="flex-1 flex items-center justify-center gap-2 py-4 font-medium text-indigo-600 border-b-2 border-indigo-600">
+                  <Grid3x3 size={20} />
+                  Posts
+                </div>
+              </div>
+
+              <div className="min-h-[400px]">
+                <UserPosts userId={profile.id} />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {followList && (
+        <FollowListModal
+          userId={profile.id}
+          type={followList}
+          onClose={() => setFollowList(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,58 +1,17 @@
-"use client";
-
-import React, { useEffect, useState } from "react";
-import { useRouter } from "next/navigation";
-import { createClient } from "@supabase/supabase-js";
+import { redirect } from "next/navigation";
 import EditProfilePage from "../../edit_profile/paje";
+import { requireUser } from "@/lib/supabase/server";
+import { getProfile } from "@/lib/repositories/profiles";
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
-
-export default function ProfileEditRoute() {
-  const router = useRouter();
-  const [loading, setLoading] = useState(true);
-  const [profile, setProfile] = useState<any>(null);
-
-  useEffect(() => {
-    const load = async () => {
-      try {
-        const {
-          data: { user: currentUser },
-          error: userError,
-        } = await supabase.auth.getUser();
-
-        if (userError || !currentUser) {
-          router.push("/login");
-          return;
-        }
-
-        const { data: profileData, error: profileError } = await supabase
-          .from("profiles")
-          .select("*")
-          .eq("id", currentUser.id)
-          .single();
-
-        if (profileError) {
-          console.error("Failed to load profile:", profileError);
-          router.push("/profile");
-          return;
-        }
-
-        setProfile(profileData || null);
-      } catch (err) {
-        console.error(err);
-      } finally {
-        setLoading(false);
-      }
-    };
+export default async function ProfileEditRoute() {
+  const { supabase, user } = await requireUser("/profile/edit");
 
-    load();
-  }, [router]);
+  const profile = await getProfile(user.id, supabase).catch((err) => {
+    console.error("Failed to load profile:", err);
+    return null;
+  });
 
-  if (loading) return null;
-  if (!profile) return null;
+  if (!profile) redirect("/profile");
 
   return (
     <EditProfilePage
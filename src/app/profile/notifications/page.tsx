@@ -0,0 +1,17 @@
+import NotificationPreferencesScreen from '@/components/profile/notification_preferences_screen';
+import { requireUser } from '@/lib/supabase/server';
+import { NotificationPreferences, fetchNotificationPreferences } from '@/lib/repositories/notification_preferences';
+
+export default async function NotificationPreferencesPage() {
+  const { supabase, user } = await requireUser('/profile/notifications');
+
+  let preferences: NotificationPreferences | null = null;
+  let error: string | null = null;
+  try {
+    preferences = await fetchNotificationPreferences(user.id, supabase);
+  } catch (err) {
+    error = `Failed to load notification settings: ${err instanceof Error ? err.message : String(err)}`;
+  }
+
+  return <NotificationPreferencesScreen userId={user.id} initialPreferences={preferences} initialError={error} />;
+}
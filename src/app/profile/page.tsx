@@ -2,17 +2,17 @@
 
 import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import {
   User,
   Mail,
-  VerifiedIcon,
   Settings,
   LogOut,
   MoreVertical,
   Grid3x3,
   Bookmark,
   LayoutDashboard,
+  Bell,
   Users,
   Edit,
   RefreshCw,
@@ -20,12 +20,10 @@ import {
 } from 'lucide-react';
 import MyPosts from '@/components/profile/myposts';
 import MyBookmarks from '@/components/profile/bookmarks';
-
-// Initialize Supabase client
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-);
+import ProfileHeader from '@/components/profile/profile_header';
+import FollowListModal, { FollowListType } from '@/components/profile/follow_list';
+import { getProfile, getFollowCounts } from '@/lib/repositories/profiles';
+import { useCapabilities } from '@/lib/hooks/use_capabilities';
 
 // Types
 interface UserProfile {
@@ -52,9 +50,12 @@ export default function ProfilePage() {
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [isAdmin, setIsAdmin] = useState(false);
+  const { canManageUsers } = useCapabilities();
   const [showMenu, setShowMenu] = useState(false);
   const [showSignOutDialog, setShowSignOutDialog] = useState(false);
+  const [followerCount, setFollowerCount] = useState(0);
+  const [followingCount, setFollowingCount] = useState(0);
+  const [followList, setFollowList] = useState<FollowListType | null>(null);
 
   useEffect(() => {
     loadUserProfile();
@@ -76,13 +77,10 @@ export default function ProfilePage() {
       }
 
       // Fetch user profile from profiles table
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('id', currentUser.id)
-        .single();
-
-      if (profileError) {
+      let profileData;
+      try {
+        profileData = await getProfile(currentUser.id);
+      } catch (profileError) {
         console.error('Error fetching profile:', profileError);
         setError('Failed to load profile information');
         setIsLoading(false);
@@ -96,17 +94,20 @@ export default function ProfilePage() {
           username: profileData.username || 'user',
           display_name: profileData.full_name || profileData.username || 'User',
           email: currentUser.email || profileData.email || 'No email',
-          avatar_url: profileData.avatar_url
+          avatar_url: profileData.avatar_url || undefined
         });
-        
-        // Check admin status
-        setIsAdmin(profileData.is_admin || false);
+
+
+        // Follower / following counts
+        const { followers, following } = await getFollowCounts(currentUser.id);
+        setFollowerCount(followers);
+        setFollowingCount(following);
       } else {
         setError('Profile not found');
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error loading profile:', err);
-      setError(`Failed to load profile: ${err?.message || 'Unknown error'}`);
+      setError(`Failed to load profile: ${err instanceof Error ? err.message : 'Unknown error'}`);
     } finally {
       setIsLoading(false);
     }
@@ -134,6 +135,9 @@ export default function ProfilePage() {
       case 'dashboard':
         router.push('/profile/dashboard');
         break;
+      case 'notifications':
+        router.push('/profile/notifications');
+        break;
       case 'users':
         router.push('/profile/users');
         break;
@@ -175,16 +179,21 @@ export default function ProfilePage() {
   if (!profile) return null;
 
   const displayName = profile.display_name || profile.username;
-  const showUsername = profile.display_name && profile.display_name !== profile.username;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-slate-100">
       {/* Header Section with Gradient Background */}
       <div className="relative">
-        {/* Gradient Background */}
-        <div className="h-96 bg-gradient-to-br from-indigo-600 via-purple-600 to-purple-700 relative">
-          {/* Menu Button */}
-          <div className="absolute top-4 right-4 z-10">
+        <ProfileHeader
+          displayName={displayName}
+          username={profile.username}
+          email={profile.email}
+          avatarUrl={profile.avatar_url}
+          stats={[
+            { label: 'Followers', value: followerCount, onClick: () => setFollowList('followers') },
+            { label: 'Following', value: followingCount, onClick: () => setFollowList('following') },
+          ]}
+          trailing={
             <div className="relative">
               <button
                 onClick={() => setShowMenu(!showMenu)}
@@ -211,6 +220,7 @@ export default function ProfilePage() {
                       <span className="font-medium text-gray-900">Edit Profile</span>
                     </button>
 
+                    {canManageUsers && (
                       <button
                         onClick={() => handleMenuAction('users')}
                         className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition"
@@ -218,28 +228,23 @@ export default function ProfilePage() {
                         <Users size={20} className="text-indigo-600" />
                         <span className="font-medium text-gray-900">Users</span>
                       </button>
+                    )}
 
-                      <button
-                        onClick={() => handleMenuAction('dashboard')}
-                        className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition"
-                      >
-                        <LayoutDashboard size={20} className="text-indigo-600" />
-                        <span className="font-medium text-gray-900">Dashboard</span>
-                      </button>
-
-                    {isAdmin && (
-                      <>
-                        <button
-                          onClick={() => handleMenuAction('dashboard')}
-                          className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition"
-                        >
-                          <LayoutDashboard size={20} className="text-indigo-600" />
-                          <span className="font-medium text-gray-900">Dashboard</span>
-                        </button>
+                    <button
+                      onClick={() => handleMenuAction('dashboard')}
+                      className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition"
+                    >
+                      <LayoutDashboard size={20} className="text-indigo-600" />
+                      <span className="font-medium text-gray-900">Dashboard</span>
+                    </button>
 
-                        {/* admin-only dashboard button kept here */}
-                      </>
-                    )}
+                    <button
+                      onClick={() => handleMenuAction('notifications')}
+                      className="w-full flex items-center gap-3 px-4 py-3 hover:bg-gray-50 transition"
+                    >
+                      <Bell size={20} className="text-indigo-600" />
+                      <span className="font-medium text-gray-900">Notifications</span>
+                    </button>
 
                     <button
                       onClick={() => handleMenuAction('logout')}
@@ -252,47 +257,8 @@ export default function ProfilePage() {
                 </>
               )}
             </div>
-          </div>
-
-          {/* Profile Content */}
-          <div className="container mx-auto px-4 h-full flex flex-col items-center justify-center pt-16 pb-24">
-            {/* Avatar */}
-            <div className="relative">
-              <div className="w-32 h-32 rounded-full border-4 border-white shadow-2xl overflow-hidden bg-white">
-                {profile.avatar_url ? (
-                  <img
-                    src={profile.avatar_url}
-                    alt={displayName}
-                    className="w-full h-full object-cover"
-                  />
-                ) : (
-                  <div className="w-full h-full flex items-center justify-center bg-gradient-to-br from-indigo-400 to-purple-500">
-                    <span className="text-5xl font-bold text-white">
-                      {profile.username[0]?.toUpperCase() || 'U'}
-                    </span>
-                  </div>
-                )}
-              </div>
-            </div>
-
-            {/* Name & Info */}
-            <h1 className="text-3xl font-bold text-white mt-6">{displayName}</h1>
-            
-            {showUsername && (
-              <p className="text-white/80 text-sm font-medium mt-1">
-                @{profile.username}
-              </p>
-            )}
-
-            <p className="text-white/90 text-base mt-2">{profile.email}</p>
-
-            {/* Status Badge */}
-            <div className="mt-6 inline-flex items-center gap-2 px-4 py-2 bg-white/20 backdrop-blur-sm border border-white/30 rounded-full">
-              <VerifiedIcon size={16} className="text-white" />
-              <span className="text-white font-medium text-sm">Active Member</span>
-            </div>
-          </div>
-        </div>
+          }
+        />
 
         {/* Tabs Section - Overlapping */}
         <div className="relative -mt-12">
@@ -333,6 +299,17 @@ export default function ProfilePage() {
         </div>
       </div>
 
+      {followList && (
+        <FollowListModal
+          userId={profile.id}
+          type={followList}
+          onClose={() => setFollowList(null)}
+          onFollowChange={(_, isFollowing) => {
+            setFollowingCount(prev => Math.max(0, prev + (isFollowing ? 1 : -1)));
+          }}
+        />
+      )}
+
       {/* Sign Out Confirmation Dialog */}
       {showSignOutDialog && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1,52 +1,33 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
-import { createClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import ExplorePage from '@/components/explore/explore_section';
 import TagsSection from '@/components/explore/tags_section';
-
-interface UserSearchResult {
-  id: string;
-  display_name?: string;
-  username?: string;
-  email?: string;
-  user_type?: string;
-  avatar_url?: string;
-  is_verified?: boolean;
-}
+import FollowButton from '@/components/profile/follow_button';
+import { ProfileSummary, getFollowingIds, searchProfiles } from '@/lib/repositories/profiles';
 
 interface SearchPageProps {
   initialTab?: 'explore' | 'tags';
 }
 
-// Initialize Supabase client
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
-
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.error('Missing Supabase environment variables');
-}
-
-const supabase = createClient(
-  supabaseUrl || '',
-  supabaseAnonKey || ''
-);
-
 export default function SearchPage({ initialTab = 'explore' }: SearchPageProps) {
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTab, setActiveTab] = useState<'explore' | 'tags'>(initialTab);
   const [isSearchingUsers, setIsSearchingUsers] = useState(false);
-  const [userSearchResults, setUserSearchResults] = useState<UserSearchResult[]>([]);
+  const [userSearchResults, setProfileSummarys] = useState<ProfileSummary[]>([]);
   const [hasUserSearchQuery, setHasUserSearchQuery] = useState(false);
+  const [followingIds, setFollowingIds] = useState<Set<string>>(new Set());
+  const [isSignedIn, setIsSignedIn] = useState(false);
   
   const router = useRouter();
 
   // Debounced user search
   const searchUsers = useCallback(async (query: string) => {
     if (query.trim().length === 0) {
-      setUserSearchResults([]);
+      setProfileSummarys([]);
       setHasUserSearchQuery(false);
       setIsSearchingUsers(false);
       return;
@@ -56,50 +37,28 @@ export default function SearchPage({ initialTab = 'explore' }: SearchPageProps)
     setHasUserSearchQuery(true);
 
     try {
-      // Check if Supabase is properly configured
-      if (!supabaseUrl || !supabaseAnonKey) {
-        throw new Error('Supabase is not properly configured. Please check your environment variables.');
-      }
-
       const { data: { user: currentUser }, error: authError } = await supabase.auth.getUser();
       
       if (authError) {
         console.warn('Auth error (continuing without user filter):', authError);
       }
 
-      const searchTerm = query.toLowerCase().trim();
-      const searchPattern = `%${searchTerm}%`;
-      
-      // Build query with proper OR condition for Supabase PostgREST
-      // Format: field1.ilike.value1,field2.ilike.value2,field3.ilike.value3
-      let queryBuilder = supabase
-        .from('profiles')
-        .select('id, display_name, username, email, user_type, avatar_url, is_verified')
-        .or(`display_name.ilike.${searchPattern},username.ilike.${searchPattern},email.ilike.${searchPattern}`);
-
       // Only exclude current user if we have a valid user ID
-      if (currentUser?.id) {
-        queryBuilder = queryBuilder.neq('id', currentUser.id);
+      const data = await searchProfiles(query.toLowerCase(), {
+        excludeId: currentUser?.id,
+        limit: 20,
+      });
+
+      // Follow state for the results so each row can show Follow / Following
+      if (currentUser?.id && data.length > 0) {
+        setFollowingIds(new Set(await getFollowingIds(currentUser.id, data.map(u => u.id))));
       }
 
-      const { data, error } = await queryBuilder
-        .order('display_name', { ascending: true, nullsFirst: false })
-        .limit(20);
-
-      if (error) {
-        console.error('Supabase query error details:', {
-          message: error.message,
-          details: error.details,
-          hint: error.hint,
-          code: error.code
-        });
-        throw error;
-      }
-
-      setUserSearchResults(data || []);
-    } catch (error: any) {
-      console.error('Failed to search users:', error?.message || error);
-      setUserSearchResults([]);
+      setIsSignedIn(!!currentUser?.id);
+      setProfileSummarys(data);
+    } catch (error) {
+      console.error('Failed to search users:', error);
+      setProfileSummarys([]);
     } finally {
       setIsSearchingUsers(false);
     }
@@ -110,7 +69,7 @@ export default function SearchPage({ initialTab = 'explore' }: SearchPageProps)
       if (searchQuery.trim()) {
         searchUsers(searchQuery);
       } else {
-        setUserSearchResults([]);
+        setProfileSummarys([]);
         setHasUserSearchQuery(false);
         setIsSearchingUsers(false);
       }
@@ -120,13 +79,13 @@ export default function SearchPage({ initialTab = 'explore' }: SearchPageProps)
   }, [searchQuery, searchUsers]);
 
 
-  const navigateToProfile = (user: UserSearchResult) => {
+  const navigateToProfile = (user: ProfileSummary) => {
     router.push(`/profile/${user.id}`);
   };
 
   const handleClearSearch = () => {
     setSearchQuery('');
-    setUserSearchResults([]);
+    setProfileSummarys([]);
     setHasUserSearchQuery(false);
   };
 
@@ -359,6 +318,16 @@ export default function SearchPage({ initialTab = 'explore' }: SearchPageProps)
                           )}
                         </div>
 
+                        {isSignedIn && (
+                          <div className="self-center flex-shrink-0">
+                            <FollowButton
+                              userId={user.id}
+                              initialIsFollowing={followingIds.has(user.id)}
+                              size="sm"
+                            />
+                          </div>
+                        )}
+
                         {/* Chevron */}
                         <svg className="w-5 h-5 text-slate-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
@@ -0,0 +1,85 @@
+// Server-only email sender over the Resend HTTP API. EMAIL_API_URL points it
+// somewhere else, e.g. a local stand-in during development.
+
+const DEFAULT_EMAIL_API_URL = 'https://api.resend.com';
+
+export class EmailError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+interface EmailConfig {
+  apiKey: string;
+  from: string;
+  baseUrl: string;
+}
+
+export function getEmailConfig(): EmailConfig {
+  const config = {
+    apiKey: process.env.RESEND_API_KEY || '',
+    from: process.env.EMAIL_FROM || '',
+  };
+
+  const missing = Object.entries(config)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+  if (missing.length > 0) {
+    throw new EmailError(`Email is not configured (missing ${missing.join(', ')})`);
+  }
+
+  return { ...config, baseUrl: process.env.EMAIL_API_URL || DEFAULT_EMAIL_API_URL };
+}
+
+// Throws EmailError with the provider's status; 4xx other than 429 won't
+// succeed on a retry
+export async function sendEmail(message: EmailMessage): Promise<void> {
+  const config = getEmailConfig();
+
+  const response = await fetch(`${config.baseUrl}/emails`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from: config.from, ...message }),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new EmailError(`Email provider rejected the message (${response.status})`, response.status);
+  }
+}
+
+export const isPermanentEmailFailure = (error: unknown) =>
+  error instanceof EmailError &&
+  error.status !== undefined &&
+  error.status >= 400 &&
+  error.status < 500 &&
+  error.status !== 429;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A plain notification email: a heading, a few lines and a link into the app
+export function notificationEmail(to: string, subject: string, lines: string[], link: string): EmailMessage {
+  return {
+    to,
+    subject,
+    text: [...lines, '', link].join('\n'),
+    html: [
+      `<h2 style="font-family:sans-serif">${escapeHtml(subject)}</h2>`,
+      ...lines.map(line => `<p style="font-family:sans-serif">${escapeHtml(line)}</p>`),
+      `<p style="font-family:sans-serif"><a href="${escapeHtml(link)}">Open in the app</a></p>`,
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import { getRole } from '@/lib/repositories/profiles';
+import { Capabilities, Role, capabilitiesFor } from '@/lib/permissions';
+
+interface ViewerState {
+  user: User | null;
+  role: Role | null;
+  isLoading: boolean;
+}
+
+// One lookup per signed-in user, shared by every component that asks
+let cached: Promise<{ user: User | null; role: Role | null }> | null = null;
+let cachedUserId: string | null | undefined;
+
+function loadViewer() {
+  if (!cached) {
+    cached = (async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      cachedUserId = user?.id ?? null;
+      if (!user) return { user: null, role: null };
+      return { user, role: await getRole(user.id) };
+    })().catch((error) => {
+      console.error('Error loading capabilities:', error);
+      cached = null;
+      return { user: null, role: null };
+    });
+  }
+  return cached;
+}
+
+// What the signed-in user may do. Everything is false while loading and for
+// signed-out visitors; the database enforces the same rules regardless.
+export function useCapabilities(): Capabilities & ViewerState {
+  const [state, setState] = useState<ViewerState>({ user: null, role: null, isLoading: true });
+
+  useEffect(() => {
+    let active = true;
+
+    const refresh = async () => {
+      const viewer = await loadViewer();
+      if (active) setState({ ...viewer, isLoading: false });
+    };
+    refresh();
+
+    // Token refreshes also fire here; only a different user invalidates the cache
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if ((session?.user.id ?? null) !== cachedUserId) {
+        cached = null;
+        refresh();
+      }
+    });
+
+    return () => {
+      active = false;
+      subscription.unsubscribe();
+    };
+  }, []);
+
+  return { ...capabilitiesFor(state.role), ...state };
+}
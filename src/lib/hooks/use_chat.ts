@@ -0,0 +1,478 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimeChannel, User } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Conversation,
+  ConversationMember,
+  MESSAGE_PAGE_SIZE,
+  Message,
+  MessageReaction,
+  addReaction,
+  fetchConversationMembers,
+  fetchMessages,
+  fetchReactions,
+  getConversation,
+  getMessage,
+  updateMessageContent,
+  deleteMessageForEveryone,
+  hideMessage,
+  markConversationRead,
+  removeReaction,
+} from '@/lib/repositories/messages';
+import { removeChatImages } from '@/lib/storage/chat_attachments';
+import { useOutbox } from './use_outbox';
+
+export type DeleteScope = 'me' | 'everyone';
+
+export interface ChatDraft {
+  text: string;
+  images: File[];
+  replyTo: Message | null;
+}
+
+interface UseChatOptions {
+  // Undefined until the first message creates the conversation
+  conversationId?: string;
+  // The other person in a direct chat; not needed for groups
+  otherUserId?: string;
+  // Load the history around this message instead of the latest page
+  focusMessageId?: string;
+  onError?: (message: string) => void;
+}
+
+const newestFirst = (a: Message, b: Message) =>
+  Date.parse(b.created_at) - Date.parse(a.created_at) || b.id.localeCompare(a.id);
+
+// Messages are kept newest first, matching the inverted list. Pages, realtime
+// inserts and a send's own result can overlap, so rows already held are kept.
+function mergeMessages(messages: Message[], incoming: Message[]) {
+  const known = new Set(messages.map((m) => m.id));
+  const added = incoming.filter((m) => !known.has(m.id));
+  return added.length === 0 ? messages : [...messages, ...added].sort(newestFirst);
+}
+
+const sameReaction = (a: Partial<MessageReaction>, b: Partial<MessageReaction>) =>
+  a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+function mergeReactions(reactions: MessageReaction[], incoming: MessageReaction[]) {
+  const added = incoming.filter((reaction) => !reactions.some((r) => sameReaction(r, reaction)));
+  return added.length === 0 ? reactions : [...reactions, ...added];
+}
+
+// A typing broadcast is resent at most this often while the user keeps typing,
+// and the indicator clears if none arrives for TYPING_TIMEOUT_MS
+const TYPING_THROTTLE_MS = 2500;
+const TYPING_TIMEOUT_MS = 5000;
+
+// One conversation, direct or group: its messages a page at a time, members,
+// live inserts, receipts and typing, and send/edit/delete. Sends go through
+// the outbox and report problems on the queued message; the other mutations
+// throw so the screen can report.
+export function useChat({ conversationId: initialConversationId, otherUserId, focusMessageId, onError }: UseChatOptions) {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [conversationId, setConversationId] = useState(initialConversationId);
+  const [messages, setMessages] = useState<Message[]>([]);
+  // For the loaded messages only
+  const [reactions, setReactions] = useState<MessageReaction[]>([]);
+  // Nothing to load until there is a conversation
+  const [isLoading, setIsLoading] = useState(!!initialConversationId);
+  const [hasOlder, setHasOlder] = useState(false);
+  // Only after opening an old message; live inserts wait until the user
+  // has paged forward to the end
+  const [hasNewer, setHasNewer] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [isLoadingNewer, setIsLoadingNewer] = useState(false);
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [members, setMembers] = useState<ConversationMember[]>([]);
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const hasNewerRef = useRef(false);
+  const lastTypingSentRef = useRef(0);
+  const typingTimeoutsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const setUserTyping = (userId: string, typing: boolean) => {
+    const timeouts = typingTimeoutsRef.current;
+    const existing = timeouts.get(userId);
+    if (existing) clearTimeout(existing);
+    timeouts.delete(userId);
+
+    if (typing) {
+      timeouts.set(userId, setTimeout(() => setUserTyping(userId, false), TYPING_TIMEOUT_MS));
+    }
+    setTypingUserIds((prev) => {
+      const others = prev.filter((id) => id !== userId);
+      return typing ? [...others, userId] : others;
+    });
+  };
+
+  const clearTyping = () => {
+    typingTimeoutsRef.current.forEach((timeout) => clearTimeout(timeout));
+    typingTimeoutsRef.current.clear();
+    setTypingUserIds([]);
+  };
+
+  const setNewerRemaining = (value: boolean) => {
+    hasNewerRef.current = value;
+    setHasNewer(value);
+  };
+
+  // Reactions follow the messages in, a page at a time
+  const loadReactions = async (page: Message[]) => {
+    try {
+      const loaded = await fetchReactions(page.map((m) => m.id));
+      setReactions((prev) => mergeReactions(prev, loaded));
+    } catch (error) {
+      console.error('Error loading reactions:', error);
+    }
+  };
+
+  // Group membership, roles and each member's reading position
+  const reloadConversation = async () => {
+    if (!conversationId) return;
+
+    try {
+      const [details, memberList] = await Promise.all([
+        getConversation(conversationId),
+        fetchConversationMembers(conversationId),
+      ]);
+      setConversation(details);
+      setMembers(memberList);
+    } catch (error) {
+      console.error('Error loading conversation:', error);
+    }
+  };
+
+  const markAsRead = async () => {
+    if (!conversationId || !currentUser) return;
+
+    try {
+      await markConversationRead(conversationId);
+    } catch (error) {
+      console.error('Error marking messages as read:', error);
+    }
+  };
+
+  const subscribeToMessages = () => {
+    if (!conversationId) return () => {};
+
+    const channel = supabase
+      .channel(`messages_${conversationId}`, { config: { broadcast: { self: false } } })
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          if (currentUser && payload.new.sender_id !== currentUser.id) {
+            if (!hasNewerRef.current) setMessages((prev) => mergeMessages(prev, [payload.new as Message]));
+            setUserTyping(payload.new.sender_id, false);
+            markAsRead();
+          }
+        }
+      )
+      // Receipts and edits
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Message;
+          setMessages((prev) => prev.map((m) => (m.id === updated.id ? { ...m, ...updated } : m)));
+        }
+      )
+      // Members joining, leaving, changing role or reading
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_participants',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        () => {
+          reloadConversation();
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          setReactions((prev) => mergeReactions(prev, [payload.new as MessageReaction]));
+        }
+      )
+      // Deletes can't be filtered, but only carry the key, which is enough to
+      // drop the reaction if it's one of ours
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          const removed = payload.old as Partial<MessageReaction>;
+          setReactions((prev) => prev.filter((r) => !sameReaction(r, removed)));
+        }
+      )
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (!payload.user_id || payload.user_id === currentUser?.id) return;
+        if (otherUserId && payload.user_id !== otherUserId) return;
+        setUserTyping(payload.user_id, !!payload.typing);
+      })
+      .subscribe();
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      clearTyping();
+      supabase.removeChannel(channel);
+    };
+  };
+
+  useEffect(() => {
+    supabase.auth.getUser().then(({ data: { user } }) => setCurrentUser(user));
+  }, []);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const init = async () => {
+      try {
+        reloadConversation();
+
+        const focus = focusMessageId ? await getMessage(focusMessageId) : null;
+        if (focus && focus.conversation_id === conversationId) {
+          const [newer, older] = await Promise.all([
+            fetchMessages(conversationId, { after: focus }),
+            fetchMessages(conversationId, { before: focus }),
+          ]);
+          setMessages([...newer, focus, ...older]);
+          loadReactions([...newer, focus, ...older]);
+          setHasOlder(older.length === MESSAGE_PAGE_SIZE);
+          setNewerRemaining(newer.length === MESSAGE_PAGE_SIZE);
+        } else {
+          const page = await fetchMessages(conversationId);
+          // Merged, as the first send of a new chat may already have landed
+          setMessages((prev) => mergeMessages(prev, page));
+          loadReactions(page);
+          setHasOlder(page.length === MESSAGE_PAGE_SIZE);
+        }
+      } catch (error) {
+        console.error('Error loading messages:', error);
+        onError?.('Error loading messages');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    init();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationId]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+    const unsubscribe = subscribeToMessages();
+    markAsRead();
+    return unsubscribe;
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationId, currentUser]);
+
+  const loadOlder = async () => {
+    const oldest = messages[messages.length - 1];
+    if (!conversationId || !oldest || !hasOlder || isLoadingOlder) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchMessages(conversationId, { before: oldest });
+      setMessages((prev) => mergeMessages(prev, page));
+      loadReactions(page);
+      setHasOlder(page.length === MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+      onError?.('Error loading messages');
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const loadNewer = async () => {
+    const newest = messages[0];
+    if (!conversationId || !newest || !hasNewer || isLoadingNewer) return;
+
+    setIsLoadingNewer(true);
+    try {
+      const page = await fetchMessages(conversationId, { after: newest });
+      setMessages((prev) => mergeMessages(prev, page));
+      loadReactions(page);
+      setNewerRemaining(page.length === MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+      onError?.('Error loading messages');
+    } finally {
+      setIsLoadingNewer(false);
+    }
+  };
+
+  const broadcastTyping = (typing: boolean) => {
+    if (!channelRef.current || !currentUser) return;
+    lastTypingSentRef.current = typing ? Date.now() : 0;
+    channelRef.current.send({ type: 'broadcast', event: 'typing', payload: { user_id: currentUser.id, typing } });
+  };
+
+  // Call on every keystroke; broadcasts are throttled
+  const notifyTyping = () => {
+    if (Date.now() - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+    broadcastTyping(true);
+  };
+
+  const handleDelivered = async (inserted: Message) => {
+    if (hasNewerRef.current) {
+      // Reading old history: jump to the latest page, which now ends with this message.
+      // The message is already sent, so a failed reload leaves it for paging forward.
+      try {
+        const page = await fetchMessages(inserted.conversation_id);
+        setMessages(mergeMessages(page, [inserted]));
+        loadReactions(page);
+        setHasOlder(page.length === MESSAGE_PAGE_SIZE);
+        setNewerRemaining(false);
+      } catch (error) {
+        console.error('Error loading latest messages:', error);
+      }
+    } else {
+      setMessages((prev) => mergeMessages(prev, [inserted]));
+    }
+  };
+
+  const outbox = useOutbox({
+    currentUserId: currentUser?.id ?? null,
+    conversationId,
+    recipientId: otherUserId,
+    onConversationCreated: setConversationId,
+    onDelivered: handleDelivered,
+  });
+
+  // Queues the message; it shows as sending until the outbox delivers it
+  const send = async ({ text, images, replyTo }: ChatDraft) => {
+    if (!currentUser) throw new Error('Not authenticated');
+    if (lastTypingSentRef.current) broadcastTyping(false);
+
+    const isGroup = conversation?.is_group ?? false;
+    const recipientId = otherUserId || members.find((m) => m.user_id !== currentUser.id)?.user_id;
+    if (!isGroup && !recipientId) throw new Error('No recipient');
+
+    await outbox.enqueue({ text, images, replyTo, isGroup, recipientId: isGroup ? null : recipientId! });
+  };
+
+  const edit = async (messageId: string, content: string) => {
+    await updateMessageContent(messageId, content);
+    const editedAt = new Date().toISOString();
+    setMessages((prev) =>
+      prev.map((m) => {
+        if (m.id === messageId) return { ...m, content, edited_at: editedAt };
+        return m.reply_to_id === messageId ? { ...m, reply_to_content: content } : m;
+      })
+    );
+  };
+
+  // Adds the signed-in user's reaction, or takes it back if they already
+  // reacted with this emoji. Shown straight away and reverted on failure.
+  const toggleReaction = async (message: Message, emoji: string) => {
+    if (!currentUser) throw new Error('Not authenticated');
+
+    const reaction: MessageReaction = {
+      message_id: message.id,
+      conversation_id: message.conversation_id,
+      user_id: currentUser.id,
+      emoji,
+      created_at: new Date().toISOString(),
+    };
+    const existing = reactions.find((r) => sameReaction(r, reaction));
+
+    if (existing) {
+      setReactions((prev) => prev.filter((r) => !sameReaction(r, existing)));
+      try {
+        await removeReaction(message.id, currentUser.id, emoji);
+      } catch (error) {
+        setReactions((prev) => mergeReactions(prev, [existing]));
+        throw error;
+      }
+    } else {
+      setReactions((prev) => mergeReactions(prev, [reaction]));
+      try {
+        await addReaction(message, currentUser.id, emoji);
+      } catch (error) {
+        setReactions((prev) => prev.filter((r) => !sameReaction(r, reaction)));
+        throw error;
+      }
+    }
+  };
+
+  // "me" hides the message from this user only; "everyone" (sender only)
+  // turns it into a tombstone, which the others get as a realtime update
+  const remove = async (messageId: string, scope: DeleteScope) => {
+    if (!currentUser) throw new Error('Not authenticated');
+
+    if (scope === 'me') {
+      await hideMessage(messageId, currentUser.id);
+      setMessages((prev) => prev.filter((m) => m.id !== messageId));
+      return;
+    }
+
+    const attachments = messages.find((m) => m.id === messageId)?.images || [];
+    await deleteMessageForEveryone(messageId);
+
+    const deletedAt = new Date().toISOString();
+    setMessages((prev) =>
+      prev.map((m) => {
+        if (m.id === messageId) {
+          return { ...m, content: '', images: null, reply_to_id: null, reply_to_content: null, deleted_at: deletedAt };
+        }
+        return m.reply_to_id === messageId ? { ...m, reply_to_content: null } : m;
+      })
+    );
+    setReactions((prev) => prev.filter((r) => r.message_id !== messageId));
+    await removeChatImages(attachments);
+  };
+
+  return {
+    currentUser,
+    conversationId,
+    messages,
+    reactions,
+    isLoading,
+    outgoing: outbox.entries,
+    outgoingProgress: outbox.progress,
+    isOnline: outbox.isOnline,
+    retrySend: outbox.retry,
+    discardSend: outbox.discard,
+    hasOlder,
+    hasNewer,
+    isLoadingOlder,
+    isLoadingNewer,
+    loadOlder,
+    loadNewer,
+    conversation,
+    members,
+    typingUserIds,
+    notifyTyping,
+    reloadConversation,
+    send,
+    edit,
+    remove,
+    toggleReaction,
+  };
+}
@@ -0,0 +1,305 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabase/client';
+import {
+  Message,
+  NewMessage,
+  getMessage,
+  sendMessage as insertMessage,
+  getOrCreateConversation as openConversation,
+} from '@/lib/repositories/messages';
+import { removeChatImages, uploadChatImage } from '@/lib/storage/chat_attachments';
+import { UploadError } from '@/lib/storage/upload';
+import { OutboxEntry, deleteOutboxEntry, listOutboxEntries, saveOutboxEntry } from '@/lib/storage/outbox';
+
+export interface OutgoingDraft {
+  text: string;
+  images: File[];
+  replyTo: Pick<Message, 'id' | 'content'> | null;
+  isGroup: boolean;
+  recipientId: string | null;
+}
+
+interface UseOutboxOptions {
+  currentUserId: string | null;
+  conversationId?: string;
+  // Direct chats: matches entries queued before the conversation existed
+  recipientId?: string;
+  onConversationCreated: (conversationId: string) => void;
+  onDelivered: (message: Message) => void;
+}
+
+// Retries back off from RETRY_BASE_MS, doubling up to RETRY_MAX_MS, and give
+// up after MAX_SEND_ATTEMPTS. Time spent offline doesn't count.
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60_000;
+const MAX_SEND_ATTEMPTS = 8;
+
+const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+const retryDelay = (attempts: number) => Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+
+// Worth retrying: no connection, timeouts and server errors. Anything the
+// server turned down (permissions, constraints) would fail the same way again.
+function isTransient(error: unknown) {
+  if (error instanceof UploadError) return error.status === 0 || error.status >= 500;
+  if (error instanceof TypeError) return true;
+  // supabase-js reports a failed fetch as an error with an empty code
+  if (error && typeof error === 'object' && 'code' in error) return !error.code;
+  return false;
+}
+
+const isDuplicate = (error: unknown) =>
+  !!error && typeof error === 'object' && 'code' in error && error.code === '23505';
+
+// Uploads whatever images are still outstanding, then inserts the message
+// under the entry's id. `save` records progress on the entry as it goes.
+async function deliver(
+  entry: OutboxEntry,
+  save: (entry: OutboxEntry) => void,
+  onProgress: (percent: number) => void
+): Promise<Message> {
+  let current = entry;
+
+  if (!current.conversationId) {
+    current = { ...current, conversationId: await openConversation(current.senderId, current.recipientId!) };
+    save(current);
+  }
+  const conversationId = current.conversationId!;
+
+  if (current.uploaded.length < current.images.length) {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.access_token) throw new Error('Your session has expired, please log in again');
+
+    // Sequential, so `images` keeps the order the user picked
+    for (let i = current.uploaded.length; i < current.images.length; i++) {
+      const prefix = await uploadChatImage(conversationId, current.senderId, current.images[i], session.access_token, (percent) =>
+        onProgress(Math.round(((i + percent / 100) / current.images.length) * 100))
+      );
+      current = { ...current, uploaded: [...current.uploaded, prefix] };
+      save(current);
+    }
+  }
+
+  const hasText = current.text.length > 0;
+  const messageData: NewMessage = {
+    id: current.id,
+    conversation_id: conversationId,
+    sender_id: current.senderId,
+    receiver_id: current.isGroup ? null : current.recipientId,
+    content: hasText ? current.text : '📷 Photo',
+    is_read: false,
+  };
+
+  if (current.uploaded.length > 0) {
+    messageData.images = current.uploaded;
+  }
+
+  if (current.replyTo) {
+    messageData.reply_to_id = current.replyTo.id;
+    messageData.reply_to_content = current.replyTo.content;
+  }
+
+  try {
+    return await insertMessage(messageData);
+  } catch (error) {
+    // An earlier attempt got through but its response was lost
+    const existing = isDuplicate(error) ? await getMessage(current.id) : null;
+    if (existing) return existing;
+    throw error;
+  }
+}
+
+// The signed-in user's unsent messages for one chat. Entries are flushed in
+// the order they were written while the chat is open, and again whenever the
+// browser comes back online.
+export function useOutbox({ currentUserId, conversationId, recipientId, onConversationCreated, onDelivered }: UseOutboxOptions) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  // Upload progress of the entry being sent, by id
+  const [progress, setProgress] = useState<Record<string, number>>({});
+  const [online, setOnline] = useState(isOnline);
+
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Latest callbacks, for flushes that outlive the render that started them
+  const callbacksRef = useRef({ onConversationCreated, onDelivered });
+  useEffect(() => {
+    callbacksRef.current = { onConversationCreated, onDelivered };
+  });
+
+  const setAll = (next: OutboxEntry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+  };
+
+  const persist = (entry: OutboxEntry) => {
+    setAll(entriesRef.current.map((e) => (e.id === entry.id ? entry : e)));
+    saveOutboxEntry(entry).catch((error) => console.error('Error saving outbox entry:', error));
+  };
+
+  const clearProgress = (id: string) => {
+    setProgress((prev) => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const forget = (id: string) => {
+    setAll(entriesRef.current.filter((e) => e.id !== id));
+    clearProgress(id);
+    deleteOutboxEntry(id).catch((error) => console.error('Error removing outbox entry:', error));
+  };
+
+  const scheduleRetry = () => {
+    if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+
+    const due = entriesRef.current.filter((e) => e.status === 'pending').map((e) => e.nextAttemptAt);
+    if (due.length === 0) return;
+    retryTimerRef.current = setTimeout(flush, Math.max(0, Math.min(...due) - Date.now()));
+  };
+
+  const attempt = async (entry: OutboxEntry) => {
+    let adopted = !!entry.conversationId;
+    const save = (next: OutboxEntry) => {
+      persist(next);
+      if (adopted || !next.conversationId) return;
+
+      // The first message of a new chat created it; later ones go there too
+      adopted = true;
+      entriesRef.current
+        .filter((e) => !e.conversationId)
+        .forEach((e) => persist({ ...e, conversationId: next.conversationId }));
+      callbacksRef.current.onConversationCreated(next.conversationId);
+    };
+
+    try {
+      const message = await deliver(entry, save, (percent) => setProgress((prev) => ({ ...prev, [entry.id]: percent })));
+      forget(entry.id);
+      callbacksRef.current.onDelivered(message);
+    } catch (error) {
+      console.error('Error sending message:', error);
+      const latest = entriesRef.current.find((e) => e.id === entry.id);
+      if (!latest) return;
+
+      clearProgress(entry.id);
+      if (!isOnline()) {
+        // Not the message's fault; the 'online' event picks it up again
+        persist({ ...latest, nextAttemptAt: Date.now() });
+        return;
+      }
+
+      const attempts = latest.attempts + 1;
+      const failed = !isTransient(error) || attempts >= MAX_SEND_ATTEMPTS;
+      persist({
+        ...latest,
+        attempts,
+        status: failed ? 'failed' : 'pending',
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+      });
+    }
+  };
+
+  const flush = async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+
+    try {
+      for (const { id } of [...entriesRef.current]) {
+        if (!isOnline()) break;
+        const entry = entriesRef.current.find((e) => e.id === id);
+        if (!entry || entry.status !== 'pending' || entry.nextAttemptAt > Date.now()) continue;
+        await attempt(entry);
+      }
+    } finally {
+      flushingRef.current = false;
+      if (isOnline()) scheduleRetry();
+    }
+  };
+
+  // Pick up whatever was left queued for this chat last time
+  useEffect(() => {
+    if (!currentUserId) return;
+
+    const init = async () => {
+      try {
+        const stored = await listOutboxEntries(currentUserId);
+        const mine = stored.filter((e) =>
+          conversationId ? e.conversationId === conversationId : !e.conversationId && e.recipientId === recipientId
+        );
+        setAll([...mine, ...entriesRef.current.filter((e) => !mine.some((m) => m.id === e.id))]);
+      } catch (error) {
+        console.error('Error loading outbox:', error);
+      }
+      flush();
+    };
+    init();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentUserId]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      flush();
+    };
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (retryTimerRef.current) clearTimeout(retryTimerRef.current);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Queues the message and starts sending it. Only fails if the message
+  // can't even be queued; delivery problems show up on the entry instead.
+  const enqueue = async (draft: OutgoingDraft) => {
+    if (!currentUserId) throw new Error('Not authenticated');
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      senderId: currentUserId,
+      conversationId: conversationId ?? null,
+      recipientId: draft.recipientId,
+      isGroup: draft.isGroup,
+      text: draft.text,
+      images: draft.images,
+      uploaded: [],
+      replyTo: draft.replyTo ? { id: draft.replyTo.id, content: draft.replyTo.content } : null,
+      createdAt: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+    };
+
+    setAll([...entriesRef.current, entry]);
+    // Without IndexedDB (e.g. some private windows) it is still sent, just
+    // not kept across reloads
+    await saveOutboxEntry(entry).catch((error) => console.error('Error saving outbox entry:', error));
+    flush();
+  };
+
+  const retry = (id: string) => {
+    const entry = entriesRef.current.find((e) => e.id === id);
+    if (!entry) return;
+
+    persist({ ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now() });
+    flush();
+  };
+
+  const discard = async (id: string) => {
+    const entry = entriesRef.current.find((e) => e.id === id);
+    if (!entry || entry.status !== 'failed') return;
+
+    forget(id);
+    await removeChatImages(entry.uploaded);
+  };
+
+  return { entries, progress, isOnline: online, enqueue, retry, discard };
+}
@@ -0,0 +1,130 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase/client';
+import { touchLastSeen } from '@/lib/repositories/profiles';
+
+// One app-wide presence channel: every signed-in tab tracks itself on it and
+// any screen can watch who is online. profiles.last_seen_at is refreshed
+// while tracking so "last seen" survives the tab closing.
+
+const ONLINE_CHANNEL = 'online_users';
+const LAST_SEEN_INTERVAL_MS = 60 * 1000;
+
+let channel: RealtimeChannel | null = null;
+let consumers = 0;
+let isSubscribed = false;
+let trackedUserId: string | null = null;
+let onlineIds = new Set<string>();
+const listeners = new Set<(ids: Set<string>) => void>();
+
+function acquireChannel(): RealtimeChannel {
+  consumers++;
+  if (channel) return channel;
+
+  const created = supabase.channel(ONLINE_CHANNEL);
+  channel = created;
+  created
+    .on('presence', { event: 'sync' }, () => {
+      const state = created.presenceState<{ user_id: string }>();
+      onlineIds = new Set(Object.values(state).flat().map((meta) => meta.user_id));
+      listeners.forEach((listener) => listener(onlineIds));
+    })
+    .subscribe((status) => {
+      isSubscribed = status === 'SUBSCRIBED';
+      if (isSubscribed && trackedUserId) {
+        created.track({ user_id: trackedUserId, online_at: new Date().toISOString() });
+      }
+    });
+
+  return created;
+}
+
+function releaseChannel() {
+  consumers--;
+  if (consumers > 0 || !channel) return;
+
+  supabase.removeChannel(channel);
+  channel = null;
+  isSubscribed = false;
+  onlineIds = new Set();
+}
+
+function startTracking(userId: string) {
+  trackedUserId = userId;
+  if (channel && isSubscribed) {
+    channel.track({ user_id: userId, online_at: new Date().toISOString() });
+  }
+}
+
+function stopTracking() {
+  trackedUserId = null;
+  if (channel && isSubscribed) channel.untrack();
+}
+
+const recordLastSeen = () => {
+  touchLastSeen().catch((error) => console.error('Error updating last seen:', error));
+};
+
+// Marks the signed-in user online for as long as the calling component is
+// mounted; the layout does this once for the whole app
+export function usePresenceTracking() {
+  useEffect(() => {
+    acquireChannel();
+    let heartbeat: ReturnType<typeof setInterval> | null = null;
+
+    const start = (userId: string) => {
+      if (trackedUserId === userId) return;
+      startTracking(userId);
+      recordLastSeen();
+      if (heartbeat) clearInterval(heartbeat);
+      heartbeat = setInterval(recordLastSeen, LAST_SEEN_INTERVAL_MS);
+    };
+
+    const stop = () => {
+      if (!trackedUserId) return;
+      recordLastSeen();
+      stopTracking();
+      if (heartbeat) clearInterval(heartbeat);
+      heartbeat = null;
+    };
+
+    const init = async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) start(user.id);
+    };
+    init();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      if (session?.user) start(session.user.id);
+      else stop();
+    });
+
+    window.addEventListener('pagehide', recordLastSeen);
+
+    return () => {
+      subscription.unsubscribe();
+      window.removeEventListener('pagehide', recordLastSeen);
+      stop();
+      releaseChannel();
+    };
+  }, []);
+}
+
+// Ids of everyone currently online
+export function useOnlineUsers(): Set<string> {
+  const [ids, setIds] = useState<Set<string>>(onlineIds);
+
+  useEffect(() => {
+    acquireChannel();
+    listeners.add(setIds);
+
+    return () => {
+      listeners.delete(setIds);
+      releaseChannel();
+    };
+  }, []);
+
+  return ids;
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { deletePushSubscription, savePushSubscription } from '@/lib/repositories/push';
+
+const SERVICE_WORKER_URL = '/sw.js';
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '';
+
+// 'unsupported' covers browsers without push and deployments without a VAPID key
+export type PushStatus = 'unsupported' | 'denied' | 'off' | 'on';
+
+const isPushSupported = () =>
+  typeof window !== 'undefined' &&
+  'serviceWorker' in navigator &&
+  'PushManager' in window &&
+  'Notification' in window &&
+  !!VAPID_PUBLIC_KEY;
+
+// pushManager.subscribe wants the raw key bytes
+function decodeKey(base64url: string): Uint8Array<ArrayBuffer> {
+  const base64 = base64url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64url.length / 4) * 4, '=');
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+async function getRegistration() {
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+// Re-registers this browser's subscription for whoever is signed in now, so
+// a subscription the browser rotated or one left by another account on the
+// same browser follows the current user. Quietly does nothing without one.
+export async function syncPushSubscription() {
+  if (!isPushSupported() || Notification.permission !== 'granted') return;
+
+  try {
+    const registration = await getRegistration();
+    const subscription = await registration.pushManager.getSubscription();
+    if (subscription) await savePushSubscription(subscription);
+  } catch (error) {
+    console.error('Error syncing push subscription:', error);
+  }
+}
+
+// Push on this browser: whether it's on, and switching it on or off. Turning
+// it on asks for notification permission first.
+export function usePushNotifications() {
+  const [status, setStatus] = useState<PushStatus>('off');
+  const [isBusy, setIsBusy] = useState(true);
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        if (!isPushSupported()) {
+          setStatus('unsupported');
+          return;
+        }
+        if (Notification.permission === 'denied') {
+          setStatus('denied');
+          return;
+        }
+
+        const registration = await getRegistration();
+        const subscription = await registration.pushManager.getSubscription();
+        setStatus(subscription && Notification.permission === 'granted' ? 'on' : 'off');
+      } catch (error) {
+        console.error('Error checking push subscription:', error);
+        setStatus('unsupported');
+      } finally {
+        setIsBusy(false);
+      }
+    };
+    init();
+  }, []);
+
+  // Throws if the subscription can't be created or saved
+  const enable = async () => {
+    setIsBusy(true);
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        setStatus(permission === 'denied' ? 'denied' : 'off');
+        return;
+      }
+
+      const registration = await getRegistration();
+      const subscription =
+        (await registration.pushManager.getSubscription()) ??
+        (await registration.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: decodeKey(VAPID_PUBLIC_KEY) }));
+
+      await savePushSubscription(subscription);
+      setStatus('on');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const disable = async () => {
+    setIsBusy(true);
+    try {
+      const registration = await getRegistration();
+      const subscription = await registration.pushManager.getSubscription();
+      if (subscription) {
+        await deletePushSubscription(subscription.endpoint);
+        await subscription.unsubscribe();
+      }
+      setStatus('off');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return { status, isBusy, enable, disable };
+}
@@ -0,0 +1,189 @@
+// Server-only client for the Safaricom Daraja (M-Pesa Express / STK push) API.
+// MPESA_BASE_URL can point at a local mock server during development.
+
+const DEFAULT_BASE_URL = 'https://sandbox.safaricom.co.ke';
+
+// Refresh the OAuth token a minute before Daraja expires it
+const TOKEN_EXPIRY_MARGIN_MS = 60_000;
+
+// STK result codes we map to a specific status
+export const RESULT_CODE_SUCCESS = 0;
+export const RESULT_CODE_CANCELLED_BY_USER = 1032;
+export const RESULT_CODE_USER_UNREACHABLE = 1037;
+
+export class DarajaError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'DarajaError';
+  }
+}
+
+interface DarajaConfig {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  shortCode: string;
+  passkey: string;
+  callbackUrl: string;
+  // Not sent to Daraja; checked so no push starts whose callback would be refused
+  callbackToken: string;
+}
+
+export interface StkPushResult {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  customerMessage: string;
+}
+
+export interface StkCallback {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  resultCode: number;
+  resultDesc: string;
+  amount?: number;
+  mpesaReceiptNumber?: string;
+  phoneNumber?: string;
+}
+
+let cachedToken: { value: string; expiresAt: number } | null = null;
+
+export function getDarajaConfig(): DarajaConfig {
+  const config = {
+    baseUrl: process.env.MPESA_BASE_URL || DEFAULT_BASE_URL,
+    consumerKey: process.env.MPESA_CONSUMER_KEY || '',
+    consumerSecret: process.env.MPESA_CONSUMER_SECRET || '',
+    shortCode: process.env.MPESA_SHORTCODE || '',
+    passkey: process.env.MPESA_PASSKEY || '',
+    callbackUrl: process.env.MPESA_CALLBACK_URL || '',
+    callbackToken: process.env.MPESA_CALLBACK_TOKEN || '',
+  };
+
+  const missing = Object.entries(config)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+  if (missing.length > 0) {
+    throw new DarajaError(`M-Pesa is not configured (missing ${missing.join(', ')})`);
+  }
+
+  return config;
+}
+
+// 07XXXXXXXX / 01XXXXXXXX / +2547XXXXXXXX -> 2547XXXXXXXX
+export function normalizePhoneNumber(phone: string): string | null {
+  const digits = phone.replace(/\D/g, '');
+
+  if (/^0[17]\d{8}$/.test(digits)) return `254${digits.slice(1)}`;
+  if (/^254[17]\d{8}$/.test(digits)) return digits;
+  if (/^[17]\d{8}$/.test(digits)) return `254${digits}`;
+  return null;
+}
+
+// Daraja expects YYYYMMDDHHmmss in East Africa Time
+function getTimestamp(date = new Date()): string {
+  const eat = new Date(date.getTime() + 3 * 3600000);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return (
+    eat.getUTCFullYear().toString() +
+    pad(eat.getUTCMonth() + 1) +
+    pad(eat.getUTCDate()) +
+    pad(eat.getUTCHours()) +
+    pad(eat.getUTCMinutes()) +
+    pad(eat.getUTCSeconds())
+  );
+}
+
+async function getAccessToken(config: DarajaConfig): Promise<string> {
+  if (cachedToken && cachedToken.expiresAt > Date.now()) {
+    return cachedToken.value;
+  }
+
+  const credentials = Buffer.from(`${config.consumerKey}:${config.consumerSecret}`).toString('base64');
+  const response = await fetch(`${config.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${credentials}` },
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new DarajaError(`Failed to authenticate with M-Pesa (${response.status})`, response.status);
+  }
+
+  const data = await response.json();
+  const expiresInMs = Number(data.expires_in || 3599) * 1000;
+
+  cachedToken = {
+    value: data.access_token,
+    expiresAt: Date.now() + expiresInMs - TOKEN_EXPIRY_MARGIN_MS,
+  };
+
+  return cachedToken.value;
+}
+
+export async function initiateStkPush(params: {
+  phoneNumber: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+}): Promise<StkPushResult> {
+  const config = getDarajaConfig();
+  const token = await getAccessToken(config);
+  const timestamp = getTimestamp();
+  const password = Buffer.from(`${config.shortCode}${config.passkey}${timestamp}`).toString('base64');
+
+  const response = await fetch(`${config.baseUrl}/mpesa/stkpush/v1/processrequest`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      BusinessShortCode: config.shortCode,
+      Password: password,
+      Timestamp: timestamp,
+      TransactionType: 'CustomerPayBillOnline',
+      Amount: Math.round(params.amount),
+      PartyA: params.phoneNumber,
+      PartyB: config.shortCode,
+      PhoneNumber: params.phoneNumber,
+      CallBackURL: config.callbackUrl,
+      // Daraja limits: reference 12 chars, description 13 chars
+      AccountReference: params.accountReference.slice(0, 12),
+      TransactionDesc: params.description.slice(0, 13),
+    }),
+    cache: 'no-store',
+  });
+
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok || data.ResponseCode !== '0') {
+    throw new DarajaError(
+      data.errorMessage || data.ResponseDescription || `STK push failed (${response.status})`,
+      response.status
+    );
+  }
+
+  return {
+    merchantRequestId: data.MerchantRequestID,
+    checkoutRequestId: data.CheckoutRequestID,
+    customerMessage: data.CustomerMessage || 'Check your phone for the M-Pesa prompt',
+  };
+}
+
+// Flattens the Body.stkCallback payload Daraja posts to CallBackURL
+export function parseStkCallback(payload: unknown): StkCallback | null {
+  const callback = (payload as { Body?: { stkCallback?: Record<string, unknown> } })?.Body?.stkCallback;
+  if (!callback || typeof callback.CheckoutRequestID !== 'string') return null;
+
+  const items = ((callback.CallbackMetadata as { Item?: { Name: string; Value?: string | number }[] })?.Item) || [];
+  const item = (name: string) => items.find(i => i.Name === name)?.Value;
+
+  return {
+    merchantRequestId: String(callback.MerchantRequestID || ''),
+    checkoutRequestId: callback.CheckoutRequestID,
+    resultCode: Number(callback.ResultCode),
+    resultDesc: String(callback.ResultDesc || ''),
+    amount: item('Amount') !== undefined ? Number(item('Amount')) : undefined,
+    mpesaReceiptNumber: item('MpesaReceiptNumber') !== undefined ? String(item('MpesaReceiptNumber')) : undefined,
+    phoneNumber: item('PhoneNumber') !== undefined ? String(item('PhoneNumber')) : undefined,
+  };
+}
@@ -0,0 +1,231 @@
+// Server-only bookkeeping for M-Pesa payments: mpesa_transactions rows and
+// the purchases they unlock. Uses the service role key because the Daraja
+// callback arrives without a user session.
+
+import type { User } from '@supabase/supabase-js';
+import type { Tables } from '@/lib/supabase/database.types';
+import { getAdminClient } from '@/lib/supabase/admin';
+import {
+  StkCallback,
+  RESULT_CODE_SUCCESS,
+  RESULT_CODE_USER_UNREACHABLE,
+} from '@/lib/mpesa/daraja';
+
+// Mirrors adminPricingHelper's default in the Market screen
+const DEFAULT_IMAGE_PRICE = 100;
+
+export type TransactionStatus = 'pending' | 'completed' | 'failed' | 'timeout';
+
+export type MpesaTransactionRow = Omit<Tables<'mpesa_transactions'>, 'status'> & { status: TransactionStatus };
+
+// Resolves the caller from the `Authorization: Bearer <access token>` header
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const header = request.headers.get('authorization') || '';
+  const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+  if (!token) return null;
+
+  const { data, error } = await getAdminClient().auth.getUser(token);
+  if (error) return null;
+  return data.user;
+}
+
+// Server-side price so the amount charged never comes from the browser
+export async function loadImagePrice(): Promise<number> {
+  const { data } = await getAdminClient()
+    .from('picture_prices')
+    .select('price')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return Number(data?.price) || DEFAULT_IMAGE_PRICE;
+}
+
+// The images among `imageIds` that were sent to `userId`, which are the only
+// ones they can pay for
+export async function loadPayableImageIds(userId: string, imageIds: string[]): Promise<string[]> {
+  if (imageIds.length === 0) return [];
+  const supabase = getAdminClient();
+
+  const { data: images, error } = await supabase
+    .from('images')
+    .select('id, photo_id')
+    .in('id', imageIds);
+
+  if (error) throw error;
+  if (!images || images.length === 0) return [];
+
+  const { data: photos, error: photosError } = await supabase
+    .from('photos')
+    .select('id')
+    .eq('recipient_id', userId)
+    .in('id', Array.from(new Set(images.map(image => image.photo_id))));
+
+  if (photosError) throw photosError;
+
+  const received = new Set((photos || []).map(photo => photo.id));
+  return images.filter(image => received.has(image.photo_id)).map(image => image.id);
+}
+
+export async function createPendingTransaction(params: {
+  userId: string;
+  phoneNumber: string;
+  amount: number;
+  imageIds: string[];
+  description: string;
+}): Promise<MpesaTransactionRow> {
+  const { data, error } = await getAdminClient()
+    .from('mpesa_transactions')
+    .insert({
+      user_id: params.userId,
+      phone_number: params.phoneNumber,
+      amount: params.amount,
+      image_ids: params.imageIds,
+      description: params.description,
+      status: 'pending',
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data as MpesaTransactionRow;
+}
+
+export async function attachCheckoutRequest(
+  id: string,
+  checkoutRequestId: string,
+  merchantRequestId: string
+) {
+  const { error } = await getAdminClient()
+    .from('mpesa_transactions')
+    .update({
+      transaction_id: checkoutRequestId,
+      merchant_request_id: merchantRequestId,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function markTransactionFailed(
+  id: string,
+  status: Exclude<TransactionStatus, 'pending' | 'completed'>,
+  resultDesc: string,
+  resultCode: number | null = null
+) {
+  const { error } = await getAdminClient()
+    .from('mpesa_transactions')
+    .update({
+      status,
+      result_code: resultCode,
+      result_desc: resultDesc,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id)
+    .eq('status', 'pending');
+
+  if (error) throw error;
+}
+
+// Record a purchase for every image saved on the transaction and flip the
+// images to paid. The recipient check is repeated in case an image changed
+// hands while the payment was in flight.
+async function unlockImages(transaction: MpesaTransactionRow) {
+  const supabase = getAdminClient();
+  const imageIds = await loadPayableImageIds(transaction.user_id, transaction.image_ids || []);
+  if (imageIds.length === 0) return;
+
+  const { error: purchaseError } = await supabase
+    .from('user_purchases')
+    .upsert(
+      imageIds.map(imageId => ({
+        user_id: transaction.user_id,
+        image_id: imageId,
+        status: 'completed',
+        transaction_id: transaction.id,
+      })),
+      { onConflict: 'user_id,image_id' }
+    );
+
+  if (purchaseError) throw purchaseError;
+
+  const { error: imagesError } = await supabase
+    .from('images')
+    .update({ status: 'paid' })
+    .in('id', imageIds);
+
+  if (imagesError) {
+    // Purchases are the source of truth for paid state; the images flag is a convenience
+    console.error('Error flagging images as paid:', imagesError);
+  }
+}
+
+// Applies a Daraja callback. Returns the updated row, or null if no transaction matches.
+export async function applyStkCallback(callback: StkCallback): Promise<MpesaTransactionRow | null> {
+  const supabase = getAdminClient();
+
+  const { data: transaction, error } = await supabase
+    .from('mpesa_transactions')
+    .select('*')
+    .eq('transaction_id', callback.checkoutRequestId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!transaction) return null;
+
+  const row = transaction as MpesaTransactionRow;
+  if (row.status === 'completed') return row;
+
+  // STK pushes are sent for the rounded amount
+  if (callback.resultCode === RESULT_CODE_SUCCESS && callback.amount !== Math.round(Number(row.amount))) {
+    // Nothing is unlocked for a payment we didn't ask for. The row keeps the
+    // receipt so the payment can be reconciled by hand.
+    const resultDesc = `Amount mismatch: expected ${row.amount}, received ${callback.amount ?? 'none'}`;
+    console.error(`M-Pesa callback rejected for transaction ${row.id}: ${resultDesc}`);
+
+    const { data: flagged, error: flagError } = await supabase
+      .from('mpesa_transactions')
+      .update({
+        status: 'failed',
+        result_code: callback.resultCode,
+        result_desc: resultDesc,
+        mpesa_receipt_number: callback.mpesaReceiptNumber || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+      .select()
+      .single();
+
+    if (flagError) throw flagError;
+    return flagged as MpesaTransactionRow;
+  }
+
+  if (callback.resultCode === RESULT_CODE_SUCCESS) {
+    // A success still counts after a local cancel or timeout: the money has moved
+    const { data: updated, error: updateError } = await supabase
+      .from('mpesa_transactions')
+      .update({
+        status: 'completed',
+        result_code: callback.resultCode,
+        result_desc: callback.resultDesc,
+        mpesa_receipt_number: callback.mpesaReceiptNumber || null,
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', row.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    await unlockImages(updated as MpesaTransactionRow);
+    return updated as MpesaTransactionRow;
+  }
+
+  if (row.status !== 'pending') return row;
+
+  const status = callback.resultCode === RESULT_CODE_USER_UNREACHABLE ? 'timeout' : 'failed';
+  await markTransactionFailed(row.id, status, callback.resultDesc, callback.resultCode);
+
+  return { ...row, status, result_code: callback.resultCode, result_desc: callback.resultDesc };
+}
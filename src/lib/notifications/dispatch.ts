@@ -0,0 +1,214 @@
+// Server-only: drains notification_queue (filled by database triggers, see
+// *_web_push.sql and *_notification_preferences.sql). Push rows go to every
+// browser the user subscribed, email rows to the address on their profile.
+// Due digest rows for one user and channel go out together as one summary.
+
+import type { Tables } from '@/lib/supabase/database.types';
+import { getAdminClient } from '@/lib/supabase/admin';
+import { isExpiredSubscription, sendWebPush } from '@/lib/push/web_push';
+import { isPermanentEmailFailure, notificationEmail, sendEmail } from '@/lib/email/send_email';
+
+type QueueJob = Tables<'notification_queue'>;
+type PushSubscriptionRow = Pick<Tables<'push_subscriptions'>, 'id' | 'user_id' | 'endpoint' | 'p256dh' | 'auth'>;
+
+// Services that are down get retried after 1, 2, 4 and 8 minutes
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_MS = 60_000;
+
+// Lines listed in a digest email before the rest are summed up
+const DIGEST_EMAIL_LINES = 20;
+
+export interface DispatchResult {
+  sent: number;
+  retried: number;
+  dropped: number;
+}
+
+// What the service worker receives; see public/sw.js
+export interface PushPayload {
+  title: string;
+  body: string;
+  url: string;
+  tag: string | null;
+}
+
+type DeliveryOutcome = 'sent' | 'undeliverable' | 'retry';
+
+// One message to send: a single queued row, or every row in a digest
+interface Delivery {
+  userId: string;
+  channel: string;
+  jobs: QueueJob[];
+}
+
+const DIGEST_NOUNS: Record<string, [string, string]> = {
+  comments: ['comment', 'comments'],
+  likes: ['like', 'likes'],
+  follows: ['new follower', 'new followers'],
+  photos: ['photo update', 'photo updates'],
+  announcements: ['announcement', 'announcements'],
+};
+
+// "3 likes, 2 comments and 1 announcement"
+function summarizeDigest(jobs: QueueJob[]): string {
+  const counts = new Map<string, number>();
+  jobs.forEach(job => counts.set(job.category, (counts.get(job.category) || 0) + 1));
+
+  const parts = Array.from(counts, ([category, count]) => {
+    const [one, many] = DIGEST_NOUNS[category] || ['notification', 'notifications'];
+    return `${count} ${count === 1 ? one : many}`;
+  });
+
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+}
+
+function toPayload(delivery: Delivery): PushPayload {
+  const [job] = delivery.jobs;
+  if (!job.digest) return { title: job.title, body: job.body, url: job.url, tag: job.tag };
+
+  return { title: 'Your daily summary', body: summarizeDigest(delivery.jobs), url: '/notifications', tag: 'digest' };
+}
+
+// Sends one push. It only comes back for a retry if no browser got it, since
+// one that already has it would show it twice.
+async function deliverPush(delivery: Delivery, subscriptions: PushSubscriptionRow[]): Promise<DeliveryOutcome> {
+  if (subscriptions.length === 0) return 'undeliverable';
+
+  const supabase = getAdminClient();
+  const payload = toPayload(delivery);
+  const urgency = delivery.jobs[0].category === 'messages' ? 'high' : 'normal';
+
+  const results = await Promise.allSettled(
+    subscriptions.map(subscription => sendWebPush(subscription, payload, { urgency }))
+  );
+
+  const delivered = subscriptions.filter((_, i) => results[i].status === 'fulfilled');
+  const expired = subscriptions.filter((_, i) => {
+    const result = results[i];
+    return result.status === 'rejected' && isExpiredSubscription(result.reason);
+  });
+
+  results.forEach(result => {
+    if (result.status === 'rejected' && !isExpiredSubscription(result.reason)) {
+      console.error('Error sending push:', result.reason);
+    }
+  });
+
+  if (expired.length > 0) {
+    await supabase.from('push_subscriptions').delete().in('id', expired.map(s => s.id));
+  }
+  if (delivered.length > 0) {
+    await supabase
+      .from('push_subscriptions')
+      .update({ last_used_at: new Date().toISOString() })
+      .in('id', delivered.map(s => s.id));
+  }
+
+  if (delivered.length > 0) return 'sent';
+  return expired.length === subscriptions.length ? 'undeliverable' : 'retry';
+}
+
+async function deliverEmail(delivery: Delivery, address: string | undefined, siteUrl: string): Promise<DeliveryOutcome> {
+  if (!address) return 'undeliverable';
+
+  const payload = toPayload(delivery);
+  const lines = delivery.jobs[0].digest
+    ? [
+        `${payload.body}.`,
+        ...delivery.jobs.slice(0, DIGEST_EMAIL_LINES).map(job => job.title),
+        ...(delivery.jobs.length > DIGEST_EMAIL_LINES ? [`…and ${delivery.jobs.length - DIGEST_EMAIL_LINES} more`] : []),
+      ]
+    : [payload.body].filter(Boolean);
+
+  try {
+    await sendEmail(notificationEmail(address, payload.title, lines, new URL(payload.url, siteUrl).href));
+    return 'sent';
+  } catch (error) {
+    console.error('Error sending email:', error);
+    return isPermanentEmailFailure(error) ? 'undeliverable' : 'retry';
+  }
+}
+
+// Digest rows for the same user and channel become one delivery
+function groupDeliveries(jobs: QueueJob[]): Delivery[] {
+  const deliveries: Delivery[] = [];
+  const digests = new Map<string, Delivery>();
+
+  jobs.forEach(job => {
+    if (!job.digest) {
+      deliveries.push({ userId: job.user_id, channel: job.channel, jobs: [job] });
+      return;
+    }
+
+    const key = `${job.user_id}:${job.channel}`;
+    const digest = digests.get(key);
+    if (digest) {
+      digest.jobs.push(job);
+    } else {
+      const created = { userId: job.user_id, channel: job.channel, jobs: [job] };
+      digests.set(key, created);
+      deliveries.push(created);
+    }
+  });
+
+  return deliveries;
+}
+
+export async function dispatchNotificationQueue(siteUrl: string, limit = 100): Promise<DispatchResult> {
+  const supabase = getAdminClient();
+  const result: DispatchResult = { sent: 0, retried: 0, dropped: 0 };
+
+  const { data: jobs, error } = await supabase.rpc('claim_notification_queue', { p_limit: limit });
+  if (error) throw error;
+  if (!jobs || jobs.length === 0) return result;
+
+  const deliveries = groupDeliveries(jobs);
+  const usersFor = (channel: string) =>
+    Array.from(new Set(deliveries.filter(d => d.channel === channel).map(d => d.userId)));
+
+  const [{ data: subscriptions, error: subscriptionsError }, { data: profiles, error: profilesError }] =
+    await Promise.all([
+      supabase.from('push_subscriptions').select('id, user_id, endpoint, p256dh, auth').in('user_id', usersFor('push')),
+      supabase.from('profiles').select('id, email').in('id', usersFor('email')),
+    ]);
+
+  if (subscriptionsError) throw subscriptionsError;
+  if (profilesError) throw profilesError;
+
+  const byUser = new Map<string, PushSubscriptionRow[]>();
+  (subscriptions || []).forEach(subscription => {
+    byUser.set(subscription.user_id, [...(byUser.get(subscription.user_id) || []), subscription]);
+  });
+
+  const emails = new Map<string, string>();
+  (profiles || []).forEach(profile => {
+    if (profile.email) emails.set(profile.id, profile.email);
+  });
+
+  for (const delivery of deliveries) {
+    const outcome = delivery.channel === 'email'
+      ? await deliverEmail(delivery, emails.get(delivery.userId), siteUrl)
+      : await deliverPush(delivery, byUser.get(delivery.userId) || []);
+
+    const ids = delivery.jobs.map(job => job.id);
+    const attempts = Math.max(...delivery.jobs.map(job => job.attempts)) + 1;
+
+    if (outcome !== 'retry' || attempts >= MAX_ATTEMPTS) {
+      await supabase.from('notification_queue').delete().in('id', ids);
+      if (outcome === 'sent') result.sent++;
+      else result.dropped++;
+    } else {
+      await supabase
+        .from('notification_queue')
+        .update({
+          attempts,
+          next_attempt_at: new Date(Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)).toISOString(),
+          claimed_at: null,
+        })
+        .in('id', ids);
+      result.retried++;
+    }
+  }
+
+  return result;
+}
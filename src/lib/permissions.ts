@@ -0,0 +1,77 @@
+// Who may do what. Every role check in the app goes through here, and the
+// database enforces the same table in supabase/migrations/*_permissions.sql
+// (public.has_capability), so a change to ROLE_CAPABILITIES needs a matching
+// migration.
+
+export type Role = 'admin' | 'photographer' | 'client';
+
+// Least to most privileged
+export const ROLES: Role[] = ['client', 'photographer', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Admin',
+  photographer: 'Photographer',
+  client: 'Client',
+};
+
+export type Capability =
+  // Send image collections to other users
+  | 'canSendImages'
+  // Choose the featured item and feature posts
+  | 'canFeature'
+  // Post, edit and delete broadcast notifications
+  | 'canBroadcast'
+  // See every user and change their role
+  | 'canManageUsers'
+  // Remove other people's posts and comments
+  | 'canModerate';
+
+export type Capabilities = Record<Capability, boolean>;
+
+const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  admin: ['canSendImages', 'canFeature', 'canBroadcast', 'canManageUsers', 'canModerate'],
+  photographer: ['canSendImages'],
+  client: [],
+};
+
+export const NO_CAPABILITIES: Capabilities = {
+  canSendImages: false,
+  canFeature: false,
+  canBroadcast: false,
+  canManageUsers: false,
+  canModerate: false,
+};
+
+// The profile columns roleOf reads
+export const ROLE_COLUMNS = 'user_type, is_admin';
+
+interface RoleFields {
+  user_type?: string | null;
+  is_admin?: boolean | null;
+}
+
+// user_type is the source of truth; is_admin is kept in step with it by a
+// trigger and only consulted for rows written before that existed.
+export function roleOf(profile: RoleFields | null | undefined): Role {
+  const type = profile?.user_type?.toLowerCase();
+  if (type === 'admin' || profile?.is_admin === true) return 'admin';
+  if (type === 'photographer') return 'photographer';
+  return 'client';
+}
+
+export function capabilitiesFor(role: Role | null): Capabilities {
+  if (!role) return NO_CAPABILITIES;
+
+  const granted = ROLE_CAPABILITIES[role];
+  return {
+    canSendImages: granted.includes('canSendImages'),
+    canFeature: granted.includes('canFeature'),
+    canBroadcast: granted.includes('canBroadcast'),
+    canManageUsers: granted.includes('canManageUsers'),
+    canModerate: granted.includes('canModerate'),
+  };
+}
+
+export function can(role: Role | null, capability: Capability): boolean {
+  return capabilitiesFor(role)[capability];
+}
@@ -0,0 +1,149 @@
+// Server-only Web Push sender: VAPID authentication (RFC 8292) and aes128gcm
+// payload encryption (RFC 8291) on node:crypto. WEB_PUSH_ENDPOINT_OVERRIDE
+// sends every push to one URL instead, e.g. a local stand-in during
+// development; the real endpoint goes along in the X-Push-Endpoint header.
+
+import { createCipheriv, createECDH, createPrivateKey, hkdfSync, randomBytes, sign } from 'node:crypto';
+
+// How long a push service keeps an undelivered message, in seconds
+const DEFAULT_TTL_SECONDS = 24 * 3600;
+
+// VAPID tokens may live for up to a day; stay well inside that
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 3600;
+
+// One record holds the whole payload, so the record size only has to be
+// larger than it. Push services accept at least 4096 bytes.
+const RECORD_SIZE = 4096;
+
+export class WebPushError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+}
+
+export interface PushSubscriptionKeys {
+  endpoint: string;
+  // Base64url, as PushSubscription.toJSON() returns them
+  p256dh: string;
+  auth: string;
+}
+
+interface VapidConfig {
+  publicKey: string;
+  privateKey: string;
+  subject: string;
+}
+
+export function getVapidConfig(): VapidConfig {
+  const config = {
+    publicKey: process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY || '',
+    privateKey: process.env.VAPID_PRIVATE_KEY || '',
+    subject: process.env.VAPID_SUBJECT || '',
+  };
+
+  const missing = Object.entries(config)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+  if (missing.length > 0) {
+    throw new WebPushError(`Web Push is not configured (missing ${missing.join(', ')})`);
+  }
+
+  return config;
+}
+
+const base64url = (data: Buffer | string) => Buffer.from(data).toString('base64url');
+
+// ES256 JWT for the push service at `audience`, signed with the VAPID key
+function vapidToken(audience: string, config: VapidConfig): string {
+  const publicKey = Buffer.from(config.publicKey, 'base64url');
+  const key = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: config.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64url(JSON.stringify({
+    aud: audience,
+    exp: Math.floor(Date.now() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: config.subject,
+  }));
+  const signature = sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `${header}.${claims}.${base64url(signature)}`;
+}
+
+// The aes128gcm body for one subscription: a header carrying the salt and our
+// one-off public key, then the payload sealed with a key only the browser
+// that created the subscription can derive
+export function encryptPayload(payload: Buffer, subscription: PushSubscriptionKeys): Buffer {
+  const userAgentPublicKey = Buffer.from(subscription.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.auth, 'base64url');
+
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, authSecret, keyInfo, 32));
+
+  const salt = randomBytes(16);
+  const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+  const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+  // 0x02 marks the last (and only) record
+  const plaintext = Buffer.concat([payload, Buffer.from([2])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new WebPushError('Push payload is too large');
+  }
+
+  const cipher = createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+// Delivers `payload` to one subscription. Throws WebPushError with the push
+// service's status; 404 and 410 mean the subscription is gone for good.
+export async function sendWebPush(
+  subscription: PushSubscriptionKeys,
+  payload: object,
+  options: { ttlSeconds?: number; urgency?: 'low' | 'normal' | 'high' } = {}
+): Promise<void> {
+  const config = getVapidConfig();
+  const override = process.env.WEB_PUSH_ENDPOINT_OVERRIDE;
+  const target = override || subscription.endpoint;
+
+  const response = await fetch(target, {
+    method: 'POST',
+    headers: {
+      Authorization: `vapid t=${vapidToken(new URL(subscription.endpoint).origin, config)}, k=${config.publicKey}`,
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      TTL: String(options.ttlSeconds ?? DEFAULT_TTL_SECONDS),
+      Urgency: options.urgency ?? 'normal',
+      ...(override ? { 'X-Push-Endpoint': subscription.endpoint } : {}),
+    },
+    body: new Uint8Array(encryptPayload(Buffer.from(JSON.stringify(payload)), subscription)),
+    cache: 'no-store',
+  });
+
+  if (!response.ok) {
+    throw new WebPushError(`Push service rejected the message (${response.status})`, response.status);
+  }
+}
+
+export const isExpiredSubscription = (error: unknown) =>
+  error instanceof WebPushError && (error.status === 404 || error.status === 410);
@@ -0,0 +1,118 @@
+// Activity notifications: likes, bookmarks, comments, follows, purchases and
+// sent images. Database triggers write them (see *_activity_notifications.sql);
+// screens only read, group, mark them read or unread, and dismiss them.
+
+import { supabase, Tables } from '@/lib/supabase/client';
+import { ProfileSummary, getProfileMap } from '@/lib/repositories/profiles';
+
+export type ActivityVerb = 'like' | 'bookmark' | 'comment' | 'reply' | 'follow' | 'purchase' | 'send_images';
+
+// post for like/bookmark/comment/reply, the followed profile for follow, the
+// sent collection (photos row) for purchase/send_images
+export type ActivityTargetType = 'post' | 'profile' | 'photo';
+
+type ActivityRow = Tables<'activity_notifications'>;
+
+// Everything that happened to one target in one way, e.g. all likes on a post
+export interface ActivityGroup {
+  key: string;
+  verb: ActivityVerb;
+  targetType: ActivityTargetType;
+  targetId: string;
+  // Rows folded into the group, for marking them read
+  ids: string[];
+  // Newest first, each actor once
+  actors: ProfileSummary[];
+  latestAt: string;
+  // From the newest row that has one
+  preview: string | null;
+  thumbnailUrl: string | null;
+  isRead: boolean;
+}
+
+const ACTIVITY_LIMIT = 100;
+
+// Rows must be newest first; groups come out in order of their newest row
+export function groupActivity(rows: ActivityRow[], actors: Map<string, ProfileSummary>): ActivityGroup[] {
+  const groups = new Map<string, ActivityGroup>();
+
+  rows.forEach(row => {
+    const key = `${row.verb}:${row.target_id}`;
+    const actor = actors.get(row.actor_id);
+    let group = groups.get(key);
+
+    if (!group) {
+      group = {
+        key,
+        verb: row.verb as ActivityVerb,
+        targetType: row.target_type as ActivityTargetType,
+        targetId: row.target_id,
+        ids: [],
+        actors: [],
+        latestAt: row.created_at,
+        preview: null,
+        thumbnailUrl: null,
+        isRead: true,
+      };
+      groups.set(key, group);
+    }
+
+    group.ids.push(row.id);
+    if (actor && !group.actors.some(a => a.id === actor.id)) group.actors.push(actor);
+    group.preview ??= row.preview;
+    group.thumbnailUrl ??= row.thumbnail_url;
+    if (!row.read_at) group.isRead = false;
+  });
+
+  return Array.from(groups.values());
+}
+
+// The signed-in user's recent activity, grouped
+export async function fetchActivity(userId: string, limit = ACTIVITY_LIMIT): Promise<ActivityGroup[]> {
+  const { data, error } = await supabase
+    .from('activity_notifications')
+    .select('*')
+    .eq('recipient_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const rows = data || [];
+  const actors = await getProfileMap(rows.map(row => row.actor_id));
+  return groupActivity(rows, actors);
+}
+
+export async function markActivityRead(ids: string[]) {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('activity_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids)
+    .is('read_at', null);
+
+  if (error) throw error;
+}
+
+export async function markActivityUnread(ids: string[]) {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('activity_notifications')
+    .update({ read_at: null })
+    .in('id', ids);
+
+  if (error) throw error;
+}
+
+export async function dismissActivity(ids: string[]) {
+  if (ids.length === 0) return;
+
+  const { error } = await supabase
+    .from('activity_notifications')
+    .delete()
+    .in('id', ids);
+
+  if (error) throw error;
+}
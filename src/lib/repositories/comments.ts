@@ -0,0 +1,61 @@
+// Threaded comments on posts. `parent_id` is the comment being replied to;
+// the comment sheet builds the tree from the flat list.
+
+import { supabase, Tables } from '@/lib/supabase/client';
+
+export type CommentRow = Tables<'comments'>;
+
+const COMMENT_COLUMNS = 'id, post_id, user_id, parent_id, content, created_at, updated_at';
+
+// Oldest first, as the thread reads
+export async function fetchComments(postId: string): Promise<CommentRow[]> {
+  const { data, error } = await supabase
+    .from('comments')
+    .select(COMMENT_COLUMNS)
+    .eq('post_id', postId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function addComment(comment: {
+  postId: string;
+  userId: string;
+  parentId: string | null;
+  content: string;
+}): Promise<CommentRow> {
+  const { data, error } = await supabase
+    .from('comments')
+    .insert({
+      post_id: comment.postId,
+      user_id: comment.userId,
+      parent_id: comment.parentId,
+      content: comment.content,
+    })
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// Only the author can edit a comment
+export async function updateComment(commentId: string, userId: string, content: string): Promise<CommentRow> {
+  const { data, error } = await supabase
+    .from('comments')
+    .update({ content, updated_at: new Date().toISOString() })
+    .eq('id', commentId)
+    .eq('user_id', userId)
+    .select(COMMENT_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// RLS decides whether the caller may delete it; replies go with it
+export async function deleteComment(commentId: string) {
+  const { error } = await supabase.from('comments').delete().eq('id', commentId);
+  if (error) throw error;
+}
@@ -0,0 +1,17 @@
+// The featured image shown at the top of the Community feed. One row is
+// active at a time.
+
+import { supabase, Tables } from '@/lib/supabase/client';
+
+export type FeaturedItem = Tables<'featured_items'>;
+
+export async function fetchActiveFeaturedItem(): Promise<FeaturedItem | null> {
+  const { data, error } = await supabase
+    .from('featured_items')
+    .select('*')
+    .eq('is_active', true)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
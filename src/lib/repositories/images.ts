@@ -0,0 +1,150 @@
+// Photo collections sent between users, the images inside them, and what
+// recipients have paid for. A `photos` row is one collection; its `images`
+// rows are the individual files.
+
+import { supabase, DbClient, Tables } from '@/lib/supabase/client';
+
+export type Photo = Tables<'photos'>;
+export type ImageRow = Tables<'images'>;
+export type Transaction = Tables<'mpesa_transactions'>;
+
+export type PhotoWithImages = Photo & { images: ImageRow[] };
+
+// Mirrors DEFAULT_IMAGE_PRICE in lib/mpesa/transactions, which charges for it
+export const DEFAULT_IMAGE_PRICE = 100;
+
+// Collections sent to the user, newest first, with their images
+export async function fetchReceivedPhotos(userId: string): Promise<PhotoWithImages[]> {
+  const { data, error } = await supabase
+    .from('photos')
+    .select('*, images(*)')
+    .eq('recipient_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Image ids the user has a completed purchase for, among `imageIds`
+export async function fetchPurchasedImageIds(userId: string, imageIds: string[]): Promise<Set<string>> {
+  if (imageIds.length === 0) return new Set();
+
+  const { data, error } = await supabase
+    .from('user_purchases')
+    .select('image_id, status')
+    .eq('user_id', userId)
+    .in('image_id', imageIds);
+
+  if (error) throw error;
+  return new Set(
+    (data || [])
+      .filter(p => p.status === 'completed' || p.status === 'paid')
+      .map(p => p.image_id)
+  );
+}
+
+// The latest admin-set price per image, or the default when none is set
+export async function fetchCurrentImagePrice(): Promise<number> {
+  const { data, error } = await supabase
+    .from('picture_prices')
+    .select('price')
+    .order('updated_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return Number(data?.price) || DEFAULT_IMAGE_PRICE;
+}
+
+// RLS decides whether the caller may delete it
+export async function deleteImage(imageId: string) {
+  const { error } = await supabase.from('images').delete().eq('id', imageId);
+  if (error) throw error;
+}
+
+// Payments
+
+export interface TransactionStats {
+  total_transactions: number;
+  completed_transactions: number;
+  failed_transactions: number;
+  pending_transactions: number;
+  total_amount_spent: number;
+}
+
+// Prefers the server-side aggregate and falls back to counting rows
+export async function fetchTransactionStats(userId: string, client: DbClient = supabase): Promise<TransactionStats> {
+  const { data, error } = await client.rpc('get_user_transaction_stats', { p_user_id: userId });
+
+  if (!error && data?.[0]) {
+    const row = data[0];
+    return {
+      total_transactions: Number(row.total_transactions || 0),
+      completed_transactions: Number(row.completed_transactions || 0),
+      failed_transactions: Number(row.failed_transactions || 0),
+      pending_transactions: Number(row.pending_transactions || 0),
+      total_amount_spent: Number(row.total_amount_spent || 0),
+    };
+  }
+
+  const txs = await fetchTransactions(userId, {}, client);
+  return {
+    total_transactions: txs.length,
+    completed_transactions: txs.filter(t => t.status === 'completed').length,
+    failed_transactions: txs.filter(t => t.status === 'failed').length,
+    pending_transactions: txs.filter(t => t.status === 'pending').length,
+    total_amount_spent: txs.reduce((sum, t) => sum + (Number(t.amount) || 0), 0),
+  };
+}
+
+// Just what the payment sheet needs to follow one transaction
+export async function fetchTransactionStatus(
+  transactionId: string
+): Promise<Pick<Transaction, 'id' | 'status' | 'result_desc' | 'mpesa_receipt_number'> | null> {
+  const { data, error } = await supabase
+    .from('mpesa_transactions')
+    .select('id, status, result_desc, mpesa_receipt_number')
+    .eq('id', transactionId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// The user's M-Pesa transactions, newest first unless `ascending`
+export async function fetchTransactions(
+  userId: string,
+  options: { status?: string; limit?: number; ascending?: boolean } = {},
+  client: DbClient = supabase
+): Promise<Transaction[]> {
+  let query = client
+    .from('mpesa_transactions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: options.ascending ?? false });
+
+  if (options.status) query = query.eq('status', options.status);
+  if (options.limit) query = query.limit(options.limit);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export interface PaymentHistory {
+  stats: TransactionStats;
+  recent: Transaction[];
+  // Oldest first, for the monthly chart
+  completed: Transaction[];
+}
+
+// Everything the payments dashboard shows
+export async function fetchPaymentHistory(userId: string, client: DbClient = supabase): Promise<PaymentHistory> {
+  const [stats, recent, completed] = await Promise.all([
+    fetchTransactionStats(userId, client),
+    fetchTransactions(userId, { limit: 10 }, client),
+    fetchTransactions(userId, { status: 'completed', ascending: true }, client),
+  ]);
+
+  return { stats, recent, completed };
+}
@@ -0,0 +1,412 @@
+// Direct messages and the conversations they belong to. A conversation is
+// either a direct chat, keyed by its two participants with the smaller id as
+// user1, or a named group whose members have roles. Membership and reading
+// state for both live in conversation_participants.
+
+import { supabase, Tables, TablesInsert } from '@/lib/supabase/client';
+import { ProfileSummary, getProfileMap } from './profiles';
+
+export type Message = Tables<'messages'>;
+export type NewMessage = TablesInsert<'messages'>;
+export type Conversation = Tables<'conversations'>;
+export type MessageReaction = Tables<'message_reactions'>;
+export type MessageRevision = Tables<'message_revisions'>;
+
+export type ConversationRole = 'admin' | 'member';
+
+// A row of the inbox, from the signed-in user's side
+export interface ConversationSummary {
+  id: string;
+  is_group: boolean;
+  // The group's name, or the other person's in a direct chat
+  title: string | null;
+  avatar_url: string | null;
+  // Direct chats only
+  other_user_id: string | null;
+  member_count: number;
+  my_role: ConversationRole;
+  unread_count: number;
+  last_message: string | null;
+  last_message_at: string | null;
+}
+
+export interface ConversationMember {
+  user_id: string;
+  role: ConversationRole;
+  joined_at: string;
+  last_read_at: string | null;
+  last_delivered_at: string | null;
+  profile: ProfileSummary | null;
+}
+
+// A search hit; `snippet` wraps the matched words in <mark></mark>
+export interface MessageSearchResult {
+  message_id: string;
+  conversation_id: string;
+  sender_id: string;
+  created_at: string;
+  snippet: string;
+}
+
+export type MessageStatus = 'sent' | 'delivered' | 'read';
+
+// What the sender's ticks show. Direct messages carry their own receipts; a
+// group message has reached a state once every other member has caught up.
+export function messageStatus(
+  message: Pick<Message, 'sender_id' | 'created_at' | 'delivered_at' | 'read_at' | 'is_read'>,
+  groupMembers?: ConversationMember[]
+): MessageStatus {
+  if (groupMembers) {
+    const others = groupMembers.filter(m => m.user_id !== message.sender_id);
+    if (others.length === 0) return 'sent';
+    const reached = (at: string | null) => !!at && at >= message.created_at;
+    if (others.every(m => reached(m.last_read_at))) return 'read';
+    if (others.every(m => reached(m.last_delivered_at) || reached(m.last_read_at))) return 'delivered';
+    return 'sent';
+  }
+
+  if (message.read_at || message.is_read) return 'read';
+  if (message.delivered_at) return 'delivered';
+  return 'sent';
+}
+
+// One chip under a bubble
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  userIds: string[];
+  reactedByMe: boolean;
+}
+
+// A message's reactions grouped by emoji, in the order each was first used
+export function summarizeReactions(reactions: MessageReaction[], currentUserId: string | null): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  [...reactions]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach(reaction => {
+      const summary = byEmoji.get(reaction.emoji) ?? { emoji: reaction.emoji, count: 0, userIds: [], reactedByMe: false };
+      summary.count += 1;
+      summary.userIds.push(reaction.user_id);
+      summary.reactedByMe ||= reaction.user_id === currentUserId;
+      byEmoji.set(reaction.emoji, summary);
+    });
+  return [...byEmoji.values()];
+}
+
+function toConversationSummary(row: Tables<'conversation_summaries'>): ConversationSummary {
+  return {
+    id: row.id ?? '',
+    is_group: row.is_group ?? false,
+    title: row.title,
+    avatar_url: row.avatar_url,
+    other_user_id: row.other_user_id,
+    member_count: row.member_count || 0,
+    my_role: row.my_role === 'admin' ? 'admin' : 'member',
+    unread_count: row.unread_count || 0,
+    last_message: row.last_message,
+    last_message_at: row.last_message_at,
+  };
+}
+
+function participants(userA: string, userB: string): [string, string] {
+  return userA < userB ? [userA, userB] : [userB, userA];
+}
+
+// The signed-in user's conversations, most recently active first
+export async function fetchConversations(): Promise<ConversationSummary[]> {
+  const { data, error } = await supabase
+    .from('conversation_summaries')
+    .select('*')
+    .order('last_message_at', { ascending: false, nullsFirst: false });
+
+  if (error) throw error;
+  return (data || []).filter(row => row.id).map(toConversationSummary);
+}
+
+export async function getConversation(conversationId: string): Promise<Conversation | null> {
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function findConversation(userA: string, userB: string): Promise<Conversation | null> {
+  const [user1, user2] = participants(userA, userB);
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('*')
+    .eq('is_group', false)
+    .eq('user1_id', user1)
+    .eq('user2_id', user2)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getOrCreateConversation(userA: string, userB: string): Promise<string> {
+  const existing = await findConversation(userA, userB);
+  if (existing) return existing.id;
+
+  const [user1, user2] = participants(userA, userB);
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      user1_id: user1,
+      user2_id: user2,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
+
+// Groups
+
+// The signed-in user becomes the group's first admin
+export async function createGroupConversation(title: string, memberIds: string[], avatarUrl?: string): Promise<string> {
+  const { data, error } = await supabase.rpc('create_group_conversation', {
+    p_title: title,
+    p_member_ids: memberIds,
+    ...(avatarUrl ? { p_avatar_url: avatarUrl } : {}),
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateGroupDetails(conversationId: string, changes: { title?: string; avatar_url?: string | null }) {
+  const { error } = await supabase.from('conversations').update(changes).eq('id', conversationId);
+  if (error) throw error;
+}
+
+// Admins first, then in the order they joined
+export async function fetchConversationMembers(conversationId: string): Promise<ConversationMember[]> {
+  const { data, error } = await supabase
+    .from('conversation_participants')
+    .select('*')
+    .eq('conversation_id', conversationId)
+    .order('joined_at', { ascending: true });
+
+  if (error) throw error;
+
+  const profiles = await getProfileMap((data || []).map(row => row.user_id));
+  return (data || [])
+    .map(row => ({
+      user_id: row.user_id,
+      role: (row.role === 'admin' ? 'admin' : 'member') as ConversationRole,
+      joined_at: row.joined_at,
+      last_read_at: row.last_read_at,
+      last_delivered_at: row.last_delivered_at,
+      profile: profiles.get(row.user_id) ?? null,
+    }))
+    .sort((a, b) => (a.role === b.role ? 0 : a.role === 'admin' ? -1 : 1));
+}
+
+export async function addConversationMembers(conversationId: string, userIds: string[]) {
+  if (userIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('conversation_participants')
+    .upsert(
+      userIds.map(userId => ({ conversation_id: conversationId, user_id: userId })),
+      { onConflict: 'conversation_id,user_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+// Also how a member leaves a group
+export async function removeConversationMember(conversationId: string, userId: string) {
+  const { error } = await supabase
+    .from('conversation_participants')
+    .delete()
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+export async function setConversationMemberRole(conversationId: string, userId: string, role: ConversationRole) {
+  const { error } = await supabase
+    .from('conversation_participants')
+    .update({ role })
+    .eq('conversation_id', conversationId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+// "Delete chat" for the signed-in user only: hides everything so far from
+// them, and the chat comes back to their inbox when a new message arrives
+export async function clearConversation(conversationId: string) {
+  const { error } = await supabase.rpc('clear_conversation', { p_conversation_id: conversationId });
+  if (error) throw error;
+}
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+// Where a page starts. created_at alone isn't unique, so ties fall back to id.
+export type MessageCursor = Pick<Message, 'id' | 'created_at'>;
+
+interface MessagePageOptions {
+  // Older than this message; omit both for the latest page
+  before?: MessageCursor;
+  // Newer than this message, when reading forward from an old one
+  after?: MessageCursor;
+  limit?: number;
+}
+
+// One page, newest first, matching the inverted chat list. A page shorter
+// than `limit` means there is nothing further in that direction.
+export async function fetchMessages(
+  conversationId: string,
+  { before, after, limit = MESSAGE_PAGE_SIZE }: MessagePageOptions = {}
+): Promise<Message[]> {
+  let query = supabase
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId);
+
+  if (before) {
+    query = query.or(`created_at.lt."${before.created_at}",and(created_at.eq."${before.created_at}",id.lt.${before.id})`);
+  }
+  if (after) {
+    query = query.or(`created_at.gt."${after.created_at}",and(created_at.eq."${after.created_at}",id.gt.${after.id})`);
+  }
+
+  // Reading forward has to take the page nearest the cursor, so ascending
+  const ascending = !!after;
+  const { data, error } = await query
+    .order('created_at', { ascending })
+    .order('id', { ascending })
+    .limit(limit);
+
+  if (error) throw error;
+  return ascending ? (data || []).reverse() : data || [];
+}
+
+export async function getMessage(messageId: string): Promise<Message | null> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('*')
+    .eq('id', messageId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+// Across every conversation the signed-in user belongs to, newest first
+export async function searchMessages(query: string, limit = 30): Promise<MessageSearchResult[]> {
+  const { data, error } = await supabase.rpc('search_messages', { p_query: query, p_limit: limit });
+  if (error) throw error;
+  return data || [];
+}
+
+// A trigger updates the conversation's inbox preview; see *_message_inbox_preview.sql
+export async function sendMessage(message: NewMessage): Promise<Message> {
+  const { data, error } = await supabase
+    .from('messages')
+    .insert(message)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+// The previous wording is kept as a revision and the message marked edited
+export async function updateMessageContent(messageId: string, content: string) {
+  const { error } = await supabase.from('messages').update({ content }).eq('id', messageId);
+  if (error) throw error;
+}
+
+// Earlier wordings of an edited message, oldest first
+export async function fetchMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+  const { data, error } = await supabase
+    .from('message_revisions')
+    .select('*')
+    .eq('message_id', messageId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Sender only. The row stays as a "This message was deleted" tombstone, with
+// its text, attachments, reactions and edit history gone.
+export async function deleteMessageForEveryone(messageId: string) {
+  const { error } = await supabase.rpc('delete_message_for_everyone', { p_message_id: messageId });
+  if (error) throw error;
+}
+
+// Hides the message from this user; everyone else still sees it
+export async function hideMessage(messageId: string, userId: string) {
+  const { error } = await supabase.from('hidden_messages').insert({ message_id: messageId, user_id: userId });
+  if (error) throw error;
+}
+
+// Reactions
+
+export async function fetchReactions(messageIds: string[]): Promise<MessageReaction[]> {
+  if (messageIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .select('*')
+    .in('message_id', messageIds);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function addReaction(message: Pick<Message, 'id' | 'conversation_id'>, userId: string, emoji: string) {
+  const { error } = await supabase
+    .from('message_reactions')
+    .insert({ message_id: message.id, conversation_id: message.conversation_id, user_id: userId, emoji });
+
+  if (error) throw error;
+}
+
+export async function removeReaction(messageId: string, userId: string, emoji: string) {
+  const { error } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+    .eq('emoji', emoji);
+
+  if (error) throw error;
+}
+
+// Marks everything the signed-in user has received in the conversation as read
+export async function markConversationRead(conversationId: string) {
+  const { error } = await supabase.rpc('mark_conversation_read', { p_conversation_id: conversationId });
+  if (error) throw error;
+}
+
+// Acknowledges that the signed-in user's app has received their messages,
+// across every conversation unless one is given
+export async function markMessagesDelivered(conversationId?: string) {
+  const { error } = await supabase.rpc(
+    'mark_messages_delivered',
+    conversationId ? { p_conversation_id: conversationId } : {}
+  );
+  if (error) throw error;
+}
+
+// For the signed-in user
+export async function countUnreadMessages(): Promise<number> {
+  const { data, error } = await supabase.rpc('unread_message_count');
+  if (error) throw error;
+  return data || 0;
+}
@@ -0,0 +1,167 @@
+// Which notifications reach each user and how: a channel switch per category,
+// plus the daily digest, quiet hours and the time zone they are read in. The
+// database triggers that produce notifications honour these; see
+// *_notification_preferences.sql.
+
+import { supabase, DbClient, Tables } from '@/lib/supabase/client';
+
+export type NotificationCategory =
+  | 'messages'
+  | 'comments'
+  | 'likes'
+  | 'follows'
+  | 'photos'
+  | 'payments'
+  | 'announcements';
+
+export type NotificationChannel = 'in_app' | 'push' | 'email';
+
+export type ChannelPreferences = Record<NotificationChannel, boolean>;
+
+export type DigestMode = 'off' | 'daily';
+
+export interface NotificationSettings {
+  digest: DigestMode;
+  // Local hour, 0-23
+  digestHour: number;
+  quietHours: boolean;
+  // 'HH:MM', local
+  quietStart: string;
+  quietEnd: string;
+  timeZone: string;
+  markReadOnOpen: boolean;
+}
+
+export interface NotificationPreferences {
+  channels: Record<NotificationCategory, ChannelPreferences>;
+  settings: NotificationSettings;
+}
+
+export const NOTIFICATION_CATEGORIES: NotificationCategory[] = [
+  'messages',
+  'comments',
+  'likes',
+  'follows',
+  'photos',
+  'payments',
+  'announcements',
+];
+
+// Messages and payments only ever arrive by push or email
+export const CATEGORY_CHANNELS: Record<NotificationCategory, NotificationChannel[]> = {
+  messages: ['push', 'email'],
+  comments: ['in_app', 'push', 'email'],
+  likes: ['in_app', 'push', 'email'],
+  follows: ['in_app', 'push', 'email'],
+  photos: ['in_app', 'push', 'email'],
+  payments: ['push', 'email'],
+  announcements: ['in_app', 'push', 'email'],
+};
+
+// Categories a daily digest bundles; the rest always arrive straight away
+export const DIGEST_CATEGORIES: NotificationCategory[] = ['comments', 'likes', 'follows', 'photos', 'announcements'];
+
+// What a category without a notification_preferences row gets
+export const DEFAULT_CHANNEL_PREFERENCES: ChannelPreferences = { in_app: true, push: true, email: false };
+
+export const DEFAULT_NOTIFICATION_SETTINGS: NotificationSettings = {
+  digest: 'off',
+  digestHour: 18,
+  quietHours: false,
+  quietStart: '22:00',
+  quietEnd: '07:00',
+  timeZone: 'Africa/Nairobi',
+  markReadOnOpen: true,
+};
+
+type SettingsRow = Tables<'notification_settings'>;
+
+// Postgres returns times as 'HH:MM:SS'
+const toSettings = (row: SettingsRow): NotificationSettings => ({
+  digest: row.digest as DigestMode,
+  digestHour: row.digest_hour,
+  quietHours: row.quiet_hours,
+  quietStart: row.quiet_start.slice(0, 5),
+  quietEnd: row.quiet_end.slice(0, 5),
+  timeZone: row.time_zone,
+  markReadOnOpen: row.mark_read_on_open,
+});
+
+export async function fetchNotificationSettings(
+  userId: string,
+  client: DbClient = supabase
+): Promise<NotificationSettings> {
+  const { data, error } = await client
+    .from('notification_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? toSettings(data) : DEFAULT_NOTIFICATION_SETTINGS;
+}
+
+export async function fetchNotificationPreferences(
+  userId: string,
+  client: DbClient = supabase
+): Promise<NotificationPreferences> {
+  const [{ data: rows, error }, settings] = await Promise.all([
+    client
+      .from('notification_preferences')
+      .select('category, in_app, push, email')
+      .eq('user_id', userId),
+    fetchNotificationSettings(userId, client),
+  ]);
+
+  if (error) throw error;
+
+  const channels = Object.fromEntries(
+    NOTIFICATION_CATEGORIES.map(category => [category, { ...DEFAULT_CHANNEL_PREFERENCES }])
+  ) as Record<NotificationCategory, ChannelPreferences>;
+
+  (rows || []).forEach(row => {
+    if (row.category in channels) {
+      channels[row.category as NotificationCategory] = { in_app: row.in_app, push: row.push, email: row.email };
+    }
+  });
+
+  return { channels, settings };
+}
+
+// Whole row at a time, so a category's first save doesn't fall back to the
+// column defaults for the channels it didn't mention
+export async function saveChannelPreferences(
+  userId: string,
+  category: NotificationCategory,
+  channels: ChannelPreferences
+) {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert(
+      { user_id: userId, category, ...channels, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id,category' }
+    );
+
+  if (error) throw error;
+}
+
+export async function saveNotificationSettings(userId: string, settings: NotificationSettings) {
+  const { error } = await supabase
+    .from('notification_settings')
+    .upsert(
+      {
+        user_id: userId,
+        digest: settings.digest,
+        digest_hour: settings.digestHour,
+        quiet_hours: settings.quietHours,
+        quiet_start: settings.quietStart,
+        quiet_end: settings.quietEnd,
+        time_zone: settings.timeZone,
+        mark_read_on_open: settings.markReadOnOpen,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
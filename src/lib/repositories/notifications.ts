@@ -0,0 +1,166 @@
+// Admin notifications, who they are addressed to, and each user's read
+// receipts for them. Unread counts here cover activity too.
+
+import { supabase } from '@/lib/supabase/client';
+import type { Role } from '@/lib/permissions';
+
+// 'role' goes to everyone with NotificationTarget.role, 'users' to a
+// hand-picked list
+export type NotificationAudience = 'everyone' | 'role' | 'verified' | 'users';
+
+export interface NotificationTarget {
+  audience: NotificationAudience;
+  role?: Role;
+  recipientIds?: string[];
+}
+
+export interface NotificationSchedule {
+  // ISO timestamps; delivered straight away and kept forever when unset
+  deliverAt?: string;
+  expiresAt?: string;
+}
+
+export interface NotificationItem {
+  id: string;
+  message: string;
+  created_at: string;
+  created_by: string;
+  audience: NotificationAudience;
+  audienceRole: Role | null;
+  deliverAt: string;
+  expiresAt: string | null;
+  // False for notifications the viewer only sees as their author or a
+  // moderator, including ones not delivered yet or already expired
+  isForMe: boolean;
+  isRead: boolean;
+  // Hand-picked audiences only
+  recipientCount: number | null;
+}
+
+// Unread items addressed to the signed-in user. Activity is counted per
+// group, as the notifications screen shows it.
+export interface UnreadCounts {
+  announcements: number;
+  activity: number;
+}
+
+// Everything the signed-in user can see and hasn't dismissed, newest
+// delivery first
+export async function fetchNotifications(): Promise<NotificationItem[]> {
+  const { data, error } = await supabase
+    .from('notification_feed')
+    .select('*')
+    .eq('is_dismissed', false)
+    .order('deliver_at', { ascending: false });
+
+  if (error) throw error;
+
+  return (data || []).map(item => ({
+    id: item.id!,
+    message: item.message!,
+    created_at: item.created_at!,
+    created_by: item.created_by!,
+    audience: item.audience as NotificationAudience,
+    audienceRole: item.audience_role as Role | null,
+    deliverAt: item.deliver_at!,
+    expiresAt: item.expires_at,
+    isForMe: item.is_for_me ?? false,
+    isRead: item.is_read ?? false,
+    recipientCount: item.recipient_count,
+  }));
+}
+
+export async function markNotificationsRead(userId: string, notificationIds: string[]) {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notification_reads')
+    .upsert(
+      notificationIds.map(id => ({ notification_id: id, user_id: userId })),
+      { onConflict: 'notification_id,user_id' }
+    );
+
+  if (error) throw error;
+}
+
+export async function markNotificationsUnread(userId: string, notificationIds: string[]) {
+  if (notificationIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('notification_reads')
+    .delete()
+    .eq('user_id', userId)
+    .in('notification_id', notificationIds);
+
+  if (error) throw error;
+}
+
+// Hides it from this user's feed; a dismissed notification counts as read
+export async function dismissNotification(userId: string, notificationId: string) {
+  const { error } = await supabase
+    .from('notification_reads')
+    .upsert(
+      { notification_id: notificationId, user_id: userId, dismissed_at: new Date().toISOString() },
+      { onConflict: 'notification_id,user_id' }
+    );
+
+  if (error) throw error;
+}
+
+// Every announcement and all activity, including anything not loaded yet
+export async function markAllNotificationsRead() {
+  const { error } = await supabase.rpc('mark_all_notifications_read');
+  if (error) throw error;
+}
+
+export async function fetchUnreadCounts(): Promise<UnreadCounts> {
+  const { data, error } = await supabase.rpc('unread_notification_counts');
+  if (error) throw error;
+
+  const [counts] = data || [];
+  return { announcements: counts?.announcements ?? 0, activity: counts?.activity ?? 0 };
+}
+
+// When a scheduled notification next arrives or one expires for the signed-in
+// user, or null if nothing is due to change
+export async function nextNotificationChange(): Promise<string | null> {
+  const { data, error } = await supabase.rpc('next_notification_change');
+  if (error) throw error;
+  return data;
+}
+
+export async function createNotification(
+  message: string,
+  target: NotificationTarget,
+  schedule: NotificationSchedule = {}
+): Promise<string> {
+  const { data, error } = await supabase.rpc('create_notification', {
+    p_message: message,
+    p_audience: target.audience,
+    p_audience_role: target.role,
+    p_recipient_ids: target.recipientIds,
+    p_deliver_at: schedule.deliverAt,
+    p_expires_at: schedule.expiresAt,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateNotification(notificationId: string, message: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ message })
+    .eq('id', notificationId);
+
+  if (error) throw error;
+}
+
+export async function deleteNotification(notificationId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .delete()
+    .eq('id', notificationId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,248 @@
+// Posts, likes and bookmarks. Every screen that lists posts maps rows through
+// toPost so the author name, counts and image fallbacks agree everywhere.
+
+import { supabase, Tables } from '@/lib/supabase/client';
+import { displayName, getProfileMap, ProfileSummary } from '@/lib/repositories/profiles';
+
+export interface Post {
+  id: string;
+  userId: string;
+  userName: string;
+  avatarUrl?: string;
+  isVerified: boolean;
+  userType: string;
+  imageUrl: string;
+  images: string[];
+  caption: string;
+  location?: string;
+  tags: string[];
+  createdAt: string;
+  likes: number;
+  commentCount: number;
+  isFeatured: boolean;
+}
+
+const POST_COLUMNS =
+  'id, user_id, caption, images, location, tags, likes_count, comments_count, created_at, is_featured';
+
+type PostRow = Pick<
+  Tables<'posts'>,
+  'id' | 'user_id' | 'caption' | 'images' | 'location' | 'tags' | 'likes_count' | 'comments_count' | 'created_at' | 'is_featured'
+>;
+
+function toPost(row: PostRow, author?: ProfileSummary): Post {
+  const images = (row.images || []).filter(Boolean);
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    userName: displayName(author),
+    avatarUrl: author?.avatar_url || undefined,
+    isVerified: author?.is_verified || false,
+    userType: author?.user_type || 'Photography Enthusiast',
+    imageUrl: images[0] || '',
+    images,
+    caption: row.caption || '',
+    location: row.location || undefined,
+    tags: row.tags || [],
+    createdAt: row.created_at,
+    likes: row.likes_count || 0,
+    commentCount: row.comments_count || 0,
+    isFeatured: row.is_featured || false,
+  };
+}
+
+async function withAuthors(rows: PostRow[]): Promise<Post[]> {
+  const authors = await getProfileMap(rows.map(r => r.user_id));
+  return rows.map(row => toPost(row, authors.get(row.user_id)));
+}
+
+export interface PostQuery {
+  page?: number;
+  pageSize: number;
+  // Only posts by these users (an empty list matches nothing)
+  userIds?: string[];
+  tag?: string;
+  requireImages?: boolean;
+  requireTags?: boolean;
+}
+
+// Newest first, paged
+export async function fetchPosts(query: PostQuery): Promise<Post[]> {
+  if (query.userIds && query.userIds.length === 0) return [];
+
+  const start = (query.page || 0) * query.pageSize;
+
+  let request = supabase.from('posts').select(POST_COLUMNS);
+
+  if (query.userIds) request = request.in('user_id', query.userIds);
+  if (query.tag) request = request.contains('tags', [query.tag]);
+  if (query.requireImages) request = request.not('images', 'is', null).filter('images', 'neq', '{}');
+  if (query.requireTags) request = request.not('tags', 'is', null).filter('tags', 'neq', '{}');
+
+  const { data, error } = await request
+    .order('created_at', { ascending: false })
+    .range(start, start + query.pageSize - 1);
+
+  if (error) throw error;
+  return withAuthors(data || []);
+}
+
+export async function fetchPostsByIds(ids: string[]): Promise<Post[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('posts')
+    .select(POST_COLUMNS)
+    .in('id', ids);
+
+  if (error) throw error;
+  return withAuthors(data || []);
+}
+
+export async function createPost(post: {
+  userId: string;
+  caption: string;
+  location: string | null;
+  tags: string[];
+  images: string[];
+}) {
+  const { error } = await supabase
+    .from('posts')
+    .insert({
+      user_id: post.userId,
+      caption: post.caption,
+      location: post.location,
+      tags: post.tags,
+      images: post.images,
+    });
+
+  if (error) throw error;
+}
+
+// Posts count and likes received, for profile stats
+export async function fetchPostStats(userId: string): Promise<{ posts: number; likes: number }> {
+  const { data, count, error } = await supabase
+    .from('posts')
+    .select('likes_count', { count: 'exact' })
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return {
+    posts: count || 0,
+    likes: (data || []).reduce((sum, p) => sum + (p.likes_count || 0), 0),
+  };
+}
+
+// Removes the post's likes, comments and bookmarks before the post itself
+export async function deletePost(postId: string) {
+  await supabase.from('post_likes').delete().eq('post_id', postId);
+  await supabase.from('comments').delete().eq('post_id', postId);
+  await supabase.from('bookmarks').delete().eq('post_id', postId);
+
+  const { error } = await supabase.from('posts').delete().eq('id', postId);
+  if (error) throw error;
+}
+
+// Likes
+
+export async function fetchLikedPostIds(userId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('post_likes')
+    .select('post_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return new Set((data || []).map(l => l.post_id));
+}
+
+export async function hasLiked(userId: string, postId: string): Promise<boolean> {
+  const { data } = await supabase
+    .from('post_likes')
+    .select('id')
+    .eq('post_id', postId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return !!data;
+}
+
+export async function likePost(userId: string, postId: string) {
+  const { error } = await supabase.from('post_likes').insert({ post_id: postId, user_id: userId });
+  if (error) throw error;
+}
+
+export async function unlikePost(userId: string, postId: string) {
+  const { error } = await supabase
+    .from('post_likes')
+    .delete()
+    .eq('post_id', postId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
+
+// Writes likes_count from its current value; returns the new count
+export async function adjustLikesCount(postId: string, delta: number): Promise<number> {
+  const { data } = await supabase
+    .from('posts')
+    .select('likes_count')
+    .eq('id', postId)
+    .single();
+
+  const likes = Math.max(0, (data?.likes_count || 0) + delta);
+
+  await supabase.from('posts').update({ likes_count: likes }).eq('id', postId);
+  return likes;
+}
+
+// Bookmarks
+
+export async function fetchBookmarkedPostIds(userId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('bookmarks')
+    .select('post_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return new Set((data || []).map(b => b.post_id));
+}
+
+// A page of the user's bookmarks as posts, most recently bookmarked first.
+// `count` is the number of bookmark rows in the page, for hasMore checks.
+export async function fetchBookmarkedPosts(
+  userId: string,
+  page: number,
+  pageSize: number
+): Promise<{ posts: Post[]; count: number }> {
+  const start = page * pageSize;
+
+  const { data: bookmarks, error } = await supabase
+    .from('bookmarks')
+    .select('post_id, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(start, start + pageSize - 1);
+
+  if (error) throw error;
+  if (!bookmarks || bookmarks.length === 0) return { posts: [], count: 0 };
+
+  const order = new Map(bookmarks.map((b, i) => [b.post_id, i]));
+  const posts = await fetchPostsByIds(bookmarks.map(b => b.post_id));
+  posts.sort((a, b) => (order.get(a.id) ?? 0) - (order.get(b.id) ?? 0));
+
+  return { posts, count: bookmarks.length };
+}
+
+export async function bookmarkPost(userId: string, postId: string) {
+  const { error } = await supabase.from('bookmarks').insert({ post_id: postId, user_id: userId });
+  if (error) throw error;
+}
+
+export async function removeBookmark(userId: string, postId: string) {
+  const { error } = await supabase
+    .from('bookmarks')
+    .delete()
+    .eq('user_id', userId)
+    .eq('post_id', postId);
+  if (error) throw error;
+}
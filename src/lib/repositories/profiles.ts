@@ -0,0 +1,214 @@
+// Profiles and the follows graph. Functions throw the Supabase error so
+// screens decide how to surface it. Reads that server pages need take an
+// optional client so they can pass the cookie-bound one.
+
+import { supabase, DbClient, Tables, TablesInsert, TablesUpdate } from '@/lib/supabase/client';
+import { Role, ROLE_COLUMNS, roleOf } from '@/lib/permissions';
+
+export type Profile = Tables<'profiles'>;
+
+// The columns lists, cards and pickers need
+export type ProfileSummary = Pick<
+  Profile,
+  'id' | 'username' | 'display_name' | 'full_name' | 'email' | 'avatar_url' | 'user_type' | 'is_verified'
+>;
+
+export const PROFILE_SUMMARY_COLUMNS =
+  'id, username, display_name, full_name, email, avatar_url, user_type, is_verified';
+
+type NamedProfile = Partial<Pick<Profile, 'display_name' | 'full_name' | 'username'>>;
+
+// One rule for the name shown next to a user everywhere
+export function displayName(profile: NamedProfile | null | undefined, fallback = 'Anonymous'): string {
+  return profile?.display_name || profile?.full_name || profile?.username || fallback;
+}
+
+export async function getProfile(id: string, client: DbClient = supabase): Promise<Profile | null> {
+  const { data, error } = await client
+    .from('profiles')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getProfilesByIds(ids: string[]): Promise<ProfileSummary[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select(PROFILE_SUMMARY_COLUMNS)
+    .in('id', ids);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getProfileMap(ids: string[]): Promise<Map<string, ProfileSummary>> {
+  const profiles = await getProfilesByIds(Array.from(new Set(ids)));
+  return new Map(profiles.map(p => [p.id, p]));
+}
+
+// Everyone except `excludeId`, alphabetically - used by the user pickers
+export async function listProfiles(options: { excludeId?: string; limit?: number } = {}): Promise<ProfileSummary[]> {
+  let query = supabase
+    .from('profiles')
+    .select(PROFILE_SUMMARY_COLUMNS)
+    .order('display_name', { ascending: true });
+
+  if (options.excludeId) query = query.neq('id', options.excludeId);
+  if (options.limit) query = query.limit(options.limit);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+// Full rows, newest first - used by the admin user list
+export async function listAllProfiles(client: DbClient = supabase): Promise<Profile[]> {
+  const { data, error } = await client
+    .from('profiles')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+// Case-insensitive match on display name, username or email
+export async function searchProfiles(
+  term: string,
+  options: { excludeId?: string; limit?: number } = {}
+): Promise<ProfileSummary[]> {
+  const pattern = `%${term.trim()}%`;
+
+  let query = supabase
+    .from('profiles')
+    .select(PROFILE_SUMMARY_COLUMNS)
+    .or(`display_name.ilike.${pattern},username.ilike.${pattern},email.ilike.${pattern}`)
+    .order('display_name', { ascending: true, nullsFirst: false });
+
+  if (options.excludeId) query = query.neq('id', options.excludeId);
+  if (options.limit) query = query.limit(options.limit);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createProfile(profile: TablesInsert<'profiles'>) {
+  const { error } = await supabase.from('profiles').insert(profile);
+  if (error) throw error;
+}
+
+export async function updateProfile(id: string, changes: TablesUpdate<'profiles'>) {
+  const { error } = await supabase.from('profiles').update(changes).eq('id', id);
+  if (error) throw error;
+}
+
+// Signed-in users without a profile row yet are treated as clients
+export async function getRole(userId: string, client: DbClient = supabase): Promise<Role> {
+  const { data, error } = await client
+    .from('profiles')
+    .select(ROLE_COLUMNS)
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return roleOf(data);
+}
+
+// Presence
+
+// Stamps the signed-in user's profiles.last_seen_at
+export async function touchLastSeen() {
+  const { error } = await supabase.rpc('touch_last_seen');
+  if (error) throw error;
+}
+
+export async function getLastSeen(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('last_seen_at')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.last_seen_at ?? null;
+}
+
+// Follows
+
+export async function getFollowCounts(userId: string): Promise<{ followers: number; following: number }> {
+  const [{ count: followers }, { count: following }] = await Promise.all([
+    supabase
+      .from('follows')
+      .select('follower_id', { count: 'exact', head: true })
+      .eq('following_id', userId),
+    supabase
+      .from('follows')
+      .select('following_id', { count: 'exact', head: true })
+      .eq('follower_id', userId),
+  ]);
+
+  return { followers: followers || 0, following: following || 0 };
+}
+
+export async function isFollowing(followerId: string, followingId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('follows')
+    .select('follower_id')
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return !!data;
+}
+
+// Who `userId` follows, optionally narrowed to `among`
+export async function getFollowingIds(userId: string, among?: string[]): Promise<string[]> {
+  let query = supabase
+    .from('follows')
+    .select('following_id')
+    .eq('follower_id', userId);
+
+  if (among) {
+    if (among.length === 0) return [];
+    query = query.in('following_id', among);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []).map(r => r.following_id);
+}
+
+// followers -> rows pointing at the user, following -> rows made by the user; newest first
+export async function getFollowListIds(userId: string, type: 'followers' | 'following'): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('follows')
+    .select('follower_id, following_id, created_at')
+    .eq(type === 'followers' ? 'following_id' : 'follower_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []).map(r => (type === 'followers' ? r.follower_id : r.following_id));
+}
+
+export async function follow(followerId: string, followingId: string) {
+  const { error } = await supabase
+    .from('follows')
+    .insert({ follower_id: followerId, following_id: followingId });
+  if (error) throw error;
+}
+
+export async function unfollow(followerId: string, followingId: string) {
+  const { error } = await supabase
+    .from('follows')
+    .delete()
+    .eq('follower_id', followerId)
+    .eq('following_id', followingId);
+  if (error) throw error;
+}
@@ -0,0 +1,27 @@
+// Web Push subscriptions for this browser. Which notifications are pushed is
+// up to notification_preferences; sending happens in lib/notifications/dispatch.
+
+import { supabase } from '@/lib/supabase/client';
+
+export async function savePushSubscription(subscription: PushSubscription) {
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys?.auth) throw new Error('Incomplete push subscription');
+
+  const { error } = await supabase.rpc('save_push_subscription', {
+    p_endpoint: endpoint,
+    p_p256dh: keys.p256dh,
+    p_auth: keys.auth,
+    p_user_agent: navigator.userAgent,
+  });
+
+  if (error) throw error;
+}
+
+export async function deletePushSubscription(endpoint: string) {
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', endpoint);
+
+  if (error) throw error;
+}
@@ -0,0 +1,120 @@
+// Images attached to direct messages. They live in a private bucket, so
+// `messages.images` stores storage prefixes rather than URLs:
+// `<conversation_id>/<sender_id>/<attachment_id>`, holding `full` and `thumb`
+// objects. Older rows may still hold plain URLs, which are shown as-is.
+
+import { supabase } from '@/lib/supabase/client';
+import { uploadWithProgress } from './upload';
+import { resizeImage } from './resize';
+
+export const CHAT_ATTACHMENTS_BUCKET = 'chat-attachments';
+export const MAX_CHAT_ATTACHMENTS = 10;
+
+const FULL_SIZE = 2048;
+const THUMBNAIL_SIZE = 480;
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+// Re-sign a little before expiry so an open lightbox doesn't go blank
+const SIGNED_URL_REFRESH_MS = 5 * 60 * 1000;
+
+export interface AttachmentUrls {
+  thumbnail: string;
+  full: string;
+}
+
+const isUrl = (entry: string) => /^https?:\/\//.test(entry);
+
+function objectPaths(prefix: string) {
+  return { full: `${prefix}/full`, thumbnail: `${prefix}/thumb` };
+}
+
+// Resizes `file`, uploads the thumbnail then the full-size image, and returns
+// the prefix to store on the message. Progress covers both uploads.
+export async function uploadChatImage(
+  conversationId: string,
+  senderId: string,
+  file: File,
+  accessToken: string,
+  onProgress: (percent: number) => void = () => {}
+): Promise<string> {
+  const prefix = `${conversationId}/${senderId}/${crypto.randomUUID()}`;
+  const paths = objectPaths(prefix);
+
+  // Resizing a GIF would keep only its first frame
+  const [thumbnail, full] = await Promise.all([
+    resizeImage(file, THUMBNAIL_SIZE, 0.75),
+    file.type === 'image/gif' ? Promise.resolve(file) : resizeImage(file, FULL_SIZE),
+  ]);
+
+  const thumbnailShare = thumbnail.size / (thumbnail.size + full.size);
+
+  onProgress(0);
+  await uploadWithProgress(CHAT_ATTACHMENTS_BUCKET, paths.thumbnail, thumbnail, accessToken, (percent) =>
+    onProgress(Math.round(percent * thumbnailShare))
+  );
+  try {
+    await uploadWithProgress(CHAT_ATTACHMENTS_BUCKET, paths.full, full, accessToken, (percent) =>
+      onProgress(Math.round(thumbnailShare * 100 + percent * (1 - thumbnailShare)))
+    );
+  } catch (error) {
+    await removeChatImages([prefix]);
+    throw error;
+  }
+  onProgress(100);
+
+  return prefix;
+}
+
+// Used to roll back uploads when the message itself could not be saved
+export async function removeChatImages(entries: string[]) {
+  const paths = entries
+    .filter((entry) => !isUrl(entry))
+    .flatMap((prefix) => Object.values(objectPaths(prefix)));
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(CHAT_ATTACHMENTS_BUCKET).remove(paths);
+  if (error) console.error('Error removing chat images:', error);
+}
+
+const signedUrlCache = new Map<string, { url: string; expiresAt: number }>();
+
+// Signed URLs for each entry of `messages.images`, batched into one request
+// and cached across bubbles
+export async function getAttachmentUrls(entries: string[]): Promise<Map<string, AttachmentUrls>> {
+  const now = Date.now();
+  const stale = entries
+    .filter((entry) => !isUrl(entry))
+    .flatMap((prefix) => Object.values(objectPaths(prefix)))
+    .filter((path) => {
+      const cached = signedUrlCache.get(path);
+      return !cached || cached.expiresAt - SIGNED_URL_REFRESH_MS < now;
+    });
+
+  if (stale.length > 0) {
+    const { data, error } = await supabase.storage
+      .from(CHAT_ATTACHMENTS_BUCKET)
+      .createSignedUrls(stale, SIGNED_URL_TTL_SECONDS);
+
+    if (error) throw error;
+    for (const item of data) {
+      if (item.path && item.signedUrl) {
+        signedUrlCache.set(item.path, { url: item.signedUrl, expiresAt: now + SIGNED_URL_TTL_SECONDS * 1000 });
+      }
+    }
+  }
+
+  const urls = new Map<string, AttachmentUrls>();
+  for (const entry of entries) {
+    if (isUrl(entry)) {
+      urls.set(entry, { thumbnail: entry, full: entry });
+      continue;
+    }
+
+    const paths = objectPaths(entry);
+    const thumbnail = signedUrlCache.get(paths.thumbnail)?.url;
+    const full = signedUrlCache.get(paths.full)?.url;
+    if (thumbnail || full) {
+      urls.set(entry, { thumbnail: thumbnail || full!, full: full || thumbnail! });
+    }
+  }
+  return urls;
+}
@@ -0,0 +1,24 @@
+// Group pictures, in a public bucket under `<conversation_id>/`. Only the
+// group's admins may write there.
+
+import { supabase } from '@/lib/supabase/client';
+import { resizeImage } from './resize';
+
+export const GROUP_AVATARS_BUCKET = 'group-avatars';
+
+const AVATAR_SIZE = 512;
+
+// Returns the public URL to store as conversations.avatar_url
+export async function uploadGroupAvatar(conversationId: string, file: File): Promise<string> {
+  const image = await resizeImage(file, AVATAR_SIZE);
+  const path = `${conversationId}/${crypto.randomUUID()}`;
+
+  const { error } = await supabase.storage
+    .from(GROUP_AVATARS_BUCKET)
+    .upload(path, image, { contentType: image.type, upsert: false });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage.from(GROUP_AVATARS_BUCKET).getPublicUrl(path);
+  return publicUrl;
+}
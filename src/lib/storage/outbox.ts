@@ -0,0 +1,80 @@
+// Chat messages waiting to be sent, kept in IndexedDB so they survive a lost
+// connection or a closed tab. Each entry's id becomes the message's id, which
+// makes a retry of a send that actually went through harmless.
+
+const DB_NAME = 'chat_outbox';
+const DB_VERSION = 1;
+const STORE = 'messages';
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  senderId: string;
+  // Null until the first message of a new direct chat creates it
+  conversationId: string | null;
+  // Direct chats only
+  recipientId: string | null;
+  isGroup: boolean;
+  text: string;
+  images: File[];
+  // Storage prefixes of images already uploaded, in the same order, so a
+  // retry picks up where the last attempt stopped
+  uploaded: string[];
+  replyTo: { id: string; content: string } | null;
+  createdAt: string;
+  status: OutboxStatus;
+  attempts: number;
+  // Epoch ms; the entry is left alone until then
+  nextAttemptAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after private browsing is turned off
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry) {
+  await run('readwrite', (store) => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: string) {
+  await run('readwrite', (store) => store.delete(id));
+}
+
+// Oldest first, so they go out in the order they were written
+export async function listOutboxEntries(senderId: string): Promise<OutboxEntry[]> {
+  const entries = await run<OutboxEntry[]>('readonly', (store) => store.getAll());
+  return entries
+    .filter((entry) => entry.senderId === senderId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
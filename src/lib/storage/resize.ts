@@ -0,0 +1,32 @@
+// Downscales an image in the browser so large camera photos upload quickly.
+// The longest side is capped at `maxDimension`; smaller images are only
+// re-encoded. PNG and WebP become WebP to keep transparency, the rest JPEG.
+export async function resizeImage(file: Blob, maxDimension: number, quality = 0.85): Promise<Blob> {
+  const bitmap = await createImageBitmap(file);
+
+  try {
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.round(bitmap.width * scale);
+    const height = Math.round(bitmap.height * scale);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not supported in this browser');
+    context.drawImage(bitmap, 0, 0, width, height);
+
+    const type = file.type === 'image/png' || file.type === 'image/webp' ? 'image/webp' : 'image/jpeg';
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(
+        (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode resized image'))),
+        type,
+        quality
+      );
+    });
+  } finally {
+    bitmap.close();
+  }
+}
@@ -0,0 +1,45 @@
+// `status` is the HTTP status, or 0 when the request never got a response
+export class UploadError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Upload a file straight to the storage REST endpoint so we can report progress
+// (supabase-js does not expose upload progress events).
+export function uploadWithProgress(
+  bucket: string,
+  path: string,
+  file: Blob,
+  accessToken: string,
+  onProgress: (percent: number) => void
+) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(
+      'POST',
+      `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/${bucket}/${path}`
+    );
+    xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
+    xhr.setRequestHeader('apikey', process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.setRequestHeader('x-upsert', 'false');
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new UploadError(`Upload failed (${xhr.status}): ${xhr.responseText}`, xhr.status));
+      }
+    };
+    xhr.onerror = () => reject(new UploadError('Network error while uploading image', 0));
+
+    xhr.send(file);
+  });
+}
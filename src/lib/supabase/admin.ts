@@ -0,0 +1,23 @@
+// Service-role Supabase for server code that runs without a user session:
+// the M-Pesa callback and the notification dispatcher. It bypasses RLS, so
+// never import it from anything that reaches the browser.
+
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+import type { DbClient } from '@/lib/supabase/client';
+
+let adminClient: DbClient | null = null;
+
+export function getAdminClient(): DbClient {
+  if (!adminClient) {
+    const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!serviceRoleKey) {
+      throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set');
+    }
+
+    adminClient = createClient<Database>(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+  return adminClient;
+}
@@ -0,0 +1,17 @@
+// The one browser Supabase client. Import this instead of calling createClient
+// per file so every screen shares a single auth session and realtime socket.
+// The session lives in cookies so middleware and server components see it too.
+
+import { createBrowserClient } from '@supabase/auth-helpers-nextjs';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+
+export const supabase = createBrowserClient<Database>(
+  process.env.NEXT_PUBLIC_SUPABASE_URL!,
+  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+);
+
+// Either the browser client above or a cookie-bound server client
+export type DbClient = SupabaseClient<Database>;
+
+export type { Database, Tables, TablesInsert, TablesUpdate } from '@/lib/supabase/database.types';
@@ -0,0 +1,1153 @@
+// Generated from the Supabase schema. Regenerate after changing a migration:
+//   npx supabase gen types typescript --project-id <project-ref> > src/lib/supabase/database.types.ts
+
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      activity_notifications: {
+        Row: {
+          actor_id: string
+          created_at: string
+          id: string
+          preview: string | null
+          read_at: string | null
+          recipient_id: string
+          source_id: string | null
+          target_id: string
+          target_type: string
+          thumbnail_url: string | null
+          verb: string
+        }
+        Insert: {
+          actor_id: string
+          created_at?: string
+          id?: string
+          preview?: string | null
+          read_at?: string | null
+          recipient_id: string
+          source_id?: string | null
+          target_id: string
+          target_type: string
+          thumbnail_url?: string | null
+          verb: string
+        }
+        Update: {
+          actor_id?: string
+          created_at?: string
+          id?: string
+          preview?: string | null
+          read_at?: string | null
+          recipient_id?: string
+          source_id?: string | null
+          target_id?: string
+          target_type?: string
+          thumbnail_url?: string | null
+          verb?: string
+        }
+        Relationships: []
+      }
+      bookmarks: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bookmarks_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comments: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          parent_id: string | null
+          post_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          post_id: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          parent_id?: string | null
+          post_id?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_participants: {
+        Row: {
+          cleared_at: string | null
+          conversation_id: string
+          joined_at: string
+          last_delivered_at: string | null
+          last_read_at: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          cleared_at?: string | null
+          conversation_id: string
+          joined_at?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          cleared_at?: string | null
+          conversation_id?: string
+          joined_at?: string
+          last_delivered_at?: string | null
+          last_read_at?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_participants_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "conversation_participants_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          is_group: boolean
+          last_message: string | null
+          last_message_at: string | null
+          title: string | null
+          user1_id: string | null
+          user2_id: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_group?: boolean
+          last_message?: string | null
+          last_message_at?: string | null
+          title?: string | null
+          user1_id?: string | null
+          user2_id?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_group?: boolean
+          last_message?: string | null
+          last_message_at?: string | null
+          title?: string | null
+          user1_id?: string | null
+          user2_id?: string | null
+        }
+        Relationships: []
+      }
+      featured_items: {
+        Row: {
+          author: string
+          category: string
+          created_at: string
+          id: string
+          image_url: string
+          is_active: boolean
+          likes: number
+          title: string
+        }
+        Insert: {
+          author: string
+          category: string
+          created_at?: string
+          id?: string
+          image_url: string
+          is_active?: boolean
+          likes?: number
+          title: string
+        }
+        Update: {
+          author?: string
+          category?: string
+          created_at?: string
+          id?: string
+          image_url?: string
+          is_active?: boolean
+          likes?: number
+          title?: string
+        }
+        Relationships: []
+      }
+      follows: {
+        Row: {
+          created_at: string
+          follower_id: string
+          following_id: string
+        }
+        Insert: {
+          created_at?: string
+          follower_id: string
+          following_id: string
+        }
+        Update: {
+          created_at?: string
+          follower_id?: string
+          following_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "follows_follower_id_fkey"
+            columns: ["follower_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "follows_following_id_fkey"
+            columns: ["following_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hidden_messages: {
+        Row: {
+          hidden_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          hidden_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          hidden_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hidden_messages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      images: {
+        Row: {
+          created_at: string
+          file_name: string | null
+          id: string
+          image_url: string
+          mime_type: string | null
+          photo_id: string
+          status: string
+          title: string | null
+        }
+        Insert: {
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          image_url: string
+          mime_type?: string | null
+          photo_id: string
+          status?: string
+          title?: string | null
+        }
+        Update: {
+          created_at?: string
+          file_name?: string | null
+          id?: string
+          image_url?: string
+          mime_type?: string | null
+          photo_id?: string
+          status?: string
+          title?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "images_photo_id_fkey"
+            columns: ["photo_id"]
+            isOneToOne: false
+            referencedRelation: "photos"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          conversation_id: string
+          created_at: string
+          emoji: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          created_at?: string
+          emoji: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          created_at?: string
+          emoji?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_reactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_revisions: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          message_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          message_id: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_revisions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
+          id: string
+          images: string[] | null
+          is_read: boolean
+          read_at: string | null
+          receiver_id: string | null
+          reply_to_content: string | null
+          reply_to_id: string | null
+          sender_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          images?: string[] | null
+          is_read?: boolean
+          read_at?: string | null
+          receiver_id?: string | null
+          reply_to_content?: string | null
+          reply_to_id?: string | null
+          sender_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
+          id?: string
+          images?: string[] | null
+          is_read?: boolean
+          read_at?: string | null
+          receiver_id?: string | null
+          reply_to_content?: string | null
+          reply_to_id?: string | null
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mpesa_transactions: {
+        Row: {
+          amount: number
+          created_at: string
+          description: string | null
+          id: string
+          image_ids: string[]
+          merchant_request_id: string | null
+          mpesa_receipt_number: string | null
+          phone_number: string
+          result_code: number | null
+          result_desc: string | null
+          status: string
+          transaction_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_ids?: string[]
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          phone_number: string
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_ids?: string[]
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          phone_number?: string
+          result_code?: number | null
+          result_desc?: string | null
+          status?: string
+          transaction_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_preferences: {
+        Row: {
+          category: string
+          email: boolean
+          in_app: boolean
+          push: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          category: string
+          email?: boolean
+          in_app?: boolean
+          push?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          category?: string
+          email?: boolean
+          in_app?: boolean
+          push?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_queue: {
+        Row: {
+          attempts: number
+          body: string
+          category: string
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          digest: boolean
+          id: string
+          next_attempt_at: string
+          tag: string | null
+          title: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          body: string
+          category: string
+          channel?: string
+          claimed_at?: string | null
+          created_at?: string
+          digest?: boolean
+          id?: string
+          next_attempt_at?: string
+          tag?: string | null
+          title: string
+          url?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          body?: string
+          category?: string
+          channel?: string
+          claimed_at?: string | null
+          created_at?: string
+          digest?: boolean
+          id?: string
+          next_attempt_at?: string
+          tag?: string | null
+          title?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notification_reads: {
+        Row: {
+          dismissed_at: string | null
+          notification_id: string
+          read_at: string
+          user_id: string
+        }
+        Insert: {
+          dismissed_at?: string | null
+          notification_id: string
+          read_at?: string
+          user_id: string
+        }
+        Update: {
+          dismissed_at?: string | null
+          notification_id?: string
+          read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_reads_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_recipients: {
+        Row: {
+          notification_id: string
+          user_id: string
+        }
+        Insert: {
+          notification_id: string
+          user_id: string
+        }
+        Update: {
+          notification_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_recipients_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_settings: {
+        Row: {
+          digest: string
+          digest_hour: number
+          mark_read_on_open: boolean
+          quiet_end: string
+          quiet_hours: boolean
+          quiet_start: string
+          time_zone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          digest?: string
+          digest_hour?: number
+          mark_read_on_open?: boolean
+          quiet_end?: string
+          quiet_hours?: boolean
+          quiet_start?: string
+          time_zone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          digest?: string
+          digest_hour?: number
+          mark_read_on_open?: boolean
+          quiet_end?: string
+          quiet_hours?: boolean
+          quiet_start?: string
+          time_zone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          audience: string
+          audience_role: string | null
+          created_at: string
+          created_by: string
+          deliver_at: string
+          expires_at: string | null
+          id: string
+          message: string
+        }
+        Insert: {
+          audience?: string
+          audience_role?: string | null
+          created_at?: string
+          created_by: string
+          deliver_at?: string
+          expires_at?: string | null
+          id?: string
+          message: string
+        }
+        Update: {
+          audience?: string
+          audience_role?: string | null
+          created_at?: string
+          created_by?: string
+          deliver_at?: string
+          expires_at?: string | null
+          id?: string
+          message?: string
+        }
+        Relationships: []
+      }
+      photos: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_payment_required: boolean
+          recipient_id: string
+          sender_id: string
+          title: string | null
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_payment_required?: boolean
+          recipient_id: string
+          sender_id: string
+          title?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_payment_required?: boolean
+          recipient_id?: string
+          sender_id?: string
+          title?: string | null
+        }
+        Relationships: []
+      }
+      picture_prices: {
+        Row: {
+          id: string
+          price: number
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          price: number
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          price?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      post_likes: {
+        Row: {
+          created_at: string
+          id: string
+          post_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          post_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          post_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "post_likes_post_id_fkey"
+            columns: ["post_id"]
+            isOneToOne: false
+            referencedRelation: "posts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      posts: {
+        Row: {
+          caption: string | null
+          comments_count: number
+          created_at: string
+          id: string
+          images: string[] | null
+          is_featured: boolean
+          likes_count: number
+          location: string | null
+          tags: string[] | null
+          user_id: string
+        }
+        Insert: {
+          caption?: string | null
+          comments_count?: number
+          created_at?: string
+          id?: string
+          images?: string[] | null
+          is_featured?: boolean
+          likes_count?: number
+          location?: string | null
+          tags?: string[] | null
+          user_id: string
+        }
+        Update: {
+          caption?: string | null
+          comments_count?: number
+          created_at?: string
+          id?: string
+          images?: string[] | null
+          is_featured?: boolean
+          likes_count?: number
+          location?: string | null
+          tags?: string[] | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string | null
+          email: string | null
+          full_name: string | null
+          id: string
+          is_admin: boolean
+          is_verified: boolean
+          last_seen_at: string | null
+          role: string | null
+          user_type: string
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          full_name?: string | null
+          id: string
+          is_admin?: boolean
+          is_verified?: boolean
+          last_seen_at?: string | null
+          role?: string | null
+          user_type?: string
+          username?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          is_admin?: boolean
+          is_verified?: boolean
+          last_seen_at?: string | null
+          role?: string | null
+          user_type?: string
+          username?: string | null
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          last_used_at: string | null
+          p256dh: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          last_used_at?: string | null
+          p256dh: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          last_used_at?: string | null
+          p256dh?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_purchases: {
+        Row: {
+          created_at: string
+          id: string
+          image_id: string
+          status: string
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          image_id: string
+          status?: string
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          image_id?: string
+          status?: string
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_purchases_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "mpesa_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      conversation_summaries: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          id: string | null
+          is_group: boolean | null
+          last_message: string | null
+          last_message_at: string | null
+          member_count: number | null
+          my_role: string | null
+          other_user_id: string | null
+          title: string | null
+          unread_count: number | null
+        }
+        Relationships: []
+      }
+      notification_feed: {
+        Row: {
+          audience: string | null
+          audience_role: string | null
+          created_at: string | null
+          created_by: string | null
+          deliver_at: string | null
+          expires_at: string | null
+          id: string | null
+          is_dismissed: boolean | null
+          is_for_me: boolean | null
+          is_read: boolean | null
+          message: string | null
+          recipient_count: number | null
+        }
+        Relationships: []
+      }
+      posts_with_users: {
+        Row: {
+          avatar_url: string | null
+          caption: string | null
+          comments_count: number | null
+          created_at: string | null
+          display_name: string | null
+          id: string | null
+          images: string[] | null
+          is_featured: boolean | null
+          is_verified: boolean | null
+          likes_count: number | null
+          location: string | null
+          tags: string[] | null
+          user_id: string | null
+          user_type: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
+    }
+    Functions: {
+      claim_notification_queue: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          body: string
+          category: string
+          channel: string
+          claimed_at: string | null
+          created_at: string
+          digest: boolean
+          id: string
+          next_attempt_at: string
+          tag: string | null
+          title: string
+          url: string
+          user_id: string
+        }[]
+      }
+      clear_conversation: {
+        Args: { p_conversation_id: string }
+        Returns: undefined
+      }
+      create_group_conversation: {
+        Args: { p_title: string; p_member_ids: string[]; p_avatar_url?: string }
+        Returns: string
+      }
+      create_notification: {
+        Args: {
+          p_message: string
+          p_audience?: string
+          p_audience_role?: string
+          p_recipient_ids?: string[]
+          p_deliver_at?: string
+          p_expires_at?: string
+        }
+        Returns: string
+      }
+      delete_message_for_everyone: {
+        Args: { p_message_id: string }
+        Returns: undefined
+      }
+      get_user_transaction_stats: {
+        Args: { p_user_id: string }
+        Returns: {
+          completed_transactions: number
+          failed_transactions: number
+          pending_transactions: number
+          total_amount_spent: number
+          total_transactions: number
+        }[]
+      }
+      has_capability: {
+        Args: { capability: string; uid?: string }
+        Returns: boolean
+      }
+      in_notification_audience: {
+        Args: { p_notification_id: string; p_audience: string; p_audience_role: string; uid?: string }
+        Returns: boolean
+      }
+      is_notification_recipient: {
+        Args: { p_notification_id: string; p_audience: string; p_audience_role: string; uid?: string }
+        Returns: boolean
+      }
+      mark_all_notifications_read: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      mark_conversation_read: {
+        Args: { p_conversation_id: string }
+        Returns: undefined
+      }
+      mark_messages_delivered: {
+        Args: { p_conversation_id?: string }
+        Returns: undefined
+      }
+      next_notification_change: {
+        Args: Record<PropertyKey, never>
+        Returns: string | null
+      }
+      save_push_subscription: {
+        Args: { p_endpoint: string; p_p256dh: string; p_auth: string; p_user_agent?: string }
+        Returns: undefined
+      }
+      search_messages: {
+        Args: { p_query: string; p_limit?: number }
+        Returns: {
+          conversation_id: string
+          created_at: string
+          message_id: string
+          sender_id: string
+          snippet: string
+        }[]
+      }
+      touch_last_seen: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      unread_message_count: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      unread_notification_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          activity: number
+          announcements: number
+        }[]
+      }
+      user_role: {
+        Args: { uid?: string }
+        Returns: string
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database["public"]
+
+export type Tables<T extends keyof (PublicSchema["Tables"] & PublicSchema["Views"])> =
+  (PublicSchema["Tables"] & PublicSchema["Views"])[T] extends { Row: infer R } ? R : never
+
+export type TablesInsert<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Insert"]
+
+export type TablesUpdate<T extends keyof PublicSchema["Tables"]> =
+  PublicSchema["Tables"][T]["Update"]
@@ -0,0 +1,42 @@
+// Session refresh for middleware. Reading the user through this client renews
+// an expiring access token and writes the new cookies onto the response, so
+// server components downstream always see a valid session.
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { createServerClient } from '@supabase/auth-helpers-nextjs';
+import type { Database } from '@/lib/supabase/database.types';
+import type { DbClient } from '@/lib/supabase/client';
+
+export async function updateSession(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase: DbClient = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return request.cookies.getAll();
+        },
+        setAll(cookiesToSet) {
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value));
+          response = NextResponse.next({ request });
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+        },
+      },
+    }
+  );
+
+  // getUser (not getSession) so the token is verified with Supabase Auth.
+  // Any refreshed cookies land on `response` before this resolves.
+  const { data: { user } } = await supabase.auth.getUser();
+
+  return { supabase, user, response };
+}
+
+// Redirects keep whatever cookies the refresh just set. `path` may carry a query string.
+export function redirectWithSession(request: NextRequest, session: NextResponse, path: string) {
+  const redirect = NextResponse.redirect(new URL(path, request.url));
+  session.cookies.getAll().forEach(cookie => redirect.cookies.set(cookie));
+  return redirect;
+}
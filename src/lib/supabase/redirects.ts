@@ -0,0 +1,8 @@
+// Where to send someone after they sign in. Only same-origin paths are
+// honoured so a crafted ?next= can't bounce users off-site.
+export function safeNextPath(next: string | null | undefined, fallback = '/community'): string {
+  if (!next || !next.startsWith('/') || next.startsWith('//') || next.startsWith('/\\')) {
+    return fallback;
+  }
+  return next;
+}
@@ -0,0 +1,57 @@
+// Supabase for server components and route handlers, bound to the request's
+// auth cookies. Middleware keeps those cookies fresh; see lib/supabase/middleware.
+
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { createServerClient } from '@supabase/auth-helpers-nextjs';
+import type { User } from '@supabase/supabase-js';
+import type { Database } from '@/lib/supabase/database.types';
+import type { DbClient } from '@/lib/supabase/client';
+import { getRole } from '@/lib/repositories/profiles';
+import { Capability, Role, can } from '@/lib/permissions';
+
+export async function createServerSupabase(): Promise<DbClient> {
+  const cookieStore = await cookies();
+
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll();
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) => cookieStore.set(name, value, options));
+          } catch {
+            // Server components can't write cookies; middleware already refreshed them
+          }
+        },
+      },
+    }
+  );
+}
+
+// The signed-in user for a server page, redirecting to login otherwise.
+// Middleware guards the same routes; this covers a session that expired
+// between the two.
+export async function requireUser(next: string): Promise<{ supabase: DbClient; user: User }> {
+  const supabase = await createServerSupabase();
+  const { data: { user } } = await supabase.auth.getUser();
+
+  if (!user) redirect(`/login?next=${encodeURIComponent(next)}`);
+  return { supabase, user };
+}
+
+// As requireUser, but users without `capability` are sent back to the feed
+export async function requireCapability(
+  capability: Capability,
+  next: string
+): Promise<{ supabase: DbClient; user: User; role: Role }> {
+  const { supabase, user } = await requireUser(next);
+  const role = await getRole(user.id, supabase);
+
+  if (!can(role, capability)) redirect('/community');
+  return { supabase, user, role };
+}
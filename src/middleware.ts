@@ -0,0 +1,68 @@
+import type { NextRequest } from 'next/server';
+import { updateSession, redirectWithSession } from '@/lib/supabase/middleware';
+import { Capability, ROLE_COLUMNS, can, roleOf } from '@/lib/permissions';
+import { safeNextPath } from '@/lib/supabase/redirects';
+
+// Signed-in users only. Prefixes, so /messages also covers /messages/<id>.
+const PROTECTED_ROUTES = [
+  '/collections',
+  '/edit_profile',
+  '/message_detail',
+  '/messages',
+  '/notifications',
+  '/post',
+  '/profile/dashboard',
+  '/profile/edit',
+  '/profile/notifications',
+  '/profile/users',
+];
+
+// /profile/<id> is a public profile, so only the own-profile page is exact-matched
+const PROTECTED_EXACT_ROUTES = ['/profile'];
+
+// Routes that also need a capability; see lib/permissions
+const CAPABILITY_ROUTES: Record<string, Capability> = {
+  '/profile/users': 'canManageUsers',
+};
+
+function matches(pathname: string, route: string) {
+  return pathname === route || pathname.startsWith(`${route}/`);
+}
+
+export async function middleware(request: NextRequest) {
+  const { supabase, user, response } = await updateSession(request);
+  const { pathname, search } = request.nextUrl;
+
+  if (pathname === '/login' && user) {
+    return redirectWithSession(request, response, safeNextPath(request.nextUrl.searchParams.get('next')));
+  }
+
+  const needsUser =
+    PROTECTED_EXACT_ROUTES.includes(pathname) ||
+    PROTECTED_ROUTES.some(route => matches(pathname, route));
+
+  if (needsUser && !user) {
+    return redirectWithSession(request, response, `/login?next=${encodeURIComponent(pathname + search)}`);
+  }
+
+  const capabilityRoute = Object.keys(CAPABILITY_ROUTES).find(route => matches(pathname, route));
+
+  if (user && capabilityRoute) {
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select(ROLE_COLUMNS)
+      .eq('id', user.id)
+      .maybeSingle();
+
+    if (!can(roleOf(profile), CAPABILITY_ROUTES[capabilityRoute])) {
+      return redirectWithSession(request, response, '/community');
+    }
+  }
+
+  return response;
+}
+
+export const config = {
+  // Everything except static assets and the API, which authenticates with bearer tokens
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|api/|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)'],
+};
@@ -0,0 +1,28 @@
+-- Public bucket for images attached to community posts.
+-- Files are stored under `<user_id>/<file>` so each user can only write to their own folder.
+insert into storage.buckets (id, name, public)
+values ('post-images', 'post-images', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Post images are publicly readable" on storage.objects;
+create policy "Post images are publicly readable"
+  on storage.objects for select
+  using (bucket_id = 'post-images');
+
+drop policy if exists "Users can upload post images to their own folder" on storage.objects;
+create policy "Users can upload post images to their own folder"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'post-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+drop policy if exists "Users can delete their own post images" on storage.objects;
+create policy "Users can delete their own post images"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'post-images'
+    and (storage.foldername(name))[1] = auth.uid()::text
+  );
@@ -0,0 +1,73 @@
+-- Threaded comments: replies point at their parent comment, and deleting a
+-- comment removes its whole reply subtree.
+alter table public.comments
+  add column if not exists parent_id uuid references public.comments(id) on delete cascade,
+  add column if not exists updated_at timestamptz;
+
+create index if not exists comments_post_id_created_at_idx
+  on public.comments (post_id, created_at);
+create index if not exists comments_parent_id_idx
+  on public.comments (parent_id);
+
+-- Keep posts.comments_count in step with the comments table
+create or replace function public.sync_post_comments_count()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    update posts set comments_count = coalesce(comments_count, 0) + 1
+    where id = new.post_id;
+  elsif tg_op = 'DELETE' then
+    update posts set comments_count = greatest(coalesce(comments_count, 0) - 1, 0)
+    where id = old.post_id;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists comments_count_sync on public.comments;
+create trigger comments_count_sync
+  after insert or delete on public.comments
+  for each row execute function public.sync_post_comments_count();
+
+-- Backfill any counts that have drifted
+update public.posts p
+set comments_count = (select count(*) from public.comments c where c.post_id = p.id);
+
+-- Row level security
+alter table public.comments enable row level security;
+
+drop policy if exists "Comments are readable by everyone" on public.comments;
+create policy "Comments are readable by everyone"
+  on public.comments for select
+  using (true);
+
+drop policy if exists "Users can comment as themselves" on public.comments;
+create policy "Users can comment as themselves"
+  on public.comments for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Authors can edit their comments" on public.comments;
+create policy "Authors can edit their comments"
+  on public.comments for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+drop policy if exists "Authors, post owners and admins can delete comments" on public.comments;
+create policy "Authors, post owners and admins can delete comments"
+  on public.comments for delete
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.posts where posts.id = comments.post_id and posts.user_id = auth.uid())
+    or exists (select 1 from public.profiles where profiles.id = auth.uid() and profiles.is_admin)
+  );
+
+-- Broadcast changes to the comment sheet; DELETE payloads need the old row
+alter table public.comments replica identity full;
+alter publication supabase_realtime add table public.comments;
@@ -0,0 +1,29 @@
+-- Follower / following social graph
+create table if not exists public.follows (
+  follower_id uuid not null references public.profiles(id) on delete cascade,
+  following_id uuid not null references public.profiles(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (follower_id, following_id),
+  constraint follows_no_self_follow check (follower_id <> following_id)
+);
+
+create index if not exists follows_following_id_idx on public.follows (following_id);
+
+alter table public.follows enable row level security;
+
+drop policy if exists "Follows are readable by everyone" on public.follows;
+create policy "Follows are readable by everyone"
+  on public.follows for select
+  using (true);
+
+drop policy if exists "Users can follow as themselves" on public.follows;
+create policy "Users can follow as themselves"
+  on public.follows for insert
+  to authenticated
+  with check (follower_id = auth.uid());
+
+drop policy if exists "Users can unfollow as themselves" on public.follows;
+create policy "Users can unfollow as themselves"
+  on public.follows for delete
+  to authenticated
+  using (follower_id = auth.uid());
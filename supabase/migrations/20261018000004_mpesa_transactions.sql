@@ -0,0 +1,58 @@
+-- M-Pesa STK push transactions and the purchases they unlock
+create table if not exists public.mpesa_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  phone_number text not null,
+  amount numeric not null,
+  status text not null default 'pending',
+  created_at timestamptz not null default now()
+);
+
+-- transaction_id holds the Daraja CheckoutRequestID used to match callbacks
+alter table public.mpesa_transactions
+  add column if not exists transaction_id text,
+  add column if not exists merchant_request_id text,
+  add column if not exists image_ids text[] not null default '{}',
+  add column if not exists description text,
+  add column if not exists result_code integer,
+  add column if not exists result_desc text,
+  add column if not exists mpesa_receipt_number text,
+  add column if not exists updated_at timestamptz not null default now();
+
+create unique index if not exists mpesa_transactions_transaction_id_key
+  on public.mpesa_transactions (transaction_id)
+  where transaction_id is not null;
+
+create index if not exists mpesa_transactions_user_id_idx
+  on public.mpesa_transactions (user_id, created_at desc);
+
+alter table public.mpesa_transactions enable row level security;
+
+-- Rows are written by the route handlers with the service role; users only read their own
+drop policy if exists "Users can read their own transactions" on public.mpesa_transactions;
+create policy "Users can read their own transactions"
+  on public.mpesa_transactions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create table if not exists public.user_purchases (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  image_id text not null,
+  status text not null default 'completed',
+  created_at timestamptz not null default now()
+);
+
+alter table public.user_purchases
+  add column if not exists transaction_id uuid references public.mpesa_transactions(id) on delete set null;
+
+create unique index if not exists user_purchases_user_image_key
+  on public.user_purchases (user_id, image_id);
+
+alter table public.user_purchases enable row level security;
+
+drop policy if exists "Users can read their own purchases" on public.user_purchases;
+create policy "Users can read their own purchases"
+  on public.user_purchases for select
+  to authenticated
+  using (user_id = auth.uid());
@@ -0,0 +1,3 @@
+-- Stream transaction updates so the Market screen can follow a payment live
+alter table public.mpesa_transactions replica identity full;
+alter publication supabase_realtime add table public.mpesa_transactions;
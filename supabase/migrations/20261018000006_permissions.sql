@@ -0,0 +1,247 @@
+-- Role-based permissions. profiles.user_type is the one role column
+-- ('admin' | 'photographer' | 'client'); is_admin follows it and role is no
+-- longer read. has_capability mirrors ROLE_CAPABILITIES in src/lib/permissions.ts
+-- and every policy below goes through it.
+
+-- Fold the three ways admin/photographer used to be recorded into user_type
+update public.profiles
+set user_type = case
+  when is_admin or lower(user_type) = 'admin' or lower(role) = 'admin' then 'admin'
+  when lower(user_type) = 'photographer' or lower(role) = 'photographer' then 'photographer'
+  else 'client'
+end;
+
+alter table public.profiles
+  alter column user_type set default 'client',
+  alter column user_type set not null;
+
+alter table public.profiles drop constraint if exists profiles_user_type_check;
+alter table public.profiles
+  add constraint profiles_user_type_check check (user_type in ('admin', 'photographer', 'client'));
+
+comment on column public.profiles.role is 'Deprecated: use user_type';
+comment on column public.profiles.is_admin is 'Derived from user_type by profiles_role_guard';
+
+create or replace function public.user_role(uid uuid default auth.uid())
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce((select user_type from profiles where id = uid), 'client');
+$$;
+
+create or replace function public.has_capability(capability text, uid uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select uid is not null and case capability
+    when 'canSendImages' then user_role(uid) in ('admin', 'photographer')
+    when 'canFeature' then user_role(uid) = 'admin'
+    when 'canBroadcast' then user_role(uid) = 'admin'
+    when 'canManageUsers' then user_role(uid) = 'admin'
+    when 'canModerate' then user_role(uid) = 'admin'
+    else false
+  end;
+$$;
+
+-- Only user managers may change a role, including their own. Requests made
+-- with the service role (no auth.uid()) are trusted.
+create or replace function public.guard_profile_role()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.user_type := lower(coalesce(new.user_type, 'client'));
+
+  if auth.uid() is not null and not has_capability('canManageUsers') then
+    if tg_op = 'INSERT' and new.user_type <> 'client' then
+      raise exception 'Only admins can assign roles' using errcode = '42501';
+    elsif tg_op = 'UPDATE' and new.user_type is distinct from old.user_type then
+      raise exception 'Only admins can change roles' using errcode = '42501';
+    end if;
+  end if;
+
+  new.is_admin := new.user_type = 'admin';
+  return new;
+end;
+$$;
+
+drop trigger if exists profiles_role_guard on public.profiles;
+create trigger profiles_role_guard
+  before insert or update on public.profiles
+  for each row execute function public.guard_profile_role();
+
+drop policy if exists "User managers can update any profile" on public.profiles;
+create policy "User managers can update any profile"
+  on public.profiles for update
+  to authenticated
+  using (public.has_capability('canManageUsers'))
+  with check (public.has_capability('canManageUsers'));
+
+-- Moderation: removing other people's posts, and what hangs off them
+
+drop policy if exists "Authors, post owners and admins can delete comments" on public.comments;
+drop policy if exists "Authors, post owners and moderators can delete comments" on public.comments;
+create policy "Authors, post owners and moderators can delete comments"
+  on public.comments for delete
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (select 1 from public.posts where posts.id = comments.post_id and posts.user_id = auth.uid())
+    or public.has_capability('canModerate')
+  );
+
+drop policy if exists "Moderators can delete any post" on public.posts;
+create policy "Moderators can delete any post"
+  on public.posts for delete
+  to authenticated
+  using (public.has_capability('canModerate'));
+
+drop policy if exists "Moderators can clear likes on any post" on public.post_likes;
+create policy "Moderators can clear likes on any post"
+  on public.post_likes for delete
+  to authenticated
+  using (public.has_capability('canModerate'));
+
+drop policy if exists "Moderators can clear bookmarks on any post" on public.bookmarks;
+create policy "Moderators can clear bookmarks on any post"
+  on public.bookmarks for delete
+  to authenticated
+  using (public.has_capability('canModerate'));
+
+-- Sent images: a photos row is a collection, images rows are its files
+
+alter table public.photos enable row level security;
+
+drop policy if exists "Senders and recipients can read their collections" on public.photos;
+create policy "Senders and recipients can read their collections"
+  on public.photos for select
+  to authenticated
+  using (sender_id = auth.uid() or recipient_id = auth.uid() or public.has_capability('canModerate'));
+
+drop policy if exists "Image senders can create collections" on public.photos;
+create policy "Image senders can create collections"
+  on public.photos for insert
+  to authenticated
+  with check (sender_id = auth.uid() and public.has_capability('canSendImages'));
+
+drop policy if exists "Senders and moderators can delete collections" on public.photos;
+create policy "Senders and moderators can delete collections"
+  on public.photos for delete
+  to authenticated
+  using (sender_id = auth.uid() or public.has_capability('canModerate'));
+
+alter table public.images enable row level security;
+
+drop policy if exists "Senders and recipients can read collection images" on public.images;
+create policy "Senders and recipients can read collection images"
+  on public.images for select
+  to authenticated
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = images.photo_id
+        and (photos.sender_id = auth.uid() or photos.recipient_id = auth.uid())
+    )
+    or public.has_capability('canModerate')
+  );
+
+drop policy if exists "Image senders can add to their collections" on public.images;
+create policy "Image senders can add to their collections"
+  on public.images for insert
+  to authenticated
+  with check (
+    public.has_capability('canSendImages')
+    and exists (select 1 from public.photos where photos.id = images.photo_id and photos.sender_id = auth.uid())
+  );
+
+-- Recipients may clear images out of their own collection
+drop policy if exists "Senders, recipients and moderators can delete images" on public.images;
+create policy "Senders, recipients and moderators can delete images"
+  on public.images for delete
+  to authenticated
+  using (
+    exists (
+      select 1 from public.photos
+      where photos.id = images.photo_id
+        and (photos.sender_id = auth.uid() or photos.recipient_id = auth.uid())
+    )
+    or public.has_capability('canModerate')
+  );
+
+-- Featured item
+
+alter table public.featured_items enable row level security;
+
+drop policy if exists "Featured items are readable by everyone" on public.featured_items;
+create policy "Featured items are readable by everyone"
+  on public.featured_items for select
+  using (true);
+
+drop policy if exists "Curators can manage featured items" on public.featured_items;
+create policy "Curators can manage featured items"
+  on public.featured_items for all
+  to authenticated
+  using (public.has_capability('canFeature'))
+  with check (public.has_capability('canFeature'));
+
+-- Broadcast notifications
+
+alter table public.notifications enable row level security;
+
+drop policy if exists "Notifications are readable by signed-in users" on public.notifications;
+create policy "Notifications are readable by signed-in users"
+  on public.notifications for select
+  to authenticated
+  using (true);
+
+drop policy if exists "Broadcasters can post notifications" on public.notifications;
+create policy "Broadcasters can post notifications"
+  on public.notifications for insert
+  to authenticated
+  with check (created_by = auth.uid() and public.has_capability('canBroadcast'));
+
+drop policy if exists "Broadcasters can edit their notifications" on public.notifications;
+create policy "Broadcasters can edit their notifications"
+  on public.notifications for update
+  to authenticated
+  using (created_by = auth.uid() and public.has_capability('canBroadcast'))
+  with check (created_by = auth.uid() and public.has_capability('canBroadcast'));
+
+drop policy if exists "Broadcasters and moderators can delete notifications" on public.notifications;
+create policy "Broadcasters and moderators can delete notifications"
+  on public.notifications for delete
+  to authenticated
+  using (
+    (created_by = auth.uid() and public.has_capability('canBroadcast'))
+    or public.has_capability('canModerate')
+  );
+
+alter table public.notification_reads enable row level security;
+
+drop policy if exists "Users can read their own notification receipts" on public.notification_reads;
+create policy "Users can read their own notification receipts"
+  on public.notification_reads for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can mark notifications read" on public.notification_reads;
+create policy "Users can mark notifications read"
+  on public.notification_reads for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+-- upsert on (notification_id, user_id) needs update as well
+drop policy if exists "Users can update their own notification receipts" on public.notification_reads;
+create policy "Users can update their own notification receipts"
+  on public.notification_reads for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,48 @@
+-- Private bucket for images attached to direct messages. Objects are stored
+-- under `<conversation_id>/<sender_id>/<attachment_id>/{full,thumb}`: both
+-- participants can read them, only the sender writes to their own folder.
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values (
+  'chat-attachments',
+  'chat-attachments',
+  false,
+  10485760,
+  array['image/jpeg', 'image/png', 'image/webp', 'image/gif']
+)
+on conflict (id) do nothing;
+
+drop policy if exists "Participants can read chat attachments" on storage.objects;
+create policy "Participants can read chat attachments"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and exists (
+      select 1 from public.conversations c
+      where c.id::text = (storage.foldername(name))[1]
+        and auth.uid() in (c.user1_id, c.user2_id)
+    )
+  );
+
+drop policy if exists "Participants can upload chat attachments" on storage.objects;
+create policy "Participants can upload chat attachments"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'chat-attachments'
+    and (storage.foldername(name))[2] = auth.uid()::text
+    and exists (
+      select 1 from public.conversations c
+      where c.id::text = (storage.foldername(name))[1]
+        and auth.uid() in (c.user1_id, c.user2_id)
+    )
+  );
+
+drop policy if exists "Senders can delete their chat attachments" on storage.objects;
+create policy "Senders can delete their chat attachments"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and (storage.foldername(name))[2] = auth.uid()::text
+  );
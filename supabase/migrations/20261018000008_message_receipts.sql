@@ -0,0 +1,98 @@
+-- Sent -> delivered -> read for each message. delivered_at is stamped once the
+-- recipient's app has fetched the message, read_at once they open the
+-- conversation; is_read is kept in step for older clients. Unread counts are
+-- derived from read_at rather than stored, so they can't drift.
+
+alter table public.messages
+  add column if not exists delivered_at timestamptz,
+  add column if not exists read_at timestamptz;
+
+update public.messages
+set read_at = coalesce(read_at, created_at),
+    delivered_at = coalesce(delivered_at, created_at)
+where is_read;
+
+create index if not exists messages_unread_by_receiver_idx
+  on public.messages (receiver_id, conversation_id)
+  where read_at is null;
+
+-- Receipts are written through these functions only: they touch nothing but
+-- the caller's incoming messages
+create or replace function public.mark_messages_delivered(p_conversation_id uuid default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update messages
+  set delivered_at = now()
+  where receiver_id = auth.uid()
+    and delivered_at is null
+    and (p_conversation_id is null or conversation_id = p_conversation_id);
+$$;
+
+create or replace function public.mark_conversation_read(p_conversation_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update messages
+  set read_at = now(),
+      delivered_at = coalesce(delivered_at, now()),
+      is_read = true
+  where receiver_id = auth.uid()
+    and conversation_id = p_conversation_id
+    and read_at is null;
+$$;
+
+create or replace function public.unread_message_count()
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer from messages where receiver_id = auth.uid() and read_at is null;
+$$;
+
+drop view if exists public.conversations_with_details;
+create view public.conversations_with_details
+with (security_invoker = true)
+as
+select
+  c.id,
+  c.user1_id,
+  c.user2_id,
+  c.created_at,
+  c.last_message,
+  c.last_message_at,
+  p1.display_name as user1_display_name,
+  p1.username as user1_username,
+  p1.avatar_url as user1_avatar_url,
+  p2.display_name as user2_display_name,
+  p2.username as user2_username,
+  p2.avatar_url as user2_avatar_url,
+  (
+    select count(*)::integer from public.messages m
+    where m.conversation_id = c.id and m.receiver_id = c.user1_id and m.read_at is null
+  ) as user1_unread_count,
+  (
+    select count(*)::integer from public.messages m
+    where m.conversation_id = c.id and m.receiver_id = c.user2_id and m.read_at is null
+  ) as user2_unread_count
+from public.conversations c
+left join public.profiles p1 on p1.id = c.user1_id
+left join public.profiles p2 on p2.id = c.user2_id;
+
+-- Receipt updates reach the sender over the conversation's realtime channel
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'messages'
+  ) then
+    alter publication supabase_realtime add table public.messages;
+  end if;
+end;
+$$;
@@ -0,0 +1,12 @@
+-- When each user was last active. Who is online right now lives in the
+-- realtime presence channel; this is what's shown once they leave it.
+alter table public.profiles add column if not exists last_seen_at timestamptz;
+
+create or replace function public.touch_last_seen()
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update profiles set last_seen_at = now() where id = auth.uid();
+$$;
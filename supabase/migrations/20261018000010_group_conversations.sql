@@ -0,0 +1,391 @@
+-- Conversations get a participants table so they can have more than two
+-- members. Direct chats keep user1_id/user2_id (smaller id first) as their
+-- lookup key and get their two participant rows from a trigger; groups have a
+-- title, an avatar and per-member roles. Reading state moves onto the
+-- participant row (last_read_at / last_delivered_at), which is what unread
+-- counts and group receipts are derived from. messages.receiver_id is only
+-- set in direct chats.
+
+alter table public.conversations
+  add column if not exists is_group boolean not null default false,
+  add column if not exists title text,
+  add column if not exists avatar_url text,
+  add column if not exists created_by uuid references public.profiles (id) on delete set null;
+
+alter table public.conversations
+  alter column user1_id drop not null,
+  alter column user2_id drop not null;
+
+alter table public.conversations drop constraint if exists conversations_shape_check;
+alter table public.conversations
+  add constraint conversations_shape_check check (
+    (is_group and user1_id is null and user2_id is null and coalesce(trim(title), '') <> '')
+    or (not is_group and user1_id is not null and user2_id is not null)
+  );
+
+alter table public.messages alter column receiver_id drop not null;
+
+create table if not exists public.conversation_participants (
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  role text not null default 'member' check (role in ('admin', 'member')),
+  joined_at timestamptz not null default now(),
+  last_read_at timestamptz,
+  last_delivered_at timestamptz,
+  primary key (conversation_id, user_id)
+);
+
+create index if not exists conversation_participants_user_idx
+  on public.conversation_participants (user_id);
+
+-- Existing direct chats: read up to just before the oldest message still unread
+insert into public.conversation_participants (conversation_id, user_id, joined_at, last_read_at, last_delivered_at)
+select c.id, p.user_id, c.created_at, r.read_until, r.read_until
+from public.conversations c
+cross join lateral (values (c.user1_id), (c.user2_id)) as p (user_id)
+cross join lateral (
+  select coalesce(
+    (
+      select min(m.created_at) - interval '1 microsecond' from public.messages m
+      where m.conversation_id = c.id and m.receiver_id = p.user_id and m.read_at is null
+    ),
+    now()
+  ) as read_until
+) as r
+where not c.is_group and p.user_id is not null
+on conflict do nothing;
+
+create or replace function public.is_conversation_member(p_conversation_id uuid, uid uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from conversation_participants
+    where conversation_id = p_conversation_id and user_id = uid
+  );
+$$;
+
+create or replace function public.is_conversation_admin(p_conversation_id uuid, uid uuid default auth.uid())
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from conversation_participants
+    where conversation_id = p_conversation_id and user_id = uid and role = 'admin'
+  );
+$$;
+
+create or replace function public.add_direct_participants()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not new.is_group then
+    insert into conversation_participants (conversation_id, user_id)
+    values (new.id, new.user1_id), (new.id, new.user2_id)
+    on conflict do nothing;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists conversations_add_direct_participants on public.conversations;
+create trigger conversations_add_direct_participants
+  after insert on public.conversations
+  for each row execute function public.add_direct_participants();
+
+-- A group never loses its last admin: the longest-standing member takes over
+create or replace function public.keep_group_admin()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if exists (select 1 from conversations where id = old.conversation_id and is_group)
+    and not exists (
+      select 1 from conversation_participants
+      where conversation_id = old.conversation_id and role = 'admin'
+    ) then
+    update conversation_participants
+    set role = 'admin'
+    where (conversation_id, user_id) = (
+      select conversation_id, user_id from conversation_participants
+      where conversation_id = old.conversation_id
+      order by joined_at
+      limit 1
+    );
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists conversation_participants_keep_admin on public.conversation_participants;
+create trigger conversation_participants_keep_admin
+  after delete or update of role on public.conversation_participants
+  for each row execute function public.keep_group_admin();
+
+-- Groups are created through this so the creator is already an admin when
+-- the row is first read back
+create or replace function public.create_group_conversation(
+  p_title text,
+  p_member_ids uuid[],
+  p_avatar_url text default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  new_id uuid;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  insert into conversations (is_group, title, avatar_url, created_by, last_message_at)
+  values (true, trim(p_title), p_avatar_url, auth.uid(), now())
+  returning id into new_id;
+
+  insert into conversation_participants (conversation_id, user_id, role)
+  values (new_id, auth.uid(), 'admin');
+
+  insert into conversation_participants (conversation_id, user_id)
+  select new_id, member_id from unnest(p_member_ids) as member_id
+  where member_id <> auth.uid()
+  on conflict do nothing;
+
+  return new_id;
+end;
+$$;
+
+-- Receipts now also move the caller's participant row
+
+create or replace function public.mark_messages_delivered(p_conversation_id uuid default null)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update messages
+  set delivered_at = now()
+  where receiver_id = auth.uid()
+    and delivered_at is null
+    and (p_conversation_id is null or conversation_id = p_conversation_id);
+
+  -- Only rows with something new, so listeners on this table don't loop
+  update conversation_participants p
+  set last_delivered_at = now()
+  where p.user_id = auth.uid()
+    and (p_conversation_id is null or p.conversation_id = p_conversation_id)
+    and exists (
+      select 1 from messages m
+      where m.conversation_id = p.conversation_id
+        and m.sender_id <> p.user_id
+        and m.created_at > coalesce(p.last_delivered_at, '-infinity'::timestamptz)
+    );
+$$;
+
+create or replace function public.mark_conversation_read(p_conversation_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update messages
+  set read_at = now(),
+      delivered_at = coalesce(delivered_at, now()),
+      is_read = true
+  where receiver_id = auth.uid()
+    and conversation_id = p_conversation_id
+    and read_at is null;
+
+  update conversation_participants p
+  set last_read_at = now(),
+      last_delivered_at = now()
+  where p.user_id = auth.uid()
+    and p.conversation_id = p_conversation_id
+    and exists (
+      select 1 from messages m
+      where m.conversation_id = p.conversation_id
+        and m.sender_id <> p.user_id
+        and m.created_at > coalesce(p.last_read_at, '-infinity'::timestamptz)
+    );
+$$;
+
+create or replace function public.unread_message_count()
+returns integer
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select count(*)::integer
+  from conversation_participants p
+  join messages m on m.conversation_id = p.conversation_id
+  where p.user_id = auth.uid()
+    and m.sender_id <> p.user_id
+    and m.created_at > coalesce(p.last_read_at, '-infinity'::timestamptz);
+$$;
+
+-- One row per conversation the caller belongs to. For direct chats title and
+-- avatar are the other person's.
+drop view if exists public.conversations_with_details;
+drop view if exists public.conversation_summaries;
+create view public.conversation_summaries
+with (security_invoker = true)
+as
+select
+  c.id,
+  c.is_group,
+  case when c.is_group then c.title else coalesce(op.display_name, op.full_name, op.username) end as title,
+  case when c.is_group then c.avatar_url else op.avatar_url end as avatar_url,
+  op.id as other_user_id,
+  (select count(*)::integer from public.conversation_participants x where x.conversation_id = c.id) as member_count,
+  me.role as my_role,
+  (
+    select count(*)::integer from public.messages m
+    where m.conversation_id = c.id
+      and m.sender_id <> me.user_id
+      and m.created_at > coalesce(me.last_read_at, '-infinity'::timestamptz)
+  ) as unread_count,
+  c.last_message,
+  c.last_message_at,
+  c.created_at
+from public.conversations c
+join public.conversation_participants me on me.conversation_id = c.id and me.user_id = auth.uid()
+left join public.conversation_participants other
+  on not c.is_group and other.conversation_id = c.id and other.user_id <> me.user_id
+left join public.profiles op on op.id = other.user_id;
+
+-- Access
+
+alter table public.conversation_participants enable row level security;
+
+drop policy if exists "Members can see who is in their conversations" on public.conversation_participants;
+create policy "Members can see who is in their conversations"
+  on public.conversation_participants for select
+  to authenticated
+  using (public.is_conversation_member(conversation_id));
+
+drop policy if exists "Group admins can add members" on public.conversation_participants;
+create policy "Group admins can add members"
+  on public.conversation_participants for insert
+  to authenticated
+  with check (
+    role = 'member'
+    and public.is_conversation_admin(conversation_id)
+    and exists (select 1 from public.conversations c where c.id = conversation_id and c.is_group)
+  );
+
+drop policy if exists "Group admins can change member roles" on public.conversation_participants;
+create policy "Group admins can change member roles"
+  on public.conversation_participants for update
+  to authenticated
+  using (public.is_conversation_admin(conversation_id))
+  with check (public.is_conversation_admin(conversation_id));
+
+drop policy if exists "Members can leave and admins can remove members" on public.conversation_participants;
+create policy "Members can leave and admins can remove members"
+  on public.conversation_participants for delete
+  to authenticated
+  using (
+    exists (select 1 from public.conversations c where c.id = conversation_id and c.is_group)
+    and (user_id = auth.uid() or public.is_conversation_admin(conversation_id))
+  );
+
+drop policy if exists "Members can read their conversations" on public.conversations;
+create policy "Members can read their conversations"
+  on public.conversations for select
+  to authenticated
+  using (public.is_conversation_member(id));
+
+drop policy if exists "Group admins can edit group details" on public.conversations;
+create policy "Group admins can edit group details"
+  on public.conversations for update
+  to authenticated
+  using (is_group and public.is_conversation_admin(id))
+  with check (is_group and public.is_conversation_admin(id));
+
+drop policy if exists "Members can read conversation messages" on public.messages;
+create policy "Members can read conversation messages"
+  on public.messages for select
+  to authenticated
+  using (public.is_conversation_member(conversation_id));
+
+drop policy if exists "Members can send to their conversations" on public.messages;
+create policy "Members can send to their conversations"
+  on public.messages for insert
+  to authenticated
+  with check (sender_id = auth.uid() and public.is_conversation_member(conversation_id));
+
+-- Chat attachments follow conversation membership rather than the two user columns
+
+drop policy if exists "Participants can read chat attachments" on storage.objects;
+create policy "Participants can read chat attachments"
+  on storage.objects for select
+  to authenticated
+  using (
+    bucket_id = 'chat-attachments'
+    and public.is_conversation_member(((storage.foldername(name))[1])::uuid)
+  );
+
+drop policy if exists "Participants can upload chat attachments" on storage.objects;
+create policy "Participants can upload chat attachments"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'chat-attachments'
+    and (storage.foldername(name))[2] = auth.uid()::text
+    and public.is_conversation_member(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Group avatars: public like profile pictures, stored under
+-- `<conversation_id>/<file>` and written only by that group's admins
+insert into storage.buckets (id, name, public)
+values ('group-avatars', 'group-avatars', true)
+on conflict (id) do nothing;
+
+drop policy if exists "Group avatars are publicly readable" on storage.objects;
+create policy "Group avatars are publicly readable"
+  on storage.objects for select
+  using (bucket_id = 'group-avatars');
+
+drop policy if exists "Group admins can upload group avatars" on storage.objects;
+create policy "Group admins can upload group avatars"
+  on storage.objects for insert
+  to authenticated
+  with check (
+    bucket_id = 'group-avatars'
+    and public.is_conversation_admin(((storage.foldername(name))[1])::uuid)
+  );
+
+drop policy if exists "Group admins can delete group avatars" on storage.objects;
+create policy "Group admins can delete group avatars"
+  on storage.objects for delete
+  to authenticated
+  using (
+    bucket_id = 'group-avatars'
+    and public.is_conversation_admin(((storage.foldername(name))[1])::uuid)
+  );
+
+-- Group receipts reach senders as participant rows change
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'conversation_participants'
+  ) then
+    alter publication supabase_realtime add table public.conversation_participants;
+  end if;
+end;
+$$;
@@ -0,0 +1,46 @@
+-- Full-text search over the messages a user can read. The 'simple'
+-- configuration keeps every word as typed (no stemming or stop words), which
+-- suits short chat messages written in more than one language.
+
+create index if not exists messages_content_search_idx
+  on public.messages using gin (to_tsvector('simple', content));
+
+-- Every word in the query must appear, the last ones as prefixes so results
+-- show up while the user is still typing. Runs as the caller, so the messages
+-- policies limit it to their own conversations. Snippets wrap matches in
+-- <mark></mark>.
+create or replace function public.search_messages(p_query text, p_limit integer default 30)
+returns table (
+  message_id uuid,
+  conversation_id uuid,
+  sender_id uuid,
+  created_at timestamptz,
+  snippet text
+)
+language sql
+stable
+set search_path = public
+as $$
+  with q as (
+    select to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & ')) as query
+    from regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') as term
+    where term <> ''
+  )
+  select
+    m.id,
+    m.conversation_id,
+    m.sender_id,
+    m.created_at,
+    ts_headline(
+      'simple',
+      m.content,
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MinWords=6, MaxWords=18, ShortWord=1, MaxFragments=1'
+    )
+  from messages m
+  cross join q
+  where q.query is not null
+    and to_tsvector('simple', m.content) @@ q.query
+  order by m.created_at desc
+  limit least(greatest(coalesce(p_limit, 30), 1), 100);
+$$;
@@ -0,0 +1,53 @@
+-- Emoji reactions, one row per user per emoji per message. conversation_id is
+-- copied from the message so a chat can subscribe to just its own reactions;
+-- removals are matched on the primary key, which delete events always carry.
+
+create table if not exists public.message_reactions (
+  message_id uuid not null references public.messages (id) on delete cascade,
+  conversation_id uuid not null references public.conversations (id) on delete cascade,
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  emoji text not null check (char_length(emoji) between 1 and 16),
+  created_at timestamptz not null default now(),
+  primary key (message_id, user_id, emoji)
+);
+
+create index if not exists message_reactions_conversation_idx
+  on public.message_reactions (conversation_id);
+
+alter table public.message_reactions enable row level security;
+
+drop policy if exists "Members can see reactions in their conversations" on public.message_reactions;
+create policy "Members can see reactions in their conversations"
+  on public.message_reactions for select
+  to authenticated
+  using (public.is_conversation_member(conversation_id));
+
+drop policy if exists "Members can react to messages" on public.message_reactions;
+create policy "Members can react to messages"
+  on public.message_reactions for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and public.is_conversation_member(conversation_id)
+    and exists (
+      select 1 from public.messages m
+      where m.id = message_id and m.conversation_id = message_reactions.conversation_id
+    )
+  );
+
+drop policy if exists "Users can remove their own reactions" on public.message_reactions;
+create policy "Users can remove their own reactions"
+  on public.message_reactions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'message_reactions'
+  ) then
+    alter publication supabase_realtime add table public.message_reactions;
+  end if;
+end;
+$$;
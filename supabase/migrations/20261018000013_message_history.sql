@@ -0,0 +1,204 @@
+-- Edits keep their earlier wording in message_revisions and mark the message
+-- edited. Deleting for everyone leaves a tombstone (deleted_at set, content
+-- and attachments emptied) instead of removing the row; deleting for yourself
+-- hides a message, or everything up to a point in a conversation, from you
+-- alone. Quotes in replies follow the message they quote.
+
+alter table public.messages
+  add column if not exists edited_at timestamptz,
+  add column if not exists deleted_at timestamptz;
+
+alter table public.conversation_participants
+  add column if not exists cleared_at timestamptz;
+
+create table if not exists public.message_revisions (
+  id uuid primary key default gen_random_uuid(),
+  message_id uuid not null references public.messages (id) on delete cascade,
+  content text not null,
+  -- When this wording was replaced
+  created_at timestamptz not null default now()
+);
+
+create index if not exists message_revisions_message_idx
+  on public.message_revisions (message_id, created_at);
+
+create table if not exists public.hidden_messages (
+  user_id uuid not null references public.profiles (id) on delete cascade,
+  message_id uuid not null references public.messages (id) on delete cascade,
+  hidden_at timestamptz not null default now(),
+  primary key (user_id, message_id)
+);
+
+-- Edits
+
+create or replace function public.record_message_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into message_revisions (message_id, content)
+  values (old.id, old.content);
+
+  new.edited_at := now();
+
+  update messages
+  set reply_to_content = new.content
+  where reply_to_id = new.id;
+
+  update conversations
+  set last_message = left(new.content, 100)
+  where id = new.conversation_id and last_message_at = new.created_at;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_record_revision on public.messages;
+create trigger messages_record_revision
+  before update of content on public.messages
+  for each row
+  when (old.content is distinct from new.content and new.deleted_at is null)
+  execute function public.record_message_revision();
+
+-- Deleting
+
+-- Only the sender can; attachments are removed from storage by the app
+create or replace function public.delete_message_for_everyone(p_message_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  deleted messages%rowtype;
+begin
+  update messages
+  set deleted_at = now(),
+      content = '',
+      images = null,
+      reply_to_id = null,
+      reply_to_content = null
+  where id = p_message_id
+    and sender_id = auth.uid()
+    and deleted_at is null
+  returning * into deleted;
+
+  if not found then
+    raise exception 'Message not found' using errcode = 'P0002';
+  end if;
+
+  delete from message_revisions where message_id = p_message_id;
+  delete from message_reactions where message_id = p_message_id;
+
+  update messages set reply_to_content = null where reply_to_id = p_message_id;
+
+  update conversations
+  set last_message = 'This message was deleted'
+  where id = deleted.conversation_id and last_message_at = deleted.created_at;
+end;
+$$;
+
+-- Hides everything in the conversation so far from the caller only. The
+-- conversation comes back to their inbox with the next message.
+create or replace function public.clear_conversation(p_conversation_id uuid)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update conversation_participants
+  set cleared_at = now(),
+      last_read_at = now(),
+      last_delivered_at = now()
+  where conversation_id = p_conversation_id
+    and user_id = auth.uid();
+$$;
+
+create or replace function public.can_see_message(p_message_id uuid, p_conversation_id uuid, p_created_at timestamptz)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+      select 1 from conversation_participants
+      where conversation_id = p_conversation_id
+        and user_id = auth.uid()
+        and (cleared_at is null or p_created_at > cleared_at)
+    )
+    and not exists (
+      select 1 from hidden_messages
+      where message_id = p_message_id and user_id = auth.uid()
+    );
+$$;
+
+-- Cleared conversations drop out of the inbox until something new arrives
+create or replace view public.conversation_summaries
+with (security_invoker = true)
+as
+select
+  c.id,
+  c.is_group,
+  case when c.is_group then c.title else coalesce(op.display_name, op.full_name, op.username) end as title,
+  case when c.is_group then c.avatar_url else op.avatar_url end as avatar_url,
+  op.id as other_user_id,
+  (select count(*)::integer from public.conversation_participants x where x.conversation_id = c.id) as member_count,
+  me.role as my_role,
+  (
+    select count(*)::integer from public.messages m
+    where m.conversation_id = c.id
+      and m.sender_id <> me.user_id
+      and m.created_at > coalesce(me.last_read_at, '-infinity'::timestamptz)
+  ) as unread_count,
+  c.last_message,
+  c.last_message_at,
+  c.created_at
+from public.conversations c
+join public.conversation_participants me on me.conversation_id = c.id and me.user_id = auth.uid()
+left join public.conversation_participants other
+  on not c.is_group and other.conversation_id = c.id and other.user_id <> me.user_id
+left join public.profiles op on op.id = other.user_id
+where me.cleared_at is null or c.last_message_at > me.cleared_at;
+
+-- Access
+
+drop policy if exists "Members can read conversation messages" on public.messages;
+create policy "Members can read conversation messages"
+  on public.messages for select
+  to authenticated
+  using (public.can_see_message(id, conversation_id, created_at));
+
+drop policy if exists "Senders can edit their messages" on public.messages;
+create policy "Senders can edit their messages"
+  on public.messages for update
+  to authenticated
+  using (sender_id = auth.uid() and deleted_at is null)
+  with check (sender_id = auth.uid() and deleted_at is null);
+
+alter table public.message_revisions enable row level security;
+
+drop policy if exists "Members can read edit history" on public.message_revisions;
+create policy "Members can read edit history"
+  on public.message_revisions for select
+  to authenticated
+  using (exists (select 1 from public.messages m where m.id = message_id));
+
+alter table public.hidden_messages enable row level security;
+
+drop policy if exists "Users can see what they have hidden" on public.hidden_messages;
+create policy "Users can see what they have hidden"
+  on public.hidden_messages for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can hide messages for themselves" on public.hidden_messages;
+create policy "Users can hide messages for themselves"
+  on public.hidden_messages for insert
+  to authenticated
+  with check (
+    user_id = auth.uid()
+    and exists (select 1 from public.messages m where m.id = message_id)
+  );
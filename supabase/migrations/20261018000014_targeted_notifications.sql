@@ -0,0 +1,182 @@
+-- Targeted and scheduled notifications. A notification goes to everyone, to
+-- one role, to verified users, or to a hand-picked list kept in
+-- notification_recipients. It reaches its audience at deliver_at and drops
+-- out again at expires_at. Until then only its author (and moderators, who
+-- may delete it) can see it.
+
+alter table public.notifications
+  add column if not exists audience text not null default 'everyone',
+  add column if not exists audience_role text,
+  add column if not exists deliver_at timestamptz not null default now(),
+  add column if not exists expires_at timestamptz;
+
+-- Rows written before scheduling existed were delivered when they were posted
+update public.notifications set deliver_at = created_at where deliver_at > created_at;
+
+alter table public.notifications drop constraint if exists notifications_audience_check;
+alter table public.notifications
+  add constraint notifications_audience_check check (
+    audience in ('everyone', 'role', 'verified', 'users')
+    and (audience = 'role') = (audience_role is not null)
+    and (audience_role is null or audience_role in ('admin', 'photographer', 'client'))
+  );
+
+alter table public.notifications drop constraint if exists notifications_expiry_check;
+alter table public.notifications
+  add constraint notifications_expiry_check check (expires_at is null or expires_at > deliver_at);
+
+create index if not exists notifications_deliver_at_idx on public.notifications (deliver_at desc);
+
+create table if not exists public.notification_recipients (
+  notification_id uuid not null references public.notifications(id) on delete cascade,
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  primary key (notification_id, user_id)
+);
+
+create index if not exists notification_recipients_user_idx on public.notification_recipients (user_id);
+
+-- Whether `uid` is in the notification's audience, regardless of timing
+create or replace function public.is_notification_recipient(
+  p_notification_id uuid,
+  p_audience text,
+  p_audience_role text,
+  uid uuid default auth.uid()
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select uid is not null and case p_audience
+    when 'everyone' then true
+    when 'role' then user_role(uid) = p_audience_role
+    when 'verified' then coalesce((select is_verified from profiles where id = uid), false)
+    when 'users' then exists (
+      select 1 from notification_recipients
+      where notification_id = p_notification_id and user_id = uid
+    )
+    else false
+  end;
+$$;
+
+-- Posts a notification and its recipient list in one go, so nobody on the
+-- list gets the realtime insert before they can read the row
+create or replace function public.create_notification(
+  p_message text,
+  p_audience text default 'everyone',
+  p_audience_role text default null,
+  p_recipient_ids uuid[] default null,
+  p_deliver_at timestamptz default null,
+  p_expires_at timestamptz default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  if not has_capability('canBroadcast') then
+    raise exception 'Only admins can send notifications' using errcode = '42501';
+  end if;
+
+  if p_audience = 'users' and coalesce(array_length(p_recipient_ids, 1), 0) = 0 then
+    raise exception 'Choose at least one recipient' using errcode = '22023';
+  end if;
+
+  insert into notifications (message, created_by, audience, audience_role, deliver_at, expires_at)
+  values (
+    p_message,
+    auth.uid(),
+    p_audience,
+    case when p_audience = 'role' then p_audience_role end,
+    coalesce(p_deliver_at, now()),
+    p_expires_at
+  )
+  returning id into v_id;
+
+  if p_audience = 'users' then
+    insert into notification_recipients (notification_id, user_id)
+    select v_id, unnest(p_recipient_ids)
+    on conflict do nothing;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+-- The next time something the current user can see will be delivered or
+-- expire. Realtime only reports writes, so clients refresh themselves then.
+create or replace function public.next_notification_change()
+returns timestamptz
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select min(t)
+  from notifications n
+  cross join lateral (values (n.deliver_at), (n.expires_at)) as change(t)
+  where change.t > now()
+    and is_notification_recipient(n.id, n.audience, n.audience_role);
+$$;
+
+-- What the current user can see, with whether it is addressed to them and
+-- whether they have read it. Authors see what they sent through here too,
+-- with is_for_me false unless they are also in the audience.
+create or replace view public.notification_feed
+with (security_invoker = true)
+as
+select
+  n.id,
+  n.message,
+  n.created_at,
+  n.created_by,
+  n.audience,
+  n.audience_role,
+  n.deliver_at,
+  n.expires_at,
+  (
+    n.deliver_at <= now()
+    and (n.expires_at is null or n.expires_at > now())
+    and public.is_notification_recipient(n.id, n.audience, n.audience_role)
+  ) as is_for_me,
+  exists (
+    select 1 from public.notification_reads r
+    where r.notification_id = n.id and r.user_id = auth.uid()
+  ) as is_read,
+  case when n.audience = 'users' then (
+    select count(*) from public.notification_recipients nr where nr.notification_id = n.id
+  ) end as recipient_count
+from public.notifications n;
+
+drop policy if exists "Notifications are readable by signed-in users" on public.notifications;
+drop policy if exists "Recipients and authors can read notifications" on public.notifications;
+create policy "Recipients and authors can read notifications"
+  on public.notifications for select
+  to authenticated
+  using (
+    (
+      deliver_at <= now()
+      and (expires_at is null or expires_at > now())
+      and public.is_notification_recipient(id, audience, audience_role)
+    )
+    or (created_by = auth.uid() and public.has_capability('canBroadcast'))
+    or public.has_capability('canModerate')
+  );
+
+alter table public.notification_recipients enable row level security;
+
+drop policy if exists "Recipients and authors can read recipient lists" on public.notification_recipients;
+create policy "Recipients and authors can read recipient lists"
+  on public.notification_recipients for select
+  to authenticated
+  using (
+    user_id = auth.uid()
+    or exists (
+      select 1 from public.notifications n
+      where n.id = notification_id and n.created_by = auth.uid()
+    )
+  );
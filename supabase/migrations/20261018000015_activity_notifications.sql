@@ -0,0 +1,234 @@
+-- Activity notifications: "<actor> <verb> your <target>", written by triggers
+-- on the tables where the activity happens so every client (and the image
+-- backend, which inserts photos directly) produces them the same way. Undoing
+-- a like, bookmark or follow takes its notification back. Nobody is notified
+-- about their own activity.
+
+create table if not exists public.activity_notifications (
+  id uuid primary key default gen_random_uuid(),
+  recipient_id uuid not null references public.profiles(id) on delete cascade,
+  actor_id uuid not null references public.profiles(id) on delete cascade,
+  verb text not null check (verb in ('like', 'bookmark', 'comment', 'reply', 'follow', 'purchase', 'send_images')),
+  -- post for like/bookmark/comment/reply, profile (the recipient) for follow,
+  -- photo (the sent collection) for purchase/send_images
+  target_type text not null check (target_type in ('post', 'profile', 'photo')),
+  target_id uuid not null,
+  -- The comment for comment/reply, the image for purchase
+  source_id uuid,
+  -- Comment excerpt
+  preview text,
+  thumbnail_url text,
+  created_at timestamptz not null default now(),
+  read_at timestamptz
+);
+
+create index if not exists activity_notifications_recipient_idx
+  on public.activity_notifications (recipient_id, created_at desc);
+
+-- One per actor for toggles, so like/unlike/like doesn't stack up
+create unique index if not exists activity_notifications_toggle_key
+  on public.activity_notifications (recipient_id, actor_id, verb, target_id)
+  where verb in ('like', 'bookmark', 'follow');
+
+create or replace function public.notify_activity(
+  p_recipient_id uuid,
+  p_actor_id uuid,
+  p_verb text,
+  p_target_type text,
+  p_target_id uuid,
+  p_source_id uuid default null,
+  p_preview text default null,
+  p_thumbnail_url text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if p_recipient_id is null or p_recipient_id = p_actor_id then
+    return;
+  end if;
+
+  if p_verb in ('like', 'bookmark', 'follow') then
+    insert into activity_notifications (recipient_id, actor_id, verb, target_type, target_id, thumbnail_url)
+    values (p_recipient_id, p_actor_id, p_verb, p_target_type, p_target_id, p_thumbnail_url)
+    on conflict (recipient_id, actor_id, verb, target_id) where verb in ('like', 'bookmark', 'follow')
+    do nothing;
+  else
+    insert into activity_notifications (recipient_id, actor_id, verb, target_type, target_id, source_id, preview, thumbnail_url)
+    values (p_recipient_id, p_actor_id, p_verb, p_target_type, p_target_id, p_source_id, p_preview, p_thumbnail_url);
+  end if;
+end;
+$$;
+
+create or replace function public.notify_post_reaction()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_verb text := case tg_table_name when 'post_likes' then 'like' else 'bookmark' end;
+begin
+  if tg_op = 'DELETE' then
+    delete from activity_notifications
+    where actor_id = old.user_id and verb = v_verb and target_id = old.post_id;
+    return old;
+  end if;
+
+  perform notify_activity(p.user_id, new.user_id, v_verb, 'post', p.id, null, null, p.images[1])
+  from posts p
+  where p.id = new.post_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists post_likes_notify on public.post_likes;
+create trigger post_likes_notify
+  after insert or delete on public.post_likes
+  for each row execute function public.notify_post_reaction();
+
+drop trigger if exists bookmarks_notify on public.bookmarks;
+create trigger bookmarks_notify
+  after insert or delete on public.bookmarks
+  for each row execute function public.notify_post_reaction();
+
+-- The post's author hears about every comment; whoever was replied to hears
+-- about the reply instead, unless they are the author anyway
+create or replace function public.notify_comment()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_post posts%rowtype;
+  v_parent_author uuid;
+  v_preview text := left(new.content, 140);
+begin
+  if tg_op = 'DELETE' then
+    delete from activity_notifications where source_id = old.id and verb in ('comment', 'reply');
+    return old;
+  end if;
+
+  select * into v_post from posts where id = new.post_id;
+  if not found then
+    return new;
+  end if;
+
+  if new.parent_id is not null then
+    select user_id into v_parent_author from comments where id = new.parent_id;
+  end if;
+
+  perform notify_activity(v_post.user_id, new.user_id, 'comment', 'post', v_post.id, new.id, v_preview, v_post.images[1]);
+
+  if v_parent_author is distinct from v_post.user_id then
+    perform notify_activity(v_parent_author, new.user_id, 'reply', 'post', v_post.id, new.id, v_preview, v_post.images[1]);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_notify on public.comments;
+create trigger comments_notify
+  after insert or delete on public.comments
+  for each row execute function public.notify_comment();
+
+create or replace function public.notify_follow()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    delete from activity_notifications
+    where actor_id = old.follower_id and verb = 'follow' and target_id = old.following_id;
+    return old;
+  end if;
+
+  perform notify_activity(new.following_id, new.follower_id, 'follow', 'profile', new.following_id);
+  return new;
+end;
+$$;
+
+drop trigger if exists follows_notify on public.follows;
+create trigger follows_notify
+  after insert or delete on public.follows
+  for each row execute function public.notify_follow();
+
+-- The photographer who sent the image hears about each completed purchase
+create or replace function public.notify_purchase()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'completed' then
+    return new;
+  end if;
+
+  perform notify_activity(ph.sender_id, new.user_id, 'purchase', 'photo', ph.id, i.id, null, i.image_url)
+  from images i
+  join photos ph on ph.id = i.photo_id
+  where i.id::text = new.image_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_purchases_notify on public.user_purchases;
+create trigger user_purchases_notify
+  after insert on public.user_purchases
+  for each row execute function public.notify_purchase();
+
+-- No thumbnail: the images may not be paid for yet
+create or replace function public.notify_photos_sent()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform notify_activity(new.recipient_id, new.sender_id, 'send_images', 'photo', new.id, null, new.title);
+  return new;
+end;
+$$;
+
+drop trigger if exists photos_notify on public.photos;
+create trigger photos_notify
+  after insert on public.photos
+  for each row execute function public.notify_photos_sent();
+
+alter table public.activity_notifications enable row level security;
+
+drop policy if exists "Users can read their activity" on public.activity_notifications;
+create policy "Users can read their activity"
+  on public.activity_notifications for select
+  to authenticated
+  using (recipient_id = auth.uid());
+
+drop policy if exists "Users can mark their activity read" on public.activity_notifications;
+create policy "Users can mark their activity read"
+  on public.activity_notifications for update
+  to authenticated
+  using (recipient_id = auth.uid())
+  with check (recipient_id = auth.uid());
+
+drop policy if exists "Users can clear their activity" on public.activity_notifications;
+create policy "Users can clear their activity"
+  on public.activity_notifications for delete
+  to authenticated
+  using (recipient_id = auth.uid());
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'activity_notifications'
+  ) then
+    alter publication supabase_realtime add table public.activity_notifications;
+  end if;
+end;
+$$;
@@ -0,0 +1,292 @@
+-- Web Push. Each browser that opted in has a push_subscriptions row. Triggers
+-- on the tables where things happen queue one row per recipient, and
+-- /api/notifications/dispatch drains notification_queue with the service
+-- role. Nothing is queued for users with no subscriptions or with the
+-- category switched off.
+--
+-- *_notification_preferences.sql moves the per-category switches created here
+-- (push_preferences) into notification_preferences, renames push_queue to
+-- notification_queue and replaces the enqueue functions, so the names below
+-- only last until then.
+
+create table if not exists public.push_subscriptions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  endpoint text not null unique,
+  p256dh text not null,
+  auth text not null,
+  user_agent text,
+  created_at timestamptz not null default now(),
+  last_used_at timestamptz
+);
+
+create index if not exists push_subscriptions_user_idx on public.push_subscriptions (user_id);
+
+create table if not exists public.push_preferences (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  messages boolean not null default true,
+  activity boolean not null default true,
+  payments boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.push_queue (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  category text not null check (category in ('messages', 'activity', 'payments')),
+  title text not null,
+  body text not null,
+  -- Opened when the notification is clicked
+  url text not null default '/',
+  -- Notifications with the same tag replace each other on the device
+  tag text,
+  created_at timestamptz not null default now(),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  -- Set while a dispatcher is working on the row
+  claimed_at timestamptz
+);
+
+create index if not exists push_queue_due_idx on public.push_queue (next_attempt_at);
+
+-- Registers this browser for the current user. The endpoint is unique per
+-- browser profile, so signing in as someone else on it moves it over.
+create or replace function public.save_push_subscription(
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text,
+  p_user_agent text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  insert into push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+  values (auth.uid(), p_endpoint, p_p256dh, p_auth, p_user_agent)
+  on conflict (endpoint) do update
+  set user_id = excluded.user_id,
+      p256dh = excluded.p256dh,
+      auth = excluded.auth,
+      user_agent = excluded.user_agent;
+end;
+$$;
+
+create or replace function public.enqueue_push(
+  p_user_id uuid,
+  p_category text,
+  p_title text,
+  p_body text,
+  p_url text,
+  p_tag text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from push_subscriptions where user_id = p_user_id) then
+    return;
+  end if;
+
+  if exists (
+    select 1 from push_preferences
+    where user_id = p_user_id
+      and not case p_category
+        when 'messages' then messages
+        when 'activity' then activity
+        when 'payments' then payments
+      end
+  ) then
+    return;
+  end if;
+
+  insert into push_queue (user_id, category, title, body, url, tag)
+  values (p_user_id, p_category, p_title, left(p_body, 200), p_url, p_tag);
+end;
+$$;
+
+create or replace function public.push_display_name(uid uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select coalesce(display_name, full_name, username) from profiles where id = uid),
+    'Someone'
+  );
+$$;
+
+create or replace function public.push_new_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation conversations%rowtype;
+  v_sender text := push_display_name(new.sender_id);
+begin
+  select * into v_conversation from conversations where id = new.conversation_id;
+
+  perform enqueue_push(
+    p.user_id,
+    'messages',
+    case when v_conversation.is_group then v_sender || ' in ' || v_conversation.title else v_sender end,
+    new.content,
+    '/messages/' || new.conversation_id,
+    'conversation:' || new.conversation_id
+  )
+  from conversation_participants p
+  where p.conversation_id = new.conversation_id
+    and p.user_id <> new.sender_id;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_push on public.messages;
+create trigger messages_push
+  after insert on public.messages
+  for each row execute function public.push_new_message();
+
+-- Same wording and links as the notifications screen
+create or replace function public.push_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_phrase text := case new.verb
+    when 'like' then 'liked your post'
+    when 'bookmark' then 'saved your post'
+    when 'comment' then 'commented on your post'
+    when 'reply' then 'replied to your comment'
+    when 'follow' then 'started following you'
+    when 'purchase' then 'bought your photo'
+    when 'send_images' then 'sent you photos'
+  end;
+  v_url text := case
+    when new.target_type = 'post' and new.verb in ('comment', 'reply') then '/community?post=' || new.target_id || '&comments=1'
+    when new.target_type = 'post' then '/community?post=' || new.target_id
+    when new.verb = 'send_images' then '/collections'
+    else '/profile/' || new.actor_id
+  end;
+begin
+  perform enqueue_push(
+    new.recipient_id,
+    'activity',
+    push_display_name(new.actor_id) || ' ' || v_phrase,
+    coalesce(new.preview, ''),
+    v_url,
+    'activity:' || new.verb || ':' || new.target_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists activity_notifications_push on public.activity_notifications;
+create trigger activity_notifications_push
+  after insert on public.activity_notifications
+  for each row execute function public.push_activity();
+
+-- Once a pending payment settles either way
+create or replace function public.push_payment_outcome()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform enqueue_push(
+    new.user_id,
+    'payments',
+    case new.status when 'completed' then 'Payment received' else 'Payment not completed' end,
+    case new.status
+      when 'completed' then 'KES ' || new.amount || ' paid. Your images are unlocked.'
+      when 'timeout' then 'The M-Pesa prompt timed out. You have not been charged.'
+      else coalesce(new.result_desc, 'The payment did not go through.')
+    end,
+    '/profile/dashboard',
+    'payment:' || new.id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists mpesa_transactions_push on public.mpesa_transactions;
+create trigger mpesa_transactions_push
+  after update of status on public.mpesa_transactions
+  for each row
+  when (old.status = 'pending' and new.status <> 'pending')
+  execute function public.push_payment_outcome();
+
+-- Hands out up to p_limit due rows to one dispatcher. A claim older than
+-- five minutes is assumed to belong to a dispatcher that died.
+create or replace function public.claim_push_queue(p_limit integer default 100)
+returns setof public.push_queue
+language sql
+security definer
+set search_path = public
+as $$
+  update push_queue
+  set claimed_at = now()
+  where id in (
+    select id from push_queue
+    where next_attempt_at <= now()
+      and (claimed_at is null or claimed_at < now() - interval '5 minutes')
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  returning *;
+$$;
+
+revoke execute on function public.claim_push_queue(integer) from public, anon, authenticated;
+revoke execute on function public.enqueue_push(uuid, text, text, text, text, text) from public, anon, authenticated;
+
+alter table public.push_subscriptions enable row level security;
+
+drop policy if exists "Users can see their push subscriptions" on public.push_subscriptions;
+create policy "Users can see their push subscriptions"
+  on public.push_subscriptions for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can remove their push subscriptions" on public.push_subscriptions;
+create policy "Users can remove their push subscriptions"
+  on public.push_subscriptions for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+alter table public.push_preferences enable row level security;
+
+drop policy if exists "Users can read their push preferences" on public.push_preferences;
+create policy "Users can read their push preferences"
+  on public.push_preferences for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can set their push preferences" on public.push_preferences;
+create policy "Users can set their push preferences"
+  on public.push_preferences for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users can change their push preferences" on public.push_preferences;
+create policy "Users can change their push preferences"
+  on public.push_preferences for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+-- Service role only
+alter table public.push_queue enable row level security;
@@ -0,0 +1,554 @@
+-- Notification preferences. For each category a user picks the channels it
+-- reaches them on (in-app, push, email) in notification_preferences; without
+-- a row, in-app and push are on and email is off. notification_settings holds
+-- the rest: a daily digest that bundles everything but messages and payments
+-- into one push and one email a day, quiet hours that hold push back, and the
+-- time zone both are read in.
+--
+-- push_queue becomes notification_queue with one row per channel, so email
+-- goes out through the same dispatcher, and push_preferences is folded into
+-- notification_preferences. Announcements are queued too now, at their
+-- deliver_at.
+
+create table if not exists public.notification_preferences (
+  user_id uuid not null references public.profiles(id) on delete cascade,
+  category text not null check (
+    category in ('messages', 'comments', 'likes', 'follows', 'photos', 'payments', 'announcements')
+  ),
+  -- Messages and payments have no in-app notifications; their in_app is unused
+  in_app boolean not null default true,
+  push boolean not null default true,
+  email boolean not null default false,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, category)
+);
+
+create table if not exists public.notification_settings (
+  user_id uuid primary key references public.profiles(id) on delete cascade,
+  digest text not null default 'off' check (digest in ('off', 'daily')),
+  -- Local hour the daily digest goes out at
+  digest_hour smallint not null default 18 check (digest_hour between 0 and 23),
+  quiet_hours boolean not null default false,
+  quiet_start time not null default '22:00',
+  quiet_end time not null default '07:00',
+  time_zone text not null default 'Africa/Nairobi',
+  -- Opening the notifications screen marks everything on it read
+  mark_read_on_open boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+-- An unknown zone would make every trigger that queues for this user fail
+create or replace function public.check_notification_time_zone()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from pg_timezone_names where name = new.time_zone) then
+    raise exception 'Unknown time zone %', new.time_zone using errcode = '22023';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists notification_settings_time_zone on public.notification_settings;
+create trigger notification_settings_time_zone
+  before insert or update of time_zone on public.notification_settings
+  for each row execute function public.check_notification_time_zone();
+
+do $$
+begin
+  if to_regclass('public.push_preferences') is not null then
+    insert into public.notification_preferences (user_id, category, push)
+    select
+      p.user_id,
+      c.category,
+      case c.category when 'messages' then p.messages when 'payments' then p.payments else p.activity end
+    from public.push_preferences p
+    cross join (values ('messages'), ('comments'), ('likes'), ('follows'), ('photos'), ('payments')) as c(category)
+    on conflict (user_id, category) do nothing;
+
+    drop table public.push_preferences;
+  end if;
+
+  if to_regclass('public.push_queue') is not null then
+    alter table public.push_queue rename to notification_queue;
+    alter index public.push_queue_due_idx rename to notification_queue_due_idx;
+  end if;
+end;
+$$;
+
+alter table public.notification_queue
+  add column if not exists channel text not null default 'push',
+  -- Held for the user's daily digest and sent as part of it
+  add column if not exists digest boolean not null default false;
+
+alter table public.notification_queue drop constraint if exists notification_queue_channel_check;
+alter table public.notification_queue
+  add constraint notification_queue_channel_check check (channel in ('push', 'email'));
+
+-- 'activity' was split up; it only decides urgency for rows still queued
+update public.notification_queue set category = 'likes' where category = 'activity';
+
+alter table public.notification_queue drop constraint if exists push_queue_category_check;
+alter table public.notification_queue drop constraint if exists notification_queue_category_check;
+alter table public.notification_queue
+  add constraint notification_queue_category_check check (
+    category in ('messages', 'comments', 'likes', 'follows', 'photos', 'payments', 'announcements')
+  );
+
+create or replace function public.notification_channel_enabled(
+  p_user_id uuid,
+  p_category text,
+  p_channel text
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (
+      select case p_channel when 'in_app' then in_app when 'push' then push when 'email' then email end
+      from notification_preferences
+      where user_id = p_user_id and category = p_category
+    ),
+    p_channel <> 'email'
+  );
+$$;
+
+-- p_at, or the end of the user's quiet hours if p_at falls inside them.
+-- Quiet hours may run past midnight (22:00 to 07:00).
+create or replace function public.after_quiet_hours(p_user_id uuid, p_at timestamptz)
+returns timestamptz
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  v_settings notification_settings%rowtype;
+  v_local timestamp;
+  v_end timestamp;
+begin
+  select * into v_settings from notification_settings where user_id = p_user_id;
+  if not found or not v_settings.quiet_hours or v_settings.quiet_start = v_settings.quiet_end then
+    return p_at;
+  end if;
+
+  v_local := p_at at time zone v_settings.time_zone;
+
+  if v_settings.quiet_start < v_settings.quiet_end then
+    if v_local::time >= v_settings.quiet_start and v_local::time < v_settings.quiet_end then
+      v_end := v_local::date + v_settings.quiet_end;
+    end if;
+  elsif v_local::time >= v_settings.quiet_start then
+    v_end := (v_local::date + 1) + v_settings.quiet_end;
+  elsif v_local::time < v_settings.quiet_end then
+    v_end := v_local::date + v_settings.quiet_end;
+  end if;
+
+  return coalesce(v_end at time zone v_settings.time_zone, p_at);
+end;
+$$;
+
+-- Queues a push and an email for p_user_id, each only if the user wants that
+-- channel for p_category and has somewhere to receive it. In-app is up to the
+-- caller. With a daily digest everything but messages and payments waits for
+-- the digest hour; push also waits out quiet hours.
+create or replace function public.enqueue_notification(
+  p_user_id uuid,
+  p_category text,
+  p_title text,
+  p_body text,
+  p_url text,
+  p_tag text default null,
+  p_deliver_at timestamptz default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_settings notification_settings%rowtype;
+  v_at timestamptz := greatest(coalesce(p_deliver_at, now()), now());
+  v_digest boolean := false;
+  v_local timestamp;
+  v_channel text;
+begin
+  select * into v_settings from notification_settings where user_id = p_user_id;
+
+  if found and v_settings.digest = 'daily' and p_category not in ('messages', 'payments') then
+    v_digest := true;
+    v_local := v_at at time zone v_settings.time_zone;
+    v_local := v_local::date + make_time(v_settings.digest_hour, 0, 0)
+      + case when v_local::time >= make_time(v_settings.digest_hour, 0, 0) then interval '1 day' else interval '0' end;
+    v_at := v_local at time zone v_settings.time_zone;
+  end if;
+
+  foreach v_channel in array array['push', 'email'] loop
+    continue when not notification_channel_enabled(p_user_id, p_category, v_channel);
+    continue when v_channel = 'push'
+      and not exists (select 1 from push_subscriptions where user_id = p_user_id);
+    continue when v_channel = 'email'
+      and not exists (select 1 from profiles where id = p_user_id and email is not null);
+
+    insert into notification_queue (user_id, channel, category, title, body, url, tag, digest, next_attempt_at)
+    values (
+      p_user_id,
+      v_channel,
+      p_category,
+      p_title,
+      left(p_body, 200),
+      p_url,
+      p_tag,
+      v_digest,
+      case v_channel when 'push' then after_quiet_hours(p_user_id, v_at) else v_at end
+    );
+  end loop;
+end;
+$$;
+
+create or replace function public.push_new_message()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_conversation conversations%rowtype;
+  v_sender text := push_display_name(new.sender_id);
+begin
+  select * into v_conversation from conversations where id = new.conversation_id;
+
+  perform enqueue_notification(
+    p.user_id,
+    'messages',
+    case when v_conversation.is_group then v_sender || ' in ' || v_conversation.title else v_sender end,
+    new.content,
+    '/messages/' || new.conversation_id,
+    'conversation:' || new.conversation_id
+  )
+  from conversation_participants p
+  where p.conversation_id = new.conversation_id
+    and p.user_id <> new.sender_id;
+  return new;
+end;
+$$;
+
+create or replace function public.push_payment_outcome()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform enqueue_notification(
+    new.user_id,
+    'payments',
+    case new.status when 'completed' then 'Payment received' else 'Payment not completed' end,
+    case new.status
+      when 'completed' then 'KES ' || new.amount || ' paid. Your images are unlocked.'
+      when 'timeout' then 'The M-Pesa prompt timed out. You have not been charged.'
+      else coalesce(new.result_desc, 'The payment did not go through.')
+    end,
+    '/profile/dashboard',
+    'payment:' || new.id
+  );
+  return new;
+end;
+$$;
+
+-- Activity is queued for push and email from here rather than from a trigger
+-- on activity_notifications, since a user with in-app switched off gets no
+-- row there. Wording and links match the notifications screen.
+drop trigger if exists activity_notifications_push on public.activity_notifications;
+drop function if exists public.push_activity();
+
+create or replace function public.notify_activity(
+  p_recipient_id uuid,
+  p_actor_id uuid,
+  p_verb text,
+  p_target_type text,
+  p_target_id uuid,
+  p_source_id uuid default null,
+  p_preview text default null,
+  p_thumbnail_url text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_category text := case p_verb
+    when 'like' then 'likes'
+    when 'bookmark' then 'likes'
+    when 'comment' then 'comments'
+    when 'reply' then 'comments'
+    when 'follow' then 'follows'
+    else 'photos'
+  end;
+  v_phrase text := case p_verb
+    when 'like' then 'liked your post'
+    when 'bookmark' then 'saved your post'
+    when 'comment' then 'commented on your post'
+    when 'reply' then 'replied to your comment'
+    when 'follow' then 'started following you'
+    when 'purchase' then 'bought your photo'
+    when 'send_images' then 'sent you photos'
+  end;
+  v_url text := case
+    when p_target_type = 'post' and p_verb in ('comment', 'reply') then '/community?post=' || p_target_id || '&comments=1'
+    when p_target_type = 'post' then '/community?post=' || p_target_id
+    when p_verb = 'send_images' then '/collections'
+    else '/profile/' || p_actor_id
+  end;
+  v_inserted integer;
+begin
+  if p_recipient_id is null or p_recipient_id = p_actor_id then
+    return;
+  end if;
+
+  if notification_channel_enabled(p_recipient_id, v_category, 'in_app') then
+    if p_verb in ('like', 'bookmark', 'follow') then
+      insert into activity_notifications (recipient_id, actor_id, verb, target_type, target_id, thumbnail_url)
+      values (p_recipient_id, p_actor_id, p_verb, p_target_type, p_target_id, p_thumbnail_url)
+      on conflict (recipient_id, actor_id, verb, target_id) where verb in ('like', 'bookmark', 'follow')
+      do nothing;
+    else
+      insert into activity_notifications (recipient_id, actor_id, verb, target_type, target_id, source_id, preview, thumbnail_url)
+      values (p_recipient_id, p_actor_id, p_verb, p_target_type, p_target_id, p_source_id, p_preview, p_thumbnail_url);
+    end if;
+
+    -- A like, bookmark or follow that is still there was announced already
+    get diagnostics v_inserted = row_count;
+    if v_inserted = 0 then
+      return;
+    end if;
+  end if;
+
+  perform enqueue_notification(
+    p_recipient_id,
+    v_category,
+    push_display_name(p_actor_id) || ' ' || v_phrase,
+    coalesce(p_preview, ''),
+    v_url,
+    'activity:' || p_verb || ':' || p_target_id
+  );
+end;
+$$;
+
+-- Audience membership alone. is_notification_recipient (what the feed and
+-- read policy use) also leaves out users who switched in-app announcements off.
+create or replace function public.in_notification_audience(
+  p_notification_id uuid,
+  p_audience text,
+  p_audience_role text,
+  uid uuid default auth.uid()
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select uid is not null and case p_audience
+    when 'everyone' then true
+    when 'role' then user_role(uid) = p_audience_role
+    when 'verified' then coalesce((select is_verified from profiles where id = uid), false)
+    when 'users' then exists (
+      select 1 from notification_recipients
+      where notification_id = p_notification_id and user_id = uid
+    )
+    else false
+  end;
+$$;
+
+create or replace function public.is_notification_recipient(
+  p_notification_id uuid,
+  p_audience text,
+  p_audience_role text,
+  uid uuid default auth.uid()
+)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select in_notification_audience(p_notification_id, p_audience, p_audience_role, uid)
+    and notification_channel_enabled(uid, 'announcements', 'in_app');
+$$;
+
+-- Push and email for everyone in the audience, held until deliver_at
+create or replace function public.queue_announcement(p_notification_id uuid)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  perform enqueue_notification(
+    p.id,
+    'announcements',
+    'New announcement',
+    n.message,
+    '/notifications',
+    'announcement:' || n.id,
+    n.deliver_at
+  )
+  from notifications n
+  join profiles p on p.id is distinct from n.created_by
+  where n.id = p_notification_id
+    and in_notification_audience(n.id, n.audience, n.audience_role, p.id);
+end;
+$$;
+
+create or replace function public.create_notification(
+  p_message text,
+  p_audience text default 'everyone',
+  p_audience_role text default null,
+  p_recipient_ids uuid[] default null,
+  p_deliver_at timestamptz default null,
+  p_expires_at timestamptz default null
+)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_id uuid;
+begin
+  if not has_capability('canBroadcast') then
+    raise exception 'Only admins can send notifications' using errcode = '42501';
+  end if;
+
+  if p_audience = 'users' and coalesce(array_length(p_recipient_ids, 1), 0) = 0 then
+    raise exception 'Choose at least one recipient' using errcode = '22023';
+  end if;
+
+  insert into notifications (message, created_by, audience, audience_role, deliver_at, expires_at)
+  values (
+    p_message,
+    auth.uid(),
+    p_audience,
+    case when p_audience = 'role' then p_audience_role end,
+    coalesce(p_deliver_at, now()),
+    p_expires_at
+  )
+  returning id into v_id;
+
+  if p_audience = 'users' then
+    insert into notification_recipients (notification_id, user_id)
+    select v_id, unnest(p_recipient_ids)
+    on conflict do nothing;
+  end if;
+
+  perform queue_announcement(v_id);
+
+  return v_id;
+end;
+$$;
+
+-- A deleted announcement that hasn't gone out yet shouldn't
+create or replace function public.unqueue_announcement()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from notification_queue
+  where tag = 'announcement:' || old.id and claimed_at is null;
+  return old;
+end;
+$$;
+
+drop trigger if exists notifications_unqueue on public.notifications;
+create trigger notifications_unqueue
+  after delete on public.notifications
+  for each row execute function public.unqueue_announcement();
+
+-- Hands out up to p_limit due rows to one dispatcher, plus every other due
+-- digest row for the same user and channel so a digest goes out whole. A
+-- claim older than five minutes is assumed to belong to a dispatcher that died.
+create or replace function public.claim_notification_queue(p_limit integer default 100)
+returns setof public.notification_queue
+language sql
+security definer
+set search_path = public
+as $$
+  with picked as (
+    select id, user_id, channel, digest from notification_queue
+    where next_attempt_at <= now()
+      and (claimed_at is null or claimed_at < now() - interval '5 minutes')
+    order by created_at
+    limit p_limit
+    for update skip locked
+  )
+  update notification_queue q
+  set claimed_at = now()
+  where q.id in (select id from picked)
+    or (
+      q.digest
+      and q.next_attempt_at <= now()
+      and (q.claimed_at is null or q.claimed_at < now() - interval '5 minutes')
+      and (q.user_id, q.channel) in (select user_id, channel from picked where digest)
+    )
+  returning q.*;
+$$;
+
+drop function if exists public.claim_push_queue(integer);
+drop function if exists public.enqueue_push(uuid, text, text, text, text, text);
+
+revoke execute on function public.claim_notification_queue(integer) from public, anon, authenticated;
+revoke execute on function public.enqueue_notification(uuid, text, text, text, text, text, timestamptz) from public, anon, authenticated;
+revoke execute on function public.queue_announcement(uuid) from public, anon, authenticated;
+revoke execute on function public.notification_channel_enabled(uuid, text, text) from public, anon, authenticated;
+revoke execute on function public.after_quiet_hours(uuid, timestamptz) from public, anon, authenticated;
+
+alter table public.notification_preferences enable row level security;
+
+drop policy if exists "Users can read their notification preferences" on public.notification_preferences;
+create policy "Users can read their notification preferences"
+  on public.notification_preferences for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can set their notification preferences" on public.notification_preferences;
+create policy "Users can set their notification preferences"
+  on public.notification_preferences for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users can change their notification preferences" on public.notification_preferences;
+create policy "Users can change their notification preferences"
+  on public.notification_preferences for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+alter table public.notification_settings enable row level security;
+
+drop policy if exists "Users can read their notification settings" on public.notification_settings;
+create policy "Users can read their notification settings"
+  on public.notification_settings for select
+  to authenticated
+  using (user_id = auth.uid());
+
+drop policy if exists "Users can set their notification settings" on public.notification_settings;
+create policy "Users can set their notification settings"
+  on public.notification_settings for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+drop policy if exists "Users can change their notification settings" on public.notification_settings;
+create policy "Users can change their notification settings"
+  on public.notification_settings for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
@@ -0,0 +1,102 @@
+-- Read state the user controls. Announcements can be marked unread again
+-- (dropping the receipt) or dismissed (a receipt with dismissed_at, which
+-- hides it from the feed); activity is dismissed by deleting its rows.
+-- unread_notification_counts() is what the app bar badge and the
+-- notifications screen both show, and mark_all_notifications_read() marks
+-- everything server-side rather than whatever the client has loaded.
+
+alter table public.notification_reads
+  add column if not exists dismissed_at timestamptz;
+
+-- DELETE events only carry the replica identity, and the app listens for
+-- the user's own receipts by user_id
+alter table public.notification_reads replica identity full;
+
+drop policy if exists "Users can mark notifications unread" on public.notification_reads;
+create policy "Users can mark notifications unread"
+  on public.notification_reads for delete
+  to authenticated
+  using (user_id = auth.uid());
+
+create or replace view public.notification_feed
+with (security_invoker = true)
+as
+select
+  n.id,
+  n.message,
+  n.created_at,
+  n.created_by,
+  n.audience,
+  n.audience_role,
+  n.deliver_at,
+  n.expires_at,
+  (
+    n.deliver_at <= now()
+    and (n.expires_at is null or n.expires_at > now())
+    and public.is_notification_recipient(n.id, n.audience, n.audience_role)
+  ) as is_for_me,
+  exists (
+    select 1 from public.notification_reads r
+    where r.notification_id = n.id and r.user_id = auth.uid()
+  ) as is_read,
+  case when n.audience = 'users' then (
+    select count(*) from public.notification_recipients nr where nr.notification_id = n.id
+  ) end as recipient_count,
+  exists (
+    select 1 from public.notification_reads r
+    where r.notification_id = n.id and r.user_id = auth.uid() and r.dismissed_at is not null
+  ) as is_dismissed
+from public.notifications n;
+
+-- Unread announcements addressed to the current user, and unread activity
+-- counted the way the screen groups it (one per verb and target)
+create or replace function public.unread_notification_counts()
+returns table (announcements integer, activity integer)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select
+    (
+      select count(*)::integer
+      from notifications n
+      where n.deliver_at <= now()
+        and (n.expires_at is null or n.expires_at > now())
+        and is_notification_recipient(n.id, n.audience, n.audience_role)
+        and not exists (
+          select 1 from notification_reads r
+          where r.notification_id = n.id and r.user_id = auth.uid()
+        )
+    ),
+    (
+      select count(distinct (a.verb, a.target_id))::integer
+      from activity_notifications a
+      where a.recipient_id = auth.uid() and a.read_at is null
+    );
+$$;
+
+create or replace function public.mark_all_notifications_read()
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  insert into notification_reads (notification_id, user_id)
+  select n.id, auth.uid()
+  from notifications n
+  where n.deliver_at <= now()
+    and (n.expires_at is null or n.expires_at > now())
+    and is_notification_recipient(n.id, n.audience, n.audience_role)
+  on conflict (notification_id, user_id) do nothing;
+
+  update activity_notifications
+  set read_at = now()
+  where recipient_id = auth.uid() and read_at is null;
+end;
+$$;
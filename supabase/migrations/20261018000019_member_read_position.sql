@@ -0,0 +1,30 @@
+-- A member's read and delivered positions start when they join, so someone
+-- added to an existing group doesn't get its whole history as unread, and
+-- group receipts don't wait on them for messages sent before they joined.
+
+create or replace function public.start_participant_at_join()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  new.joined_at := now();
+  new.last_read_at := new.joined_at;
+  new.last_delivered_at := new.joined_at;
+  return new;
+end;
+$$;
+
+drop trigger if exists conversation_participants_start_at_join on public.conversation_participants;
+create trigger conversation_participants_start_at_join
+  before insert on public.conversation_participants
+  for each row execute function public.start_participant_at_join();
+
+-- Members who haven't opened the conversation since joining
+update public.conversation_participants
+set last_read_at = joined_at
+where last_read_at is null or last_read_at < joined_at;
+
+update public.conversation_participants
+set last_delivered_at = joined_at
+where last_delivered_at is null or last_delivered_at < joined_at;
@@ -0,0 +1,8 @@
+-- "Senders can edit their messages" only says whose rows can be updated, not
+-- what in them. Signed-in users may now only change content: a sender can't
+-- move a message to another conversation, swap its attachments or backdate
+-- it. Receipts and deleting go through security definer functions, and the
+-- revision trigger sets edited_at, so neither needs the wider grant.
+
+revoke update on public.messages from anon, authenticated;
+grant update (content) on public.messages to authenticated;
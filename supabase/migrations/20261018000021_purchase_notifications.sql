@@ -0,0 +1,31 @@
+-- A purchase usually becomes completed by an update rather than an insert:
+-- the M-Pesa callback upserts over any earlier row for the same image. Notify
+-- when the status moves to completed as well, once per image bought.
+
+create or replace function public.notify_purchase()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.status <> 'completed' or (tg_op = 'UPDATE' and old.status = 'completed') then
+    return new;
+  end if;
+
+  perform notify_activity(ph.sender_id, new.user_id, 'purchase', 'photo', ph.id, i.id, null, i.image_url)
+  from images i
+  join photos ph on ph.id = i.photo_id
+  where i.id::text = new.image_id
+    and not exists (
+      select 1 from activity_notifications a
+      where a.actor_id = new.user_id and a.verb = 'purchase' and a.source_id = i.id
+    );
+  return new;
+end;
+$$;
+
+drop trigger if exists user_purchases_notify on public.user_purchases;
+create trigger user_purchases_notify
+  after insert or update of status on public.user_purchases
+  for each row execute function public.notify_purchase();
@@ -0,0 +1,34 @@
+-- The inbox preview (conversations.last_message / last_message_at) was
+-- written by the sender's client, which RLS only lets group admins do, so
+-- ordinary group members' messages never moved their group up the inbox or
+-- brought a cleared group back. It now follows every new message here.
+
+create or replace function public.update_conversation_preview()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update conversations
+  set last_message = left(
+        case
+          when coalesce(array_length(new.images, 1), 0) > 0 and new.content <> '📷 Photo'
+            then new.content || ' 📷'
+          else new.content
+        end,
+        100
+      ),
+      last_message_at = new.created_at
+  where id = new.conversation_id
+    -- A retried send from the outbox can land after newer messages
+    and (last_message_at is null or last_message_at <= new.created_at);
+
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_update_conversation_preview on public.messages;
+create trigger messages_update_conversation_preview
+  after insert on public.messages
+  for each row execute function public.update_conversation_preview();
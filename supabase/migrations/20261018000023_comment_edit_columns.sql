@@ -0,0 +1,28 @@
+-- "Authors can edit their comments" only says whose rows can be updated, not
+-- what in them. comments_count is kept in step on insert and delete only, so
+-- moving a comment to another post would leave both counts wrong: signed-in
+-- users may now only change the wording. Replies also have to be on the same
+-- post as the comment they answer.
+
+revoke update on public.comments from anon, authenticated;
+grant update (content, updated_at) on public.comments to authenticated;
+
+create or replace function public.check_comment_parent()
+returns trigger
+language plpgsql
+set search_path = public
+as $$
+begin
+  if new.parent_id is not null and not exists (
+    select 1 from comments where id = new.parent_id and post_id = new.post_id
+  ) then
+    raise exception 'A reply must be on the same post as the comment it answers' using errcode = '23514';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists comments_check_parent on public.comments;
+create trigger comments_check_parent
+  before insert or update of post_id, parent_id on public.comments
+  for each row execute function public.check_comment_parent();
@@ -0,0 +1,158 @@
+// A local stand-in for the Daraja endpoints lib/mpesa/daraja calls: the OAuth
+// token and STK push. It records every push it accepts and builds the
+// callback Daraja would post to that push's CallBackURL.
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export const MOCK_CONSUMER_KEY = 'mock-consumer-key';
+export const MOCK_CONSUMER_SECRET = 'mock-consumer-secret';
+const ACCESS_TOKEN = 'mock-access-token';
+
+export interface ReceivedPush {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  body: {
+    BusinessShortCode: string;
+    Password: string;
+    Timestamp: string;
+    TransactionType: string;
+    Amount: number;
+    PartyA: string;
+    PartyB: string;
+    PhoneNumber: string;
+    CallBackURL: string;
+    AccountReference: string;
+    TransactionDesc: string;
+  };
+}
+
+// Result codes Daraja sends in stkCallback.ResultCode
+export const RESULT_DESCRIPTIONS: Record<number, string> = {
+  0: 'The service request is processed successfully.',
+  1: 'The balance is insufficient for the transaction.',
+  1032: 'Request cancelled by user',
+  1037: 'DS timeout user cannot be reached',
+};
+
+const readJson = (request: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let raw = '';
+    request.on('data', chunk => (raw += chunk));
+    request.on('end', () => {
+      try {
+        resolve(JSON.parse(raw));
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+const send = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+export class MockDaraja {
+  readonly pushes: ReceivedPush[] = [];
+  // Set to make the next STK push fail the way Daraja rejects a bad request
+  rejectNextPush: string | null = null;
+
+  private server: Server | null = null;
+  private sequence = 0;
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch(error => send(response, 500, { errorMessage: String(error) }));
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}`;
+  }
+
+  async stop() {
+    await new Promise<void>((resolve, reject) => this.server?.close(error => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  reset() {
+    this.pushes.length = 0;
+    this.rejectNextPush = null;
+  }
+
+  lastPush(): ReceivedPush {
+    const push = this.pushes[this.pushes.length - 1];
+    if (!push) throw new Error('No STK push has reached the mock');
+    return push;
+  }
+
+  // The body Daraja posts to CallBackURL once the buyer answers (or doesn't)
+  callback(push: ReceivedPush, resultCode: number, overrides: { amount?: number } = {}) {
+    const stkCallback: Record<string, unknown> = {
+      MerchantRequestID: push.merchantRequestId,
+      CheckoutRequestID: push.checkoutRequestId,
+      ResultCode: resultCode,
+      ResultDesc: RESULT_DESCRIPTIONS[resultCode] || 'Failed',
+    };
+
+    if (resultCode === 0) {
+      stkCallback.CallbackMetadata = {
+        Item: [
+          { Name: 'Amount', Value: overrides.amount ?? push.body.Amount },
+          { Name: 'MpesaReceiptNumber', Value: `MOCK${push.checkoutRequestId.slice(-6).toUpperCase()}` },
+          { Name: 'TransactionDate', Value: 20261018120000 },
+          { Name: 'PhoneNumber', Value: Number(push.body.PhoneNumber) },
+        ],
+      };
+    }
+
+    return { Body: { stkCallback } };
+  }
+
+  private async handle(request: IncomingMessage, response: ServerResponse) {
+    const url = new URL(request.url || '/', 'http://127.0.0.1');
+    const authorization = request.headers.authorization || '';
+
+    if (request.method === 'GET' && url.pathname === '/oauth/v1/generate') {
+      const expected = Buffer.from(`${MOCK_CONSUMER_KEY}:${MOCK_CONSUMER_SECRET}`).toString('base64');
+      if (authorization !== `Basic ${expected}`) {
+        return send(response, 400, { errorMessage: 'Invalid Authentication passed' });
+      }
+      return send(response, 200, { access_token: ACCESS_TOKEN, expires_in: '3599' });
+    }
+
+    if (request.method === 'POST' && url.pathname === '/mpesa/stkpush/v1/processrequest') {
+      if (authorization !== `Bearer ${ACCESS_TOKEN}`) {
+        return send(response, 401, { errorCode: '404.001.03', errorMessage: 'Invalid Access Token' });
+      }
+
+      const body = (await readJson(request)) as ReceivedPush['body'];
+
+      if (this.rejectNextPush) {
+        const errorMessage = this.rejectNextPush;
+        this.rejectNextPush = null;
+        return send(response, 400, { errorCode: '400.002.02', errorMessage });
+      }
+
+      this.sequence++;
+      const push: ReceivedPush = {
+        merchantRequestId: `mock-merchant-${this.sequence}`,
+        checkoutRequestId: `ws_CO_mock_${this.sequence}`,
+        body,
+      };
+      this.pushes.push(push);
+
+      return send(response, 200, {
+        MerchantRequestID: push.merchantRequestId,
+        CheckoutRequestID: push.checkoutRequestId,
+        ResponseCode: '0',
+        ResponseDescription: 'Success. Request accepted for processing',
+        CustomerMessage: 'Success. Request accepted for processing',
+      });
+    }
+
+    send(response, 404, { errorMessage: `No mock for ${request.method} ${url.pathname}` });
+  }
+}
@@ -0,0 +1,287 @@
+// The STK push, callback and cancel route handlers end to end, against the
+// mock Daraja server and an in-memory database.
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { POST as stkPush } from '@/app/api/mpesa/stkpush/route';
+import { POST as mpesaCallback } from '@/app/api/mpesa/callback/route';
+import { POST as cancelPayment } from '@/app/api/mpesa/cancel/route';
+import { FakeSupabase } from '../support/fake_supabase';
+import { MOCK_CONSUMER_KEY, MOCK_CONSUMER_SECRET, MockDaraja } from './mock_daraja';
+
+const db = new FakeSupabase();
+const daraja = new MockDaraja();
+
+vi.mock('@/lib/supabase/admin', () => ({ getAdminClient: () => db }));
+
+const BUYER = 'buyer-id';
+const OTHER_USER = 'other-user-id';
+const SENDER = 'sender-id';
+const PRICE = 50;
+const CALLBACK_TOKEN = 'callback-token';
+
+let buyerToken = '';
+
+const post = (url: string, body: unknown, token?: string) =>
+  new Request(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+
+async function startPayment(imageIds: string[], token = buyerToken) {
+  const response = await stkPush(
+    post('http://app.test/api/mpesa/stkpush', { phoneNumber: '0712 345 678', imageIds }, token)
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+// Posts the last push's callback to the URL Daraja was given for it
+async function answerPush(resultCode: number, overrides: { amount?: number } = {}) {
+  const push = daraja.lastPush();
+  const response = await mpesaCallback(post(push.body.CallBackURL, daraja.callback(push, resultCode, overrides)));
+  return { status: response.status, body: await response.json() };
+}
+
+async function cancel(transactionId: string, reason?: 'timeout') {
+  const response = await cancelPayment(
+    post('http://app.test/api/mpesa/cancel', { transactionId, reason }, buyerToken)
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+const transaction = (id: string) => db.rows('mpesa_transactions').find(row => row.id === id);
+const purchasedImageIds = () => db.rows('user_purchases').map(row => row.image_id);
+const paidImageIds = () => db.rows('images').filter(row => row.status === 'paid').map(row => row.id);
+
+beforeAll(async () => {
+  const baseUrl = await daraja.start();
+
+  vi.stubEnv('MPESA_BASE_URL', baseUrl);
+  vi.stubEnv('MPESA_CONSUMER_KEY', MOCK_CONSUMER_KEY);
+  vi.stubEnv('MPESA_CONSUMER_SECRET', MOCK_CONSUMER_SECRET);
+  vi.stubEnv('MPESA_SHORTCODE', '174379');
+  vi.stubEnv('MPESA_PASSKEY', 'mock-passkey');
+  vi.stubEnv('MPESA_CALLBACK_URL', `http://app.test/api/mpesa/callback?token=${CALLBACK_TOKEN}`);
+  vi.stubEnv('MPESA_CALLBACK_TOKEN', CALLBACK_TOKEN);
+
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  await daraja.stop();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  db.reset();
+  daraja.reset();
+  buyerToken = db.signIn(BUYER);
+
+  db.seed('picture_prices', [{ id: 'price-1', price: PRICE, updated_at: '2026-10-01T00:00:00Z' }]);
+  db.seed('photos', [
+    { id: 'photo-buyer', sender_id: SENDER, recipient_id: BUYER, is_payment_required: true },
+    { id: 'photo-other', sender_id: SENDER, recipient_id: OTHER_USER, is_payment_required: true },
+  ]);
+  db.seed('images', [
+    { id: 'image-1', photo_id: 'photo-buyer', image_url: 'https://example.com/1.jpg', status: 'unpaid' },
+    { id: 'image-2', photo_id: 'photo-buyer', image_url: 'https://example.com/2.jpg', status: 'unpaid' },
+    { id: 'image-3', photo_id: 'photo-other', image_url: 'https://example.com/3.jpg', status: 'unpaid' },
+  ]);
+});
+
+describe('starting a payment', () => {
+  it('pushes the server price for the images sent to the buyer', async () => {
+    const { status, body } = await startPayment(['image-1', 'image-2', 'image-1']);
+
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, status: 'pending', amount: 2 * PRICE });
+
+    const push = daraja.lastPush();
+    expect(push.body).toMatchObject({ Amount: 2 * PRICE, PhoneNumber: '254712345678', PartyA: '254712345678' });
+    expect(transaction(body.transactionId)).toMatchObject({
+      user_id: BUYER,
+      amount: 2 * PRICE,
+      image_ids: ['image-1', 'image-2'],
+      status: 'pending',
+      transaction_id: push.checkoutRequestId,
+    });
+  });
+
+  it('refuses images that were not sent to the buyer', async () => {
+    const { status, body } = await startPayment(['image-1', 'image-3']);
+
+    expect(status).toBe(403);
+    expect(body.success).toBe(false);
+    expect(daraja.pushes).toHaveLength(0);
+    expect(db.rows('mpesa_transactions')).toHaveLength(0);
+  });
+
+  it('refuses images that do not exist', async () => {
+    const { status } = await startPayment(['image-1', 'no-such-image']);
+
+    expect(status).toBe(403);
+    expect(daraja.pushes).toHaveLength(0);
+  });
+
+  it('requires a signed-in user', async () => {
+    const { status } = await startPayment(['image-1'], 'not-a-session');
+
+    expect(status).toBe(401);
+    expect(daraja.pushes).toHaveLength(0);
+  });
+
+  it('fails the transaction when Daraja rejects the push', async () => {
+    daraja.rejectNextPush = 'Bad Request - Invalid PhoneNumber';
+    const { status, body } = await startPayment(['image-1']);
+
+    expect(status).toBe(502);
+    expect(body.error).toBe('Bad Request - Invalid PhoneNumber');
+
+    const [row] = db.rows('mpesa_transactions');
+    expect(row).toMatchObject({ status: 'failed', result_desc: 'Bad Request - Invalid PhoneNumber' });
+  });
+});
+
+describe('the Daraja callback', () => {
+  it('completes the transaction and unlocks its images on success', async () => {
+    const { body: started } = await startPayment(['image-1', 'image-2']);
+    const { status, body } = await answerPush(0);
+
+    expect(status).toBe(200);
+    expect(body).toEqual({ ResultCode: 0, ResultDesc: 'Accepted' });
+    expect(transaction(started.transactionId)).toMatchObject({
+      status: 'completed',
+      result_code: 0,
+      mpesa_receipt_number: expect.stringMatching(/^MOCK/),
+    });
+    expect(purchasedImageIds().sort()).toEqual(['image-1', 'image-2']);
+    expect(paidImageIds().sort()).toEqual(['image-1', 'image-2']);
+  });
+
+  it('marks the transaction failed when the buyer declines', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    await answerPush(1032);
+
+    expect(transaction(started.transactionId)).toMatchObject({
+      status: 'failed',
+      result_code: 1032,
+      result_desc: 'Request cancelled by user',
+    });
+    expect(purchasedImageIds()).toEqual([]);
+    expect(paidImageIds()).toEqual([]);
+  });
+
+  it('records a timeout when the phone cannot be reached', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    await answerPush(1037);
+
+    expect(transaction(started.transactionId)).toMatchObject({ status: 'timeout', result_code: 1037 });
+    expect(purchasedImageIds()).toEqual([]);
+  });
+
+  it('unlocks nothing when the amount paid differs from the transaction', async () => {
+    const { body: started } = await startPayment(['image-1', 'image-2']);
+    await answerPush(0, { amount: 1 });
+
+    expect(transaction(started.transactionId)).toMatchObject({
+      status: 'failed',
+      result_desc: `Amount mismatch: expected ${2 * PRICE}, received 1`,
+      mpesa_receipt_number: expect.stringMatching(/^MOCK/),
+    });
+    expect(purchasedImageIds()).toEqual([]);
+    expect(paidImageIds()).toEqual([]);
+  });
+
+  it('rejects callbacks without the callback token', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    const push = daraja.lastPush();
+    const response = await mpesaCallback(post('http://app.test/api/mpesa/callback', daraja.callback(push, 0)));
+
+    expect(response.status).toBe(403);
+    expect(transaction(started.transactionId)?.status).toBe('pending');
+  });
+
+  it('rejects every callback while the callback token is unset', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    const push = daraja.lastPush();
+
+    vi.stubEnv('MPESA_CALLBACK_TOKEN', '');
+    try {
+      const withToken = await mpesaCallback(post(push.body.CallBackURL, daraja.callback(push, 0)));
+      const withoutToken = await mpesaCallback(post('http://app.test/api/mpesa/callback', daraja.callback(push, 0)));
+
+      expect(withToken.status).toBe(500);
+      expect(withoutToken.status).toBe(500);
+      expect(transaction(started.transactionId)?.status).toBe('pending');
+      expect(purchasedImageIds()).toEqual([]);
+    } finally {
+      vi.stubEnv('MPESA_CALLBACK_TOKEN', CALLBACK_TOKEN);
+    }
+  });
+
+  it('starts no push while the callback token is unset', async () => {
+    vi.stubEnv('MPESA_CALLBACK_TOKEN', '');
+    try {
+      const { status, body } = await startPayment(['image-1']);
+
+      expect(status).toBe(502);
+      expect(body.error).toMatch(/callbackToken/);
+      expect(daraja.pushes).toHaveLength(0);
+    } finally {
+      vi.stubEnv('MPESA_CALLBACK_TOKEN', CALLBACK_TOKEN);
+    }
+  });
+});
+
+describe('cancelling a payment', () => {
+  it('fails a pending transaction the buyer cancelled', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    const { body } = await cancel(started.transactionId);
+
+    expect(body).toEqual({ success: true, status: 'failed' });
+    expect(transaction(started.transactionId)).toMatchObject({ status: 'failed', result_desc: 'Cancelled by user' });
+  });
+
+  it('still completes if the buyer pays after cancelling', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    await cancel(started.transactionId);
+    await answerPush(0);
+
+    expect(transaction(started.transactionId)?.status).toBe('completed');
+    expect(purchasedImageIds()).toEqual(['image-1']);
+  });
+
+  it('records a timeout when the client stops waiting', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    const { body } = await cancel(started.transactionId, 'timeout');
+
+    expect(body).toEqual({ success: true, status: 'timeout' });
+    expect(transaction(started.transactionId)).toMatchObject({
+      status: 'timeout',
+      result_desc: 'No response from M-Pesa in time',
+    });
+  });
+
+  it('leaves a finished transaction alone', async () => {
+    const { body: started } = await startPayment(['image-1']);
+    await answerPush(0);
+    const { body } = await cancel(started.transactionId);
+
+    expect(body).toEqual({ success: true, status: 'completed' });
+    expect(transaction(started.transactionId)?.status).toBe('completed');
+  });
+
+  it("can't cancel another user's transaction", async () => {
+    const { body: started } = await startPayment(['image-1']);
+    const response = await cancelPayment(
+      post('http://app.test/api/mpesa/cancel', { transactionId: started.transactionId }, db.signIn(OTHER_USER))
+    );
+
+    expect(response.status).toBe(404);
+    expect(transaction(started.transactionId)?.status).toBe('pending');
+  });
+});
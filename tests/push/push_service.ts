@@ -0,0 +1,108 @@
+// A local stand-in for a browser push service, for lib/push/web_push with
+// WEB_PUSH_ENDPOINT_OVERRIDE pointing at it. It records every message and
+// answers 201 unless told otherwise for an endpoint. TestSubscription plays
+// the browser: it holds the keys a real PushSubscription would and decrypts
+// what was sent to it.
+
+import { createDecipheriv, createECDH, hkdfSync, randomBytes } from 'node:crypto';
+import { createServer, IncomingMessage, IncomingHttpHeaders, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface ReceivedMessage {
+  // The subscription endpoint from X-Push-Endpoint
+  endpoint: string;
+  headers: IncomingHttpHeaders;
+  body: Buffer;
+}
+
+const readBody = (request: IncomingMessage): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', chunk => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+export class MockPushService {
+  readonly messages: ReceivedMessage[] = [];
+
+  private server: Server | null = null;
+  private statuses = new Map<string, number>();
+
+  async start(): Promise<string> {
+    this.server = createServer(async (request, response) => {
+      const body = await readBody(request);
+      const endpoint = String(request.headers['x-push-endpoint'] || '');
+      this.messages.push({ endpoint, headers: request.headers, body });
+
+      response.writeHead(this.statuses.get(endpoint) ?? 201);
+      response.end();
+    });
+    await new Promise<void>(resolve => this.server!.listen(0, '127.0.0.1', resolve));
+
+    const { port } = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${port}/push`;
+  }
+
+  async stop() {
+    await new Promise<void>((resolve, reject) => this.server?.close(error => (error ? reject(error) : resolve())));
+    this.server = null;
+  }
+
+  reset() {
+    this.messages.length = 0;
+    this.statuses.clear();
+  }
+
+  // e.g. 410 for a subscription the browser has dropped
+  respondWith(endpoint: string, status: number) {
+    this.statuses.set(endpoint, status);
+  }
+
+  messagesTo(endpoint: string) {
+    return this.messages.filter(message => message.endpoint === endpoint);
+  }
+}
+
+export class TestSubscription {
+  private ecdh = createECDH('prime256v1');
+  private authSecret = randomBytes(16);
+  readonly publicKey = this.ecdh.generateKeys();
+
+  constructor(readonly endpoint: string) {}
+
+  // As PushSubscription.toJSON() would give them
+  get keys() {
+    return {
+      endpoint: this.endpoint,
+      p256dh: this.publicKey.toString('base64url'),
+      auth: this.authSecret.toString('base64url'),
+    };
+  }
+
+  // Reverses the aes128gcm encoding of RFC 8291 for a single-record body
+  decrypt(body: Buffer): unknown {
+    const salt = body.subarray(0, 16);
+    const keyLength = body.readUInt8(20);
+    const serverPublicKey = body.subarray(21, 21 + keyLength);
+    const record = body.subarray(21 + keyLength);
+
+    const sharedSecret = this.ecdh.computeSecret(serverPublicKey);
+    const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), this.publicKey, serverPublicKey]);
+    const ikm = Buffer.from(hkdfSync('sha256', sharedSecret, this.authSecret, keyInfo, 32));
+    const contentKey = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16));
+    const nonce = Buffer.from(hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12));
+
+    const decipher = createDecipheriv('aes-128-gcm', contentKey, nonce);
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    const plaintext = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+    // The last record ends with 0x02, then optional zero padding
+    const delimiter = plaintext.lastIndexOf(2);
+    if (delimiter < 0 || plaintext.subarray(delimiter + 1).some(byte => byte !== 0)) {
+      throw new Error('Push record has no last-record delimiter');
+    }
+
+    return JSON.parse(plaintext.subarray(0, delimiter).toString());
+  }
+}
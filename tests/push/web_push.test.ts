@@ -0,0 +1,236 @@
+// Web Push sending and the notification queue drain, against the local push
+// service stand-in and an in-memory database. Each message is checked the way
+// a push service and browser would: the VAPID token must verify against the
+// public key, and the body must decrypt with the subscription's keys.
+
+import { createECDH, createPublicKey, verify } from 'node:crypto';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { isExpiredSubscription, sendWebPush, WebPushError } from '@/lib/push/web_push';
+import { dispatchNotificationQueue } from '@/lib/notifications/dispatch';
+import { FakeSupabase } from '../support/fake_supabase';
+import { MockPushService, ReceivedMessage, TestSubscription } from './push_service';
+
+const db = new FakeSupabase();
+const pushService = new MockPushService();
+
+vi.mock('@/lib/supabase/admin', () => ({ getAdminClient: () => db }));
+
+const VAPID_SUBJECT = 'mailto:push@app.test';
+const vapid = createECDH('prime256v1');
+const VAPID_PUBLIC_KEY = vapid.generateKeys().toString('base64url');
+
+const USER = 'user-id';
+const OTHER_USER = 'other-user-id';
+
+const chrome = new TestSubscription('https://fcm.googleapis.com/fcm/send/chrome-subscription');
+const firefox = new TestSubscription('https://updates.push.services.mozilla.com/wpush/v2/firefox-subscription');
+
+// Verifies the Authorization header as a push service would and returns the
+// token's claims
+function vapidClaims(message: ReceivedMessage) {
+  const match = /^vapid t=([^,]+), k=(.+)$/.exec(String(message.headers.authorization));
+  expect(match).not.toBeNull();
+  const [, token, publicKey] = match!;
+  expect(publicKey).toBe(VAPID_PUBLIC_KEY);
+
+  const [header, claims, signature] = token.split('.');
+  expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({ typ: 'JWT', alg: 'ES256' });
+
+  const point = Buffer.from(publicKey, 'base64url');
+  const key = createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  const verified = verify(
+    'sha256',
+    Buffer.from(`${header}.${claims}`),
+    { key, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+  expect(verified).toBe(true);
+
+  return JSON.parse(Buffer.from(claims, 'base64url').toString()) as { aud: string; exp: number; sub: string };
+}
+
+const queueJob = (id: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  user_id: USER,
+  channel: 'push',
+  category: 'likes',
+  digest: false,
+  title: 'Someone liked your post',
+  body: 'Tap to see it',
+  url: '/posts/post-1',
+  tag: 'post-1',
+  attempts: 0,
+  claimed_at: null,
+  created_at: '2026-10-18T08:00:00Z',
+  next_attempt_at: '2026-10-18T08:00:00Z',
+  ...overrides,
+});
+
+const subscriptionRow = (id: string, userId: string, subscription: TestSubscription) => ({
+  id,
+  user_id: userId,
+  ...subscription.keys,
+  last_used_at: null,
+});
+
+beforeAll(async () => {
+  const url = await pushService.start();
+
+  vi.stubEnv('NEXT_PUBLIC_VAPID_PUBLIC_KEY', VAPID_PUBLIC_KEY);
+  vi.stubEnv('VAPID_PRIVATE_KEY', vapid.getPrivateKey().toString('base64url'));
+  vi.stubEnv('VAPID_SUBJECT', VAPID_SUBJECT);
+  vi.stubEnv('WEB_PUSH_ENDPOINT_OVERRIDE', url);
+
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterAll(async () => {
+  await pushService.stop();
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+});
+
+beforeEach(() => {
+  db.reset();
+  pushService.reset();
+
+  // Everything seeded is due, as the real claim would only return due rows
+  db.onRpc('claim_notification_queue', fake => fake.rows('notification_queue').map(row => ({ ...row })));
+});
+
+describe('sendWebPush', () => {
+  it('signs a VAPID token for the subscription origin', async () => {
+    await sendWebPush(chrome.keys, { title: 'Hello' });
+
+    const [message] = pushService.messages;
+    const claims = vapidClaims(message);
+    const now = Date.now() / 1000;
+
+    expect(claims.aud).toBe('https://fcm.googleapis.com');
+    expect(claims.sub).toBe(VAPID_SUBJECT);
+    expect(claims.exp).toBeGreaterThan(now);
+    expect(claims.exp).toBeLessThanOrEqual(now + 24 * 3600);
+  });
+
+  it('encrypts the payload so only the subscription can read it', async () => {
+    const payload = { title: 'New message', body: 'Hi there 👋', url: '/chat/1', tag: 'chat-1' };
+    await sendWebPush(firefox.keys, payload, { ttlSeconds: 60, urgency: 'high' });
+
+    const [message] = pushService.messages;
+    expect(message.endpoint).toBe(firefox.endpoint);
+    expect(message.headers).toMatchObject({
+      'content-encoding': 'aes128gcm',
+      'content-type': 'application/octet-stream',
+      ttl: '60',
+      urgency: 'high',
+    });
+    expect(message.body.readUInt32BE(16)).toBe(4096);
+    expect(firefox.decrypt(message.body)).toEqual(payload);
+    expect(() => chrome.decrypt(message.body)).toThrow();
+  });
+
+  it('reports a subscription the push service has dropped as expired', async () => {
+    pushService.respondWith(chrome.endpoint, 410);
+
+    const error = await sendWebPush(chrome.keys, { title: 'Hello' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(WebPushError);
+    expect(error.status).toBe(410);
+    expect(isExpiredSubscription(error)).toBe(true);
+  });
+
+  it('refuses a payload larger than one record', async () => {
+    await expect(sendWebPush(chrome.keys, { body: 'x'.repeat(5000) })).rejects.toThrow('Push payload is too large');
+    expect(pushService.messages).toHaveLength(0);
+  });
+});
+
+describe('dispatchNotificationQueue', () => {
+  it('sends each queued push to every browser the user subscribed', async () => {
+    db.seed('push_subscriptions', [
+      subscriptionRow('sub-chrome', USER, chrome),
+      subscriptionRow('sub-firefox', USER, firefox),
+    ]);
+    db.seed('notification_queue', [queueJob('job-1')]);
+
+    const result = await dispatchNotificationQueue('https://app.test');
+
+    expect(result).toEqual({ sent: 1, retried: 0, dropped: 0 });
+    const expected = { title: 'Someone liked your post', body: 'Tap to see it', url: '/posts/post-1', tag: 'post-1' };
+    for (const subscription of [chrome, firefox]) {
+      const [message] = pushService.messagesTo(subscription.endpoint);
+      expect(vapidClaims(message).aud).toBe(new URL(subscription.endpoint).origin);
+      expect(message.headers.urgency).toBe('normal');
+      expect(subscription.decrypt(message.body)).toEqual(expected);
+    }
+    expect(db.rows('notification_queue')).toHaveLength(0);
+    expect(db.rows('push_subscriptions').every(row => row.last_used_at)).toBe(true);
+  });
+
+  it('sends due digest rows as one summary', async () => {
+    db.seed('push_subscriptions', [subscriptionRow('sub-chrome', USER, chrome)]);
+    db.seed('notification_queue', [
+      queueJob('job-1', { digest: true }),
+      queueJob('job-2', { digest: true }),
+      queueJob('job-3', { digest: true, category: 'comments' }),
+    ]);
+
+    const result = await dispatchNotificationQueue('https://app.test');
+
+    expect(result).toEqual({ sent: 1, retried: 0, dropped: 0 });
+    expect(pushService.messages).toHaveLength(1);
+    expect(chrome.decrypt(pushService.messages[0].body)).toEqual({
+      title: 'Your daily summary',
+      body: '2 likes and 1 comment',
+      url: '/notifications',
+      tag: 'digest',
+    });
+    expect(db.rows('notification_queue')).toHaveLength(0);
+  });
+
+  it('sends messages with high urgency', async () => {
+    db.seed('push_subscriptions', [subscriptionRow('sub-chrome', USER, chrome)]);
+    db.seed('notification_queue', [queueJob('job-1', { category: 'messages' })]);
+
+    await dispatchNotificationQueue('https://app.test');
+
+    expect(pushService.messages[0].headers.urgency).toBe('high');
+  });
+
+  it('deletes expired subscriptions and drops pushes no browser can take', async () => {
+    pushService.respondWith(chrome.endpoint, 410);
+    pushService.respondWith(firefox.endpoint, 404);
+    db.seed('push_subscriptions', [
+      subscriptionRow('sub-chrome', USER, chrome),
+      subscriptionRow('sub-firefox', USER, firefox),
+    ]);
+    db.seed('notification_queue', [queueJob('job-1'), queueJob('job-2', { user_id: OTHER_USER })]);
+
+    const result = await dispatchNotificationQueue('https://app.test');
+
+    expect(result).toEqual({ sent: 0, retried: 0, dropped: 2 });
+    expect(db.rows('push_subscriptions')).toHaveLength(0);
+    expect(db.rows('notification_queue')).toHaveLength(0);
+  });
+
+  it('retries a push the push service failed to take', async () => {
+    pushService.respondWith(chrome.endpoint, 503);
+    db.seed('push_subscriptions', [subscriptionRow('sub-chrome', USER, chrome)]);
+    db.seed('notification_queue', [queueJob('job-1')]);
+
+    const result = await dispatchNotificationQueue('https://app.test');
+
+    expect(result).toEqual({ sent: 0, retried: 1, dropped: 0 });
+    expect(db.rows('push_subscriptions')).toHaveLength(1);
+    expect(db.rows('notification_queue')[0]).toMatchObject({ attempts: 1, claimed_at: null });
+    expect(Date.parse(db.rows('notification_queue')[0].next_attempt_at as string)).toBeGreaterThan(Date.now());
+  });
+});
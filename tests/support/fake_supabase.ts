@@ -0,0 +1,198 @@
+// In-memory stand-in for the service-role client from lib/supabase/admin,
+// covering the query builder calls the M-Pesa and notification code makes.
+// Selects return whole rows whatever columns were asked for, and RPCs answer
+// from handlers a test registers with onRpc.
+
+import { randomUUID } from 'node:crypto';
+
+type Row = Record<string, unknown>;
+type QueryError = { message: string };
+type QueryResult<T = unknown> = { data: T; error: QueryError | null };
+
+type Action = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+class FakeQuery implements PromiseLike<QueryResult> {
+  private action: Action = 'select';
+  private values: Row[] = [];
+  private patch: Row = {};
+  private conflictColumns: string[] = [];
+  private filters: ((row: Row) => boolean)[] = [];
+  private ordering: { column: string; ascending: boolean } | null = null;
+  private maxRows: number | null = null;
+
+  constructor(private rows: Row[]) {}
+
+  select() {
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.action = 'insert';
+    this.values = [values].flat();
+    return this;
+  }
+
+  update(patch: Row) {
+    this.action = 'update';
+    this.patch = patch;
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}) {
+    this.action = 'upsert';
+    this.values = [values].flat();
+    this.conflictColumns = (options.onConflict || 'id').split(',');
+    return this;
+  }
+
+  delete() {
+    this.action = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number) {
+    this.maxRows = count;
+    return this;
+  }
+
+  async single(): Promise<QueryResult<Row | null>> {
+    const { data, error } = this.execute();
+    if (error) return { data: null, error };
+    if (data.length !== 1) return { data: null, error: { message: `Expected 1 row, got ${data.length}` } };
+    return { data: data[0], error: null };
+  }
+
+  async maybeSingle(): Promise<QueryResult<Row | null>> {
+    const { data, error } = this.execute();
+    if (error) return { data: null, error };
+    if (data.length > 1) return { data: null, error: { message: `Expected at most 1 row, got ${data.length}` } };
+    return { data: data[0] ?? null, error: null };
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve(this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    return this.rows.filter(row => this.filters.every(filter => filter(row)));
+  }
+
+  // Copies, as rows that came over the network would be
+  private execute(): QueryResult<Row[]> {
+    const now = new Date().toISOString();
+    let result: Row[];
+
+    switch (this.action) {
+      case 'insert':
+        result = this.values.map(value => ({ id: randomUUID(), created_at: now, updated_at: now, ...value }));
+        this.rows.push(...result);
+        break;
+
+      case 'update':
+        result = this.matching();
+        result.forEach(row => Object.assign(row, this.patch));
+        break;
+
+      case 'upsert':
+        result = this.values.map(value => {
+          const existing = this.rows.find(row => this.conflictColumns.every(column => row[column] === value[column]));
+          if (existing) return Object.assign(existing, value);
+
+          const inserted = { id: randomUUID(), created_at: now, ...value };
+          this.rows.push(inserted);
+          return inserted;
+        });
+        break;
+
+      case 'delete':
+        result = this.matching();
+        result.forEach(row => this.rows.splice(this.rows.indexOf(row), 1));
+        break;
+
+      default: {
+        result = this.matching();
+        const ordering = this.ordering;
+        if (ordering) {
+          const direction = ordering.ascending ? 1 : -1;
+          result = [...result].sort((a, b) =>
+            String(a[ordering.column]) < String(b[ordering.column]) ? -direction : direction
+          );
+        }
+        if (this.maxRows !== null) result = result.slice(0, this.maxRows);
+      }
+    }
+
+    return { data: result.map(row => ({ ...row })), error: null };
+  }
+}
+
+type RpcHandler = (db: FakeSupabase, args: Row) => unknown;
+
+export class FakeSupabase {
+  private tables = new Map<string, Row[]>();
+  private sessions = new Map<string, { id: string }>();
+  private rpcs = new Map<string, RpcHandler>();
+
+  auth = {
+    getUser: async (token: string) => {
+      const user = this.sessions.get(token);
+      return user
+        ? { data: { user }, error: null }
+        : { data: { user: null }, error: { message: 'invalid JWT' } };
+    },
+  };
+
+  from(table: string) {
+    return new FakeQuery(this.rows(table));
+  }
+
+  async rpc(name: string, args: Row = {}): Promise<QueryResult> {
+    const handler = this.rpcs.get(name);
+    if (!handler) return { data: null, error: { message: `No fake for rpc ${name}` } };
+    return { data: handler(this, args), error: null };
+  }
+
+  onRpc(name: string, handler: RpcHandler) {
+    this.rpcs.set(name, handler);
+  }
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) this.tables.set(table, []);
+    return this.tables.get(table)!;
+  }
+
+  seed(table: string, rows: Row[]) {
+    this.rows(table).push(...rows);
+  }
+
+  // An access token getUser resolves to `userId`
+  signIn(userId: string): string {
+    const token = `token-${userId}`;
+    this.sessions.set(token, { id: userId });
+    return token;
+  }
+
+  reset() {
+    this.tables.clear();
+    this.sessions.clear();
+    this.rpcs.clear();
+  }
+}
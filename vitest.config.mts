@@ -0,0 +1,16 @@
+import { fileURLToPath } from "node:url";
+import { defineConfig } from "vitest/config";
+
+// Mirrors the path aliases in tsconfig.json
+export default defineConfig({
+  resolve: {
+    alias: [
+      { find: /^@\/components\//, replacement: fileURLToPath(new URL("./components/", import.meta.url)) },
+      { find: /^@\//, replacement: fileURLToPath(new URL("./src/", import.meta.url)) },
+    ],
+  },
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+  },
+});